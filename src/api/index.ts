@@ -11,13 +11,16 @@ import { strategyRoutes } from './routes/strategies';
 import { positionRoutes } from './routes/positions';
 import { riskRoutes } from './routes/risk';
 import { metricsRoutes } from './routes/metrics';
+import { backtestRoutes } from './routes/backtest';
+import { ApiServices } from './services';
 
 export class ApiServer {
   private app: express.Application;
   private server: any;
 
-  constructor() {
+  constructor(services?: ApiServices) {
     this.app = express();
+    this.app.locals.services = services;
     this.setupMiddleware();
     this.setupRoutes();
     this.setupErrorHandling();
@@ -72,6 +75,7 @@ export class ApiServer {
     this.app.use('/api/positions', positionRoutes);
     this.app.use('/api/risk', riskRoutes);
     this.app.use('/api/metrics', metricsRoutes);
+    this.app.use('/api/backtest', backtestRoutes);
 
     // Root endpoint
     this.app.get('/', (req, res) => {
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/error';
+import { getApiServices } from '../services';
+import { TimeFrame } from '../../types';
+
+export const backtestRoutes = Router();
+
+/**
+ * Run a strategy over stored historical pool data
+ */
+backtestRoutes.post('/', async (req, res) => {
+  try {
+    const {
+      strategy,
+      poolAddress,
+      timeframe = TimeFrame.HOURLY,
+      startTime,
+      endTime,
+      initialCapital,
+      parameters,
+      binStep,
+      transactionCost,
+      activeBinShare
+    } = req.body;
+
+    if (!strategy || !poolAddress || !startTime || !endTime || !initialCapital) {
+      return res.status(400).json({
+        success: false,
+        error: 'strategy, poolAddress, startTime, endTime and initialCapital are required'
+      });
+    }
+
+    if (!Object.values(TimeFrame).includes(timeframe)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid timeframe: ${timeframe}`
+      });
+    }
+
+    const services = getApiServices(req.app);
+    if (!services) {
+      return res.status(503).json({
+        success: false,
+        error: 'Backtesting is not available'
+      });
+    }
+
+    logger.info(`Running backtest: ${strategy} on ${poolAddress}`);
+
+    const report = await services.backtestService.run({
+      strategy,
+      poolAddress,
+      timeframe,
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+      initialCapital: Number(initialCapital),
+      parameters,
+      binStep,
+      transactionCost,
+      activeBinShare
+    });
+
+    return res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    const message = getErrorMessage(error);
+    logger.error(`Failed to run backtest: ${message}`);
+
+    if (message.startsWith('Strategy not found')) {
+      return res.status(404).json({
+        success: false,
+        error: message
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: message
+    });
+  }
+});
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/error';
+import { getApiServices } from '../services';
 
 export const healthRoutes = Router();
 
@@ -41,6 +42,7 @@ healthRoutes.get('/status', async (req, res) => {
       database: 'healthy', // TODO: Add actual database health check
       solana: 'healthy',   // TODO: Add actual Solana connection check
       strategies: 'healthy', // TODO: Add strategy health check
+      executionMode: getApiServices(req.app)?.orderExecutionService.getMode(),
       timestamp: new Date().toISOString()
     };
 
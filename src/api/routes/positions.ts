@@ -1,16 +1,66 @@
 import { Router } from 'express';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/error';
+import { getApiServices } from '../services';
+import { AdoptionCandidate, ExecutionMode, Position } from '../../types';
+import { UNMANAGED_DEPLOYMENT } from '../../services/position-adoption';
+import { strategyRegistry } from '../../strategies/registry';
 
 export const positionRoutes = Router();
 
+const toPositionSummary = (position: Position, mode: ExecutionMode) => ({
+  id: position.id,
+  mode,
+  poolAddress: position.poolAddress,
+  strategy: position.strategy,
+  status: position.status,
+  lowerBinId: position.lowerBinId,
+  upperBinId: position.upperBinId,
+  liquidityX: position.liquidityX.toString(),
+  liquidityY: position.liquidityY.toString(),
+  totalLiquidity: position.totalLiquidity.toString(),
+  entryPrice: position.entryPrice.toString(),
+  currentPrice: position.currentPrice.toString(),
+  unrealizedPnl: position.unrealizedPnl.toString(),
+  realizedPnl: position.realizedPnl.toString(),
+  feesCollected: position.feesCollected.toString(),
+  impermanentLoss: position.impermanentLoss.toString(),
+  createdAt: position.createdAt.toISOString(),
+  updatedAt: position.updatedAt.toISOString()
+});
+
+export type PositionSummary = ReturnType<typeof toPositionSummary>;
+
+const toCandidateSummary = (candidate: AdoptionCandidate) => ({
+  ...candidate,
+  amountX: candidate.amountX.toString(),
+  amountY: candidate.amountY.toString(),
+  value: candidate.value.toString(),
+  estimatedEntryPrice: candidate.estimatedEntryPrice.toString(),
+  currentPrice: candidate.currentPrice.toString()
+});
+
+export type CandidateSummary = ReturnType<typeof toCandidateSummary>;
+
 /**
- * Get all positions
+ * Get all active positions, live and paper, optionally filtered by ?mode=
  */
 positionRoutes.get('/', async (req, res) => {
   try {
-    // TODO: Implement actual position fetching from database
-    const positions = []; // Placeholder
+    const services = getApiServices(req.app);
+    const { mode } = req.query;
+    const positions: PositionSummary[] = [];
+
+    if (services) {
+      if (!mode || mode === ExecutionMode.LIVE) {
+        const live = await services.databaseService.getActivePositions();
+        positions.push(...live.map(position => toPositionSummary(position, ExecutionMode.LIVE)));
+      }
+      if (!mode || mode === ExecutionMode.PAPER) {
+        const paper = await services.databaseService.getActivePaperPositions();
+        positions.push(...paper.map(position => toPositionSummary(position, ExecutionMode.PAPER)));
+      }
+    }
 
     res.json({
       success: true,
@@ -25,33 +75,163 @@ positionRoutes.get('/', async (req, res) => {
   }
 });
 
+/**
+ * Get the result of the last reconciliation against on-chain positions, or
+ * null before the first one completes
+ */
+positionRoutes.get('/reconciliation', async (req, res) => {
+  try {
+    const services = getApiServices(req.app);
+
+    return res.json({
+      success: true,
+      data: services?.reconciliationService.getLastReport() ?? null
+    });
+  } catch (error) {
+    logger.error(`Failed to get reconciliation report: ${getErrorMessage(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get reconciliation report'
+    });
+  }
+});
+
+/**
+ * Get wallet positions in the target pools that the bot has not recorded
+ */
+positionRoutes.get('/adoptable', async (req, res) => {
+  try {
+    const services = getApiServices(req.app);
+    if (!services) {
+      return res.status(503).json({
+        success: false,
+        error: 'Position adoption is not available'
+      });
+    }
+
+    const candidates = await services.positionAdoptionService.discover();
+
+    return res.json({
+      success: true,
+      data: candidates.map(toCandidateSummary)
+    });
+  } catch (error) {
+    logger.error(`Failed to discover adoptable positions: ${getErrorMessage(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to discover adoptable positions'
+    });
+  }
+});
+
 /**
  * Get specific position
  */
 positionRoutes.get('/:address', async (req, res) => {
   try {
     const { address } = req.params;
-    
-    // TODO: Implement actual position fetching
+    const services = getApiServices(req.app);
     logger.info(`Getting position: ${address}`);
 
-    res.json({
-      success: true,
-      data: {
-        address,
-        // TODO: Add actual position data
-        placeholder: true
-      }
+    if (!services) {
+      return res.json({
+        success: true,
+        data: {
+          address,
+          placeholder: true
+        }
+      });
+    }
+
+    const livePosition = await services.databaseService.getPosition(address);
+    if (livePosition) {
+      return res.json({
+        success: true,
+        data: toPositionSummary(livePosition, ExecutionMode.LIVE)
+      });
+    }
+
+    const paperPosition = await services.databaseService.getPaperPosition(address);
+    if (paperPosition) {
+      return res.json({
+        success: true,
+        data: {
+          ...toPositionSummary(paperPosition, ExecutionMode.PAPER),
+          fills: await services.databaseService.getPaperTransactionsByPosition(address)
+        }
+      });
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: `Position not found: ${address}`
     });
   } catch (error) {
     logger.error(`Failed to get position: ${getErrorMessage(error)}`);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: 'Failed to get position'
     });
   }
 });
 
+/**
+ * Adopt an unrecorded wallet position under a deployment on its pool, or as
+ * unmanaged when no deploymentId is given. Requires confirm: true.
+ */
+positionRoutes.post('/:address/adopt', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { deploymentId = UNMANAGED_DEPLOYMENT, confirm } = req.body;
+
+    if (confirm !== true) {
+      return res.status(400).json({
+        success: false,
+        error: 'Adopting a position requires confirm: true'
+      });
+    }
+
+    const services = getApiServices(req.app);
+    if (!services) {
+      return res.status(503).json({
+        success: false,
+        error: 'Position adoption is not available'
+      });
+    }
+
+    const candidate = await services.positionAdoptionService.getCandidate(address);
+    if (!candidate) {
+      return res.status(404).json({
+        success: false,
+        error: `No unrecorded wallet position in the target pools: ${address}`
+      });
+    }
+
+    if (deploymentId !== UNMANAGED_DEPLOYMENT &&
+      (!strategyRegistry.has(deploymentId) || strategyRegistry.getDeployment(deploymentId).poolAddress !== candidate.poolAddress)) {
+      return res.status(400).json({
+        success: false,
+        error: `No deployment ${deploymentId} on pool ${candidate.poolAddress}`
+      });
+    }
+
+    logger.info(`Adopting position ${address}`, { deploymentId });
+    const position = await services.positionAdoptionService.adopt(candidate, deploymentId);
+
+    return res.json({
+      success: true,
+      message: `Position ${address} adopted`,
+      data: toPositionSummary(position, ExecutionMode.LIVE)
+    });
+  } catch (error) {
+    logger.error(`Failed to adopt position: ${getErrorMessage(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: `Failed to adopt position: ${getErrorMessage(error)}`
+    });
+  }
+});
+
 /**
  * Close a position
  */
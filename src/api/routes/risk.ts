@@ -1,36 +1,105 @@
-import { Router } from 'express';
+import { Request, Router } from 'express';
+import Joi from 'joi';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/error';
+import { getApiServices } from '../services';
+import { RiskSettings, assessRisk, getDefaultRiskSettings } from '../../services/risk';
+import { AlertLevel, EmergencyHalt, PoolRisk, PositionRisk, RiskLevel, RiskReport } from '../../types';
 
 export const riskRoutes = Router();
 
+const ilBuckets = ['safe', 'warning', 'action', 'critical', 'emergency'] as const;
+
+const getIlBucket = (lossRatio: number, settings: RiskSettings): typeof ilBuckets[number] => {
+  if (lossRatio < settings.ilWarningThreshold) return 'safe';
+  if (lossRatio < settings.ilActionThreshold) return 'warning';
+  if (lossRatio < settings.ilCriticalThreshold) return 'action';
+  if (lossRatio < settings.ilEmergencyThreshold) return 'critical';
+  return 'emergency';
+};
+
+const toPositionRiskSummary = (risk: PositionRisk) => ({
+  ...risk,
+  value: risk.value.toString(),
+  pnl: risk.pnl.toString(),
+  impermanentLoss: risk.impermanentLoss.toString(),
+  feesEarned: risk.feesEarned.toString(),
+  netPnl: risk.netPnl.toString()
+});
+
+const toPoolRiskSummary = (risk: PoolRisk) => ({
+  ...risk,
+  value: risk.value.toString(),
+  impermanentLoss: risk.impermanentLoss.toString()
+});
+
+const toHaltSummary = (halt: EmergencyHalt) => ({
+  reason: halt.reason,
+  haltedAt: halt.haltedAt.toISOString(),
+  resetAt: halt.resetAt?.toISOString(),
+  resetReason: halt.resetReason
+});
+
+// Settings the risk service and IL policy read on every evaluation, bounded as in the config schema
+const parametersSchema = Joi.object({
+  ilWarningThreshold: Joi.number().min(0).max(1),
+  ilActionThreshold: Joi.number().min(0).max(1),
+  ilCriticalThreshold: Joi.number().min(0).max(1),
+  ilEmergencyThreshold: Joi.number().min(0).max(1),
+  ilActionCooldown: Joi.number().integer().min(0),
+  ilWithdrawPercentage: Joi.number().greater(0).less(100),
+  maxVolatilityThreshold: Joi.number().min(0).max(1),
+  maxDrawdownThreshold: Joi.number().min(0).max(1),
+  minLiquidityUsd: Joi.number().positive()
+}).min(1);
+
+// The standalone API holds no positions, so it reports an empty portfolio
+const getRiskReport = async (req: Request): Promise<{ report: RiskReport; settings: RiskSettings }> => {
+  const services = getApiServices(req.app);
+  if (!services) {
+    const settings = getDefaultRiskSettings();
+    return { report: assessRisk({ positions: [], pools: new Map(), history: [], flows: [] }, settings), settings };
+  }
+  return { report: await services.riskService.getReport(), settings: services.riskService.getSettings() };
+};
+
 /**
  * Get risk summary
  */
 riskRoutes.get('/summary', async (req, res) => {
   try {
-    // TODO: Implement actual risk calculation
+    const { report } = await getRiskReport(req);
+    const { metrics } = report;
+    const services = getApiServices(req.app);
+    const alerts: { level: string }[] = services ? await services.databaseService.getUnacknowledgedAlerts() : [];
+
     const riskSummary = {
       portfolioRisk: {
-        level: 'medium',
-        score: 45, // 0-100
-        factors: {
-          impermanentLoss: 15,
-          volatility: 25,
-          concentration: 20,
-          liquidity: 10
-        }
+        level: report.level,
+        score: metrics.riskScore,
+        factors: report.factors
+      },
+      metrics: {
+        ...metrics,
+        portfolioValue: metrics.portfolioValue.toString(),
+        totalPnl: metrics.totalPnl.toString(),
+        impermanentLoss: metrics.impermanentLoss.toString()
       },
       positions: {
-        total: 0,
-        atRisk: 0,
-        highRisk: 0
+        total: report.positions.length,
+        atRisk: report.positions.filter(position => position.riskLevel !== RiskLevel.LOW).length,
+        highRisk: report.positions.filter(position =>
+          position.riskLevel === RiskLevel.HIGH || position.riskLevel === RiskLevel.EXTREME
+        ).length,
+        outOfRange: report.positions.filter(position => !position.inRange).length,
+        breakdown: report.positions.map(toPositionRiskSummary)
       },
+      pools: report.pools.map(toPoolRiskSummary),
       alerts: {
-        active: 0,
-        critical: 0
+        active: alerts.length,
+        critical: alerts.filter(alert => alert.level === AlertLevel.CRITICAL || alert.level === AlertLevel.EMERGENCY).length
       },
-      calculatedAt: new Date().toISOString()
+      calculatedAt: report.evaluatedAt.toISOString()
     };
 
     res.json({
@@ -51,8 +120,8 @@ riskRoutes.get('/summary', async (req, res) => {
  */
 riskRoutes.get('/alerts', async (req, res) => {
   try {
-    // TODO: Implement actual alert fetching
-    const alerts = []; // Placeholder
+    const services = getApiServices(req.app);
+    const alerts = services ? await services.databaseService.getUnacknowledgedAlerts() : [];
 
     res.json({
       success: true,
@@ -68,25 +137,42 @@ riskRoutes.get('/alerts', async (req, res) => {
 });
 
 /**
- * Get IL (Impermanent Loss) summary
+ * Get IL (Impermanent Loss) summary, bucketed by the IL thresholds
  */
 riskRoutes.get('/il/summary', async (req, res) => {
   try {
-    // TODO: Implement actual IL calculation
+    const { report, settings } = await getRiskReport(req);
+    const { impermanentLoss, portfolioValue } = report.metrics;
+    const positions = Object.fromEntries(ilBuckets.map(bucket => [bucket, 0])) as Record<typeof ilBuckets[number], number>;
+
+    for (const position of report.positions) {
+      positions[getIlBucket(position.impermanentLossRatio, settings)]++;
+    }
+
+    const heldValue = portfolioValue.add(impermanentLoss);
     const ilSummary = {
       totalIL: {
-        percentage: 0,
-        usdValue: 0
+        percentage: heldValue.gt(0) ? Number(impermanentLoss.div(heldValue).mul(100).toString()) : 0,
+        usdValue: Number(impermanentLoss.toString())
       },
-      positions: {
-        safe: 0,      // IL < 2%
-        warning: 0,   // IL 2-5%
-        action: 0,    // IL 5-10%
-        critical: 0,  // IL 10-20%
-        emergency: 0  // IL > 20%
-      },
-      averageIL: 0,
-      calculatedAt: new Date().toISOString()
+      positions,
+      averageIL: report.positions.length > 0
+        ? report.positions.reduce((sum, position) => sum + position.impermanentLossRatio, 0) / report.positions.length * 100
+        : 0,
+      byPosition: report.positions.map(position => ({
+        positionId: position.positionId,
+        poolAddress: position.poolAddress,
+        impermanentLoss: position.impermanentLoss.toString(),
+        percentage: position.impermanentLossRatio * 100,
+        feesEarned: position.feesEarned.toString(),
+        netPnl: position.netPnl.toString(),
+        level: getIlBucket(position.impermanentLossRatio, settings)
+      })),
+      byPool: report.pools.map(pool => ({
+        poolAddress: pool.poolAddress,
+        impermanentLoss: pool.impermanentLoss.toString()
+      })),
+      calculatedAt: report.evaluatedAt.toISOString()
     };
 
     res.json({
@@ -103,27 +189,66 @@ riskRoutes.get('/il/summary', async (req, res) => {
 });
 
 /**
- * Emergency stop - close all positions
+ * Current emergency halt state
+ */
+riskRoutes.get('/emergency', async (req, res) => {
+  try {
+    const services = getApiServices(req.app);
+    if (!services) {
+      return res.status(503).json({
+        success: false,
+        error: 'Emergency controls are not available'
+      });
+    }
+
+    const halt = services.haltService.getHalt();
+
+    return res.json({
+      success: true,
+      data: {
+        halted: halt !== null,
+        halt: halt ? toHaltSummary(halt) : null
+      }
+    });
+  } catch (error) {
+    logger.error(`Failed to get emergency state: ${getErrorMessage(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get emergency state'
+    });
+  }
+});
+
+/**
+ * Emergency stop - halt trading until reset, allowing only exits; with
+ * exitPositions: true every open position is also exited
  */
 riskRoutes.post('/emergency/stop', async (req, res) => {
   try {
-    const { reason } = req.body;
+    const { reason = 'No reason provided', exitPositions = false } = req.body;
 
-    // TODO: Implement actual emergency stop
-    logger.warn(`Emergency stop triggered: ${reason || 'No reason provided'}`);
+    const services = getApiServices(req.app);
+    if (!services) {
+      return res.status(503).json({
+        success: false,
+        error: 'Emergency controls are not available'
+      });
+    }
 
-    res.json({
+    const halt = await services.haltService.halt(reason);
+    const exits = exitPositions === true ? await services.orderExecutionService.exitAllPositions() : undefined;
+
+    return res.json({
       success: true,
       message: 'Emergency stop initiated',
       data: {
-        reason,
-        triggeredAt: new Date().toISOString(),
-        status: 'processing'
+        halt: toHaltSummary(halt),
+        exits
       }
     });
   } catch (error) {
     logger.error(`Failed to execute emergency stop: ${getErrorMessage(error)}`);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: 'Failed to execute emergency stop'
     });
@@ -131,23 +256,51 @@ riskRoutes.post('/emergency/stop', async (req, res) => {
 });
 
 /**
- * Reset emergency state
+ * Reset emergency state. Requires a reason and confirm: true.
  */
 riskRoutes.post('/emergency/reset', async (req, res) => {
   try {
-    // TODO: Implement actual emergency reset
-    logger.info('Emergency state reset');
+    const { reason, confirm } = req.body;
 
-    res.json({
+    if (typeof reason !== 'string' || reason.trim() === '') {
+      return res.status(400).json({
+        success: false,
+        error: 'A reason is required to reset the emergency halt'
+      });
+    }
+
+    if (confirm !== true) {
+      return res.status(400).json({
+        success: false,
+        error: 'Resetting the emergency halt requires confirm: true'
+      });
+    }
+
+    const services = getApiServices(req.app);
+    if (!services) {
+      return res.status(503).json({
+        success: false,
+        error: 'Emergency controls are not available'
+      });
+    }
+
+    if (!services.haltService.isHalted()) {
+      return res.status(409).json({
+        success: false,
+        error: 'Trading is not halted'
+      });
+    }
+
+    const halt = await services.haltService.reset(reason.trim());
+
+    return res.json({
       success: true,
       message: 'Emergency state reset',
-      data: {
-        resetAt: new Date().toISOString()
-      }
+      data: toHaltSummary(halt)
     });
   } catch (error) {
     logger.error(`Failed to reset emergency state: ${getErrorMessage(error)}`);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: 'Failed to reset emergency state'
     });
@@ -155,7 +308,8 @@ riskRoutes.post('/emergency/reset', async (req, res) => {
 });
 
 /**
- * Update risk parameters
+ * Update risk parameters. The change holds until the next restart, which
+ * reads them from the environment again.
  */
 riskRoutes.put('/parameters', async (req, res) => {
   try {
@@ -168,14 +322,45 @@ riskRoutes.put('/parameters', async (req, res) => {
       });
     }
 
-    // TODO: Implement actual parameter update
-    logger.info('Risk parameters updated', { parameters });
+    const { error, value } = parametersSchema.validate(parameters);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid risk parameters: ${error.message}`
+      });
+    }
+
+    const services = getApiServices(req.app);
+    if (!services) {
+      return res.status(503).json({
+        success: false,
+        error: 'Risk controls are not available'
+      });
+    }
+
+    const { ilWarningThreshold, ilActionThreshold, ilCriticalThreshold, ilEmergencyThreshold } = {
+      ...services.ilPolicyService.getSettings(),
+      ...value
+    };
+    if (!(ilWarningThreshold < ilActionThreshold && ilActionThreshold < ilCriticalThreshold &&
+      ilCriticalThreshold < ilEmergencyThreshold)) {
+      return res.status(400).json({
+        success: false,
+        error: 'IL thresholds must increase from warning to action, critical and emergency'
+      });
+    }
+
+    // Each service takes the parameters it has settings for
+    const settingsFor = (current: object) => Object.fromEntries(Object.entries(value).filter(([key]) => key in current));
+    const riskSettings = services.riskService.updateSettings(settingsFor(services.riskService.getSettings()));
+    const ilPolicySettings = services.ilPolicyService.updateSettings(settingsFor(services.ilPolicyService.getSettings()));
+    logger.info('Risk parameters updated', { parameters: value });
 
     return res.json({
       success: true,
       message: 'Risk parameters updated',
       data: {
-        parameters,
+        parameters: { ...riskSettings, ...ilPolicySettings },
         updatedAt: new Date().toISOString()
       }
     });
@@ -2,18 +2,36 @@ import { Router } from 'express';
 import { strategyRegistry } from '../../strategies/registry';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/error';
+import { getApiServices } from '../services';
+import { DeploymentStatus, StrategyDeployment } from '../../types';
 
 export const strategyRoutes = Router();
 
+const toDeploymentSummary = (deployment: StrategyDeployment) => ({
+  id: deployment.id,
+  strategy: deployment.strategyType,
+  poolAddress: deployment.poolAddress,
+  parameters: deployment.parameters,
+  status: deployment.status,
+  lastError: deployment.lastError,
+  createdAt: deployment.createdAt.toISOString(),
+  updatedAt: deployment.updatedAt.toISOString()
+});
+
+const toDeploymentDetail = (deployment: StrategyDeployment) => ({
+  ...toDeploymentSummary(deployment),
+  state: deployment.strategy.getState()
+});
+
 /**
- * Get all available strategies
+ * Get all available strategies with their deployments
  */
 strategyRoutes.get('/', async (req, res) => {
   try {
-    const strategies = strategyRegistry.getAll().map(strategy => ({
-      name: strategy.name,
-      description: strategy.description,
-      riskLevel: strategy.riskLevel
+    const deployments = strategyRegistry.getDeployments();
+    const strategies = strategyRegistry.listTypes().map(type => ({
+      ...type,
+      deployments: deployments.filter(deployment => deployment.strategyType === type.name).map(toDeploymentDetail)
     }));
 
     res.json({
@@ -29,6 +47,149 @@ strategyRoutes.get('/', async (req, res) => {
   }
 });
 
+/**
+ * Get all strategy deployments with their runtime state
+ */
+strategyRoutes.get('/deployments', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: strategyRegistry.getDeployments().map(toDeploymentDetail)
+    });
+  } catch (error) {
+    logger.error(`Failed to get strategy deployments: ${getErrorMessage(error)}`);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get strategy deployments'
+    });
+  }
+});
+
+/**
+ * Get a strategy deployment with its runtime state
+ */
+strategyRoutes.get('/deployments/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!strategyRegistry.has(id)) {
+      return res.status(404).json({
+        success: false,
+        error: `Strategy deployment not found: ${id}`
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: toDeploymentDetail(strategyRegistry.getDeployment(id))
+    });
+  } catch (error) {
+    logger.error(`Failed to get strategy deployment: ${getErrorMessage(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get strategy deployment'
+    });
+  }
+});
+
+/**
+ * Start a strategy deployment
+ */
+strategyRoutes.post('/deployments/:id/start', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!strategyRegistry.has(id)) {
+      return res.status(404).json({
+        success: false,
+        error: `Strategy deployment not found: ${id}`
+      });
+    }
+
+    const deployment = await strategyRegistry.start(id);
+
+    return res.json({
+      success: true,
+      message: `Strategy deployment ${id} started`,
+      data: toDeploymentSummary(deployment)
+    });
+  } catch (error) {
+    logger.error(`Failed to start strategy deployment: ${getErrorMessage(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: `Failed to start strategy deployment: ${getErrorMessage(error)}`
+    });
+  }
+});
+
+/**
+ * Stop a strategy deployment
+ */
+strategyRoutes.post('/deployments/:id/stop', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!strategyRegistry.has(id)) {
+      return res.status(404).json({
+        success: false,
+        error: `Strategy deployment not found: ${id}`
+      });
+    }
+
+    const deployment = await strategyRegistry.stop(id);
+
+    return res.json({
+      success: true,
+      message: `Strategy deployment ${id} stopped`,
+      data: toDeploymentSummary(deployment)
+    });
+  } catch (error) {
+    logger.error(`Failed to stop strategy deployment: ${getErrorMessage(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: `Failed to stop strategy deployment: ${getErrorMessage(error)}`
+    });
+  }
+});
+
+/**
+ * Update a strategy deployment's parameters
+ */
+strategyRoutes.put('/deployments/:id/config', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { parameters } = req.body;
+
+    if (!parameters || typeof parameters !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: 'Parameters object is required'
+      });
+    }
+
+    if (!strategyRegistry.has(id)) {
+      return res.status(404).json({
+        success: false,
+        error: `Strategy deployment not found: ${id}`
+      });
+    }
+
+    const deployment = await strategyRegistry.reconfigure(id, parameters);
+
+    return res.json({
+      success: true,
+      message: `Strategy deployment ${id} reconfigured`,
+      data: toDeploymentSummary(deployment)
+    });
+  } catch (error) {
+    logger.error(`Failed to reconfigure strategy deployment: ${getErrorMessage(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: `Failed to reconfigure strategy deployment: ${getErrorMessage(error)}`
+    });
+  }
+});
+
 /**
  * Get specific strategy details
  */
@@ -36,21 +197,21 @@ strategyRoutes.get('/:name', async (req, res) => {
   try {
     const { name } = req.params;
     
-    if (!strategyRegistry.has(name)) {
+    const strategyType = strategyRegistry.listTypes().find(type => type.name === name);
+    if (!strategyType) {
       return res.status(404).json({
         success: false,
         error: `Strategy not found: ${name}`
       });
     }
 
-    const strategy = strategyRegistry.get(name);
-    
     return res.json({
       success: true,
       data: {
-        name: strategy.name,
-        description: strategy.description,
-        riskLevel: strategy.riskLevel
+        ...strategyType,
+        deployments: strategyRegistry.getDeployments()
+          .filter(deployment => deployment.strategyType === name)
+          .map(toDeploymentDetail)
       }
     });
   } catch (error) {
@@ -63,11 +224,11 @@ strategyRoutes.get('/:name', async (req, res) => {
 });
 
 /**
- * Activate a strategy
+ * Activate a strategy by creating a deployment on a pool
  */
 strategyRoutes.post('/activate', async (req, res) => {
   try {
-    const { strategy: strategyName, poolAddress, parameters } = req.body;
+    const { strategy: strategyName, poolAddress, parameters, deploymentId } = req.body;
 
     if (!strategyName || !poolAddress) {
       return res.status(400).json({
@@ -76,60 +237,84 @@ strategyRoutes.post('/activate', async (req, res) => {
       });
     }
 
-    if (!strategyRegistry.has(strategyName)) {
+    if (!strategyRegistry.hasType(strategyName)) {
       return res.status(404).json({
         success: false,
         error: `Strategy not found: ${strategyName}`
       });
     }
 
-    // TODO: Implement actual strategy activation
-    logger.info(`Activating strategy ${strategyName} for pool ${poolAddress}`, { parameters });
+    const id = deploymentId || `${strategyName}:${poolAddress}`;
+    if (strategyRegistry.has(id)) {
+      return res.status(409).json({
+        success: false,
+        error: `Strategy deployment already exists: ${id}`
+      });
+    }
+
+    logger.info(`Activating strategy ${strategyName} for pool ${poolAddress}`, { deploymentId: id, parameters });
+
+    // Strategies read the pool from market data, so it must be tracked before the deployment starts
+    const services = getApiServices(req.app);
+    if (services && !services.marketDataService.getDLMMInstance(poolAddress)) {
+      await services.marketDataService.addPool(poolAddress);
+    }
+
+    const deployment = await strategyRegistry.deploy({
+      id,
+      strategy: strategyName,
+      poolAddress,
+      parameters: parameters || {}
+    });
 
     return res.json({
       success: true,
       message: `Strategy ${strategyName} activated for pool ${poolAddress}`,
-      data: {
-        strategy: strategyName,
-        poolAddress,
-        parameters,
-        activatedAt: new Date().toISOString()
-      }
+      data: toDeploymentDetail(deployment)
     });
   } catch (error) {
     logger.error(`Failed to activate strategy: ${getErrorMessage(error)}`);
     return res.status(500).json({
       success: false,
-      error: 'Failed to activate strategy'
+      error: `Failed to activate strategy: ${getErrorMessage(error)}`
     });
   }
 });
 
 /**
- * Deactivate a strategy
+ * Deactivate a strategy by stopping its deployment on a pool
  */
 strategyRoutes.post('/deactivate', async (req, res) => {
   try {
-    const { strategy: strategyName, poolAddress } = req.body;
+    const { strategy: strategyName, poolAddress, deploymentId } = req.body;
 
-    if (!strategyName || !poolAddress) {
+    if (!deploymentId && (!strategyName || !poolAddress)) {
       return res.status(400).json({
         success: false,
-        error: 'Strategy name and pool address are required'
+        error: 'Deployment id or strategy name and pool address are required'
       });
     }
 
-    // TODO: Implement actual strategy deactivation
-    logger.info(`Deactivating strategy ${strategyName} for pool ${poolAddress}`);
+    const deployments = deploymentId
+      ? strategyRegistry.getDeployments().filter(deployment => deployment.id === deploymentId)
+      : strategyRegistry.getByPool(poolAddress).filter(deployment => deployment.strategyType === strategyName);
+
+    if (deployments.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Strategy deployment not found: ${deploymentId || `${strategyName}:${poolAddress}`}`
+      });
+    }
+
+    logger.info('Deactivating strategy deployments', { deployments: deployments.map(d => d.id) });
+    for (const deployment of deployments) {
+      await strategyRegistry.stop(deployment.id);
+    }
 
     return res.json({
       success: true,
-      message: `Strategy ${strategyName} deactivated for pool ${poolAddress}`,
-      data: {
-        strategy: strategyName,
-        poolAddress,
-        deactivatedAt: new Date().toISOString()
-      }
+      message: `Strategy ${deployments[0].strategyType} deactivated for pool ${deployments[0].poolAddress}`,
+      data: deployments.map(toDeploymentSummary)
     });
   } catch (error) {
     logger.error(`Failed to deactivate strategy: ${getErrorMessage(error)}`);
@@ -145,8 +330,9 @@ strategyRoutes.post('/deactivate', async (req, res) => {
  */
 strategyRoutes.get('/active/list', async (req, res) => {
   try {
-    // TODO: Implement actual active strategy tracking
-    const activeStrategies = []; // Placeholder
+    const activeStrategies = strategyRegistry.getDeployments()
+      .filter(deployment => deployment.status === DeploymentStatus.RUNNING)
+      .map(toDeploymentSummary);
 
     res.json({
       success: true,
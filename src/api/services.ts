@@ -0,0 +1,27 @@
+import { Application } from 'express';
+import { BacktestService } from '../services/backtest';
+import { DatabaseService } from '../services/database';
+import { MarketDataService } from '../services/market-data';
+import { OrderExecutionService } from '../services/order-execution';
+import { ReconciliationService } from '../services/reconciliation';
+import { PositionAdoptionService } from '../services/position-adoption';
+import { RiskService } from '../services/risk';
+import { ILPolicyService } from '../services/il-policy';
+import { EmergencyHaltService } from '../services/emergency-halt';
+
+// Services the route handlers read from app.locals; absent when the API runs standalone
+export interface ApiServices {
+  databaseService: DatabaseService;
+  marketDataService: MarketDataService;
+  orderExecutionService: OrderExecutionService;
+  backtestService: BacktestService;
+  reconciliationService: ReconciliationService;
+  positionAdoptionService: PositionAdoptionService;
+  riskService: RiskService;
+  ilPolicyService: ILPolicyService;
+  haltService: EmergencyHaltService;
+}
+
+export const getApiServices = (app: Application): ApiServices | undefined => {
+  return app.locals.services;
+};
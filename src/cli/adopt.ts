@@ -0,0 +1,88 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import { ApiResponse } from '../types';
+import { CandidateSummary, PositionSummary } from '../api/routes/positions';
+
+const FLAGS = ['list', 'confirm', 'help'];
+
+const usage = `Usage: npm run adopt -- --list
+       npm run adopt -- --position <address> [--deployment <id>] [--confirm]
+
+Adopts a wallet position the running bot has not recorded. Without --confirm
+the position is only shown.
+
+Options:
+  --list               List unrecorded wallet positions in the target pools
+  --position <address> Position to adopt
+  --deployment <id>    Deployment on the position's pool to manage it (default: unmanaged)
+  --confirm            Record the position
+  --url <url>          Bot API (default: http://localhost:<API_PORT>)
+`;
+
+const parseArgs = (argv: string[]): Record<string, string | true> => {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) {
+      continue;
+    }
+    const name = argv[i].slice(2);
+    if (FLAGS.includes(name)) {
+      args[name] = true;
+    } else {
+      args[name] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+};
+
+// The running bot owns the database, so adoption goes through its API
+const request = async <T>(url: string, method: string = 'GET', body?: Record<string, any>): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'x-api-key': config.api.secret },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const result = await response.json() as ApiResponse<T>;
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data as T;
+};
+
+const main = async (): Promise<void> => {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help || (!args.list && typeof args.position !== 'string')) {
+    process.stdout.write(usage);
+    return;
+  }
+
+  const api = `${typeof args.url === 'string' ? args.url : `http://localhost:${config.api.port}`}/api/positions`;
+  const candidates = await request<CandidateSummary[]>(`${api}/adoptable`);
+
+  if (args.list) {
+    process.stdout.write(`${JSON.stringify(candidates, null, 2)}\n`);
+    return;
+  }
+
+  const candidate = candidates.find(c => c.positionId === args.position);
+  if (!candidate) {
+    throw new Error(`No unrecorded wallet position in the target pools: ${args.position}`);
+  }
+
+  const deploymentId = typeof args.deployment === 'string' ? args.deployment : undefined;
+  if (!args.confirm) {
+    process.stdout.write(`${JSON.stringify({ ...candidate, deploymentId: deploymentId || 'unmanaged' }, null, 2)}\n`);
+    process.stdout.write('Rerun with --confirm to adopt this position\n');
+    return;
+  }
+
+  const position = await request<PositionSummary>(`${api}/${candidate.positionId}/adopt`, 'POST', { deploymentId, confirm: true });
+  process.stdout.write(`${JSON.stringify(position, null, 2)}\n`);
+};
+
+main().catch(error => {
+  logger.error('Adoption failed', { error: getErrorMessage(error) });
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+import { HistoricalDataService } from '../services/historical-data';
+import { BacktestService } from '../services/backtest';
+import { registerStrategyTypes } from '../strategies';
+import { strategyRegistry } from '../strategies/registry';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import { BacktestRequest, TimeFrame } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const usage = `Usage: npm run backtest -- --strategy <name> --pool <address> [options]
+
+Options:
+  --timeframe <hourly|daily|weekly>  Data resolution (default: hourly)
+  --from <date>                      Start of the replay (default: 30 days ago)
+  --to <date>                        End of the replay (default: now)
+  --capital <amount>                 Initial capital in quote token (default: 10000)
+  --params <json>                    Strategy parameter overrides
+  --bin-step <bps>                   Pool bin step (default: inferred from prices)
+  --tx-cost <amount>                 Cost per transaction in quote token (default: 0)
+`;
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+};
+
+const buildRequest = (args: Record<string, string>): BacktestRequest => {
+  if (!args.strategy || !args.pool) {
+    throw new Error('--strategy and --pool are required');
+  }
+
+  const timeframe = (args.timeframe || TimeFrame.HOURLY) as TimeFrame;
+  if (!Object.values(TimeFrame).includes(timeframe)) {
+    throw new Error(`Invalid timeframe: ${timeframe}`);
+  }
+
+  const endTime = args.to ? new Date(args.to) : new Date();
+  const startTime = args.from ? new Date(args.from) : new Date(endTime.getTime() - 30 * DAY_MS);
+
+  return {
+    strategy: args.strategy,
+    poolAddress: args.pool,
+    timeframe,
+    startTime,
+    endTime,
+    initialCapital: Number(args.capital || 10000),
+    parameters: args.params ? JSON.parse(args.params) : undefined,
+    binStep: args['bin-step'] ? Number(args['bin-step']) : undefined,
+    transactionCost: args['tx-cost'] ? Number(args['tx-cost']) : undefined
+  };
+};
+
+const main = async (): Promise<void> => {
+  const argv = process.argv.slice(2);
+  if (argv.includes('--help')) {
+    process.stdout.write(usage);
+    return;
+  }
+
+  const request = buildRequest(parseArgs(argv));
+  const historicalDataService = new HistoricalDataService();
+
+  try {
+    await historicalDataService.initialize();
+    registerStrategyTypes(strategyRegistry, historicalDataService);
+
+    const report = await new BacktestService(historicalDataService).run(request);
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } finally {
+    await historicalDataService.close();
+  }
+};
+
+main().catch(error => {
+  logger.error('Backtest failed', { error: getErrorMessage(error) });
+  process.stderr.write(usage);
+  process.exit(1);
+});
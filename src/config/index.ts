@@ -1,6 +1,6 @@
 import dotenv from 'dotenv';
 import Joi from 'joi';
-import { BotConfig } from '../types';
+import { BotConfig, DeploymentDefinition, ExecutionMode, PriorityFeePolicy } from '../types';
 import { getErrorMessage } from '../utils/error';
 
 // Load environment variables
@@ -10,20 +10,41 @@ dotenv.config();
 const configSchema = Joi.object({
   SOLANA_RPC_URL: Joi.string().uri().required(),
   SOLANA_PRIVATE_KEY: Joi.string().min(32).required(),
+  PRIORITY_FEE_POLICY: Joi.string().valid('fixed', 'percentile', 'capped').default('capped'),
+  PRIORITY_FEE_MICRO_LAMPORTS: Joi.number().integer().min(0).default(1000),
+  PRIORITY_FEE_PERCENTILE: Joi.number().min(0).max(100).default(75),
+  PRIORITY_FEE_MAX_MICRO_LAMPORTS: Joi.number().integer().min(Joi.ref('PRIORITY_FEE_MICRO_LAMPORTS')).default(1000000),
+  COMPUTE_UNIT_MARGIN: Joi.number().min(0).max(1).default(0.1),
+  PRIORITY_FEE_ESCALATION: Joi.number().min(1).default(1.5),
+  TX_MAX_SEND_ATTEMPTS: Joi.number().integer().min(1).default(3),
+  USE_LOOKUP_TABLES: Joi.boolean().default(true),
   DATABASE_URL: Joi.string().default('./data/bot.sqlite'),
   API_PORT: Joi.number().port().default(3000),
   API_SECRET: Joi.string().min(16).required(),
   MAX_PORTFOLIO_SIZE: Joi.number().positive().default(500000),
   MAX_POSITION_SIZE: Joi.number().positive().default(50000),
+  MAX_POOL_EXPOSURE: Joi.number().positive().default(150000),
+  MAX_TOKEN_EXPOSURE: Joi.number().positive().default(250000),
+  MAX_OPEN_POSITIONS: Joi.number().integer().min(1).default(20),
+  STRATEGY_LOOP_INTERVAL_MS: Joi.number().integer().min(5000).default(60000),
+  EXECUTION_MODE: Joi.string().valid('live', 'paper').default('live'),
+  AUTO_SWAP_ENABLED: Joi.boolean().default(true),
+  RECONCILIATION_INTERVAL_MS: Joi.number().integer().min(10000).default(300000),
+  RECONCILIATION_TOLERANCE: Joi.number().min(0).max(1).default(0.02),
   IL_WARNING_THRESHOLD: Joi.number().min(0).max(1).default(0.02),
   IL_ACTION_THRESHOLD: Joi.number().min(0).max(1).default(0.05),
   IL_CRITICAL_THRESHOLD: Joi.number().min(0).max(1).default(0.10),
   IL_EMERGENCY_THRESHOLD: Joi.number().min(0).max(1).default(0.20),
+  IL_ACTION_COOLDOWN_MS: Joi.number().integer().min(0).default(3600000),
+  IL_WITHDRAW_PERCENTAGE: Joi.number().greater(0).less(100).default(50),
   MAX_VOLATILITY_THRESHOLD: Joi.number().min(0).max(1).default(0.50),
   MAX_DRAWDOWN_THRESHOLD: Joi.number().min(0).max(1).default(0.20),
   BALANCED_LIQUIDITY_ENABLED: Joi.boolean().default(true),
   DCA_STRATEGY_ENABLED: Joi.boolean().default(true),
   MARKET_MAKING_ENABLED: Joi.boolean().default(false),
+  BALANCED_MIN_RANGE_BINS: Joi.number().integer().min(1).default(3),
+  BALANCED_MAX_RANGE_BINS: Joi.number().integer().min(Joi.ref('BALANCED_MIN_RANGE_BINS')).default(60),
+  STRATEGY_DEPLOYMENTS: Joi.string().optional().allow(''),
   ENABLE_ALERTS: Joi.boolean().default(true),
   SLACK_WEBHOOK_URL: Joi.string().uri().optional().allow(''),
   LOG_LEVEL: Joi.string().valid('error', 'warn', 'info', 'debug').default('info'),
@@ -51,11 +72,48 @@ const parseTargetPools = (poolsString: string): string[] => {
   return poolsString.split(',').map(pool => pool.trim()).filter(pool => pool.length > 0);
 };
 
+// Parse strategy deployments (JSON array of { id, strategy, poolAddress, parameters })
+const deploymentSchema = Joi.array().items(Joi.object({
+  id: Joi.string().required(),
+  strategy: Joi.string().required(),
+  poolAddress: Joi.string().required(),
+  parameters: Joi.object().default({}),
+})).unique('id');
+
+const parseDeployments = (deploymentsString: string): DeploymentDefinition[] => {
+  if (!deploymentsString || deploymentsString.trim() === '') {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(deploymentsString);
+  } catch (parseError) {
+    throw new Error(`Config validation error: STRATEGY_DEPLOYMENTS is not valid JSON: ${getErrorMessage(parseError)}`);
+  }
+
+  const { error: deploymentError, value } = deploymentSchema.validate(parsed);
+  if (deploymentError) {
+    throw new Error(`Config validation error: STRATEGY_DEPLOYMENTS ${getErrorMessage(deploymentError)}`);
+  }
+  return value;
+};
+
 // Export validated configuration
 export const config: BotConfig = {
   solana: {
     rpcUrl: envVars.SOLANA_RPC_URL,
     privateKey: envVars.SOLANA_PRIVATE_KEY,
+    priorityFee: {
+      policy: envVars.PRIORITY_FEE_POLICY as PriorityFeePolicy,
+      microLamports: envVars.PRIORITY_FEE_MICRO_LAMPORTS,
+      percentile: envVars.PRIORITY_FEE_PERCENTILE,
+      maxMicroLamports: envVars.PRIORITY_FEE_MAX_MICRO_LAMPORTS,
+      escalation: envVars.PRIORITY_FEE_ESCALATION,
+    },
+    computeUnitMargin: envVars.COMPUTE_UNIT_MARGIN,
+    maxSendAttempts: envVars.TX_MAX_SEND_ATTEMPTS,
+    useLookupTables: envVars.USE_LOOKUP_TABLES,
   },
   database: {
     url: envVars.DATABASE_URL,
@@ -67,12 +125,22 @@ export const config: BotConfig = {
   bot: {
     maxPortfolioSize: envVars.MAX_PORTFOLIO_SIZE,
     maxPositionSize: envVars.MAX_POSITION_SIZE,
+    maxPoolExposure: envVars.MAX_POOL_EXPOSURE,
+    maxTokenExposure: envVars.MAX_TOKEN_EXPOSURE,
+    maxOpenPositions: envVars.MAX_OPEN_POSITIONS,
+    strategyLoopInterval: envVars.STRATEGY_LOOP_INTERVAL_MS,
+    executionMode: envVars.EXECUTION_MODE as ExecutionMode,
+    autoSwapEnabled: envVars.AUTO_SWAP_ENABLED,
+    reconciliationInterval: envVars.RECONCILIATION_INTERVAL_MS,
+    reconciliationTolerance: envVars.RECONCILIATION_TOLERANCE,
   },
   risk: {
     ilWarningThreshold: envVars.IL_WARNING_THRESHOLD,
     ilActionThreshold: envVars.IL_ACTION_THRESHOLD,
     ilCriticalThreshold: envVars.IL_CRITICAL_THRESHOLD,
     ilEmergencyThreshold: envVars.IL_EMERGENCY_THRESHOLD,
+    ilActionCooldown: envVars.IL_ACTION_COOLDOWN_MS,
+    ilWithdrawPercentage: envVars.IL_WITHDRAW_PERCENTAGE,
     maxVolatilityThreshold: envVars.MAX_VOLATILITY_THRESHOLD,
     maxDrawdownThreshold: envVars.MAX_DRAWDOWN_THRESHOLD,
   },
@@ -80,6 +148,9 @@ export const config: BotConfig = {
     balancedLiquidityEnabled: envVars.BALANCED_LIQUIDITY_ENABLED,
     dcaStrategyEnabled: envVars.DCA_STRATEGY_ENABLED,
     marketMakingEnabled: envVars.MARKET_MAKING_ENABLED,
+    balancedMinRangeBins: envVars.BALANCED_MIN_RANGE_BINS,
+    balancedMaxRangeBins: envVars.BALANCED_MAX_RANGE_BINS,
+    deployments: parseDeployments(envVars.STRATEGY_DEPLOYMENTS || ''),
   },
   monitoring: {
     enableAlerts: envVars.ENABLE_ALERTS,
@@ -4,10 +4,18 @@ import { DatabaseService } from './services/database';
 import { SolanaService } from './services/solana';
 import { MarketDataService } from './services/market-data';
 import { OrderExecutionService } from './services/order-execution';
-import { BalancedLiquidityStrategy } from './strategies/balanced-liquidity';
+import { StrategyOrchestrator } from './services/strategy-orchestrator';
+import { ILPolicyService } from './services/il-policy';
+import { EmergencyHaltService } from './services/emergency-halt';
+import { BacktestService } from './services/backtest';
+import { ReconciliationService } from './services/reconciliation';
+import { PositionAdoptionService } from './services/position-adoption';
+import { RiskService } from './services/risk';
+import { registerStrategyTypes } from './strategies';
 import { strategyRegistry } from './strategies/registry';
 import { ApiServer } from './api';
 import { getErrorMessage } from './utils/error';
+import { DeploymentDefinition } from './types';
 
 // ASCII Art Banner
 const banner = `
@@ -27,6 +35,12 @@ class MeteoraDLMMBot {
   private solanaService: SolanaService;
   private marketDataService: MarketDataService;
   private orderExecutionService: OrderExecutionService;
+  private haltService: EmergencyHaltService;
+  private strategyOrchestrator: StrategyOrchestrator;
+  private reconciliationService: ReconciliationService;
+  private positionAdoptionService: PositionAdoptionService;
+  private riskService: RiskService;
+  private ilPolicyService: ILPolicyService;
   private apiServer: ApiServer;
   private isRunning = false;
 
@@ -34,12 +48,48 @@ class MeteoraDLMMBot {
     this.databaseService = new DatabaseService();
     this.solanaService = new SolanaService();
     this.marketDataService = new MarketDataService(this.solanaService);
+    // One halt shared by the strategy loop and the executor
+    this.haltService = new EmergencyHaltService(this.databaseService);
     this.orderExecutionService = new OrderExecutionService(
+      this.solanaService,
+      this.marketDataService,
+      this.databaseService,
+      config.bot.executionMode,
+      config.bot.autoSwapEnabled,
+      this.haltService
+    );
+    this.ilPolicyService = new ILPolicyService(this.databaseService);
+    this.strategyOrchestrator = new StrategyOrchestrator(
+      this.marketDataService,
+      this.databaseService,
+      strategyRegistry,
+      config.bot.strategyLoopInterval,
+      config.bot.executionMode,
+      this.ilPolicyService,
+      this.haltService
+    );
+    this.reconciliationService = new ReconciliationService(
       this.solanaService,
       this.marketDataService,
       this.databaseService
     );
-    this.apiServer = new ApiServer();
+    this.positionAdoptionService = new PositionAdoptionService(
+      this.solanaService,
+      this.marketDataService,
+      this.databaseService
+    );
+    this.riskService = new RiskService(this.marketDataService, this.databaseService);
+    this.apiServer = new ApiServer({
+      databaseService: this.databaseService,
+      marketDataService: this.marketDataService,
+      orderExecutionService: this.orderExecutionService,
+      backtestService: new BacktestService(this.marketDataService.getHistoricalDataService()),
+      reconciliationService: this.reconciliationService,
+      positionAdoptionService: this.positionAdoptionService,
+      riskService: this.riskService,
+      ilPolicyService: this.ilPolicyService,
+      haltService: this.haltService
+    });
   }
 
   async initialize(): Promise<void> {
@@ -48,12 +98,21 @@ class MeteoraDLMMBot {
 
       // Initialize services
       await this.databaseService.initialize();
+      // Restore a halt set before the last shutdown before anything can trade
+      await this.haltService.initialize();
       await this.solanaService.initialize();
       await this.marketDataService.initialize();
       await this.orderExecutionService.initialize();
+      this.riskService.initialize();
 
       // Register strategies
-      this.registerStrategies();
+      await this.registerStrategies();
+
+      // Finish rebalances and exits interrupted by the previous shutdown
+      await this.orderExecutionService.resumeWorkflows();
+
+      // List wallet positions the bot has no record of; each waits for an operator to adopt it
+      await this.reportAdoptionCandidates();
 
       // Start API server
       await this.apiServer.start();
@@ -65,19 +124,67 @@ class MeteoraDLMMBot {
     }
   }
 
-  private registerStrategies(): void {
+  private async registerStrategies(): Promise<void> {
     try {
-      // Register available strategies
-      const balancedStrategy = new BalancedLiquidityStrategy();
-      strategyRegistry.register(balancedStrategy);
+      // Register available strategy types
+      registerStrategyTypes(strategyRegistry, this.marketDataService.getHistoricalDataService());
+      strategyRegistry.setExecutionPort(this.orderExecutionService);
+
+      for (const definition of this.getDeploymentDefinitions()) {
+        try {
+          if (!this.marketDataService.getDLMMInstance(definition.poolAddress)) {
+            await this.marketDataService.addPool(definition.poolAddress);
+          }
+          await strategyRegistry.deploy(definition);
+        } catch (error) {
+          // One broken deployment must not keep the others from starting
+          logger.error(`Failed to deploy strategy ${definition.id}: ${getErrorMessage(error)}`);
+        }
+      }
 
-      logger.info(`📋 Registered ${strategyRegistry.count()} strategies`);
+      if (strategyRegistry.count() === 0) {
+        logger.warn('⚠️ No strategy deployments configured, strategies will stay inactive');
+      }
+
+      logger.info(`📋 Registered ${strategyRegistry.count()} strategy deployments`);
     } catch (error) {
       logger.error(`Failed to register strategies: ${getErrorMessage(error)}`);
       throw error;
     }
   }
 
+  private async reportAdoptionCandidates(): Promise<void> {
+    const candidates = await this.positionAdoptionService.discover();
+
+    for (const candidate of candidates) {
+      logger.warn('⚠️ Unrecorded wallet position found, adopt it with npm run adopt', {
+        positionId: candidate.positionId,
+        poolAddress: candidate.poolAddress,
+        binRange: [candidate.lowerBinId, candidate.upperBinId],
+        value: candidate.value.toString(),
+        suggestedDeploymentId: candidate.suggestedDeploymentId
+      });
+    }
+  }
+
+  private getDeploymentDefinitions(): DeploymentDefinition[] {
+    if (config.strategies.deployments.length > 0) {
+      return config.strategies.deployments;
+    }
+
+    // Default to one balanced liquidity deployment per target pool
+    if (!config.strategies.balancedLiquidityEnabled) {
+      return [];
+    }
+
+    return config.pools.targetPools.map(poolAddress => ({
+      id: `balanced_liquidity:${poolAddress}`,
+      strategy: 'balanced_liquidity',
+      poolAddress,
+      parameters: {}
+    }));
+  }
+
   async start(): Promise<void> {
     try {
       if (this.isRunning) {
@@ -86,6 +193,8 @@ class MeteoraDLMMBot {
       }
 
       await this.initialize();
+      this.strategyOrchestrator.start();
+      this.reconciliationService.start();
       this.isRunning = true;
 
       logger.info('🎯 Meteora DLMM Automation Bot started successfully');
@@ -108,6 +217,13 @@ class MeteoraDLMMBot {
       this.isRunning = false;
 
       // Cleanup services
+      await this.strategyOrchestrator.cleanup();
+      await this.reconciliationService.cleanup();
+      await this.riskService.cleanup();
+      await this.haltService.cleanup();
+      for (const deployment of strategyRegistry.getDeployments()) {
+        await strategyRegistry.stop(deployment.id);
+      }
       await this.apiServer.stop();
       await this.orderExecutionService.cleanup();
       await this.marketDataService.cleanup();
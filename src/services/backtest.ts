@@ -0,0 +1,619 @@
+import { StrategyType } from '@meteora-ag/dlmm';
+import Big from 'big.js';
+import { HistoricalDataService } from './historical-data';
+import { MetricsService } from './metrics';
+import {
+  PoolSnapshot,
+  distributeLiquidity,
+  getBinPrice,
+  settleHoldings,
+  valueHoldings
+} from './paper-execution';
+import { StrategyRegistry, strategyRegistry, buildStrategyConfig } from '../strategies/registry';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import {
+  average,
+  calculateMaxDrawdown,
+  calculateReturn,
+  calculateSharpeRatio,
+  calculateVolatility,
+  toBig
+} from '../utils/math';
+import {
+  ActionType,
+  BacktestReport,
+  BacktestRequest,
+  ExecutionPort,
+  ExecutionResult,
+  HistoricalDataPoint,
+  MarketData,
+  PaperBinHolding,
+  PerformanceMetrics,
+  PoolData,
+  Position,
+  PositionStatus,
+  StrategyAction,
+  TimeFrame,
+  TokenInfo
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BIN_STEP = 10;
+const DEFAULT_ACTIVE_BIN_SHARE = 0.1;
+const VOLATILITY_WINDOW = 24;
+
+const PERIOD_MS: Record<TimeFrame, number> = {
+  [TimeFrame.HOURLY]: 60 * 60 * 1000,
+  [TimeFrame.DAILY]: DAY_MS,
+  [TimeFrame.WEEKLY]: 7 * DAY_MS
+};
+
+const PERIODS_PER_YEAR: Record<TimeFrame, number> = {
+  [TimeFrame.HOURLY]: 24 * 365,
+  [TimeFrame.DAILY]: 365,
+  [TimeFrame.WEEKLY]: 52
+};
+
+interface SimulatedPosition {
+  id: string;
+  strategy: string;
+  lowerBinId: number;
+  upperBinId: number;
+  bins: PaperBinHolding[];
+  costBasis: Big;      // Capital committed, including entry costs
+  hodlX: Big;          // Amounts deposited, to measure IL against holding them
+  hodlY: Big;
+  entryPrice: Big;
+  unclaimedFees: Big;
+  feesEarned: Big;
+  createdAt: Date;
+}
+
+/**
+ * Infer the pool bin step from the price series, using
+ * price(b2) / price(b1) = (1 + binStep / 10000) ^ (b2 - b1)
+ */
+export const inferBinStep = (points: HistoricalDataPoint[]): number | null => {
+  const [first] = points;
+  if (!first || first.price.lte(0)) {
+    return null;
+  }
+
+  for (const point of points) {
+    const distance = point.binId - first.binId;
+    if (distance !== 0) {
+      const ratio = Number(point.price.div(first.price).toString());
+      const binStep = (Math.pow(ratio, 1 / distance) - 1) * 10000;
+      if (binStep > 0 && isFinite(binStep)) {
+        return Math.round(binStep);
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Execution port that fills strategy actions against replayed pool state.
+ * Holdings are valued in token Y.
+ */
+class BacktestSimulator implements ExecutionPort {
+  private cash: Big;
+  private positions: Map<string, SimulatedPosition> = new Map();
+  private snapshot: PoolSnapshot | null = null;
+  private binLiquidity = new Big(0);
+  private feeRate = 0;
+  private currentTime = new Date(0);
+  private nextId = 1;
+
+  feesEarned = new Big(0);
+  impermanentLoss = new Big(0);
+  rebalancingCosts = new Big(0);
+  rebalances = 0;
+  closedPnl: Big[] = [];
+  actionsExecuted: Record<string, number> = {};
+
+  constructor(
+    private poolAddress: string,
+    initialCapital: Big,
+    private transactionCost: Big,
+    private activeBinShare: number
+  ) {
+    this.cash = initialCapital;
+  }
+
+  /**
+   * Move to the next data point: accrue the period's swap fees over the bins
+   * the price crossed, then settle holdings at the new active bin
+   */
+  advance(point: HistoricalDataPoint, snapshot: PoolSnapshot): void {
+    const tvl = point.liquidityX.mul(point.price).add(point.liquidityY);
+    this.binLiquidity = tvl.mul(this.activeBinShare);
+
+    if (this.snapshot) {
+      this.accrueFees(point.fees, this.snapshot.activeBinId, snapshot);
+    }
+
+    this.snapshot = snapshot;
+    this.currentTime = point.timestamp;
+    this.feeRate = point.volume.gt(0) ? Number(point.fees.div(point.volume).toString()) : 0;
+
+    for (const position of this.positions.values()) {
+      position.bins = settleHoldings(position.bins, snapshot);
+    }
+  }
+
+  private accrueFees(periodFees: Big, previousBinId: number, snapshot: PoolSnapshot): void {
+    const fromBinId = Math.min(previousBinId, snapshot.activeBinId);
+    const toBinId = Math.max(previousBinId, snapshot.activeBinId);
+    const feesPerBin = periodFees.div(toBinId - fromBinId + 1);
+
+    for (const position of this.positions.values()) {
+      let fees = new Big(0);
+
+      for (const holding of position.bins) {
+        if (holding.binId < fromBinId || holding.binId > toBinId) {
+          continue;
+        }
+        const ownValue = valueHoldings([holding], getBinPrice(snapshot, holding.binId));
+        const binValue = this.binLiquidity.add(ownValue);
+        if (binValue.gt(0)) {
+          fees = fees.add(feesPerBin.mul(ownValue.div(binValue)));
+        }
+      }
+
+      position.unclaimedFees = position.unclaimedFees.add(fees);
+      position.feesEarned = position.feesEarned.add(fees);
+      this.feesEarned = this.feesEarned.add(fees);
+    }
+  }
+
+  async executeAction(action: StrategyAction): Promise<ExecutionResult> {
+    try {
+      const result = await this.fill(action);
+      if (result.success) {
+        this.actionsExecuted[action.type] = (this.actionsExecuted[action.type] || 0) + 1;
+      }
+      return result;
+    } catch (error) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+  }
+
+  private async fill(action: StrategyAction): Promise<ExecutionResult> {
+    const { parameters } = action;
+
+    switch (action.type) {
+      case ActionType.CREATE_POSITION: {
+        const amount = toBig(parameters.liquidityAmount || 1000);
+        if (amount.gt(this.cash)) {
+          throw new Error(`Insufficient capital: ${this.cash.toFixed(2)} available`);
+        }
+        const position = this.open(amount, parameters.binRange, parameters.strategyType, parameters.deploymentId);
+        return { success: true, transactionId: this.nextTransactionId(), newPosition: this.toPosition(position), actualReturn: amount };
+      }
+      case ActionType.CLOSE_POSITION:
+      case ActionType.EMERGENCY_EXIT: {
+        const proceeds = this.getTargets(parameters.positionId)
+          .reduce((sum, position) => sum.add(this.close(position).proceeds), new Big(0));
+        return { success: true, transactionId: this.nextTransactionId(), actualReturn: proceeds };
+      }
+      case ActionType.REBALANCE:
+      case ActionType.ADJUST_RANGE: {
+        let newPosition: SimulatedPosition | undefined;
+        for (const position of this.getTargets(parameters.positionId)) {
+          const width = position.upperBinId - position.lowerBinId;
+          const { proceeds, cost: exitCost } = this.close(position);
+          newPosition = this.open(
+            proceeds,
+            parameters.binRange || this.centeredRange(width),
+            parameters.strategyType,
+            position.strategy
+          );
+          this.rebalancingCosts = this.rebalancingCosts.add(exitCost).add(newPosition.costBasis.sub(this.deposited(newPosition)));
+          this.rebalances++;
+        }
+        return {
+          success: true,
+          transactionId: this.nextTransactionId(),
+          newPosition: newPosition ? this.toPosition(newPosition) : undefined
+        };
+      }
+      case ActionType.COLLECT_FEES: {
+        let claimed = new Big(0);
+        for (const position of this.getTargets(parameters.positionId)) {
+          claimed = claimed.add(position.unclaimedFees);
+          position.unclaimedFees = new Big(0);
+        }
+        if (claimed.gt(0)) {
+          this.cash = this.cash.add(claimed).sub(this.transactionCost);
+        }
+        return { success: true, transactionId: this.nextTransactionId(), actualReturn: claimed };
+      }
+      default:
+        throw new Error(`Unsupported action type: ${action.type}`);
+    }
+  }
+
+  private open(
+    amount: Big,
+    binRange: [number, number] | undefined,
+    strategyType: StrategyType = StrategyType.Spot,
+    strategy: string = 'backtest'
+  ): SimulatedPosition {
+    const snapshot = this.requireSnapshot();
+    const [lowerBinId, upperBinId] = binRange || this.centeredRange(20);
+
+    // Entry pays the transaction and the swap into the token X share of the deposit
+    const layout = distributeLiquidity(amount, lowerBinId, upperBinId, snapshot, strategyType);
+    const xValue = layout.reduce((sum, bin) => sum.add(bin.amountX.mul(getBinPrice(snapshot, bin.binId))), new Big(0));
+    const cost = this.transactionCost.add(xValue.mul(this.feeRate));
+    const bins = distributeLiquidity(amount.sub(cost), lowerBinId, upperBinId, snapshot, strategyType);
+
+    const position: SimulatedPosition = {
+      id: `backtest_position_${this.nextId++}`,
+      strategy,
+      lowerBinId,
+      upperBinId,
+      bins,
+      costBasis: amount,
+      hodlX: bins.reduce((sum, bin) => sum.add(bin.amountX), new Big(0)),
+      hodlY: bins.reduce((sum, bin) => sum.add(bin.amountY), new Big(0)),
+      entryPrice: snapshot.activePrice,
+      unclaimedFees: new Big(0),
+      feesEarned: new Big(0),
+      createdAt: this.currentTime
+    };
+
+    this.cash = this.cash.sub(amount);
+    this.positions.set(position.id, position);
+    return position;
+  }
+
+  private close(position: SimulatedPosition): { proceeds: Big; cost: Big } {
+    const { activePrice } = this.requireSnapshot();
+    const value = valueHoldings(position.bins, activePrice);
+    const xValue = position.bins.reduce((sum, bin) => sum.add(bin.amountX), new Big(0)).mul(activePrice);
+
+    // Exit pays the transaction and the swap of token X back to token Y
+    const cost = this.transactionCost.add(xValue.mul(this.feeRate));
+    const proceeds = value.add(position.unclaimedFees).sub(cost);
+    const hodlValue = position.hodlX.mul(activePrice).add(position.hodlY);
+
+    this.cash = this.cash.add(proceeds);
+    this.impermanentLoss = this.impermanentLoss.add(hodlValue.sub(value));
+    this.closedPnl.push(value.add(position.feesEarned).sub(position.costBasis).sub(cost));
+    this.positions.delete(position.id);
+
+    return { proceeds, cost };
+  }
+
+  /**
+   * Close every open position, as the end of a backtest
+   */
+  liquidate(): void {
+    for (const position of Array.from(this.positions.values())) {
+      this.close(position);
+    }
+  }
+
+  getEquity(): Big {
+    const { activePrice } = this.requireSnapshot();
+    let equity = this.cash;
+    for (const position of this.positions.values()) {
+      equity = equity.add(valueHoldings(position.bins, activePrice)).add(position.unclaimedFees);
+    }
+    return equity;
+  }
+
+  getCash(): Big {
+    return this.cash;
+  }
+
+  getPositions(): Position[] {
+    return Array.from(this.positions.values()).map(position => this.toPosition(position));
+  }
+
+  private getTargets(positionId?: string): SimulatedPosition[] {
+    if (!positionId) {
+      return Array.from(this.positions.values());
+    }
+    const position = this.positions.get(positionId);
+    if (!position) {
+      throw new Error(`Position not found: ${positionId}`);
+    }
+    return [position];
+  }
+
+  private deposited(position: SimulatedPosition): Big {
+    return position.hodlX.mul(position.entryPrice).add(position.hodlY);
+  }
+
+  private centeredRange(width: number): [number, number] {
+    const { activeBinId } = this.requireSnapshot();
+    const half = Math.floor(width / 2);
+    return [activeBinId - half, activeBinId + (width - half)];
+  }
+
+  private requireSnapshot(): PoolSnapshot {
+    if (!this.snapshot) {
+      throw new Error('Backtest has no market state yet');
+    }
+    return this.snapshot;
+  }
+
+  private nextTransactionId(): string {
+    return `backtest_tx_${this.nextId++}`;
+  }
+
+  private toPosition(position: SimulatedPosition): Position {
+    const { activePrice } = this.requireSnapshot();
+    return {
+      id: position.id,
+      poolAddress: this.poolAddress,
+      strategy: position.strategy,
+      status: PositionStatus.ACTIVE,
+      lowerBinId: position.lowerBinId,
+      upperBinId: position.upperBinId,
+      liquidityX: position.bins.reduce((sum, bin) => sum.add(bin.amountX), new Big(0)),
+      liquidityY: position.bins.reduce((sum, bin) => sum.add(bin.amountY), new Big(0)),
+      totalLiquidity: position.costBasis,
+      entryPrice: position.entryPrice,
+      currentPrice: activePrice,
+      unrealizedPnl: new Big(0),
+      realizedPnl: new Big(0),
+      feesCollected: new Big(0),
+      impermanentLoss: new Big(0),
+      createdAt: position.createdAt,
+      updatedAt: this.currentTime
+    };
+  }
+}
+
+/**
+ * Replays historical pool data through a strategy and reports how it would
+ * have performed: DLMM bin fills, swap fees by bin, rebalancing costs and IL.
+ */
+export class BacktestService {
+  private historicalDataService: HistoricalDataService;
+  private registry: StrategyRegistry;
+  private metricsService: MetricsService;
+
+  constructor(
+    historicalDataService: HistoricalDataService,
+    registry: StrategyRegistry = strategyRegistry
+  ) {
+    this.historicalDataService = historicalDataService;
+    this.registry = registry;
+    this.metricsService = new MetricsService();
+  }
+
+  async run(request: BacktestRequest): Promise<BacktestReport> {
+    if (!this.registry.hasType(request.strategy)) {
+      throw new Error(`Strategy not found: ${request.strategy}`);
+    }
+    if (request.startTime.getTime() >= request.endTime.getTime()) {
+      throw new Error('Backtest start time must be before end time');
+    }
+    if (request.initialCapital <= 0) {
+      throw new Error('Initial capital must be positive');
+    }
+
+    const points = await this.historicalDataService.getHistoricalData(
+      request.poolAddress,
+      request.timeframe,
+      request.startTime,
+      request.endTime
+    );
+
+    if (points.length < 2) {
+      throw new Error(`Not enough historical data for pool ${request.poolAddress}: ${points.length} data points`);
+    }
+
+    return await this.replay(request, points);
+  }
+
+  async replay(request: BacktestRequest, points: HistoricalDataPoint[]): Promise<BacktestReport> {
+    const initialCapital = new Big(request.initialCapital);
+    const binStep = request.binStep ?? inferBinStep(points) ?? DEFAULT_BIN_STEP;
+    const simulator = new BacktestSimulator(
+      request.poolAddress,
+      initialCapital,
+      new Big(request.transactionCost ?? 0),
+      request.activeBinShare ?? DEFAULT_ACTIVE_BIN_SHARE
+    );
+
+    logger.info('Starting backtest', {
+      strategy: request.strategy,
+      poolAddress: request.poolAddress,
+      timeframe: request.timeframe,
+      dataPoints: points.length,
+      binStep
+    });
+
+    const strategy = this.registry.createInstance(request.strategy);
+    await strategy.initialize(
+      buildStrategyConfig({
+        id: `backtest:${request.strategy}:${request.poolAddress}`,
+        strategy: request.strategy,
+        poolAddress: request.poolAddress,
+        parameters: request.parameters
+      }),
+      simulator
+    );
+
+    const equityCurve: BacktestReport['equityCurve'] = [];
+    let windowStart = 0;
+
+    try {
+      for (let i = 0; i < points.length; i++) {
+        const point = points[i];
+        while (points[windowStart].timestamp.getTime() <= point.timestamp.getTime() - DAY_MS) {
+          windowStart++;
+        }
+
+        simulator.advance(point, {
+          activeBinId: point.binId,
+          activePrice: point.price,
+          binStep,
+          bins: new Map()
+        });
+
+        const marketData = this.buildMarketData(
+          request,
+          point,
+          points.slice(windowStart, i + 1),
+          points.slice(Math.max(0, i - VOLATILITY_WINDOW), i + 1),
+          binStep
+        );
+        marketData.positions = simulator.getPositions();
+
+        const actions = await strategy.analyze(marketData);
+        for (const action of actions) {
+          await strategy.execute(action);
+        }
+
+        equityCurve.push({ timestamp: point.timestamp, value: simulator.getEquity() });
+      }
+    } finally {
+      await strategy.cleanup();
+    }
+
+    simulator.liquidate();
+    const finalValue = simulator.getCash();
+    const metrics = this.calculateMetrics(request, simulator, equityCurve, initialCapital, finalValue, points);
+
+    logger.info('Backtest completed', {
+      strategy: request.strategy,
+      poolAddress: request.poolAddress,
+      netProfit: metrics.netProfit.toString(),
+      sharpeRatio: metrics.sharpeRatio,
+      maxDrawdown: metrics.maxDrawdown
+    });
+
+    return {
+      strategy: request.strategy,
+      poolAddress: request.poolAddress,
+      timeframe: request.timeframe,
+      parameters: request.parameters || {},
+      initialCapital,
+      finalValue,
+      dataPoints: points.length,
+      rebalances: simulator.rebalances,
+      rebalancingCosts: simulator.rebalancingCosts,
+      actionsExecuted: simulator.actionsExecuted,
+      metrics,
+      equityCurve
+    };
+  }
+
+  private buildMarketData(
+    request: BacktestRequest,
+    point: HistoricalDataPoint,
+    dayWindow: HistoricalDataPoint[],
+    volatilityWindow: HistoricalDataPoint[],
+    binStep: number
+  ): MarketData {
+    // Scale to a 24h figure when a single data point spans more than a day
+    const windowMs = Math.max(DAY_MS, PERIOD_MS[request.timeframe]);
+    const fees24h = this.metricsService.calculateFees24h(dayWindow).mul(DAY_MS / windowMs);
+    const volume24h = this.metricsService.calculateVolume24h(dayWindow).mul(DAY_MS / windowMs);
+    const tvl = point.liquidityX.mul(point.price).add(point.liquidityY);
+
+    const returns = volatilityWindow.slice(1).map((p, i) => calculateReturn(volatilityWindow[i].price, p.price));
+    const volatility = Number(calculateVolatility(returns).toString()) * Math.sqrt(PERIODS_PER_YEAR[request.timeframe]);
+
+    const token = (symbol: string, price: Big): TokenInfo => ({
+      address: '',
+      symbol,
+      decimals: 0,
+      price,
+      supply: new Big(0),
+      metadata: { name: symbol, symbol },
+      supplyInfo: { totalSupply: new Big(0), circulatingSupply: new Big(0), lastUpdate: point.timestamp },
+      priceHistory: []
+    });
+
+    const poolData: PoolData = {
+      address: request.poolAddress,
+      tokenX: token('X', point.price),
+      tokenY: token('Y', new Big(1)),
+      parameters: {
+        binStep,
+        baseFactor: 0,
+        maxVolatilityAccumulator: 0,
+        maxFee: 0,
+        protocolShare: 0
+      },
+      activeBin: {
+        binId: point.binId,
+        price: point.price,
+        state: {
+          amountX: point.liquidityX,
+          amountY: point.liquidityY,
+          price: point.price,
+          liquiditySupply: tvl
+        }
+      },
+      binArrays: [],
+      metrics: {
+        volume24h,
+        fees24h,
+        tvl,
+        apr: this.metricsService.calculateAPR(fees24h, tvl),
+        volatility,
+        binUtilization: 0,
+        liquidityDistribution: {
+          concentrationIndex: 0,
+          binCount: 0
+        }
+      },
+      lastUpdated: point.timestamp
+    };
+
+    return {
+      pools: [poolData],
+      trends: [],
+      opportunities: [],
+      timestamp: point.timestamp
+    };
+  }
+
+  private calculateMetrics(
+    request: BacktestRequest,
+    simulator: BacktestSimulator,
+    equityCurve: BacktestReport['equityCurve'],
+    initialCapital: Big,
+    finalValue: Big,
+    points: HistoricalDataPoint[]
+  ): PerformanceMetrics {
+    const values = [initialCapital, ...equityCurve.map(p => p.value), finalValue];
+    const returns = values.slice(1).map((value, i) => calculateReturn(values[i], value));
+    const sharpeRatio = Number(calculateSharpeRatio(returns).toString()) * Math.sqrt(PERIODS_PER_YEAR[request.timeframe]);
+
+    const start = points[0].timestamp;
+    const end = points[points.length - 1].timestamp;
+    const days = (end.getTime() - start.getTime()) / DAY_MS;
+    const totalReturn = calculateReturn(initialCapital, finalValue);
+    const annualizedReturn = days > 0 ? Math.pow(1 + Number(totalReturn.toString()), 365 / days) - 1 : 0;
+
+    const wins = simulator.closedPnl.filter(pnl => pnl.gt(0));
+    const losses = simulator.closedPnl.filter(pnl => pnl.lt(0));
+
+    return {
+      totalReturn,
+      annualizedReturn,
+      maxDrawdown: Number(calculateMaxDrawdown(values).toString()),
+      sharpeRatio,
+      winRate: simulator.closedPnl.length > 0 ? wins.length / simulator.closedPnl.length : 0,
+      averageWin: average(wins),
+      averageLoss: average(losses).abs(),
+      totalTrades: Object.values(simulator.actionsExecuted).reduce((sum, count) => sum + count, 0),
+      feesEarned: simulator.feesEarned,
+      impermanentLoss: simulator.impermanentLoss,
+      netProfit: finalValue.sub(initialCapital),
+      period: { start, end }
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { ComputeBudgetProgram, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import Big from 'big.js';
+import { PriorityFeeConfig, PriorityFeePolicy } from '../types';
+
+export const MAX_COMPUTE_UNITS = 1_400_000;
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000;
+const MAX_FEE_ACCOUNTS = 128; // getRecentPrioritizationFees account limit
+
+/**
+ * Compute unit price, in micro-lamports, for a transaction given the
+ * prioritization fees recently paid on its writable accounts. The configured
+ * microLamports is the fixed price and the floor for the percentile policies.
+ */
+export const selectPriorityFee = (recentFees: number[], settings: PriorityFeeConfig): number => {
+  if (settings.policy === PriorityFeePolicy.FIXED || recentFees.length === 0) {
+    return settings.microLamports;
+  }
+
+  const sorted = [...recentFees].sort((a, b) => a - b);
+  const rank = Math.ceil((settings.percentile / 100) * sorted.length) - 1;
+  const fee = Math.max(settings.microLamports, sorted[Math.max(0, rank)]);
+
+  return settings.policy === PriorityFeePolicy.CAPPED
+    ? Math.min(fee, settings.maxMicroLamports)
+    : fee;
+};
+
+/**
+ * Price for a resubmission: the first attempt pays the selected price and
+ * each later one escalation times the previous, within the cap when capped
+ */
+export const escalatePriorityFee = (microLamports: number, attempt: number, settings: PriorityFeeConfig): number => {
+  const fee = Math.ceil(microLamports * Math.pow(settings.escalation, attempt - 1));
+  return settings.policy === PriorityFeePolicy.CAPPED
+    ? Math.min(fee, Math.max(microLamports, settings.maxMicroLamports))
+    : fee;
+};
+
+/**
+ * Compute unit limit for a transaction that consumed unitsConsumed in
+ * simulation, with margin as headroom for state changes before it lands
+ */
+export const getComputeUnitLimit = (unitsConsumed: number, margin: number): number =>
+  Math.min(MAX_COMPUTE_UNITS, new Big(unitsConsumed).mul(1 + margin).round(0, Big.roundUp).toNumber());
+
+export const getPriorityFeeLamports = (computeUnitLimit: number, microLamports: number): number =>
+  Math.ceil((computeUnitLimit * microLamports) / MICRO_LAMPORTS_PER_LAMPORT);
+
+export const isComputeBudgetInstruction = (instruction: TransactionInstruction): boolean =>
+  instruction.programId.equals(ComputeBudgetProgram.programId);
+
+export const getComputeBudgetInstructions = (units: number, microLamports?: number): TransactionInstruction[] => {
+  const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units })];
+  if (microLamports !== undefined) {
+    budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  }
+  return budget;
+};
+
+/**
+ * Replace any compute budget instructions the SDK added with our own limit
+ * and, when given, price. A transaction may hold only one of each.
+ */
+export const setComputeBudget = (transaction: Transaction, units: number, microLamports?: number): void => {
+  transaction.instructions = [
+    ...getComputeBudgetInstructions(units, microLamports),
+    ...transaction.instructions.filter(instruction => !isComputeBudgetInstruction(instruction))
+  ];
+};
+
+/**
+ * Accounts the instructions write to, whose fee markets set the priority fee
+ */
+export const getWritableAccounts = (instructions: TransactionInstruction[]): PublicKey[] => {
+  const accounts = new Map<string, PublicKey>();
+
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) {
+        accounts.set(key.pubkey.toString(), key.pubkey);
+      }
+    }
+  }
+
+  return Array.from(accounts.values()).slice(0, MAX_FEE_ACCOUNTS);
+};
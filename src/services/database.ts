@@ -1,8 +1,22 @@
 import 'reflect-metadata';
-import { DataSource, Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Repository } from 'typeorm';
+import { DataSource, Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Repository, MoreThan, MoreThanOrEqual, IsNull, In } from 'typeorm';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { DbPosition, DbTransaction, DbPerformance, Position, PositionStatus } from '../types';
+import {
+  BinAmounts,
+  DbPosition,
+  DbTransaction,
+  DbPerformance,
+  DbActionExecution,
+  DbPaperTransaction,
+  EmergencyHalt,
+  PaperPosition,
+  Position,
+  PositionStatus,
+  Workflow,
+  WorkflowStatus,
+  WorkflowStep
+} from '../types';
 import { getErrorMessage } from '../utils/error';
 import Big from 'big.js';
 
@@ -54,6 +68,15 @@ export class PositionEntity {
   @Column('text')
   impermanentLoss: string;
 
+  @Column({ nullable: true })
+  strategyType?: number;
+
+  @Column('text', { nullable: true })
+  entryBins?: string;
+
+  @Column({ nullable: true })
+  entryActiveBinId?: number;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -78,6 +101,12 @@ export class TransactionEntity {
   @Column('text')
   amount: string;
 
+  @Column('text', { nullable: true })
+  amountX?: string;
+
+  @Column('text', { nullable: true })
+  amountY?: string;
+
   @Column('text')
   price: string;
 
@@ -90,6 +119,9 @@ export class TransactionEntity {
   @Column()
   transactionId: string;
 
+  @Column({ nullable: true })
+  relatedTransactionId?: string;
+
   @CreateDateColumn()
   timestamp: Date;
 }
@@ -141,6 +173,9 @@ export class RiskAlertEntity {
   @Column({ nullable: true })
   poolAddress?: string;
 
+  @Column('text', { nullable: true })
+  details?: string; // JSON of the values that triggered the alert
+
   @CreateDateColumn()
   timestamp: Date;
 
@@ -148,6 +183,211 @@ export class RiskAlertEntity {
   acknowledged: boolean;
 }
 
+@Entity('action_executions')
+export class ActionExecutionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  deploymentId: string;
+
+  @Column()
+  actionType: string;
+
+  @Column()
+  poolAddress: string;
+
+  @Column({ nullable: true })
+  positionId?: string;
+
+  @Column()
+  priority: number;
+
+  @Column('text')
+  parameters: string;
+
+  @Column()
+  success: boolean;
+
+  @Column({ nullable: true })
+  transactionId?: string;
+
+  @Column('text', { nullable: true })
+  error?: string;
+
+  @CreateDateColumn()
+  executedAt: Date;
+}
+
+// Paper ledger: virtual positions and fills recorded in paper execution mode
+@Entity('paper_positions')
+export class PaperPositionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  poolAddress: string;
+
+  @Column()
+  strategy: string;
+
+  @Column()
+  status: string;
+
+  @Column()
+  lowerBinId: number;
+
+  @Column()
+  upperBinId: number;
+
+  @Column('text')
+  liquidityX: string;
+
+  @Column('text')
+  liquidityY: string;
+
+  @Column('text')
+  totalLiquidity: string;
+
+  @Column('text')
+  entryPrice: string;
+
+  @Column('text')
+  currentPrice: string;
+
+  @Column('text')
+  unrealizedPnl: string;
+
+  @Column('text')
+  realizedPnl: string;
+
+  @Column('text')
+  feesCollected: string;
+
+  @Column('text')
+  impermanentLoss: string;
+
+  @Column({ nullable: true })
+  strategyType?: number;
+
+  @Column('text')
+  bins: string;
+
+  @Column('text', { nullable: true })
+  entryBins?: string;
+
+  @Column({ nullable: true })
+  entryActiveBinId?: number;
+
+  @Column()
+  lastFeeAccrual: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ nullable: true })
+  lastRebalance?: Date;
+}
+
+@Entity('paper_transactions')
+export class PaperTransactionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  positionId: string;
+
+  @Column()
+  type: string;
+
+  @Column('text')
+  amount: string;
+
+  @Column('text')
+  price: string;
+
+  @Column('text')
+  fees: string;
+
+  @Column()
+  transactionId: string;
+
+  @Column({ nullable: true })
+  relatedTransactionId?: string;
+
+  @CreateDateColumn()
+  timestamp: Date;
+}
+
+// Durable workflows: step state survives restarts so interrupted workflows can resume
+@Entity('workflows')
+export class WorkflowEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  type: string;
+
+  @Column({ unique: true })
+  idempotencyKey: string;
+
+  @Column()
+  status: string;
+
+  @Column('text')
+  input: string;
+
+  @Column('text')
+  steps: string;
+
+  @Column('text', { nullable: true })
+  error?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
+
+// Address lookup tables the bot created, one per pool
+@Entity('lookup_tables')
+export class LookupTableEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true })
+  poolAddress: string;
+
+  @Column()
+  address: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
+
+// Emergency halts; the one not yet reset halts trading across restarts
+@Entity('emergency_halts')
+export class EmergencyHaltEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('text')
+  reason: string;
+
+  @Column()
+  haltedAt: Date;
+
+  @Column({ nullable: true })
+  resetAt?: Date;
+
+  @Column('text', { nullable: true })
+  resetReason?: string;
+}
+
 // Database Service
 export class DatabaseService {
   private dataSource: DataSource;
@@ -155,12 +395,29 @@ export class DatabaseService {
   private transactionRepository: Repository<TransactionEntity>;
   private performanceRepository: Repository<PerformanceEntity>;
   private riskAlertRepository: Repository<RiskAlertEntity>;
+  private actionExecutionRepository: Repository<ActionExecutionEntity>;
+  private paperPositionRepository: Repository<PaperPositionEntity>;
+  private paperTransactionRepository: Repository<PaperTransactionEntity>;
+  private workflowRepository: Repository<WorkflowEntity>;
+  private lookupTableRepository: Repository<LookupTableEntity>;
+  private emergencyHaltRepository: Repository<EmergencyHaltEntity>;
 
   constructor() {
     this.dataSource = new DataSource({
       type: 'sqlite',
       database: config.database.url,
-      entities: [PositionEntity, TransactionEntity, PerformanceEntity, RiskAlertEntity],
+      entities: [
+        PositionEntity,
+        TransactionEntity,
+        PerformanceEntity,
+        RiskAlertEntity,
+        ActionExecutionEntity,
+        PaperPositionEntity,
+        PaperTransactionEntity,
+        WorkflowEntity,
+        LookupTableEntity,
+        EmergencyHaltEntity
+      ],
       synchronize: true,
       logging: config.monitoring.logLevel === 'debug',
     });
@@ -174,6 +431,12 @@ export class DatabaseService {
       this.transactionRepository = this.dataSource.getRepository(TransactionEntity);
       this.performanceRepository = this.dataSource.getRepository(PerformanceEntity);
       this.riskAlertRepository = this.dataSource.getRepository(RiskAlertEntity);
+      this.actionExecutionRepository = this.dataSource.getRepository(ActionExecutionEntity);
+      this.paperPositionRepository = this.dataSource.getRepository(PaperPositionEntity);
+      this.paperTransactionRepository = this.dataSource.getRepository(PaperTransactionEntity);
+      this.workflowRepository = this.dataSource.getRepository(WorkflowEntity);
+      this.lookupTableRepository = this.dataSource.getRepository(LookupTableEntity);
+      this.emergencyHaltRepository = this.dataSource.getRepository(EmergencyHaltEntity);
       
       logger.info('Database initialized successfully');
     } catch (error) {
@@ -285,6 +548,236 @@ export class DatabaseService {
     }
   }
 
+  async getTransactionsSince(since: Date): Promise<DbTransaction[]> {
+    try {
+      return await this.transactionRepository.find({
+        where: { timestamp: MoreThan(since) },
+        order: { timestamp: 'ASC' }
+      });
+    } catch (error) {
+      logger.error('Failed to get transactions since date', { error: getErrorMessage(error), since });
+      throw error;
+    }
+  }
+
+  // Action execution operations
+  async saveActionExecution(execution: DbActionExecution): Promise<void> {
+    try {
+      const entity = this.actionExecutionRepository.create(execution);
+      await this.actionExecutionRepository.save(entity);
+      logger.debug('Action execution saved', {
+        deploymentId: execution.deploymentId,
+        actionType: execution.actionType,
+        success: execution.success
+      });
+    } catch (error) {
+      logger.error('Failed to save action execution', { error: getErrorMessage(error), deploymentId: execution.deploymentId });
+      throw error;
+    }
+  }
+
+  async getRecentActionExecutions(limit: number = 50): Promise<DbActionExecution[]> {
+    try {
+      return await this.actionExecutionRepository.find({
+        order: { executedAt: 'DESC' },
+        take: limit
+      });
+    } catch (error) {
+      logger.error('Failed to get recent action executions', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
+  async getActionExecutionsByDeployment(deploymentId: string): Promise<DbActionExecution[]> {
+    try {
+      return await this.actionExecutionRepository.find({
+        where: { deploymentId, success: true },
+        order: { executedAt: 'ASC' }
+      });
+    } catch (error) {
+      logger.error('Failed to get action executions by deployment', { error: getErrorMessage(error), deploymentId });
+      throw error;
+    }
+  }
+
+  // Paper ledger operations
+  async savePaperPosition(position: PaperPosition): Promise<void> {
+    try {
+      const entity = this.convertPaperPositionToEntity(position);
+      await this.paperPositionRepository.save(entity);
+      logger.debug('Paper position saved', { positionId: position.id });
+    } catch (error) {
+      logger.error('Failed to save paper position', { error: getErrorMessage(error), positionId: position.id });
+      throw error;
+    }
+  }
+
+  async getPaperPosition(id: string): Promise<PaperPosition | null> {
+    try {
+      const entity = await this.paperPositionRepository.findOne({ where: { id } });
+      return entity ? this.convertEntityToPaperPosition(entity) : null;
+    } catch (error) {
+      logger.error('Failed to get paper position', { error: getErrorMessage(error), positionId: id });
+      throw error;
+    }
+  }
+
+  async getActivePaperPositions(): Promise<PaperPosition[]> {
+    try {
+      const entities = await this.paperPositionRepository.find({
+        where: { status: PositionStatus.ACTIVE }
+      });
+      return entities.map(entity => this.convertEntityToPaperPosition(entity));
+    } catch (error) {
+      logger.error('Failed to get active paper positions', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
+  async getPaperPositionsByPool(poolAddress: string): Promise<PaperPosition[]> {
+    try {
+      const entities = await this.paperPositionRepository.find({
+        where: { poolAddress }
+      });
+      return entities.map(entity => this.convertEntityToPaperPosition(entity));
+    } catch (error) {
+      logger.error('Failed to get paper positions by pool', { error: getErrorMessage(error), poolAddress });
+      throw error;
+    }
+  }
+
+  async savePaperTransaction(transaction: DbPaperTransaction): Promise<void> {
+    try {
+      const entity = this.paperTransactionRepository.create(transaction);
+      await this.paperTransactionRepository.save(entity);
+      logger.debug('Paper transaction saved', { transactionId: transaction.transactionId });
+    } catch (error) {
+      logger.error('Failed to save paper transaction', { error: getErrorMessage(error), transactionId: transaction.transactionId });
+      throw error;
+    }
+  }
+
+  async getPaperTransactionsByPosition(positionId: string): Promise<DbPaperTransaction[]> {
+    try {
+      return await this.paperTransactionRepository.find({
+        where: { positionId },
+        order: { timestamp: 'DESC' }
+      });
+    } catch (error) {
+      logger.error('Failed to get paper transactions by position', { error: getErrorMessage(error), positionId });
+      throw error;
+    }
+  }
+
+  async getPaperTransactionsSince(since: Date): Promise<DbPaperTransaction[]> {
+    try {
+      return await this.paperTransactionRepository.find({
+        where: { timestamp: MoreThan(since) },
+        order: { timestamp: 'ASC' }
+      });
+    } catch (error) {
+      logger.error('Failed to get paper transactions since date', { error: getErrorMessage(error), since });
+      throw error;
+    }
+  }
+
+  // Workflow operations
+  async saveWorkflow(workflow: Workflow): Promise<void> {
+    try {
+      const entity = this.convertWorkflowToEntity(workflow);
+      await this.workflowRepository.save(entity);
+      logger.debug('Workflow saved', { workflowId: workflow.id, status: workflow.status });
+    } catch (error) {
+      logger.error('Failed to save workflow', { error: getErrorMessage(error), workflowId: workflow.id });
+      throw error;
+    }
+  }
+
+  async getWorkflow(id: string): Promise<Workflow | null> {
+    try {
+      const entity = await this.workflowRepository.findOne({ where: { id } });
+      return entity ? this.convertEntityToWorkflow(entity) : null;
+    } catch (error) {
+      logger.error('Failed to get workflow', { error: getErrorMessage(error), workflowId: id });
+      throw error;
+    }
+  }
+
+  async getWorkflowByKey(idempotencyKey: string): Promise<Workflow | null> {
+    try {
+      const entity = await this.workflowRepository.findOne({ where: { idempotencyKey } });
+      return entity ? this.convertEntityToWorkflow(entity) : null;
+    } catch (error) {
+      logger.error('Failed to get workflow by key', { error: getErrorMessage(error), idempotencyKey });
+      throw error;
+    }
+  }
+
+  // Running or failed, the latter possibly after some steps landed
+  async getIncompleteWorkflows(): Promise<Workflow[]> {
+    try {
+      const entities = await this.workflowRepository.find({
+        where: { status: In([WorkflowStatus.RUNNING, WorkflowStatus.FAILED]) },
+        order: { createdAt: 'ASC' }
+      });
+      return entities.map(entity => this.convertEntityToWorkflow(entity));
+    } catch (error) {
+      logger.error('Failed to get incomplete workflows', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
+  // Lookup table operations
+  async saveLookupTable(poolAddress: string, address: string): Promise<void> {
+    try {
+      await this.lookupTableRepository.save(this.lookupTableRepository.create({ poolAddress, address }));
+      logger.debug('Lookup table saved', { poolAddress, address });
+    } catch (error) {
+      logger.error('Failed to save lookup table', { error: getErrorMessage(error), poolAddress });
+      throw error;
+    }
+  }
+
+  async getLookupTable(poolAddress: string): Promise<string | null> {
+    try {
+      const entity = await this.lookupTableRepository.findOne({ where: { poolAddress } });
+      return entity ? entity.address : null;
+    } catch (error) {
+      logger.error('Failed to get lookup table', { error: getErrorMessage(error), poolAddress });
+      throw error;
+    }
+  }
+
+  // Emergency halt operations
+  async saveEmergencyHalt(halt: EmergencyHalt): Promise<EmergencyHalt> {
+    try {
+      const entity = await this.emergencyHaltRepository.save(this.emergencyHaltRepository.create({
+        id: halt.id,
+        reason: halt.reason,
+        haltedAt: halt.haltedAt,
+        resetAt: halt.resetAt,
+        resetReason: halt.resetReason
+      }));
+      return this.convertEntityToEmergencyHalt(entity);
+    } catch (error) {
+      logger.error('Failed to save emergency halt', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
+  async getActiveEmergencyHalt(): Promise<EmergencyHalt | null> {
+    try {
+      const entity = await this.emergencyHaltRepository.findOne({
+        where: { resetAt: IsNull() },
+        order: { haltedAt: 'DESC' }
+      });
+      return entity ? this.convertEntityToEmergencyHalt(entity) : null;
+    } catch (error) {
+      logger.error('Failed to get active emergency halt', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
   // Performance operations
   async savePerformance(performance: DbPerformance): Promise<void> {
     try {
@@ -304,7 +797,7 @@ export class DatabaseService {
       
       const entities = await this.performanceRepository.find({
         where: {
-          date: startDate as any // TypeORM date comparison
+          date: MoreThanOrEqual(startDate)
         },
         order: { date: 'ASC' }
       });
@@ -324,6 +817,7 @@ export class DatabaseService {
         message: alert.message,
         positionId: alert.positionId,
         poolAddress: alert.poolAddress,
+        details: alert.details ? JSON.stringify(alert.details) : undefined,
         acknowledged: alert.acknowledged || false
       });
       await this.riskAlertRepository.save(entity);
@@ -340,7 +834,10 @@ export class DatabaseService {
         where: { acknowledged: false },
         order: { timestamp: 'DESC' }
       });
-      return entities;
+      return entities.map(entity => ({
+        ...entity,
+        details: entity.details ? JSON.parse(entity.details) : undefined
+      }));
     } catch (error) {
       logger.error('Failed to get unacknowledged alerts', { error: getErrorMessage(error) });
       throw error;
@@ -375,6 +872,9 @@ export class DatabaseService {
     entity.realizedPnl = position.realizedPnl.toString();
     entity.feesCollected = position.feesCollected.toString();
     entity.impermanentLoss = position.impermanentLoss.toString();
+    entity.strategyType = position.strategyType;
+    entity.entryBins = position.entryBins ? this.serializeBins(position.entryBins) : undefined;
+    entity.entryActiveBinId = position.entryActiveBinId;
     entity.createdAt = position.createdAt;
     entity.updatedAt = position.updatedAt;
     entity.lastRebalance = position.lastRebalance;
@@ -398,12 +898,90 @@ export class DatabaseService {
       realizedPnl: new Big(entity.realizedPnl),
       feesCollected: new Big(entity.feesCollected),
       impermanentLoss: new Big(entity.impermanentLoss),
+      strategyType: entity.strategyType ?? undefined,
+      // Positions opened before entry compositions were recorded have none
+      entryBins: entity.entryBins ? this.deserializeBins(entity.entryBins) : undefined,
+      entryActiveBinId: entity.entryActiveBinId ?? undefined,
       createdAt: entity.createdAt,
       updatedAt: entity.updatedAt,
       lastRebalance: entity.lastRebalance
     };
   }
 
+  private convertPaperPositionToEntity(position: PaperPosition): PaperPositionEntity {
+    const entity = Object.assign(new PaperPositionEntity(), this.convertPositionToEntity(position));
+    entity.bins = this.serializeBins(position.bins);
+    entity.lastFeeAccrual = position.lastFeeAccrual;
+    return entity;
+  }
+
+  private convertEntityToPaperPosition(entity: PaperPositionEntity): PaperPosition {
+    return {
+      ...this.convertEntityToPosition(entity),
+      bins: this.deserializeBins(entity.bins),
+      lastFeeAccrual: entity.lastFeeAccrual
+    };
+  }
+
+  private serializeBins(bins: BinAmounts[]): string {
+    return JSON.stringify(bins.map(bin => ({
+      binId: bin.binId,
+      amountX: bin.amountX.toString(),
+      amountY: bin.amountY.toString()
+    })));
+  }
+
+  private deserializeBins(serialized: string): BinAmounts[] {
+    const bins: { binId: number; amountX: string; amountY: string }[] = JSON.parse(serialized);
+    return bins.map(bin => ({
+      binId: bin.binId,
+      amountX: new Big(bin.amountX),
+      amountY: new Big(bin.amountY)
+    }));
+  }
+
+  private convertEntityToEmergencyHalt(entity: EmergencyHaltEntity): EmergencyHalt {
+    return {
+      id: entity.id,
+      reason: entity.reason,
+      haltedAt: entity.haltedAt,
+      resetAt: entity.resetAt ?? undefined,
+      resetReason: entity.resetReason ?? undefined
+    };
+  }
+
+  private convertWorkflowToEntity(workflow: Workflow): WorkflowEntity {
+    const entity = new WorkflowEntity();
+    entity.id = workflow.id;
+    entity.type = workflow.type;
+    entity.idempotencyKey = workflow.idempotencyKey;
+    entity.status = workflow.status;
+    entity.input = JSON.stringify(workflow.input);
+    entity.steps = JSON.stringify(workflow.steps);
+    entity.error = workflow.error;
+    entity.createdAt = workflow.createdAt;
+    entity.updatedAt = workflow.updatedAt;
+    return entity;
+  }
+
+  private convertEntityToWorkflow(entity: WorkflowEntity): Workflow {
+    const steps: WorkflowStep[] = JSON.parse(entity.steps);
+    return {
+      id: entity.id,
+      type: entity.type,
+      idempotencyKey: entity.idempotencyKey,
+      status: entity.status as WorkflowStatus,
+      input: JSON.parse(entity.input),
+      steps: steps.map(step => ({
+        ...step,
+        completedAt: step.completedAt ? new Date(step.completedAt) : undefined
+      })),
+      error: entity.error ?? undefined,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt
+    };
+  }
+
   // Analytics queries
   async getPortfolioValue(): Promise<Big> {
     try {
@@ -0,0 +1,113 @@
+import { StrategyType, autoFillYByStrategy } from '@meteora-ag/dlmm';
+import { BN } from '@coral-xyz/anchor';
+import Big from 'big.js';
+
+export interface DepositSizingInput {
+  budget: Big; // Quote (token Y) value to deposit
+  price: Big; // Active bin price, token Y per token X
+  activeBinId: number;
+  activeBinXAmount: BN; // Active bin reserves, in raw units
+  activeBinYAmount: BN;
+  binStep: number;
+  decimalsX: number;
+  decimalsY: number;
+  minBinId: number;
+  maxBinId: number;
+  strategyType: StrategyType;
+  balanceX?: Big; // Spendable wallet balances, in token units; unlimited when omitted
+  balanceY?: Big;
+}
+
+export interface DepositSize {
+  side: 'both' | 'x' | 'y';
+  amountX: Big; // Token units
+  amountY: Big;
+  totalXAmount: BN; // Raw units, as the SDK expects
+  totalYAmount: BN;
+  value: Big; // Quote value actually deposited
+  limitedByBalance: boolean;
+}
+
+const toRaw = (amount: Big, decimals: number): BN => new BN(amount.mul(Math.pow(10, decimals)).toFixed(0, Big.roundDown));
+const fromRaw = (amount: BN, decimals: number): Big => new Big(amount.toString()).div(Math.pow(10, decimals));
+
+/**
+ * Convert a quote-denominated budget into the X and Y amounts a deposit over
+ * [minBinId, maxBinId] needs. A range that excludes the active bin can only
+ * hold one token: X above the active bin, Y below it. A range across the
+ * active bin takes X and Y in the ratio the strategy shape and the active
+ * bin's current reserves require. Amounts are scaled down, keeping that
+ * ratio, when the wallet cannot cover them.
+ */
+export const sizeDeposit = (input: DepositSizingInput): DepositSize => {
+  const { budget, price, activeBinId, minBinId, maxBinId, decimalsX, decimalsY } = input;
+
+  if (minBinId > maxBinId) {
+    throw new Error(`Invalid bin range: ${minBinId} > ${maxBinId}`);
+  }
+
+  if (price.lte(0)) {
+    throw new Error('Active bin price must be positive');
+  }
+
+  let side: DepositSize['side'];
+  let amountX: Big;
+  let amountY: Big;
+
+  if (minBinId > activeBinId) {
+    side = 'x';
+    amountX = budget.div(price);
+    amountY = new Big(0);
+  } else if (maxBinId < activeBinId) {
+    side = 'y';
+    amountX = new Big(0);
+    amountY = budget;
+  } else {
+    // Y needed per whole X token is linear in X, so size from a one-token probe
+    side = 'both';
+    const yPerX = fromRaw(autoFillYByStrategy(
+      activeBinId,
+      input.binStep,
+      toRaw(new Big(1), decimalsX),
+      input.activeBinXAmount,
+      input.activeBinYAmount,
+      minBinId,
+      maxBinId,
+      input.strategyType
+    ), decimalsY);
+
+    amountX = budget.div(price.add(yPerX));
+    amountY = amountX.mul(yPerX);
+  }
+
+  let scale = new Big(1);
+  if (input.balanceX !== undefined && amountX.gt(input.balanceX)) {
+    scale = input.balanceX.div(amountX);
+  }
+  if (input.balanceY !== undefined && amountY.gt(input.balanceY)) {
+    const scaleY = input.balanceY.div(amountY);
+    scale = scaleY.lt(scale) ? scaleY : scale;
+  }
+
+  const limitedByBalance = scale.lt(1);
+  if (limitedByBalance) {
+    amountX = amountX.mul(scale);
+    amountY = amountY.mul(scale);
+  }
+
+  const totalXAmount = toRaw(amountX, decimalsX);
+  const totalYAmount = toRaw(amountY, decimalsY);
+  if (totalXAmount.isZero() && totalYAmount.isZero()) {
+    throw new Error(limitedByBalance ? 'Insufficient token balance for deposit' : 'Deposit amount rounds to zero');
+  }
+
+  return {
+    side,
+    amountX: fromRaw(totalXAmount, decimalsX),
+    amountY: fromRaw(totalYAmount, decimalsY),
+    totalXAmount,
+    totalYAmount,
+    value: fromRaw(totalXAmount, decimalsX).mul(price).add(fromRaw(totalYAmount, decimalsY)),
+    limitedByBalance
+  };
+};
@@ -0,0 +1,156 @@
+import Big from 'big.js';
+import { BinAmounts, PoolData, Position } from '../types';
+
+export interface DivergenceLossInput {
+  binStep: number;
+  activeBinId: number;
+  activePrice: Big; // Token Y per token X at the active bin
+  entryActiveBinId: number;
+  entryBins: BinAmounts[]; // Composition deposited
+  currentBins: BinAmounts[]; // Composition now, excluding fees
+  feesX?: Big; // Fees earned, claimed or not
+  feesY?: Big;
+}
+
+export interface BinDivergence {
+  binId: number;
+  holdValue: Big; // The bin's deposit valued at the current price
+  value: Big;
+  loss: Big;
+}
+
+export interface DivergenceLoss {
+  entryPrice: Big;
+  currentPrice: Big;
+  entryValue: Big; // Deposit valued at the entry price
+  holdValue: Big; // Deposit valued at the current price: the HODL benchmark
+  positionValue: Big;
+  impermanentLoss: Big; // holdValue - positionValue, negative when the position gained on holding
+  impermanentLossRatio: number; // Share of the HODL value lost
+  feesEarned: Big;
+  netPnl: Big; // Against holding: fees earned less the impermanent loss
+  bins: BinDivergence[];
+}
+
+const ZERO = new Big(0);
+
+/**
+ * Price of a bin relative to a bin of known price:
+ * price(b) = price(ref) * (1 + binStep / 10000) ^ (b - ref)
+ */
+export const getBinPriceFromStep = (binId: number, binStep: number, referenceBinId: number, referencePrice: Big): Big => {
+  return referencePrice.mul(Math.pow(1 + binStep / 10000, binId - referenceBinId));
+};
+
+const value = (amountX: Big, amountY: Big, price: Big): Big => amountX.mul(price).add(amountY);
+
+/**
+ * Loss of a DLMM position against holding what it deposited. Each bin trades
+ * at its own fixed price, so a position concentrated in a few bins converts
+ * its whole deposit as the price crosses them; the full-range formula,
+ * which spreads the conversion over every price, understates that loss. The
+ * loss is measured from the actual per-bin compositions, at entry and now,
+ * both valued at the current price.
+ */
+export const calculateDivergenceLoss = (input: DivergenceLossInput): DivergenceLoss => {
+  const { binStep, activeBinId, activePrice, entryActiveBinId, entryBins, currentBins } = input;
+
+  if (activePrice.lte(0)) {
+    throw new Error('Active bin price must be positive');
+  }
+
+  const entryPrice = getBinPriceFromStep(entryActiveBinId, binStep, activeBinId, activePrice);
+  const binIds = Array.from(new Set([...entryBins, ...currentBins].map(bin => bin.binId))).sort((a, b) => a - b);
+
+  const bins = binIds.map(binId => {
+    const entry = entryBins.filter(bin => bin.binId === binId);
+    const current = currentBins.filter(bin => bin.binId === binId);
+    const holdValue = entry.reduce((sum, bin) => sum.add(value(bin.amountX, bin.amountY, activePrice)), ZERO);
+    const binValue = current.reduce((sum, bin) => sum.add(value(bin.amountX, bin.amountY, activePrice)), ZERO);
+    return { binId, holdValue, value: binValue, loss: holdValue.sub(binValue) };
+  });
+
+  const entryValue = entryBins.reduce((sum, bin) => sum.add(value(bin.amountX, bin.amountY, entryPrice)), ZERO);
+  const holdValue = bins.reduce((sum, bin) => sum.add(bin.holdValue), ZERO);
+  const positionValue = bins.reduce((sum, bin) => sum.add(bin.value), ZERO);
+  const impermanentLoss = holdValue.sub(positionValue);
+  const feesEarned = value(input.feesX || ZERO, input.feesY || ZERO, activePrice);
+
+  return {
+    entryPrice,
+    currentPrice: activePrice,
+    entryValue,
+    holdValue,
+    positionValue,
+    impermanentLoss,
+    impermanentLossRatio: holdValue.gt(0) ? Number(impermanentLoss.div(holdValue).toString()) : 0,
+    feesEarned,
+    netPnl: feesEarned.sub(impermanentLoss),
+    bins
+  };
+};
+
+/**
+ * Composition of bins after the price moved to the active bin: bins below it
+ * end up fully in Y and bins above it fully in X, each converted at its own
+ * price. This is where swaps alone leave a position, so it stands in for the
+ * current composition of positions whose bins are not tracked.
+ */
+export const projectBins = (bins: BinAmounts[], binStep: number, activeBinId: number, activePrice: Big): BinAmounts[] => {
+  return bins.map(bin => {
+    const price = getBinPriceFromStep(bin.binId, binStep, activeBinId, activePrice);
+
+    if (bin.binId < activeBinId) {
+      return { binId: bin.binId, amountX: ZERO, amountY: bin.amountY.add(bin.amountX.mul(price)) };
+    }
+    if (bin.binId > activeBinId) {
+      return { binId: bin.binId, amountX: bin.amountX.add(bin.amountY.div(price)), amountY: ZERO };
+    }
+    return bin;
+  });
+};
+
+/**
+ * Sum two sets of bins, or subtract the second with a sign of -1
+ */
+export const addBins = (bins: BinAmounts[], added: BinAmounts[], sign: 1 | -1 = 1): BinAmounts[] => {
+  const binIds = Array.from(new Set([...bins, ...added].map(bin => bin.binId))).sort((a, b) => a - b);
+
+  return binIds.map(binId => {
+    const base = bins.find(bin => bin.binId === binId);
+    const extra = added.find(bin => bin.binId === binId);
+    return {
+      binId,
+      amountX: (base?.amountX ?? ZERO).add((extra?.amountX ?? ZERO).mul(sign)),
+      amountY: (base?.amountY ?? ZERO).add((extra?.amountY ?? ZERO).mul(sign))
+    };
+  });
+};
+
+/**
+ * Divergence loss of a recorded position at its pool's active bin, or null
+ * when the position has no entry composition to measure against. Tracked bins
+ * (paper positions) are settled to the active bin; otherwise the entry bins
+ * are projected there. Fees collected are counted in Y.
+ */
+export const measurePositionDivergence = (
+  position: Position & { bins?: BinAmounts[] },
+  pool: PoolData
+): DivergenceLoss | null => {
+  if (!position.entryBins || position.entryActiveBinId === undefined) {
+    return null;
+  }
+
+  const { binId: activeBinId, price: activePrice } = pool.activeBin;
+  const binStep = pool.parameters.binStep;
+
+  return calculateDivergenceLoss({
+    binStep,
+    activeBinId,
+    activePrice,
+    entryActiveBinId: position.entryActiveBinId,
+    entryBins: position.entryBins,
+    currentBins: projectBins(position.bins ?? position.entryBins, binStep, activeBinId, activePrice),
+    feesY: position.feesCollected
+  });
+};
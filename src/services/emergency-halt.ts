@@ -0,0 +1,72 @@
+import { DatabaseService } from './database';
+import { logger } from '../utils/logger';
+import { ActionType, EmergencyHalt, StrategyAction } from '../types';
+
+// Actions that only reduce exposure, still allowed while halted
+export const HALT_EXEMPT_ACTIONS = [ActionType.CLOSE_POSITION, ActionType.REMOVE_LIQUIDITY, ActionType.EMERGENCY_EXIT];
+
+/**
+ * Global trading halt set by an emergency stop. The halt is persisted, so a
+ * restart comes back halted, and stays until an operator resets it with a
+ * reason. While halted, only actions that exit positions are allowed.
+ */
+export class EmergencyHaltService {
+  private databaseService: DatabaseService;
+  private active: EmergencyHalt | null = null;
+
+  constructor(databaseService: DatabaseService) {
+    this.databaseService = databaseService;
+  }
+
+  async initialize(): Promise<void> {
+    this.active = await this.databaseService.getActiveEmergencyHalt();
+    if (this.active) {
+      logger.warn('🛑 Trading is halted by an emergency stop; only exits will run until it is reset', {
+        reason: this.active.reason,
+        haltedAt: this.active.haltedAt.toISOString()
+      });
+    }
+  }
+
+  isHalted(): boolean {
+    return this.active !== null;
+  }
+
+  getHalt(): EmergencyHalt | null {
+    return this.active;
+  }
+
+  allows(action: StrategyAction): boolean {
+    return !this.active || HALT_EXEMPT_ACTIONS.includes(action.type);
+  }
+
+  /**
+   * Halt trading; a stop while already halted keeps the original halt
+   */
+  async halt(reason: string): Promise<EmergencyHalt> {
+    if (this.active) {
+      logger.warn('Emergency stop requested while already halted', { reason, haltedSince: this.active.haltedAt.toISOString() });
+      return this.active;
+    }
+
+    // Persist first: the halt must not exist only in memory
+    this.active = await this.databaseService.saveEmergencyHalt({ reason, haltedAt: new Date() });
+    logger.warn('🛑 Emergency stop: trading halted', { reason });
+    return this.active;
+  }
+
+  async reset(reason: string): Promise<EmergencyHalt> {
+    if (!this.active) {
+      throw new Error('Trading is not halted');
+    }
+
+    const reset = await this.databaseService.saveEmergencyHalt({ ...this.active, resetAt: new Date(), resetReason: reason });
+    this.active = null;
+    logger.warn('Emergency halt reset: trading resumed', { haltReason: reset.reason, resetReason: reason });
+    return reset;
+  }
+
+  async cleanup(): Promise<void> {
+    this.active = null;
+  }
+}
@@ -0,0 +1,254 @@
+import Big from 'big.js';
+import { MarketDataService } from './market-data';
+import { DatabaseService } from './database';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { getErrorMessage } from '../utils/error';
+import { ZERO, max, toBig } from '../utils/math';
+import { ActionType, BotConfig, ExecutionMode, PoolData, Position, StrategyAction } from '../types';
+
+export type ExposureLimits = Pick<
+  BotConfig['bot'],
+  'maxPortfolioSize' | 'maxPositionSize' | 'maxPoolExposure' | 'maxTokenExposure' | 'maxOpenPositions'
+>;
+
+// Quote value held across active positions
+export interface Exposure {
+  portfolio: Big;
+  pools: Map<string, Big>;
+  tokens: Map<string, Big>; // By mint
+  openPositions: number;
+}
+
+export interface ExposureRequest {
+  poolAddress: string;
+  tokenX: string;
+  tokenY: string;
+  amount: Big;
+  shareX: number; // Share of the deposit expected to be held in token X
+  positionValue?: Big; // Set when the deposit adds to an open position: its current value
+}
+
+export interface ExposureCheck {
+  allowed: boolean;
+  amount: Big; // The amount to deposit, below the request when downsized
+  reason?: string; // Set when a limit rejected or downsized the request
+}
+
+// A limit leaving less than this share of the request rejects it instead of downsizing
+const MIN_DOWNSIZE_RATIO = 0.1;
+
+// The executors' defaults for a deposit that does not set them
+const DEFAULT_LIQUIDITY_AMOUNT = 1000;
+const DEFAULT_RANGE_HALF_WIDTH = 10;
+
+export const getDefaultExposureLimits = (): ExposureLimits => ({ ...config.bot });
+
+const addTo = (totals: Map<string, Big>, key: string, value: Big): void => {
+  totals.set(key, (totals.get(key) ?? ZERO).add(value));
+};
+
+/**
+ * Value each position at its pool's active price, or its recorded price
+ * without pool data. Token exposure needs the pool's mints, so a position
+ * without pool data counts toward the portfolio and pool totals only.
+ */
+export const measureExposure = (positions: Position[], pools: Map<string, PoolData>): Exposure => {
+  const exposure: Exposure = { portfolio: ZERO, pools: new Map(), tokens: new Map(), openPositions: positions.length };
+
+  for (const position of positions) {
+    const pool = pools.get(position.poolAddress);
+    const valueX = position.liquidityX.mul(pool?.activeBin.price ?? position.currentPrice);
+    const value = valueX.add(position.liquidityY);
+
+    exposure.portfolio = exposure.portfolio.add(value);
+    addTo(exposure.pools, position.poolAddress, value);
+    if (pool) {
+      addTo(exposure.tokens, pool.tokenX.address, valueX);
+      addTo(exposure.tokens, pool.tokenY.address, position.liquidityY);
+    }
+  }
+
+  return exposure;
+};
+
+/**
+ * Share of a deposit held in token X: bins above the active bin hold only X,
+ * bins below only Y, and the active bin is counted as half of each.
+ */
+export const estimateShareX = (binRange: [number, number], activeBinId: number): number => {
+  const [minBinId, maxBinId] = binRange;
+  const bins = maxBinId - minBinId + 1;
+  if (bins <= 0) {
+    return 0.5;
+  }
+
+  const binsAbove = Math.max(0, maxBinId - Math.max(minBinId, activeBinId + 1) + 1);
+  const activeInRange = activeBinId >= minBinId && activeBinId <= maxBinId ? 0.5 : 0;
+  return (binsAbove + activeInRange) / bins;
+};
+
+/**
+ * Largest deposit the limits allow given the current exposure. A deposit
+ * above it is downsized to it, unless that would leave less than a tenth of
+ * the request, in which case it is rejected. A deposit into an open position
+ * opens nothing, and the position size limit bounds the position's value
+ * after it.
+ */
+export const checkExposure = (exposure: Exposure, request: ExposureRequest, limits: ExposureLimits): ExposureCheck => {
+  if (request.positionValue === undefined && exposure.openPositions >= limits.maxOpenPositions) {
+    return {
+      allowed: false,
+      amount: ZERO,
+      reason: `Open position limit reached: ${exposure.openPositions} of ${limits.maxOpenPositions} positions open`
+    };
+  }
+
+  const headrooms: Array<[string, Big]> = [
+    ['position size', new Big(limits.maxPositionSize).sub(request.positionValue ?? ZERO)],
+    ['portfolio size', new Big(limits.maxPortfolioSize).sub(exposure.portfolio)],
+    [`pool ${request.poolAddress} exposure`, new Big(limits.maxPoolExposure).sub(exposure.pools.get(request.poolAddress) ?? ZERO)]
+  ];
+
+  // A token limit bounds only the token's share of the deposit
+  const tokenShares: Array<[string, number]> = [[request.tokenX, request.shareX], [request.tokenY, 1 - request.shareX]];
+  for (const [token, share] of tokenShares) {
+    if (share > 0) {
+      const remaining = new Big(limits.maxTokenExposure).sub(exposure.tokens.get(token) ?? ZERO);
+      headrooms.push([`token ${token} exposure`, remaining.div(share)]);
+    }
+  }
+
+  const [limit, headroom] = headrooms.reduce((lowest, entry) => (entry[1].lt(lowest[1]) ? entry : lowest));
+
+  if (request.amount.lte(headroom)) {
+    return { allowed: true, amount: request.amount };
+  }
+
+  if (headroom.lt(request.amount.mul(MIN_DOWNSIZE_RATIO))) {
+    return {
+      allowed: false,
+      amount: ZERO,
+      reason: `Rejected by the ${limit} limit: ${max(headroom, ZERO).toFixed(2)} of headroom for ` +
+        `a deposit of ${request.amount.toFixed(2)}`
+    };
+  }
+
+  const amount = headroom.round(6, Big.roundDown);
+  return {
+    allowed: true,
+    amount,
+    reason: `Downsized from ${request.amount.toFixed(2)} to ${amount.toFixed(2)} by the ${limit} limit`
+  };
+};
+
+/**
+ * Checks new positions and liquidity added to open ones against
+ * portfolio-wide limits before execution, from every active position in the
+ * ledger the execution mode trades. Rebalances and range adjustments move
+ * capital already counted, since they re-deposit at most what closing the
+ * old position returned, and every other action reduces exposure.
+ */
+export class ExposureService {
+  private marketDataService: MarketDataService;
+  private databaseService: DatabaseService;
+  private executionMode: ExecutionMode;
+  private limits: ExposureLimits;
+
+  constructor(
+    marketDataService: MarketDataService,
+    databaseService: DatabaseService,
+    executionMode: ExecutionMode = config.bot.executionMode,
+    limits: ExposureLimits = getDefaultExposureLimits()
+  ) {
+    this.marketDataService = marketDataService;
+    this.databaseService = databaseService;
+    this.executionMode = executionMode;
+    this.limits = limits;
+  }
+
+  async check(action: StrategyAction): Promise<ExposureCheck> {
+    const amount = toBig(action.parameters.liquidityAmount ?? DEFAULT_LIQUIDITY_AMOUNT);
+    if (action.type !== ActionType.CREATE_POSITION) {
+      return { allowed: true, amount };
+    }
+
+    return await this.checkDeposit(action.poolAddress, amount, action.parameters.binRange);
+  }
+
+  /**
+   * Check liquidity added to an open position, compounded fees included,
+   * over the position's own range
+   */
+  async checkAddition(positionId: string, poolAddress: string, amount: Big): Promise<ExposureCheck> {
+    return await this.checkDeposit(poolAddress, amount, undefined, positionId);
+  }
+
+  getLimits(): ExposureLimits {
+    return this.limits;
+  }
+
+  private async checkDeposit(
+    poolAddress: string,
+    amount: Big,
+    targetRange?: [number, number],
+    positionId?: string
+  ): Promise<ExposureCheck> {
+    const positions = this.executionMode === ExecutionMode.PAPER
+      ? await this.databaseService.getActivePaperPositions()
+      : await this.databaseService.getActivePositions();
+
+    const position = positionId ? positions.find(open => open.id === positionId) : undefined;
+    if (positionId && !position) {
+      return { allowed: false, amount: ZERO, reason: `Position not open: ${positionId}` };
+    }
+
+    const pools = await this.loadPools([...positions.map(open => open.poolAddress), poolAddress]);
+
+    const pool = pools.get(poolAddress);
+    if (!pool) {
+      // Without the pool's mints the token limits cannot be checked
+      return { allowed: false, amount: ZERO, reason: `Pool data unavailable to check exposure: ${poolAddress}` };
+    }
+
+    const activeBinId = pool.activeBin.binId;
+    const binRange: [number, number] = position
+      ? [position.lowerBinId, position.upperBinId]
+      : targetRange ?? [activeBinId - DEFAULT_RANGE_HALF_WIDTH, activeBinId + DEFAULT_RANGE_HALF_WIDTH];
+    const result = checkExposure(measureExposure(positions, pools), {
+      poolAddress,
+      tokenX: pool.tokenX.address,
+      tokenY: pool.tokenY.address,
+      amount,
+      shareX: estimateShareX(binRange, activeBinId),
+      positionValue: position && position.liquidityX.mul(pool.activeBin.price).add(position.liquidityY)
+    }, this.limits);
+
+    if (result.reason) {
+      logger.warn('Exposure limit applied', {
+        poolAddress,
+        positionId,
+        requested: amount.toString(),
+        allowed: result.allowed,
+        amount: result.amount.toString(),
+        reason: result.reason
+      });
+    }
+    return result;
+  }
+
+  private async loadPools(poolAddresses: string[]): Promise<Map<string, PoolData>> {
+    const pools = new Map<string, PoolData>();
+    for (const poolAddress of new Set(poolAddresses)) {
+      try {
+        const pool = await this.marketDataService.getPoolData(poolAddress);
+        if (pool) {
+          pools.set(poolAddress, pool);
+        }
+      } catch (error) {
+        logger.warn('Pool data unavailable for exposure check', { poolAddress, error: getErrorMessage(error) });
+      }
+    }
+    return pools;
+  }
+}
@@ -4,11 +4,21 @@ import { logger } from '../utils/logger';
 import { config } from '../config';
 import { HistoricalDataPoint, TimeFrame } from '../types';
 
+interface HistoricalDataRow {
+  timestamp: number;
+  price: string;
+  volume: string;
+  fees: string;
+  liquidity_x: string;
+  liquidity_y: string;
+  bin_id: number;
+}
+
 export class HistoricalDataService {
   private db: Database.Database;
   
   constructor() {
-    this.db = new Database(config.database.path);
+    this.db = new Database(config.database.url);
     this.db.pragma('journal_mode = WAL');
   }
 
@@ -74,7 +84,7 @@ export class HistoricalDataService {
         timeframe,
         startTime.getTime(),
         endTime.getTime()
-      );
+      ) as HistoricalDataRow[];
 
       return rows.map(row => ({
         timestamp: new Date(row.timestamp),
@@ -109,7 +119,7 @@ export class HistoricalDataService {
         ORDER BY timestamp ASC
       `);
       
-      const priceRows = priceStmt.all(poolAddress, oneDayAgo.getTime());
+      const priceRows = priceStmt.all(poolAddress, oneDayAgo.getTime()) as { price: string }[];
       const priceHistory = priceRows.map(row => new Big(row.price));
 
       // Get aggregated volume and fees
@@ -132,20 +142,6 @@ export class HistoricalDataService {
         volume: new Big(total_volume),
         fees: new Big(total_fees),
         priceHistory
-      }; 
-          SUM(CAST(volume AS DECIMAL)) as total_volume,
-          SUM(CAST(fees AS DECIMAL)) as total_fees
-        FROM historical_data_points
-        WHERE pool_address = ?
-        AND timestamp >= ?
-        AND timeframe = 'hourly'
-      `);
-
-      const row = stmt.get(poolAddress, oneDayAgo.getTime());
-      
-      return {
-        volume: new Big(row?.total_volume || 0),
-        fees: new Big(row?.total_fees || 0)
       };
     } catch (error) {
       logger.error('Failed to get 24h data', { error, poolAddress });
@@ -0,0 +1,235 @@
+import { DatabaseService } from './database';
+import { getPositionLoss } from './risk';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { getErrorMessage } from '../utils/error';
+import {
+  ActionType,
+  AlertLevel,
+  AlertType,
+  BotConfig,
+  ILPolicyDecision,
+  ILPolicyTier,
+  PoolData,
+  Position,
+  StrategyAction
+} from '../types';
+
+export type ILPolicySettings = Pick<
+  BotConfig['risk'],
+  'ilWarningThreshold' | 'ilActionThreshold' | 'ilCriticalThreshold' | 'ilEmergencyThreshold' |
+  'ilActionCooldown' | 'ilWithdrawPercentage'
+>;
+
+// Source recorded for policy actions in place of a proposing deployment
+export const IL_POLICY_SOURCE = 'il_policy';
+
+const TIER_ORDER = [
+  ILPolicyTier.NONE,
+  ILPolicyTier.WARNING,
+  ILPolicyTier.ACTION,
+  ILPolicyTier.CRITICAL,
+  ILPolicyTier.EMERGENCY
+];
+
+const TIER_RESPONSES: Record<ILPolicyTier, { level: AlertLevel; priority: number; description: string }> = {
+  [ILPolicyTier.NONE]: { level: AlertLevel.INFO, priority: 0, description: 'no response' },
+  [ILPolicyTier.WARNING]: { level: AlertLevel.WARNING, priority: 0, description: 'alerting only' },
+  [ILPolicyTier.ACTION]: { level: AlertLevel.WARNING, priority: 70, description: 'recentering the range' },
+  [ILPolicyTier.CRITICAL]: { level: AlertLevel.CRITICAL, priority: 85, description: 'withdrawing part of the position' },
+  [ILPolicyTier.EMERGENCY]: { level: AlertLevel.EMERGENCY, priority: 100, description: 'exiting the position' }
+};
+
+export const getDefaultILPolicySettings = (): ILPolicySettings => ({ ...config.risk });
+
+/**
+ * Tier whose threshold the loss ratio has reached, with that threshold
+ */
+export const getILPolicyTier = (
+  lossRatio: number,
+  settings: ILPolicySettings
+): { tier: ILPolicyTier; threshold: number } => {
+  if (lossRatio >= settings.ilEmergencyThreshold) {
+    return { tier: ILPolicyTier.EMERGENCY, threshold: settings.ilEmergencyThreshold };
+  }
+  if (lossRatio >= settings.ilCriticalThreshold) {
+    return { tier: ILPolicyTier.CRITICAL, threshold: settings.ilCriticalThreshold };
+  }
+  if (lossRatio >= settings.ilActionThreshold) {
+    return { tier: ILPolicyTier.ACTION, threshold: settings.ilActionThreshold };
+  }
+  if (lossRatio >= settings.ilWarningThreshold) {
+    return { tier: ILPolicyTier.WARNING, threshold: settings.ilWarningThreshold };
+  }
+  return { tier: ILPolicyTier.NONE, threshold: 0 };
+};
+
+/**
+ * Measures each position's impermanent loss at its pool's active price and
+ * responds by tier: an alert, then recentering the range, then a partial
+ * withdrawal, then an exit. A response is not repeated until its cooldown
+ * has passed, though a higher tier escalates immediately. Every response is
+ * recorded as a risk alert with the values that triggered it.
+ */
+export class ILPolicyService {
+  private databaseService: DatabaseService;
+  private settings: ILPolicySettings;
+  private escalations = new Map<string, { tier: ILPolicyTier; cooldownUntil: Date }>();
+
+  constructor(databaseService: DatabaseService, settings: ILPolicySettings = getDefaultILPolicySettings()) {
+    this.databaseService = databaseService;
+    this.settings = settings;
+  }
+
+  async evaluate(positions: Position[], pools: PoolData[], now: Date = new Date()): Promise<ILPolicyDecision[]> {
+    const decisions: ILPolicyDecision[] = [];
+
+    for (const position of positions) {
+      // Without the pool's active bin there is neither a price to measure nor a range to recenter on
+      const pool = pools.find(p => p.address === position.poolAddress);
+      if (!pool) {
+        continue;
+      }
+
+      const decision = this.decide(position, pool, now);
+      if (!decision) {
+        continue;
+      }
+
+      this.escalations.set(position.id, { tier: decision.tier, cooldownUntil: decision.cooldownUntil });
+      await this.recordEscalation(decision, position, pool);
+      decisions.push(decision);
+    }
+
+    return decisions;
+  }
+
+  getSettings(): ILPolicySettings {
+    return this.settings;
+  }
+
+  /**
+   * Replace some settings until the next restart. Cooldowns already running
+   * keep the length they started with.
+   */
+  updateSettings(settings: Partial<ILPolicySettings>): ILPolicySettings {
+    this.settings = { ...this.settings, ...settings };
+    return this.settings;
+  }
+
+  private decide(position: Position, pool: PoolData, now: Date): ILPolicyDecision | null {
+    const currentPrice = pool.activeBin.price;
+    const { lossRatio: impermanentLossRatio } = getPositionLoss(position, pool);
+    const { tier, threshold } = getILPolicyTier(impermanentLossRatio, this.settings);
+    const previous = this.escalations.get(position.id);
+    const coolingDown = previous !== undefined && now < previous.cooldownUntil;
+
+    if (tier === ILPolicyTier.NONE) {
+      if (previous && !coolingDown) {
+        this.escalations.delete(position.id);
+      }
+      return null;
+    }
+
+    if (coolingDown && TIER_ORDER.indexOf(tier) <= TIER_ORDER.indexOf(previous.tier)) {
+      return null;
+    }
+
+    const cooldownUntil = new Date(now.getTime() + this.settings.ilActionCooldown);
+
+    return {
+      positionId: position.id,
+      poolAddress: position.poolAddress,
+      tier,
+      impermanentLossRatio,
+      threshold,
+      entryPrice: position.entryPrice,
+      currentPrice,
+      action: this.createAction(position, pool, tier, cooldownUntil),
+      cooldownUntil
+    };
+  }
+
+  private createAction(
+    position: Position,
+    pool: PoolData,
+    tier: ILPolicyTier,
+    cooldownUntil: Date
+  ): StrategyAction | undefined {
+    const base = {
+      poolAddress: position.poolAddress,
+      priority: TIER_RESPONSES[tier].priority,
+      estimatedGas: 100000
+    };
+    const parameters = { positionId: position.id, ilTier: tier, cooldownUntil };
+
+    switch (tier) {
+      case ILPolicyTier.ACTION: {
+        // Same width and shape, centered on the active bin, still owned by the deployment
+        const width = position.upperBinId - position.lowerBinId;
+        const lowerBinId = pool.activeBin.binId - Math.floor(width / 2);
+        return {
+          ...base,
+          type: ActionType.ADJUST_RANGE,
+          parameters: {
+            ...parameters,
+            binRange: [lowerBinId, lowerBinId + width],
+            deploymentId: position.strategy,
+            strategyType: position.strategyType
+          },
+          estimatedGas: 350000
+        };
+      }
+      case ILPolicyTier.CRITICAL:
+        return {
+          ...base,
+          type: ActionType.REMOVE_LIQUIDITY,
+          parameters: { ...parameters, percentage: this.settings.ilWithdrawPercentage }
+        };
+      case ILPolicyTier.EMERGENCY:
+        return { ...base, type: ActionType.EMERGENCY_EXIT, parameters };
+      default:
+        return undefined;
+    }
+  }
+
+  private async recordEscalation(decision: ILPolicyDecision, position: Position, pool: PoolData): Promise<void> {
+    const response = TIER_RESPONSES[decision.tier];
+    const details = {
+      tier: decision.tier,
+      impermanentLossRatio: decision.impermanentLossRatio,
+      threshold: decision.threshold,
+      entryPrice: decision.entryPrice.toString(),
+      currentPrice: decision.currentPrice.toString(),
+      activeBinId: pool.activeBin.binId,
+      binRange: [position.lowerBinId, position.upperBinId],
+      action: decision.action?.type,
+      actionParameters: decision.action?.parameters,
+      cooldownUntil: decision.cooldownUntil.toISOString()
+    };
+
+    logger.warn('Impermanent loss policy escalated', { positionId: position.id, poolAddress: position.poolAddress, ...details });
+
+    try {
+      await this.databaseService.saveRiskAlert({
+        level: response.level,
+        type: AlertType.IMPERMANENT_LOSS,
+        message: `Impermanent loss of ${(decision.impermanentLossRatio * 100).toFixed(2)}% reached the ` +
+          `${decision.tier} threshold of ${(decision.threshold * 100).toFixed(2)}%, ${response.description}`,
+        positionId: position.id,
+        poolAddress: position.poolAddress,
+        details
+      });
+    } catch (error) {
+      // The response still goes ahead; the log above holds the same values
+      logger.error('Failed to record impermanent loss escalation', {
+        positionId: position.id,
+        error: getErrorMessage(error)
+      });
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    this.escalations.clear();
+  }
+}
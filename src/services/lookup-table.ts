@@ -0,0 +1,155 @@
+import DLMM, { getBinArrayKeysCoverage } from '@meteora-ag/dlmm';
+import { BN } from '@coral-xyz/anchor';
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  PublicKey,
+  Transaction,
+  TransactionInstruction
+} from '@solana/web3.js';
+import { SolanaService } from './solana';
+import { DatabaseService } from './database';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+const MAX_TABLE_ADDRESSES = 256;
+const ADDRESSES_PER_EXTEND = 20; // Keeps each extend transaction under the size limit
+
+/**
+ * Accounts of a pool that every operation on it reuses: the pair, its
+ * reserves, mints, oracle and bitmap extension, and the bin arrays covering
+ * the given bin ranges. Positions, token accounts and other per-operation
+ * accounts would fill a table with keys that are never reused.
+ */
+export const getPoolLookupAccounts = (dlmm: DLMM, binRanges: Array<[number, number]> = []): PublicKey[] => {
+  const { reserveX, reserveY, tokenXMint, tokenYMint, oracle } = dlmm.lbPair;
+  const accounts = [dlmm.pubkey, reserveX, reserveY, tokenXMint, tokenYMint, oracle];
+
+  if (dlmm.binArrayBitmapExtension) {
+    accounts.push(dlmm.binArrayBitmapExtension.publicKey);
+  }
+  for (const [lowerBinId, upperBinId] of binRanges) {
+    accounts.push(...getBinArrayKeysCoverage(new BN(lowerBinId), new BN(upperBinId), dlmm.pubkey, dlmm.program.programId));
+  }
+
+  return accounts;
+};
+
+/**
+ * Maintains one address lookup table per pool, owned by the bot wallet. The
+ * pool's stable accounts are added as transactions first touch them, so
+ * later multi-bin operations reference them by one-byte index instead of a
+ * full key and fit more instructions per transaction.
+ */
+export class LookupTableService {
+  private solanaService: SolanaService;
+  private databaseService: DatabaseService;
+  private tables: Map<string, AddressLookupTableAccount> = new Map();
+
+  constructor(solanaService: SolanaService, databaseService: DatabaseService) {
+    this.solanaService = solanaService;
+    this.databaseService = databaseService;
+  }
+
+  /**
+   * The pool's lookup table holding as many of the addresses as it has room
+   * for, creating or extending it first when needed
+   */
+  async getLookupTable(poolAddress: string, addresses: PublicKey[]): Promise<AddressLookupTableAccount> {
+    let table = this.tables.get(poolAddress) || await this.loadTable(poolAddress);
+    if (!table) {
+      table = await this.createTable(poolAddress);
+    }
+
+    const known = new Set(table.state.addresses.map(address => address.toString()));
+    const missing = Array.from(new Map(
+      addresses
+        .filter(address => !known.has(address.toString()))
+        .map(address => [address.toString(), address] as [string, PublicKey])
+    ).values()).slice(0, MAX_TABLE_ADDRESSES - table.state.addresses.length);
+
+    if (missing.length > 0) {
+      table = await this.extendTable(poolAddress, table, missing);
+    }
+
+    this.tables.set(poolAddress, table);
+    return table;
+  }
+
+  private async loadTable(poolAddress: string): Promise<AddressLookupTableAccount | null> {
+    const address = await this.databaseService.getLookupTable(poolAddress);
+    if (!address) {
+      return null;
+    }
+
+    const { value } = await this.solanaService.getConnection().getAddressLookupTable(new PublicKey(address));
+    if (!value) {
+      logger.warn('Recorded lookup table not found on-chain, creating a new one', { poolAddress, address });
+    }
+    return value;
+  }
+
+  private async createTable(poolAddress: string): Promise<AddressLookupTableAccount> {
+    const authority = this.solanaService.getPublicKey();
+    const recentSlot = await this.solanaService.getConnection().getSlot('finalized');
+    const [instruction, address] = AddressLookupTableProgram.createLookupTable({
+      authority,
+      payer: authority,
+      recentSlot
+    });
+
+    await this.sendTableInstruction(instruction, 'CREATE_LOOKUP_TABLE');
+    await this.databaseService.saveLookupTable(poolAddress, address.toString());
+    logger.info('Lookup table created', { poolAddress, address: address.toString() });
+
+    return await this.fetchTable(address);
+  }
+
+  private async extendTable(
+    poolAddress: string,
+    table: AddressLookupTableAccount,
+    addresses: PublicKey[]
+  ): Promise<AddressLookupTableAccount> {
+    const authority = this.solanaService.getPublicKey();
+
+    for (let i = 0; i < addresses.length; i += ADDRESSES_PER_EXTEND) {
+      const instruction = AddressLookupTableProgram.extendLookupTable({
+        lookupTable: table.key,
+        authority,
+        payer: authority,
+        addresses: addresses.slice(i, i + ADDRESSES_PER_EXTEND)
+      });
+      await this.sendTableInstruction(instruction, 'EXTEND_LOOKUP_TABLE');
+    }
+
+    logger.info('Lookup table extended', {
+      poolAddress,
+      address: table.key.toString(),
+      added: addresses.length
+    });
+
+    // New entries can only be looked up from the slot after the extension
+    const extendedAt = await this.solanaService.getSlot();
+    while (await this.solanaService.getSlot() <= extendedAt) {
+      await new Promise(resolve => setTimeout(resolve, 400));
+    }
+
+    return await this.fetchTable(table.key);
+  }
+
+  private async fetchTable(address: PublicKey): Promise<AddressLookupTableAccount> {
+    const { value } = await this.solanaService.getConnection().getAddressLookupTable(address);
+    if (!value) {
+      throw new Error(`Lookup table not found: ${address.toString()}`);
+    }
+    return value;
+  }
+
+  private async sendTableInstruction(instruction: TransactionInstruction, label: string): Promise<void> {
+    await this.solanaService.sendTransactionWithRetry(
+      new Transaction().add(instruction),
+      [this.solanaService.getWallet().payer],
+      { label, maxAttempts: config.solana.maxSendAttempts }
+    );
+  }
+}
@@ -33,6 +33,9 @@ export class MarketDataService {
   private metricsService: MetricsService;
   private lastUpdate: Date = new Date(0);
   private updateInterval: number = 30000; // 30 seconds
+  private updateListeners: (() => void)[] = [];
+  private lastHistoryUpdate: Map<string, Date> = new Map();
+  private historyInterval: number = 60 * 60 * 1000; // One point per hour
 
   constructor(solanaService: SolanaService) {
     this.solanaService = solanaService;
@@ -44,6 +47,7 @@ export class MarketDataService {
   async initialize(): Promise<void> {
     try {
       logger.info('Initializing market data service');
+      await this.historicalService.initialize();
       
       // Initialize DLMM instances for target pools
       if (config.pools.targetPools.length > 0) {
@@ -104,13 +108,24 @@ export class MarketDataService {
   async removePool(poolAddress: string): Promise<void> {
     this.dlmmInstances.delete(poolAddress);
     this.poolCache.delete(poolAddress);
+    this.lastHistoryUpdate.delete(poolAddress);
     logger.info('Removed pool', { poolAddress });
   }
 
+  /**
+   * Record the hourly series strategies read realized volatility from,
+   * at most one point per pool per hour
+   */
   private async updateHistoricalData(poolAddress: string, dlmm: DLMM): Promise<void> {
+    const last = this.lastHistoryUpdate.get(poolAddress);
+    if (last && Date.now() - last.getTime() < this.historyInterval) {
+      return;
+    }
+
     try {
       const currentData = await this.getCurrentDataPoint(poolAddress, dlmm);
       await this.historicalService.addDataPoint(poolAddress, currentData, TimeFrame.HOURLY);
+      this.lastHistoryUpdate.set(poolAddress, currentData.timestamp);
     } catch (error) {
       logger.error('Failed to update historical data', { error: getErrorMessage(error), poolAddress });
     }
@@ -174,39 +189,32 @@ export class MarketDataService {
     };
   }
 
-  async getBinLiquidityData(poolAddress: string): Promise<BinLiquidity[]> {
+  async getBinLiquidityData(poolAddress: string, binsPerSide: number = 50): Promise<BinLiquidity[]> {
     try {
       const dlmm = this.dlmmInstances.get(poolAddress);
       if (!dlmm) {
         throw new Error(`Pool not found: ${poolAddress}`);
       }
 
-      const binArrays = await dlmm.getBinArrays();
-      const activeBin = await dlmm.getActiveBin();
-      const binStep = await dlmm.getBinStep();
-
-      const binLiquidityData: BinLiquidity[] = [];
-      
-      for (const binArray of binArrays) {
-        for (const bin of binArray.account.bins) {
-          if (!bin.liquidityX.isZero() || !bin.liquidityY.isZero()) {
-            const priceX = this.metricsService.calculateBinPrice(
-              bin.binId,
-              binStep,
-              new Big(activeBin.price)
-            );
-
-            binLiquidityData.push({
-              liquidity: new Big(bin.liquidityX.add(bin.liquidityY).toString()),
-              supplyX: new Big(bin.liquidityX.toString()),
-              supplyY: new Big(bin.liquidityY.toString()),
-              priceX,
-              binId: bin.binId,
-              isActive: bin.binId === activeBin.binId
-            });
-          }
-        }
-      }
+      await dlmm.refetchStates();
+      const { activeBin, bins } = await dlmm.getBinsAroundActiveBin(binsPerSide, binsPerSide);
+      const decimalsX = Math.pow(10, dlmm.tokenX.mint.decimals);
+      const decimalsY = Math.pow(10, dlmm.tokenY.mint.decimals);
+
+      const binLiquidityData: BinLiquidity[] = bins.map(bin => {
+        const priceX = new Big(dlmm.fromPricePerLamport(Number(bin.price)));
+        const supplyX = new Big(bin.xAmount.toString()).div(decimalsX);
+        const supplyY = new Big(bin.yAmount.toString()).div(decimalsY);
+
+        return {
+          binId: bin.binId,
+          priceX,
+          supplyX,
+          supplyY,
+          liquidity: supplyX.mul(priceX).add(supplyY),
+          isActive: bin.binId === activeBin
+        };
+      });
 
       return binLiquidityData.sort((a, b) => a.binId - b.binId);
     } catch (error) {
@@ -509,6 +517,14 @@ export class MarketDataService {
 
   async getMarketData(): Promise<MarketData> {
     const pools = await this.getAllPoolsData();
+
+    for (const pool of pools) {
+      const dynamicFee = await this.getDynamicFee(pool.address);
+      if (dynamicFee !== null) {
+        pool.metrics.dynamicFee = Number(dynamicFee.toString());
+      }
+    }
+
     const trends = await this.analyzeMarketTrends();
     const opportunities = await this.identifyTradingOpportunities();
     
@@ -532,10 +548,12 @@ export class MarketDataService {
         
         for (const [address, dlmm] of this.dlmmInstances) {
           await this.updatePoolData(address, dlmm);
+          await this.updateHistoricalData(address, dlmm);
         }
         
         this.lastUpdate = new Date();
         logger.debug('Completed periodic market data update');
+        this.updateListeners.forEach(listener => listener());
       } catch (error) {
         logger.error('Failed periodic market data update', { error: getErrorMessage(error) });
       }
@@ -591,6 +609,19 @@ export class MarketDataService {
     return this.dlmmInstances.get(poolAddress) || null;
   }
 
+  // Called after every periodic refresh of the tracked pools
+  onUpdate(listener: () => void): void {
+    this.updateListeners.push(listener);
+  }
+
+  getTrackedPools(): string[] {
+    return Array.from(this.dlmmInstances.keys());
+  }
+
+  getHistoricalDataService(): HistoricalDataService {
+    return this.historicalService;
+  }
+
   async close(): Promise<void> {
     // Clear intervals and cleanup
     this.poolCache.clear();
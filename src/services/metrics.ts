@@ -1,7 +1,7 @@
 import { Big } from 'big.js';
 import { logger } from '../utils/logger';
 import { getErrorMessage } from '../utils/error';
-import { HistoricalDataPoint, FeeInfo, BinMetrics, ExtendedPoolMetrics } from '../types';
+import { HistoricalDataPoint, FeeInfo, BinMetrics } from '../types';
 
 export class MetricsService {
   constructor() {}
@@ -96,6 +96,10 @@ export class MetricsService {
     }
   }
 
+  /**
+   * Full-range constant-product IL for a price move. A DLMM position
+   * concentrated in a few bins loses more; see calculateDivergenceLoss.
+   */
   calculateImpermanentLoss(
     initialPriceRatio: Big,
     currentPriceRatio: Big
@@ -1,42 +1,150 @@
-import DLMM, { StrategyType, autoFillYByStrategy } from '@meteora-ag/dlmm';
-import { Connection, Keypair, PublicKey, Transaction, sendAndConfirmTransaction } from '@solana/web3.js';
+import DLMM, { BinLiquidity, LbPosition, StrategyType } from '@meteora-ag/dlmm';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { createHash } from 'crypto';
 import { BN } from '@coral-xyz/anchor';
 import Big from 'big.js';
 import { SolanaService } from './solana';
 import { MarketDataService } from './market-data';
 import { DatabaseService } from './database';
+import { PaperExecutionService } from './paper-execution';
+import { WorkflowService, getStepResult } from './workflow';
+import { DepositSize, sizeDeposit } from './deposit-sizing';
+import { BalanceGuard, TransactionSender, summarizeSimulations } from './transaction-sender';
+import { LookupTableService, getPoolLookupAccounts } from './lookup-table';
+import { addBins } from './divergence-loss';
+import { EmergencyHaltService } from './emergency-halt';
+import { ExposureService } from './exposure';
 import { logger, logTrade } from '../utils/logger';
 import { config } from '../config';
-import { getErrorMessage } from '../utils/error';
+import { TransactionSequenceError, getErrorMessage } from '../utils/error';
+import { min, toBig } from '../utils/math';
 import { 
+  AlertLevel,
+  AlertType,
+  BinAmounts,
   Position, 
   PositionStatus, 
   StrategyAction, 
   ActionType, 
   ExecutionResult, 
-  ActionParameters 
+  ActionParameters,
+  EmergencyExitOutcome,
+  ExecutionMode,
+  TransactionSimulation,
+  Workflow,
+  WorkflowStatus,
+  WorkflowStep
 } from '../types';
 
+interface TokenAmounts {
+  amountX: Big; // In token units
+  amountY: Big;
+}
+
+interface FeeClaim extends TokenAmounts {
+  positionId: string;
+  value: Big; // Quote value at the claim-time price
+  signatures: string[];
+  simulations: TransactionSimulation[];
+  gasUsed: number; // Lamports
+}
+
+// The same share of each token, e.g. of a claim downsized by an exposure limit
+const scaleAmounts = (amounts: TokenAmounts, share: Big): TokenAmounts => ({
+  amountX: amounts.amountX.mul(share),
+  amountY: amounts.amountY.mul(share)
+});
+
+const DEFAULT_MAX_SLIPPAGE = 0.01;
+const NATIVE_MINT = 'So11111111111111111111111111111111111111112';
+const NATIVE_SOL_RESERVE = 0.1; // SOL kept back for position rent and transaction fees
+
+const REBALANCE_WORKFLOW = 'rebalance';
+const EMERGENCY_EXIT_WORKFLOW = 'emergency_exit';
+
 export class OrderExecutionService {
   private solanaService: SolanaService;
   private marketDataService: MarketDataService;
   private databaseService: DatabaseService;
-  private connection: Connection;
+  private transactionSender: TransactionSender;
+  private mode: ExecutionMode;
+  private paperExecution: PaperExecutionService;
+  private workflowService: WorkflowService;
+  private autoSwap: boolean;
+  private haltService: EmergencyHaltService;
+  private exposureService: ExposureService;
 
   constructor(
     solanaService: SolanaService,
     marketDataService: MarketDataService,
-    databaseService: DatabaseService
+    databaseService: DatabaseService,
+    mode: ExecutionMode = config.bot.executionMode,
+    autoSwap: boolean = config.bot.autoSwapEnabled,
+    haltService: EmergencyHaltService = new EmergencyHaltService(databaseService),
+    exposureService: ExposureService = new ExposureService(marketDataService, databaseService, mode)
   ) {
     this.solanaService = solanaService;
     this.marketDataService = marketDataService;
     this.databaseService = databaseService;
-    this.connection = solanaService.getConnection();
+    this.transactionSender = new TransactionSender(
+      solanaService,
+      config.solana.useLookupTables ? new LookupTableService(solanaService, databaseService) : null
+    );
+    this.mode = mode;
+    this.autoSwap = autoSwap;
+    this.haltService = haltService;
+    this.exposureService = exposureService;
+    this.paperExecution = new PaperExecutionService(marketDataService, databaseService, autoSwap, exposureService);
+    this.workflowService = new WorkflowService(databaseService);
+    this.registerWorkflows();
+  }
+
+  /**
+   * Rebalances and pool-wide exits span several transactions, so they run as
+   * persisted workflows that can resume after a crash without repeating a step
+   */
+  private registerWorkflows(): void {
+    this.workflowService.register(REBALANCE_WORKFLOW, {
+      plan: () => ['close_position', 'create_position'],
+      runStep: async (workflow, step) => step.name === 'close_position'
+        ? await this.runCloseStep(workflow.input.poolAddress, workflow.input.positionId, step)
+        : await this.runRebalanceCreateStep(workflow, step)
+    });
+
+    this.workflowService.register(EMERGENCY_EXIT_WORKFLOW, {
+      plan: input => (input.positionIds as string[]).map(positionId => `close_position:${positionId}`),
+      runStep: async (workflow, step) =>
+        await this.runCloseStep(workflow.input.poolAddress, step.name.split(':')[1], step),
+      continueOnError: true
+    });
+  }
+
+  /**
+   * Resume workflows interrupted by a previous shutdown
+   */
+  async resumeWorkflows(): Promise<Workflow[]> {
+    if (this.mode === ExecutionMode.PAPER) {
+      return [];
+    }
+
+    const workflows = await this.workflowService.resumeIncomplete();
+    if (workflows.length > 0) {
+      logger.info('Resumed interrupted workflows', {
+        workflows: workflows.map(workflow => ({ id: workflow.id, type: workflow.type, status: workflow.status }))
+      });
+    }
+    for (const workflow of workflows) {
+      await this.alertIfStranded(workflow);
+    }
+    return workflows;
   }
 
   async initialize(): Promise<void> {
     try {
-      logger.info('Initializing order execution service');
+      logger.info('Initializing order execution service', { mode: this.mode });
+      if (this.mode === ExecutionMode.PAPER) {
+        logger.warn('📝 Paper trading mode: actions are simulated and recorded in the paper ledger');
+      }
       // Service is ready to execute orders
       logger.info('Order execution service initialized successfully');
     } catch (error) {
@@ -46,29 +154,35 @@ export class OrderExecutionService {
   }
 
   async executeAction(action: StrategyAction): Promise<ExecutionResult> {
+    if (!this.haltService.allows(action)) {
+      const halt = this.haltService.getHalt();
+      logger.warn('Action refused while trading is halted', {
+        type: action.type,
+        poolAddress: action.poolAddress,
+        haltReason: halt?.reason
+      });
+      return { success: false, error: `Trading halted by emergency stop: ${halt?.reason}` };
+    }
+
     try {
       logger.info('Executing strategy action', { 
         type: action.type, 
         poolAddress: action.poolAddress,
-        priority: action.priority 
+        priority: action.priority,
+        mode: this.mode
       });
 
-      switch (action.type) {
-        case ActionType.CREATE_POSITION:
-          return await this.createPosition(action);
-        case ActionType.CLOSE_POSITION:
-          return await this.closePosition(action);
-        case ActionType.REBALANCE:
-          return await this.rebalancePosition(action);
-        case ActionType.COLLECT_FEES:
-          return await this.collectFees(action);
-        case ActionType.ADJUST_RANGE:
-          return await this.adjustRange(action);
-        case ActionType.EMERGENCY_EXIT:
-          return await this.emergencyExit(action);
-        default:
-          throw new Error(`Unsupported action type: ${action.type}`);
+      // Checked against every active position before anything is sent or simulated
+      const exposure = await this.exposureService.check(action);
+      if (!exposure.allowed) {
+        return { success: false, error: exposure.reason, limitReason: exposure.reason };
       }
+      if (exposure.reason) {
+        const downsized = { ...action, parameters: { ...action.parameters, liquidityAmount: exposure.amount } };
+        return { ...await this.dispatch(downsized), limitReason: exposure.reason };
+      }
+
+      return await this.dispatch(action);
     } catch (error) {
       logger.error('Failed to execute action', { 
         error: getErrorMessage(error), 
@@ -78,11 +192,38 @@ export class OrderExecutionService {
       
       return {
         success: false,
-        error: getErrorMessage(error)
+        error: getErrorMessage(error),
+        // Which transactions of a multi-transaction operation landed before it stopped
+        steps: error instanceof TransactionSequenceError ? error.steps : undefined
       };
     }
   }
 
+  private async dispatch(action: StrategyAction): Promise<ExecutionResult> {
+    if (this.mode === ExecutionMode.PAPER) {
+      return await this.paperExecution.executeAction(action);
+    }
+
+    switch (action.type) {
+      case ActionType.CREATE_POSITION:
+        return await this.createPosition(action);
+      case ActionType.CLOSE_POSITION:
+        return await this.closePosition(action);
+      case ActionType.REBALANCE:
+        return await this.rebalancePosition(action);
+      case ActionType.COLLECT_FEES:
+        return await this.collectFees(action);
+      case ActionType.ADJUST_RANGE:
+        return await this.adjustRange(action);
+      case ActionType.REMOVE_LIQUIDITY:
+        return await this.removeLiquidity(action);
+      case ActionType.EMERGENCY_EXIT:
+        return await this.emergencyExit(action);
+      default:
+        throw new Error(`Unsupported action type: ${action.type}`);
+    }
+  }
+
   private async createPosition(action: StrategyAction): Promise<ExecutionResult> {
     try {
       const { poolAddress, parameters } = action;
@@ -96,7 +237,7 @@ export class OrderExecutionService {
       await dlmm.refetchStates();
       
       // Get active bin
-      const activeBin = await dlmm.getActiveBin();
+      let activeBin = await dlmm.getActiveBin();
       
       // Extract parameters
       const {
@@ -108,71 +249,116 @@ export class OrderExecutionService {
 
       const [minBinId, maxBinId] = binRange;
       
-      // Calculate token amounts
-      const totalXAmount = new BN(liquidityAmount.mul(0.5).mul(Math.pow(10, dlmm.tokenX.mint.decimals)).toString());
-      
-      // Auto-fill Y amount based on strategy
-      const totalYAmount = autoFillYByStrategy(
-        activeBin.binId,
-        dlmm.lbPair.binStep,
-        totalXAmount,
-        new BN(0), // activeBin.xAmount - would need to get from bin data
-        new BN(0), // activeBin.yAmount - would need to get from bin data
-        minBinId,
-        maxBinId,
-        strategyType
-      );
+      // Keyed creates derive the position address from the key, so a retry finds the
+      // position it already opened instead of opening a second one
+      const { idempotencyKey } = parameters;
+      const newPosition = idempotencyKey ? this.derivePositionKeypair(idempotencyKey) : new Keypair();
+      const maxSlippage = parameters.maxSlippage ?? DEFAULT_MAX_SLIPPAGE;
+      const signatures: string[] = [];
+      const simulations: TransactionSimulation[] = [];
+      let gasUsed = 0;
+
+      if (idempotencyKey) {
+        const recorded = await this.databaseService.getPosition(newPosition.publicKey.toString());
+        if (recorded) {
+          logger.info('Position already created for idempotency key', { idempotencyKey, positionId: recorded.id });
+          return {
+            success: true,
+            newPosition: recorded,
+            actualReturn: recorded.totalLiquidity
+          };
+        }
+      }
 
-      // Create new position keypair
-      const newPosition = new Keypair();
-      
-      // Create position transaction
-      const createPositionTx = await dlmm.initializePositionAndAddLiquidityByStrategy({
-        positionPubKey: newPosition.publicKey,
-        user: this.solanaService.getPublicKey(),
-        totalXAmount,
-        totalYAmount,
-        strategy: {
-          maxBinId,
-          minBinId,
-          strategyType
+      const landed = idempotencyKey
+        ? await this.getUserPosition(poolAddress, newPosition.publicKey.toString())
+        : undefined;
+
+      if (!landed && this.autoSwap && parameters.autoSwap !== false) {
+        const swapped = await this.swapForDeposit(
+          dlmm,
+          newPosition.publicKey.toString(),
+          activeBin,
+          toBig(liquidityAmount),
+          [minBinId, maxBinId],
+          strategyType,
+          maxSlippage
+        );
+        if (swapped) {
+          simulations.push(...(swapped.simulations || []));
+          gasUsed += swapped.gasUsed || 0;
+          // The swap moved the pool, so size against the new active bin
+          await dlmm.refetchStates();
+          activeBin = await dlmm.getActiveBin();
         }
-      });
+      }
 
-      // Handle transaction array
-      const transactions = Array.isArray(createPositionTx) ? createPositionTx : [createPositionTx];
-      const signatures: string[] = [];
+      // A landed deposit already left the wallet, so size it without the balance check
+      const deposit = await this.planDeposit(dlmm, activeBin, toBig(liquidityAmount), minBinId, maxBinId, strategyType, !landed);
+      const { totalXAmount, totalYAmount } = deposit;
 
-      for (const tx of transactions) {
-        const signature = await sendAndConfirmTransaction(
-          this.connection,
-          tx,
+      if (landed) {
+        logger.warn('Position exists on-chain but was not recorded, recording without resending', {
+          idempotencyKey,
+          positionId: newPosition.publicKey.toString()
+        });
+      } else {
+        // Create position transaction
+        const createPositionTx = await dlmm.initializePositionAndAddLiquidityByStrategy({
+          positionPubKey: newPosition.publicKey,
+          user: this.solanaService.getPublicKey(),
+          totalXAmount,
+          totalYAmount,
+          strategy: {
+            maxBinId,
+            minBinId,
+            strategyType
+          }
+        });
+
+        // Handle transaction array
+        const transactions = Array.isArray(createPositionTx) ? createPositionTx : [createPositionTx];
+
+        const sent = await this.transactionSender.sendSequence(
+          transactions,
           [this.solanaService.getWallet().payer, newPosition],
-          { 
-            skipPreflight: false, 
-            preflightCommitment: 'confirmed' 
+          {
+            label: 'CREATE_POSITION',
+            poolAddress,
+            lookupAccounts: getPoolLookupAccounts(dlmm, [[minBinId, maxBinId]]),
+            guards: this.depositGuards(dlmm, deposit, maxSlippage)
           }
         );
-        signatures.push(signature);
+        for (const { signature, simulation, fee } of sent) {
+          signatures.push(signature);
+          simulations.push(simulation);
+          gasUsed += fee;
+        }
       }
 
+      // The deposit as it landed in each bin is the benchmark for impermanent loss
+      const entryBins = await this.readPositionBins(dlmm, newPosition.publicKey.toString());
+
       // Create position object
       const position: Position = {
         id: newPosition.publicKey.toString(),
         poolAddress,
-        strategy: strategyType.toString(),
+        strategy: parameters.deploymentId || strategyType.toString(),
         status: PositionStatus.ACTIVE,
         lowerBinId: minBinId,
         upperBinId: maxBinId,
-        liquidityX: new Big(totalXAmount.toString()),
-        liquidityY: new Big(totalYAmount.toString()),
-        totalLiquidity: liquidityAmount,
+        liquidityX: deposit.amountX,
+        liquidityY: deposit.amountY,
+        totalLiquidity: deposit.value,
         entryPrice: new Big(activeBin.price),
         currentPrice: new Big(activeBin.price),
         unrealizedPnl: new Big(0),
         realizedPnl: new Big(0),
         feesCollected: new Big(0),
         impermanentLoss: new Big(0),
+        strategyType,
+        entryBins,
+        entryActiveBinId: entryBins ? activeBin.binId : undefined,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -180,18 +366,41 @@ export class OrderExecutionService {
       // Save position to database
       await this.databaseService.savePosition(position);
 
-      logTrade('CREATE_POSITION', poolAddress, liquidityAmount.toString(), {
+      // A deposit recovered from the chain is recorded too, so the ledger still
+      // sees the capital enter; its signature was lost with the original attempt
+      await this.databaseService.saveTransaction({
+        positionId: position.id,
+        type: 'CREATE_POSITION',
+        amount: deposit.value.toString(),
+        amountX: deposit.amountX.toString(),
+        amountY: deposit.amountY.toString(),
+        price: activeBin.pricePerToken,
+        fees: '0',
+        gasUsed,
+        transactionId: signatures[0] || '',
+        timestamp: new Date()
+      });
+
+      logTrade('CREATE_POSITION', poolAddress, deposit.value.toString(), {
         positionId: position.id,
         binRange: [minBinId, maxBinId],
         strategyType,
-        signatures
+        side: deposit.side,
+        amountX: deposit.amountX.toString(),
+        amountY: deposit.amountY.toString(),
+        limitedByBalance: deposit.limitedByBalance,
+        signatures,
+        gasUsed,
+        simulations: summarizeSimulations(simulations)
       });
 
       return {
         success: true,
         transactionId: signatures[0],
+        gasUsed,
         newPosition: position,
-        actualReturn: liquidityAmount
+        actualReturn: deposit.value,
+        simulations
       };
     } catch (error) {
       logger.error('Failed to create position', { error: getErrorMessage(error) });
@@ -231,36 +440,88 @@ export class OrderExecutionService {
         throw new Error(`User position not found: ${positionId}`);
       }
 
-      // Close position transaction
-      const closePositionTx = await dlmm.closePosition({
-        owner: this.solanaService.getPublicKey(),
-        position: userPosition
-      });
+      await dlmm.refetchStates();
+      const price = new Big((await dlmm.getActiveBin()).pricePerToken);
+      const { positionData } = userPosition;
+      const scaleX = Math.pow(10, dlmm.tokenX.mint.decimals);
+      const scaleY = Math.pow(10, dlmm.tokenY.mint.decimals);
+      const withdrawn: TokenAmounts = {
+        amountX: new Big(positionData.totalXAmount).div(scaleX),
+        amountY: new Big(positionData.totalYAmount).div(scaleY)
+      };
+      const withdrawnValue = withdrawn.amountX.mul(price).add(withdrawn.amountY);
+      const feesValue = new Big(positionData.feeXExcludeTransferFee.toString()).div(scaleX).mul(price)
+        .add(new Big(positionData.feeYExcludeTransferFee.toString()).div(scaleY));
+
+      // closePosition only accepts an empty position: a funded one withdraws
+      // everything, claims its fees and closes in the same transactions
+      const funded = withdrawn.amountX.gt(0) || withdrawn.amountY.gt(0);
+      const closeTx = funded
+        ? await dlmm.removeLiquidity({
+          position: userPosition.publicKey,
+          user: this.solanaService.getPublicKey(),
+          fromBinId: positionData.lowerBinId,
+          toBinId: positionData.upperBinId,
+          bps: new BN(10000),
+          shouldClaimAndClose: true
+        })
+        : await dlmm.closePosition({
+          owner: this.solanaService.getPublicKey(),
+          position: userPosition
+        });
 
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        closePositionTx,
+      const sent = await this.transactionSender.sendSequence(
+        Array.isArray(closeTx) ? closeTx : [closeTx],
         [this.solanaService.getWallet().payer],
-        { 
-          skipPreflight: false, 
-          preflightCommitment: 'confirmed' 
+        {
+          label: 'CLOSE_POSITION',
+          poolAddress,
+          lookupAccounts: getPoolLookupAccounts(dlmm, [[positionData.lowerBinId, positionData.upperBinId]]),
+          guards: this.withdrawalGuards(dlmm)
         }
       );
+      const signature = sent[sent.length - 1].signature;
+      const simulations = sent.map(({ simulation }) => simulation);
+      const fee = sent.reduce((sum, { fee }) => sum + fee, 0);
 
       // Update position status
       position.status = PositionStatus.CLOSED;
+      position.currentPrice = price;
       position.updatedAt = new Date();
       await this.databaseService.updatePosition(position);
 
-      logTrade('CLOSE_POSITION', poolAddress, position.totalLiquidity.toString(), {
+      await this.databaseService.saveTransaction({
+        positionId,
+        type: 'CLOSE_POSITION',
+        amount: withdrawnValue.toString(),
+        amountX: withdrawn.amountX.toString(),
+        amountY: withdrawn.amountY.toString(),
+        price: price.toString(),
+        fees: feesValue.toString(),
+        gasUsed: fee,
+        transactionId: signature,
+        timestamp: new Date()
+      });
+
+      logTrade('CLOSE_POSITION', poolAddress, withdrawnValue.toString(), {
         positionId,
-        signature
+        signatures: sent.map(({ signature }) => signature),
+        amountX: withdrawn.amountX.toString(),
+        amountY: withdrawn.amountY.toString(),
+        fees: feesValue.toString(),
+        gasUsed: fee,
+        simulations: summarizeSimulations(simulations)
       });
 
       return {
         success: true,
         transactionId: signature,
-        actualReturn: position.totalLiquidity
+        gasUsed: fee,
+        // Everything returned to the wallet, fees included, as a rebalance re-deposits it
+        actualReturn: withdrawnValue.add(feesValue),
+        amountX: withdrawn.amountX,
+        amountY: withdrawn.amountY,
+        simulations
       };
     } catch (error) {
       logger.error('Failed to close position', { error: getErrorMessage(error) });
@@ -282,54 +543,40 @@ export class OrderExecutionService {
         throw new Error(`Position not found: ${positionId}`);
       }
 
-      // For rebalancing, we'll remove liquidity and add it back with new range
-      // This is a simplified approach - in production, you might want more sophisticated rebalancing
-
-      // First, remove current liquidity
-      const removeResult = await this.executeAction({
-        type: ActionType.CLOSE_POSITION,
+      // Close the current position and reopen it with the new range. A position is
+      // rebalanced away at most once, so its ID keys the workflow.
+      const workflow = await this.workflowService.run(REBALANCE_WORKFLOW, `rebalance:${positionId}`, {
         poolAddress,
-        parameters: { positionId },
-        priority: action.priority,
-        estimatedGas: action.estimatedGas
-      });
-
-      if (!removeResult.success) {
-        throw new Error(`Failed to remove liquidity for rebalancing: ${removeResult.error}`);
-      }
-
-      // Then create new position with updated range
-      const createResult = await this.executeAction({
-        type: ActionType.CREATE_POSITION,
-        poolAddress,
-        parameters: {
-          liquidityAmount: position.totalLiquidity,
-          ...parameters
-        },
+        positionId,
+        parameters,
         priority: action.priority,
         estimatedGas: action.estimatedGas
       });
 
-      if (!createResult.success) {
-        throw new Error(`Failed to create new position for rebalancing: ${createResult.error}`);
+      if (workflow.status !== WorkflowStatus.COMPLETED) {
+        await this.alertIfStranded(workflow);
+        throw new Error(`Rebalance workflow ${workflow.id} did not complete: ${workflow.error}`);
       }
 
-      // Update original position record
-      position.lastRebalance = new Date();
-      position.updatedAt = new Date();
-      await this.databaseService.updatePosition(position);
+      const closeResult = getStepResult(workflow, 'close_position');
+      const createResult = getStepResult(workflow, 'create_position');
+      const newPosition = createResult ? await this.databaseService.getPosition(createResult.positionId) : null;
+      const gasUsed = (closeResult?.gasUsed || 0) + (createResult?.gasUsed || 0);
 
       logTrade('REBALANCE', poolAddress, position.totalLiquidity.toString(), {
+        workflowId: workflow.id,
         oldPositionId: positionId,
-        newPositionId: createResult.newPosition?.id,
-        removeSignature: removeResult.transactionId,
-        createSignature: createResult.transactionId
+        newPositionId: createResult?.positionId,
+        removeSignature: closeResult?.transactionId,
+        createSignature: createResult?.transactionId,
+        gasUsed
       });
 
       return {
         success: true,
-        transactionId: createResult.transactionId,
-        newPosition: createResult.newPosition,
+        transactionId: createResult?.transactionId,
+        gasUsed,
+        newPosition: newPosition || undefined,
         actualReturn: position.totalLiquidity
       };
     } catch (error) {
@@ -338,6 +585,374 @@ export class OrderExecutionService {
     }
   }
 
+  /**
+   * Close a position as a workflow step. A retry first checks whether the
+   * earlier attempt already closed it on-chain.
+   */
+  private async runCloseStep(poolAddress: string, positionId: string, step: WorkflowStep): Promise<Record<string, any>> {
+    const position = await this.databaseService.getPosition(positionId);
+    if (!position) {
+      throw new Error(`Position not found: ${positionId}`);
+    }
+
+    if (position.status === PositionStatus.CLOSED) {
+      return { positionId, actualReturn: position.totalLiquidity.toString() };
+    }
+
+    if (step.attempts > 1 && !(await this.getUserPosition(poolAddress, positionId))) {
+      logger.warn('Position already closed on-chain, recording close', { positionId, step: step.idempotencyKey });
+      position.status = PositionStatus.CLOSED;
+      position.updatedAt = new Date();
+      await this.databaseService.updatePosition(position);
+      return { positionId, actualReturn: position.totalLiquidity.toString() };
+    }
+
+    const result = await this.closePosition({
+      type: ActionType.CLOSE_POSITION,
+      poolAddress,
+      parameters: { positionId },
+      priority: 0,
+      estimatedGas: 0
+    });
+
+    return {
+      positionId,
+      transactionId: result.transactionId,
+      gasUsed: result.gasUsed,
+      actualReturn: result.actualReturn?.toString()
+    };
+  }
+
+  private async runRebalanceCreateStep(workflow: Workflow, step: WorkflowStep): Promise<Record<string, any>> {
+    const { poolAddress, positionId, parameters, priority, estimatedGas } = workflow.input;
+
+    // A halt between the close and the create, or before a resume, keeps the funds out
+    if (this.haltService.isHalted()) {
+      throw new Error(`Trading halted by emergency stop: ${this.haltService.getHalt()?.reason}`);
+    }
+
+    const position = await this.databaseService.getPosition(positionId);
+    if (!position) {
+      throw new Error(`Position not found: ${positionId}`);
+    }
+
+    // Re-deposit what the close returned, not the entry cost, and keep the
+    // position with its deployment and liquidity shape. A larger requested
+    // amount is capped there: the exposure check passes rebalances because
+    // they only move capital already counted. Input round-trips through the
+    // database, so amounts may come back as strings.
+    const closed = getStepResult(workflow, 'close_position');
+    const returned = toBig(closed?.actualReturn ?? position.totalLiquidity);
+    const liquidityAmount = parameters.liquidityAmount === undefined
+      ? returned
+      : min(toBig(parameters.liquidityAmount), returned);
+    const result = await this.createPosition({
+      type: ActionType.CREATE_POSITION,
+      poolAddress,
+      parameters: {
+        ...parameters,
+        deploymentId: parameters.deploymentId || position.strategy,
+        strategyType: parameters.strategyType ?? position.strategyType,
+        liquidityAmount,
+        idempotencyKey: step.idempotencyKey
+      },
+      priority,
+      estimatedGas
+    });
+
+    if (!result.newPosition) {
+      throw new Error('Create step returned no position');
+    }
+
+    // Update original position record
+    position.lastRebalance = new Date();
+    position.updatedAt = new Date();
+    await this.databaseService.updatePosition(position);
+
+    return {
+      positionId: result.newPosition.id,
+      transactionId: result.transactionId,
+      gasUsed: result.gasUsed
+    };
+  }
+
+  /**
+   * Alert an operator to a rebalance that closed its position but failed to
+   * reopen it, leaving the funds in the wallet until a restart retries it
+   */
+  private async alertIfStranded(workflow: Workflow): Promise<void> {
+    if (
+      workflow.type !== REBALANCE_WORKFLOW ||
+      workflow.status !== WorkflowStatus.FAILED ||
+      !getStepResult(workflow, 'close_position')
+    ) {
+      return;
+    }
+
+    try {
+      await this.databaseService.saveRiskAlert({
+        level: AlertLevel.CRITICAL,
+        type: AlertType.WORKFLOW,
+        message: `Rebalance of ${workflow.input.positionId} closed it without reopening it, ` +
+          `leaving its funds in the wallet until the next restart retries it: ${workflow.error}`,
+        positionId: workflow.input.positionId,
+        poolAddress: workflow.input.poolAddress,
+        details: { workflowId: workflow.id, workflowType: workflow.type, idempotencyKey: workflow.idempotencyKey }
+      });
+    } catch (error) {
+      logger.error('Failed to record workflow alert', { workflowId: workflow.id, error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Token amounts a position holds in each bin on-chain. A position whose bins
+   * cannot be read falls back to the full-range impermanent loss estimate.
+   */
+  private async readPositionBins(dlmm: DLMM, positionId: string): Promise<BinAmounts[] | undefined> {
+    try {
+      const { positionData } = await dlmm.getPosition(new PublicKey(positionId));
+      const scaleX = Math.pow(10, dlmm.tokenX.mint.decimals);
+      const scaleY = Math.pow(10, dlmm.tokenY.mint.decimals);
+      return positionData.positionBinData.map(bin => ({
+        binId: bin.binId,
+        amountX: new Big(bin.positionXAmount).div(scaleX),
+        amountY: new Big(bin.positionYAmount).div(scaleY)
+      }));
+    } catch (error) {
+      logger.warn('Failed to read position bins', { positionId, error: getErrorMessage(error) });
+      return undefined;
+    }
+  }
+
+  private async getUserPosition(poolAddress: string, positionId: string): Promise<LbPosition | undefined> {
+    const dlmm = this.marketDataService.getDLMMInstance(poolAddress);
+    if (!dlmm) {
+      throw new Error(`DLMM instance not found for pool: ${poolAddress}`);
+    }
+
+    const { userPositions } = await dlmm.getPositionsByUserAndLbPair(
+      this.solanaService.getPublicKey()
+    );
+
+    return userPositions.find(p => p.publicKey.equals(new PublicKey(positionId)));
+  }
+
+  /**
+   * Size a deposit over a bin range from the live active bin and, unless the
+   * funds have already left the wallet, the wallet's spendable balances
+   */
+  private async planDeposit(
+    dlmm: DLMM,
+    activeBin: BinLiquidity,
+    budget: Big,
+    minBinId: number,
+    maxBinId: number,
+    strategyType: StrategyType,
+    checkBalances: boolean = true
+  ): Promise<DepositSize> {
+    const [balanceX, balanceY] = checkBalances
+      ? await Promise.all([
+        this.getSpendableBalance(dlmm.tokenX.publicKey),
+        this.getSpendableBalance(dlmm.tokenY.publicKey)
+      ])
+      : [undefined, undefined];
+
+    const deposit = sizeDeposit({
+      budget,
+      price: new Big(activeBin.pricePerToken),
+      activeBinId: activeBin.binId,
+      activeBinXAmount: activeBin.xAmount,
+      activeBinYAmount: activeBin.yAmount,
+      binStep: dlmm.lbPair.binStep,
+      decimalsX: dlmm.tokenX.mint.decimals,
+      decimalsY: dlmm.tokenY.mint.decimals,
+      minBinId,
+      maxBinId,
+      strategyType,
+      balanceX,
+      balanceY
+    });
+
+    if (deposit.limitedByBalance) {
+      logger.warn('Deposit reduced to fit wallet balances', {
+        budget: budget.toString(),
+        value: deposit.value.toString(),
+        balanceX: balanceX?.toString(),
+        balanceY: balanceY?.toString()
+      });
+    }
+
+    return deposit;
+  }
+
+  /**
+   * Swap the wallet's surplus token for the one a deposit is short of, through
+   * the same pool. Quotes whose price impact exceeds maxSlippage are rejected
+   * rather than sent, and the sent swap enforces the quote's minimum output.
+   */
+  private async swapForDeposit(
+    dlmm: DLMM,
+    positionId: string,
+    activeBin: BinLiquidity,
+    budget: Big,
+    [minBinId, maxBinId]: [number, number],
+    strategyType: StrategyType,
+    maxSlippage: number
+  ): Promise<ExecutionResult | null> {
+    const price = new Big(activeBin.pricePerToken);
+    const target = sizeDeposit({
+      budget,
+      price,
+      activeBinId: activeBin.binId,
+      activeBinXAmount: activeBin.xAmount,
+      activeBinYAmount: activeBin.yAmount,
+      binStep: dlmm.lbPair.binStep,
+      decimalsX: dlmm.tokenX.mint.decimals,
+      decimalsY: dlmm.tokenY.mint.decimals,
+      minBinId,
+      maxBinId,
+      strategyType
+    });
+
+    const [balanceX, balanceY] = await Promise.all([
+      this.getSpendableBalance(dlmm.tokenX.publicKey),
+      this.getSpendableBalance(dlmm.tokenY.publicKey)
+    ]);
+    const deficitX = target.amountX.sub(balanceX);
+    const deficitY = target.amountY.sub(balanceY);
+
+    // Pad the input for the pool fee and slippage, but never sell into the other side's own deficit
+    let swapForY: boolean;
+    let inAmount: Big;
+    if (deficitX.gt(0) && deficitY.lt(0)) {
+      swapForY = false;
+      inAmount = min(deficitX.mul(price).mul(1 + maxSlippage), deficitY.abs());
+    } else if (deficitY.gt(0) && deficitX.lt(0)) {
+      swapForY = true;
+      inAmount = min(deficitY.div(price).mul(1 + maxSlippage), deficitX.abs());
+    } else {
+      // Either the wallet already holds the mix or it is short of both, which a swap cannot fix
+      return null;
+    }
+
+    const [inToken, outToken] = swapForY ? [dlmm.tokenX, dlmm.tokenY] : [dlmm.tokenY, dlmm.tokenX];
+    const inAmountRaw = new BN(inAmount.mul(Math.pow(10, inToken.mint.decimals)).toFixed(0, Big.roundDown));
+    if (inAmountRaw.isZero()) {
+      return null;
+    }
+
+    const binArrays = await dlmm.getBinArrayForSwap(swapForY);
+    const quote = dlmm.swapQuote(inAmountRaw, swapForY, new BN(Math.round(maxSlippage * 10000)), binArrays);
+    const priceImpact = Number(quote.priceImpact.toString()) / 100;
+    if (priceImpact > maxSlippage) {
+      throw new Error(`Pre-deposit swap price impact ${(priceImpact * 100).toFixed(2)}% exceeds max slippage ${(maxSlippage * 100).toFixed(2)}%`);
+    }
+
+    const swapTx = await dlmm.swap({
+      inToken: inToken.publicKey,
+      outToken: outToken.publicKey,
+      inAmount: quote.consumedInAmount,
+      minOutAmount: quote.minOutAmount,
+      lbPair: dlmm.pubkey,
+      user: this.solanaService.getPublicKey(),
+      binArraysPubkey: quote.binArraysPubkey
+    });
+
+    const amountIn = new Big(quote.consumedInAmount.toString()).div(Math.pow(10, inToken.mint.decimals));
+    const amountOut = new Big(quote.outAmount.toString()).div(Math.pow(10, outToken.mint.decimals));
+    const minAmountOut = new Big(quote.minOutAmount.toString()).div(Math.pow(10, outToken.mint.decimals));
+
+    const { signature, simulation, fee: gasUsed } = await this.transactionSender.send(
+      swapTx,
+      [this.solanaService.getWallet().payer],
+      {
+        label: 'SWAP',
+        guards: [
+          { mint: inToken.publicKey, decimals: inToken.mint.decimals, maxSpend: amountIn },
+          { mint: outToken.publicKey, decimals: outToken.mint.decimals, minReceive: minAmountOut }
+        ]
+      }
+    );
+
+    const fee = new Big(quote.fee.toString()).div(Math.pow(10, inToken.mint.decimals));
+    const value = swapForY ? amountIn.mul(price) : amountIn;
+
+    await this.databaseService.saveTransaction({
+      positionId,
+      type: 'SWAP',
+      amount: value.toString(),
+      amountX: (swapForY ? amountIn.neg() : amountOut).toString(),
+      amountY: (swapForY ? amountOut : amountIn.neg()).toString(),
+      price: price.toString(),
+      fees: (swapForY ? fee.mul(price) : fee).toString(),
+      gasUsed,
+      transactionId: signature,
+      timestamp: new Date()
+    });
+
+    logTrade('SWAP', dlmm.pubkey.toString(), value.toString(), {
+      positionId,
+      swapForY,
+      amountIn: amountIn.toString(),
+      amountOut: amountOut.toString(),
+      priceImpact,
+      signature,
+      gasUsed,
+      simulations: summarizeSimulations([simulation])
+    });
+
+    return {
+      success: true,
+      transactionId: signature,
+      gasUsed,
+      actualReturn: value,
+      simulations: [simulation]
+    };
+  }
+
+  /**
+   * Token balance available for deposits. The SDK wraps native SOL on deposit,
+   * so for wrapped SOL the native balance counts too, minus a reserve for
+   * position rent and transaction fees.
+   */
+  private async getSpendableBalance(mint: PublicKey): Promise<Big> {
+    const tokenBalance = new Big(await this.solanaService.getTokenBalance(mint));
+    if (mint.toString() !== NATIVE_MINT) {
+      return tokenBalance;
+    }
+
+    const nativeBalance = new Big(await this.solanaService.getBalance()).sub(NATIVE_SOL_RESERVE);
+    return nativeBalance.gt(0) ? tokenBalance.add(nativeBalance) : tokenBalance;
+  }
+
+  /**
+   * A deposit may spend what it was sized for plus slippage, and no more
+   */
+  private depositGuards(dlmm: DLMM, deposit: TokenAmounts, maxSlippage: number): BalanceGuard[] {
+    return [
+      { mint: dlmm.tokenX.publicKey, decimals: dlmm.tokenX.mint.decimals, maxSpend: deposit.amountX.mul(1 + maxSlippage) },
+      { mint: dlmm.tokenY.publicKey, decimals: dlmm.tokenY.mint.decimals, maxSpend: deposit.amountY.mul(1 + maxSlippage) }
+    ];
+  }
+
+  /**
+   * Closes, claims and withdrawals only ever pay tokens into the wallet
+   */
+  private withdrawalGuards(dlmm: DLMM): BalanceGuard[] {
+    return [
+      { mint: dlmm.tokenX.publicKey, decimals: dlmm.tokenX.mint.decimals, maxSpend: new Big(0) },
+      { mint: dlmm.tokenY.publicKey, decimals: dlmm.tokenY.mint.decimals, maxSpend: new Big(0) }
+    ];
+  }
+
+  private derivePositionKeypair(idempotencyKey: string): Keypair {
+    const seed = createHash('sha256')
+      .update(this.solanaService.getWallet().payer.secretKey)
+      .update(idempotencyKey)
+      .digest();
+    return Keypair.fromSeed(seed);
+  }
+
   private async collectFees(action: StrategyAction): Promise<ExecutionResult> {
     try {
       const { poolAddress, parameters } = action;
@@ -348,21 +963,12 @@ export class OrderExecutionService {
         throw new Error(`DLMM instance not found for pool: ${poolAddress}`);
       }
 
-      let signatures: string[] = [];
-      let totalFeesCollected = new Big(0);
+      const { userPositions } = await dlmm.getPositionsByUserAndLbPair(
+        this.solanaService.getPublicKey()
+      );
 
+      let claimable = userPositions;
       if (positionId) {
-        // Collect fees for specific position
-        const position = await this.databaseService.getPosition(positionId);
-        if (!position) {
-          throw new Error(`Position not found: ${positionId}`);
-        }
-
-        // Get user positions to find the actual position object
-        const { userPositions } = await dlmm.getPositionsByUserAndLbPair(
-          this.solanaService.getPublicKey()
-        );
-
         const userPosition = userPositions.find(p => 
           p.publicKey.equals(new PublicKey(positionId))
         );
@@ -371,61 +977,58 @@ export class OrderExecutionService {
           throw new Error(`User position not found: ${positionId}`);
         }
 
-        const claimFeeTx = await dlmm.claimSwapFee({
-          owner: this.solanaService.getPublicKey(),
-          position: userPosition
-        });
-
-        if (claimFeeTx) {
-          const signature = await sendAndConfirmTransaction(
-            this.connection,
-            claimFeeTx,
-            [this.solanaService.getWallet().payer]
-          );
-          signatures.push(signature);
-        }
+        claimable = [userPosition];
+      }
 
-        // Update position with collected fees (would need to calculate actual amount)
-        position.feesCollected = position.feesCollected.add(new Big(100)); // Mock amount
-        position.updatedAt = new Date();
-        await this.databaseService.updatePosition(position);
+      // Claims are valued at the price when they are made
+      await dlmm.refetchStates();
+      const activeBin = await dlmm.getActiveBin();
+      const price = new Big(activeBin.pricePerToken);
 
-        totalFeesCollected = new Big(100); // Mock amount
-      } else {
-        // Collect fees for all positions in the pool
-        const { userPositions } = await dlmm.getPositionsByUserAndLbPair(
-          this.solanaService.getPublicKey()
-        );
+      const claims: FeeClaim[] = [];
+      for (const userPosition of claimable) {
+        const claim = await this.claimPositionFees(dlmm, poolAddress, userPosition, price);
+        if (claim) {
+          claims.push(claim);
+        }
+      }
 
-        if (userPositions.length > 0) {
-          const claimFeeTxs = await dlmm.claimAllSwapFee({
-            owner: this.solanaService.getPublicKey(),
-            positions: userPositions
-          });
-
-          for (const claimFeeTx of claimFeeTxs) {
-            const signature = await sendAndConfirmTransaction(
-              this.connection,
-              claimFeeTx,
-              [this.solanaService.getWallet().payer]
-            );
-            signatures.push(signature);
+      const totalFeesCollected = claims.reduce((sum: Big, claim) => sum.add(claim.value), new Big(0));
+      const signatures = claims.flatMap(claim => claim.signatures);
+      const simulations = claims.flatMap(claim => claim.simulations);
+      let gasUsed = claims.reduce((sum, claim) => sum + claim.gasUsed, 0);
+
+      let totalCompounded = new Big(0);
+      if (parameters.autoCompound) {
+        for (const claim of claims) {
+          const compound = await this.compoundClaim(poolAddress, claim, price, parameters);
+          if (compound) {
+            // Limits may have downsized the deposit below the claim
+            totalCompounded = totalCompounded.add(compound.actualReturn ?? claim.value);
+            simulations.push(...(compound.simulations || []));
+            gasUsed += compound.gasUsed || 0;
           }
-
-          totalFeesCollected = new Big(userPositions.length * 100); // Mock calculation
         }
       }
 
       logTrade('COLLECT_FEES', poolAddress, totalFeesCollected.toString(), {
         positionId,
         signatures,
-        feesCollected: totalFeesCollected.toString()
+        price: price.toString(),
+        compounded: totalCompounded.toString(),
+        feeX: claims.reduce((sum: Big, claim) => sum.add(claim.amountX), new Big(0)).toString(),
+        feeY: claims.reduce((sum: Big, claim) => sum.add(claim.amountY), new Big(0)).toString(),
+        feesCollected: totalFeesCollected.toString(),
+        gasUsed,
+        simulations: summarizeSimulations(simulations)
       });
 
       return {
         success: true,
         transactionId: signatures[0],
-        actualReturn: totalFeesCollected
+        gasUsed,
+        actualReturn: totalFeesCollected,
+        simulations
       };
     } catch (error) {
       logger.error('Failed to collect fees', { error: getErrorMessage(error) });
@@ -433,6 +1036,153 @@ export class OrderExecutionService {
     }
   }
 
+  /**
+   * Claim one position's swap fees. The amounts come from the position's pending
+   * fee fields read just before the claim, net of token transfer fees, so they
+   * match what reaches the wallet.
+   */
+  private async claimPositionFees(
+    dlmm: DLMM,
+    poolAddress: string,
+    userPosition: LbPosition,
+    price: Big
+  ): Promise<FeeClaim | null> {
+    const { feeXExcludeTransferFee, feeYExcludeTransferFee, lowerBinId, upperBinId } = userPosition.positionData;
+    if (feeXExcludeTransferFee.isZero() && feeYExcludeTransferFee.isZero()) {
+      return null;
+    }
+
+    const positionId = userPosition.publicKey.toString();
+    const amountX = new Big(feeXExcludeTransferFee.toString()).div(Math.pow(10, dlmm.tokenX.mint.decimals));
+    const amountY = new Big(feeYExcludeTransferFee.toString()).div(Math.pow(10, dlmm.tokenY.mint.decimals));
+    const value = amountX.mul(price).add(amountY);
+
+    const claimFeeTxs = await dlmm.claimSwapFee({
+      owner: this.solanaService.getPublicKey(),
+      position: userPosition
+    });
+
+    if (claimFeeTxs.length === 0) {
+      return null;
+    }
+
+    const signatures: string[] = [];
+    const simulations: TransactionSimulation[] = [];
+    let gasUsed = 0;
+    const sent = await this.transactionSender.sendSequence(
+      claimFeeTxs,
+      [this.solanaService.getWallet().payer],
+      {
+        label: 'COLLECT_FEES',
+        poolAddress,
+        lookupAccounts: getPoolLookupAccounts(dlmm, [[lowerBinId, upperBinId]]),
+        guards: this.withdrawalGuards(dlmm)
+      }
+    );
+    for (const { signature, simulation, fee } of sent) {
+      signatures.push(signature);
+      simulations.push(simulation);
+      gasUsed += fee;
+    }
+
+    await this.databaseService.saveTransaction({
+      positionId,
+      type: 'COLLECT_FEES',
+      amount: value.toString(),
+      amountX: amountX.toString(),
+      amountY: amountY.toString(),
+      price: price.toString(),
+      fees: value.toString(),
+      gasUsed,
+      transactionId: signatures[0],
+      timestamp: new Date()
+    });
+
+    // Wallet positions the bot does not track are claimed but have no record to credit
+    const position = await this.databaseService.getPosition(positionId);
+    if (position) {
+      position.feesCollected = position.feesCollected.add(value);
+      position.updatedAt = new Date();
+      await this.databaseService.updatePosition(position);
+    }
+
+    logger.info('Fees claimed', {
+      poolAddress,
+      positionId,
+      amountX: amountX.toString(),
+      amountY: amountY.toString(),
+      value: value.toString()
+    });
+
+    return { positionId, amountX, amountY, value, signatures, simulations, gasUsed };
+  }
+
+  /**
+   * Reinvest a claim into the position it came from, over the same bin range.
+   * Claims worth less than minCompoundAmount stay in the wallet, since the
+   * deposit transaction would cost more than the extra liquidity earns.
+   */
+  private async compoundClaim(
+    poolAddress: string,
+    claim: FeeClaim,
+    price: Big,
+    parameters: ActionParameters
+  ): Promise<ExecutionResult | null> {
+    const minCompoundAmount = toBig(parameters.minCompoundAmount ?? 0);
+    if (claim.value.lt(minCompoundAmount)) {
+      logger.debug('Claim below compounding minimum', {
+        positionId: claim.positionId,
+        value: claim.value.toString(),
+        minCompoundAmount: minCompoundAmount.toString()
+      });
+      return null;
+    }
+
+    const position = await this.databaseService.getPosition(claim.positionId);
+    if (!position || position.status !== PositionStatus.ACTIVE) {
+      return null;
+    }
+
+    try {
+      const result = await this.addLiquidityToPosition(
+        claim.positionId,
+        poolAddress,
+        claim.value,
+        parameters.strategyType ?? StrategyType.Spot,
+        { amountX: claim.amountX, amountY: claim.amountY }
+      );
+
+      // An exposure limit may have left part of the claim in the wallet
+      const compounded = result.limitReason && result.actualReturn
+        ? { ...scaleAmounts(claim, result.actualReturn.div(claim.value)), value: result.actualReturn }
+        : claim;
+
+      await this.databaseService.saveTransaction({
+        positionId: claim.positionId,
+        type: 'COMPOUND',
+        amount: compounded.value.toString(),
+        amountX: compounded.amountX.toString(),
+        amountY: compounded.amountY.toString(),
+        price: price.toString(),
+        fees: '0',
+        gasUsed: result.gasUsed || 0,
+        transactionId: result.transactionId || '',
+        relatedTransactionId: claim.signatures[0],
+        timestamp: new Date()
+      });
+
+      return result;
+    } catch (error) {
+      // The claim itself landed; the fees simply stay in the wallet
+      logger.error('Failed to compound claimed fees', {
+        positionId: claim.positionId,
+        claimSignature: claim.signatures[0],
+        error: getErrorMessage(error)
+      });
+      return null;
+    }
+  }
+
   private async adjustRange(action: StrategyAction): Promise<ExecutionResult> {
     try {
       const { poolAddress, parameters } = action;
@@ -457,6 +1207,16 @@ export class OrderExecutionService {
     }
   }
 
+  private async removeLiquidity(action: StrategyAction): Promise<ExecutionResult> {
+    const { positionId, percentage } = action.parameters;
+
+    if (!positionId || !(percentage > 0 && percentage <= 100)) {
+      throw new Error('Position ID and a percentage between 0 and 100 are required for remove liquidity action');
+    }
+
+    return await this.removeLiquidityFromPosition(positionId, action.poolAddress, percentage);
+  }
+
   private async emergencyExit(action: StrategyAction): Promise<ExecutionResult> {
     try {
       const { poolAddress, parameters } = action;
@@ -468,36 +1228,39 @@ export class OrderExecutionService {
         // Emergency exit for specific position
         return await this.closePosition(action);
       } else {
-        // Emergency exit for all positions in pool
+        // Emergency exit for all positions in pool, one persisted step per position
         const positions = await this.databaseService.getPositionsByPool(poolAddress);
-        const results: ExecutionResult[] = [];
-
-        for (const position of positions) {
-          if (position.status === PositionStatus.ACTIVE) {
-            const result = await this.closePosition({
-              ...action,
-              parameters: { positionId: position.id }
-            });
-            results.push(result);
-          }
-        }
+        const positionIds = positions
+          .filter(position => position.status === PositionStatus.ACTIVE)
+          .map(position => position.id);
+
+        const workflow = await this.workflowService.run(
+          EMERGENCY_EXIT_WORKFLOW,
+          parameters.idempotencyKey || `emergency_exit:${poolAddress}:${Date.now()}`,
+          { poolAddress, positionIds }
+        );
 
-        const successCount = results.filter(r => r.success).length;
-        const totalValue = results.reduce((sum, r) => 
-          sum.add(r.actualReturn || new Big(0)), new Big(0)
+        const results = workflow.steps.map(step => step.result).filter(Boolean) as Record<string, any>[];
+        const successCount = results.length;
+        const totalValue = results.reduce((sum: Big, r) => 
+          sum.add(toBig(r.actualReturn || 0)), new Big(0)
         );
+        const gasUsed = results.reduce((sum, r) => sum + (r.gasUsed || 0), 0);
 
         logTrade('EMERGENCY_EXIT', poolAddress, totalValue.toString(), {
+          workflowId: workflow.id,
           positionsCount: positions.length,
           successCount,
+          gasUsed,
           results: results.map(r => r.transactionId).filter(Boolean)
         });
 
         return {
-          success: successCount === results.length,
-          transactionId: results[0]?.transactionId,
+          success: workflow.status === WorkflowStatus.COMPLETED,
+          transactionId: results.find(r => r.transactionId)?.transactionId,
+          gasUsed,
           actualReturn: totalValue,
-          error: successCount < results.length ? 'Some positions failed to close' : undefined
+          error: workflow.status !== WorkflowStatus.COMPLETED ? 'Some positions failed to close' : undefined
         };
       }
     } catch (error) {
@@ -506,13 +1269,67 @@ export class OrderExecutionService {
     }
   }
 
+  /**
+   * Exit every open position one at a time, reporting each outcome; used by
+   * the emergency stop
+   */
+  async exitAllPositions(): Promise<EmergencyExitOutcome[]> {
+    const positions = this.mode === ExecutionMode.PAPER
+      ? await this.databaseService.getActivePaperPositions()
+      : await this.databaseService.getActivePositions();
+    const outcomes: EmergencyExitOutcome[] = [];
+
+    for (const position of positions) {
+      const result = await this.executeAction({
+        type: ActionType.EMERGENCY_EXIT,
+        poolAddress: position.poolAddress,
+        parameters: { positionId: position.id },
+        priority: 100,
+        estimatedGas: 100000
+      });
+      outcomes.push({
+        positionId: position.id,
+        poolAddress: position.poolAddress,
+        success: result.success,
+        transactionId: result.transactionId,
+        error: result.error
+      });
+    }
+
+    logger.warn('Emergency exit of all positions completed', {
+      positions: outcomes.length,
+      failed: outcomes.filter(outcome => !outcome.success).map(outcome => outcome.positionId)
+    });
+
+    return outcomes;
+  }
+
   async addLiquidityToPosition(
     positionId: string, 
     poolAddress: string, 
     amount: Big,
-    strategyType: StrategyType = StrategyType.Spot
+    strategyType: StrategyType = StrategyType.Spot,
+    tokenAmounts?: TokenAmounts
   ): Promise<ExecutionResult> {
     try {
+      if (this.haltService.isHalted()) {
+        throw new Error(`Trading halted by emergency stop: ${this.haltService.getHalt()?.reason}`);
+      }
+
+      // Added liquidity counts toward the limits like a new deposit
+      const exposure = await this.exposureService.checkAddition(positionId, poolAddress, amount);
+      if (!exposure.allowed) {
+        throw new Error(exposure.reason);
+      }
+      const limitReason = exposure.reason;
+      const allowedAmounts = tokenAmounts && limitReason
+        ? scaleAmounts(tokenAmounts, exposure.amount.div(amount))
+        : tokenAmounts;
+
+      if (this.mode === ExecutionMode.PAPER) {
+        return { ...await this.paperExecution.addLiquidity(positionId, exposure.amount, strategyType), limitReason };
+      }
+
       const dlmm = this.marketDataService.getDLMMInstance(poolAddress);
       if (!dlmm) {
         throw new Error(`DLMM instance not found for pool: ${poolAddress}`);
@@ -527,18 +1344,13 @@ export class OrderExecutionService {
       await dlmm.refetchStates();
       const activeBin = await dlmm.getActiveBin();
 
-      // Calculate amounts
-      const totalXAmount = new BN(amount.mul(0.5).mul(Math.pow(10, dlmm.tokenX.mint.decimals)).toString());
-      const totalYAmount = autoFillYByStrategy(
-        activeBin.binId,
-        dlmm.lbPair.binStep,
-        totalXAmount,
-        new BN(0),
-        new BN(0),
-        position.lowerBinId,
-        position.upperBinId,
-        strategyType
-      );
+      // Size from the budget, unless the caller already holds exact token amounts (e.g. claimed fees)
+      const deposit: TokenAmounts & { value: Big } = allowedAmounts
+        ? { ...allowedAmounts, value: exposure.amount }
+        : await this.planDeposit(dlmm, activeBin, exposure.amount, position.lowerBinId, position.upperBinId, strategyType);
+      const totalXAmount = new BN(deposit.amountX.mul(Math.pow(10, dlmm.tokenX.mint.decimals)).toFixed(0));
+      const totalYAmount = new BN(deposit.amountY.mul(Math.pow(10, dlmm.tokenY.mint.decimals)).toFixed(0));
+      const binsBefore = position.entryBins && await this.readPositionBins(dlmm, positionId);
 
       // Add liquidity transaction
       const addLiquidityTx = await dlmm.addLiquidityByStrategy({
@@ -555,32 +1367,54 @@ export class OrderExecutionService {
 
       const transactions = Array.isArray(addLiquidityTx) ? addLiquidityTx : [addLiquidityTx];
       const signatures: string[] = [];
+      const simulations: TransactionSimulation[] = [];
+      let gasUsed = 0;
 
-      for (const tx of transactions) {
-        const signature = await sendAndConfirmTransaction(
-          this.connection,
-          tx,
-          [this.solanaService.getWallet().payer]
-        );
+      const sent = await this.transactionSender.sendSequence(
+        transactions,
+        [this.solanaService.getWallet().payer],
+        {
+          label: 'ADD_LIQUIDITY',
+          poolAddress,
+          lookupAccounts: getPoolLookupAccounts(dlmm, [[position.lowerBinId, position.upperBinId]]),
+          guards: this.depositGuards(dlmm, deposit, DEFAULT_MAX_SLIPPAGE)
+        }
+      );
+      for (const { signature, simulation, fee } of sent) {
         signatures.push(signature);
+        simulations.push(simulation);
+        gasUsed += fee;
       }
 
+      // Added liquidity joins the benchmark, as if it had been held from the start
+      const binsAfter = binsBefore && await this.readPositionBins(dlmm, positionId);
+      position.entryBins = position.entryBins && binsBefore && binsAfter
+        ? addBins(position.entryBins, addBins(binsAfter, binsBefore, -1))
+        : undefined;
+
       // Update position
-      position.liquidityX = position.liquidityX.add(new Big(totalXAmount.toString()));
-      position.liquidityY = position.liquidityY.add(new Big(totalYAmount.toString()));
-      position.totalLiquidity = position.totalLiquidity.add(amount);
+      position.liquidityX = position.liquidityX.add(deposit.amountX);
+      position.liquidityY = position.liquidityY.add(deposit.amountY);
+      position.totalLiquidity = position.totalLiquidity.add(deposit.value);
       position.updatedAt = new Date();
       await this.databaseService.updatePosition(position);
 
-      logTrade('ADD_LIQUIDITY', poolAddress, amount.toString(), {
+      logTrade('ADD_LIQUIDITY', poolAddress, deposit.value.toString(), {
         positionId,
-        signatures
+        amountX: deposit.amountX.toString(),
+        amountY: deposit.amountY.toString(),
+        signatures,
+        gasUsed,
+        simulations: summarizeSimulations(simulations)
       });
 
       return {
         success: true,
         transactionId: signatures[0],
-        actualReturn: amount
+        gasUsed,
+        actualReturn: deposit.value,
+        simulations,
+        limitReason
       };
     } catch (error) {
       logger.error('Failed to add liquidity to position', { error: getErrorMessage(error) });
@@ -594,6 +1428,10 @@ export class OrderExecutionService {
     percentage: number = 100
   ): Promise<ExecutionResult> {
     try {
+      if (this.mode === ExecutionMode.PAPER) {
+        return await this.paperExecution.removeLiquidity(positionId, percentage);
+      }
+
       const dlmm = this.marketDataService.getDLMMInstance(poolAddress);
       if (!dlmm) {
         throw new Error(`DLMM instance not found for pool: ${poolAddress}`);
@@ -617,8 +1455,12 @@ export class OrderExecutionService {
         throw new Error(`User position not found: ${positionId}`);
       }
 
-      const binIdsToRemove = userPosition.positionData.positionBinData.map(bin => bin.binId);
+      const price = new Big((await dlmm.getActiveBin()).pricePerToken);
+      const { positionData } = userPosition;
+      const binIdsToRemove = positionData.positionBinData.map(bin => bin.binId);
       const bpsToRemove = Math.floor(percentage * 100); // Convert percentage to basis points
+      const amountX = new Big(positionData.totalXAmount).div(Math.pow(10, dlmm.tokenX.mint.decimals)).mul(bpsToRemove / 10000);
+      const amountY = new Big(positionData.totalYAmount).div(Math.pow(10, dlmm.tokenY.mint.decimals)).mul(bpsToRemove / 10000);
 
       const removeLiquidityTx = await dlmm.removeLiquidity({
         position: new PublicKey(positionId),
@@ -631,18 +1473,23 @@ export class OrderExecutionService {
 
       const transactions = Array.isArray(removeLiquidityTx) ? removeLiquidityTx : [removeLiquidityTx];
       const signatures: string[] = [];
+      const simulations: TransactionSimulation[] = [];
+      let gasUsed = 0;
 
-      for (const tx of transactions) {
-        const signature = await sendAndConfirmTransaction(
-          this.connection,
-          tx,
-          [this.solanaService.getWallet().payer],
-          { 
-            skipPreflight: false, 
-            preflightCommitment: 'confirmed' 
-          }
-        );
+      const sent = await this.transactionSender.sendSequence(
+        transactions,
+        [this.solanaService.getWallet().payer],
+        {
+          label: 'REMOVE_LIQUIDITY',
+          poolAddress,
+          lookupAccounts: getPoolLookupAccounts(dlmm, [[positionData.lowerBinId, positionData.upperBinId]]),
+          guards: this.withdrawalGuards(dlmm)
+        }
+      );
+      for (const { signature, simulation, fee } of sent) {
         signatures.push(signature);
+        simulations.push(simulation);
+        gasUsed += fee;
       }
 
       // Update position
@@ -650,6 +1497,11 @@ export class OrderExecutionService {
       position.totalLiquidity = position.totalLiquidity.sub(removedAmount);
       position.liquidityX = position.liquidityX.mul((100 - percentage) / 100);
       position.liquidityY = position.liquidityY.mul((100 - percentage) / 100);
+      position.entryBins = position.entryBins?.map(bin => ({
+        binId: bin.binId,
+        amountX: bin.amountX.mul((100 - percentage) / 100),
+        amountY: bin.amountY.mul((100 - percentage) / 100)
+      }));
       
       if (percentage >= 100) {
         position.status = PositionStatus.CLOSED;
@@ -658,16 +1510,36 @@ export class OrderExecutionService {
       position.updatedAt = new Date();
       await this.databaseService.updatePosition(position);
 
+      // The withdrawal leaves the position, so risk nets it out of the position value's returns
+      await this.databaseService.saveTransaction({
+        positionId,
+        type: 'REMOVE_LIQUIDITY',
+        amount: amountX.mul(price).add(amountY).toString(),
+        amountX: amountX.toString(),
+        amountY: amountY.toString(),
+        price: price.toString(),
+        fees: '0',
+        gasUsed,
+        transactionId: signatures[0],
+        timestamp: new Date()
+      });
+
       logTrade('REMOVE_LIQUIDITY', poolAddress, removedAmount.toString(), {
         positionId,
         percentage,
-        signatures
+        signatures,
+        gasUsed,
+        simulations: summarizeSimulations(simulations)
       });
 
       return {
         success: true,
         transactionId: signatures[0],
-        actualReturn: removedAmount
+        gasUsed,
+        actualReturn: removedAmount,
+        amountX,
+        amountY,
+        simulations
       };
     } catch (error) {
       logger.error('Failed to remove liquidity from position', { error: getErrorMessage(error) });
@@ -675,6 +1547,10 @@ export class OrderExecutionService {
     }
   }
 
+  getMode(): ExecutionMode {
+    return this.mode;
+  }
+
   async close(): Promise<void> {
     logger.info('Order execution service closed');
   }
@@ -0,0 +1,640 @@
+import { StrategyType } from '@meteora-ag/dlmm';
+import { BN } from '@coral-xyz/anchor';
+import { randomUUID } from 'crypto';
+import Big from 'big.js';
+import { MarketDataService } from './market-data';
+import { DatabaseService } from './database';
+import { ExposureService } from './exposure';
+import { calculateDivergenceLoss } from './divergence-loss';
+import { logger, logTrade } from '../utils/logger';
+import { config } from '../config';
+import { getErrorMessage } from '../utils/error';
+import { toBig } from '../utils/math';
+import {
+  ActionType,
+  BinLiquidity,
+  ExecutionPort,
+  ExecutionResult,
+  PaperBinHolding,
+  PaperPosition,
+  PositionStatus,
+  StrategyAction
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Snapshot of the live pool state that paper fills are simulated against
+export interface PoolSnapshot {
+  activeBinId: number;
+  activePrice: Big;
+  binStep: number;
+  bins: Map<number, BinLiquidity>;
+}
+
+/**
+ * Price of token X in token Y for a bin, taken from the live bin when known
+ * and derived from the bin step otherwise
+ */
+export const getBinPrice = (snapshot: PoolSnapshot, binId: number): Big => {
+  const bin = snapshot.bins.get(binId);
+  if (bin) {
+    return bin.priceX;
+  }
+  const stepMultiplier = 1 + snapshot.binStep / 10000;
+  return snapshot.activePrice.mul(Math.pow(stepMultiplier, binId - snapshot.activeBinId));
+};
+
+/**
+ * Split a deposit (valued in token Y) over a bin range following the DLMM
+ * layout: bins below the active bin hold only Y, bins above hold only X and
+ * the active bin holds both.
+ */
+export const distributeLiquidity = (
+  amount: Big,
+  minBinId: number,
+  maxBinId: number,
+  snapshot: PoolSnapshot,
+  strategyType: StrategyType = StrategyType.Spot
+): PaperBinHolding[] => {
+  const binIds: number[] = [];
+  for (let binId = minBinId; binId <= maxBinId; binId++) {
+    binIds.push(binId);
+  }
+
+  const weights = binIds.map(binId => {
+    const distance = Math.abs(binId - snapshot.activeBinId);
+    switch (strategyType) {
+      case StrategyType.Curve:
+        return 1 / (1 + distance);
+      case StrategyType.BidAsk:
+        return 1 + distance;
+      default:
+        return 1;
+    }
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return binIds.map((binId, index) => {
+    const value = amount.mul(weights[index] / totalWeight);
+    const price = getBinPrice(snapshot, binId);
+
+    if (binId < snapshot.activeBinId) {
+      return { binId, amountX: new Big(0), amountY: value };
+    }
+    if (binId > snapshot.activeBinId) {
+      return { binId, amountX: value.div(price), amountY: new Big(0) };
+    }
+    return { binId, amountX: value.div(2).div(price), amountY: value.div(2) };
+  });
+};
+
+/**
+ * Convert holdings in bins the price has moved through: bins below the active
+ * bin end up fully in Y, bins above it fully in X, each at its own bin price.
+ */
+export const settleHoldings = (holdings: PaperBinHolding[], snapshot: PoolSnapshot): PaperBinHolding[] => {
+  return holdings.map(holding => {
+    const price = getBinPrice(snapshot, holding.binId);
+
+    if (holding.binId < snapshot.activeBinId) {
+      return { binId: holding.binId, amountX: new Big(0), amountY: holding.amountY.add(holding.amountX.mul(price)) };
+    }
+    if (holding.binId > snapshot.activeBinId) {
+      return { binId: holding.binId, amountX: holding.amountX.add(holding.amountY.div(price)), amountY: new Big(0) };
+    }
+    return holding;
+  });
+};
+
+/**
+ * Value holdings in token Y at the given price of token X
+ */
+export const valueHoldings = (holdings: PaperBinHolding[], priceX: Big): Big => {
+  return holdings.reduce(
+    (sum, holding) => sum.add(holding.amountX.mul(priceX)).add(holding.amountY),
+    new Big(0)
+  );
+};
+
+/**
+ * Simulates strategy actions against live pool state and records the results
+ * in the paper ledger instead of sending transactions.
+ */
+export class PaperExecutionService implements ExecutionPort {
+  private marketDataService: MarketDataService;
+  private databaseService: DatabaseService;
+  private autoSwap: boolean;
+  private exposureService: ExposureService | null;
+
+  constructor(
+    marketDataService: MarketDataService,
+    databaseService: DatabaseService,
+    autoSwap: boolean = config.bot.autoSwapEnabled,
+    exposureService: ExposureService | null = null // Bounds compounded fees; new deposits are checked before dispatch
+  ) {
+    this.marketDataService = marketDataService;
+    this.databaseService = databaseService;
+    this.autoSwap = autoSwap;
+    this.exposureService = exposureService;
+  }
+
+  async executeAction(action: StrategyAction): Promise<ExecutionResult> {
+    switch (action.type) {
+      case ActionType.CREATE_POSITION:
+        return await this.createPosition(action);
+      case ActionType.CLOSE_POSITION:
+        return await this.closePosition(action);
+      case ActionType.REBALANCE:
+      case ActionType.ADJUST_RANGE:
+        return await this.rebalancePosition(action);
+      case ActionType.COLLECT_FEES:
+        return await this.collectFees(action);
+      case ActionType.REMOVE_LIQUIDITY:
+        if (!action.parameters.positionId || !(action.parameters.percentage > 0)) {
+          throw new Error('Position ID and a percentage are required for remove liquidity action');
+        }
+        return await this.removeLiquidity(action.parameters.positionId, action.parameters.percentage);
+      case ActionType.EMERGENCY_EXIT:
+        return await this.emergencyExit(action);
+      default:
+        throw new Error(`Unsupported action type: ${action.type}`);
+    }
+  }
+
+  async loadSnapshot(poolAddress: string): Promise<PoolSnapshot> {
+    const dlmm = this.marketDataService.getDLMMInstance(poolAddress);
+    if (!dlmm) {
+      throw new Error(`DLMM instance not found for pool: ${poolAddress}`);
+    }
+
+    const binLiquidity = await this.marketDataService.getBinLiquidityData(poolAddress);
+    const activeBin = binLiquidity.find(bin => bin.isActive);
+    if (!activeBin) {
+      throw new Error(`No bin liquidity available for pool: ${poolAddress}`);
+    }
+
+    return {
+      activeBinId: activeBin.binId,
+      activePrice: activeBin.priceX,
+      binStep: dlmm.lbPair.binStep,
+      bins: new Map(binLiquidity.map(bin => [bin.binId, bin]))
+    };
+  }
+
+  private async createPosition(action: StrategyAction): Promise<ExecutionResult> {
+    const { poolAddress, parameters } = action;
+    const snapshot = await this.loadSnapshot(poolAddress);
+
+    const {
+      liquidityAmount = new Big(1000),
+      binRange = [snapshot.activeBinId - 10, snapshot.activeBinId + 10],
+      strategyType = StrategyType.Spot
+    } = parameters;
+    const [minBinId, maxBinId] = binRange;
+    const amount = new Big(liquidityAmount);
+    const positionId = randomUUID();
+
+    // The swap cost comes out of the deposit but stays in the position's cost basis
+    const swapCost = this.autoSwap && parameters.autoSwap !== false
+      ? await this.simulateSwap(poolAddress, positionId, amount, binRange, snapshot, strategyType, parameters.maxSlippage ?? 0.01)
+      : new Big(0);
+
+    const bins = distributeLiquidity(amount.sub(swapCost), minBinId, maxBinId, snapshot, strategyType);
+    const now = new Date();
+    const position: PaperPosition = {
+      id: positionId,
+      poolAddress,
+      strategy: parameters.deploymentId || strategyType.toString(),
+      status: PositionStatus.ACTIVE,
+      lowerBinId: minBinId,
+      upperBinId: maxBinId,
+      liquidityX: bins.reduce((sum, bin) => sum.add(bin.amountX), new Big(0)),
+      liquidityY: bins.reduce((sum, bin) => sum.add(bin.amountY), new Big(0)),
+      totalLiquidity: amount,
+      entryPrice: snapshot.activePrice,
+      currentPrice: snapshot.activePrice,
+      unrealizedPnl: new Big(0),
+      realizedPnl: new Big(0),
+      feesCollected: new Big(0),
+      impermanentLoss: new Big(0),
+      strategyType,
+      bins,
+      entryBins: bins,
+      entryActiveBinId: snapshot.activeBinId,
+      lastFeeAccrual: now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.databaseService.savePaperPosition(position);
+    const transactionId = await this.recordFill(position.id, 'CREATE_POSITION', amount, snapshot.activePrice);
+
+    logTrade('PAPER_CREATE_POSITION', poolAddress, amount.toString(), {
+      positionId: position.id,
+      binRange: [minBinId, maxBinId],
+      strategyType,
+      transactionId
+    });
+
+    return {
+      success: true,
+      transactionId,
+      newPosition: position,
+      actualReturn: amount
+    };
+  }
+
+  /**
+   * Paper capital is held in token Y, so the X side of a deposit has to be
+   * bought first. The swap is quoted against the live pool and its cost (fee
+   * plus price impact) is returned; quotes beyond maxSlippage are rejected.
+   */
+  private async simulateSwap(
+    poolAddress: string,
+    positionId: string,
+    amount: Big,
+    [minBinId, maxBinId]: [number, number],
+    snapshot: PoolSnapshot,
+    strategyType: StrategyType,
+    maxSlippage: number
+  ): Promise<Big> {
+    const neededX = distributeLiquidity(amount, minBinId, maxBinId, snapshot, strategyType)
+      .reduce((sum, bin) => sum.add(bin.amountX), new Big(0));
+    if (neededX.eq(0)) {
+      return new Big(0);
+    }
+
+    const dlmm = this.marketDataService.getDLMMInstance(poolAddress);
+    if (!dlmm) {
+      throw new Error(`DLMM instance not found for pool: ${poolAddress}`);
+    }
+
+    const inValue = neededX.mul(snapshot.activePrice);
+    const inAmountRaw = new BN(inValue.mul(Math.pow(10, dlmm.tokenY.mint.decimals)).toFixed(0, Big.roundDown));
+    const binArrays = await dlmm.getBinArrayForSwap(false);
+    const quote = dlmm.swapQuote(inAmountRaw, false, new BN(Math.round(maxSlippage * 10000)), binArrays);
+
+    const priceImpact = Number(quote.priceImpact.toString()) / 100;
+    if (priceImpact > maxSlippage) {
+      throw new Error(`Pre-deposit swap price impact ${(priceImpact * 100).toFixed(2)}% exceeds max slippage ${(maxSlippage * 100).toFixed(2)}%`);
+    }
+
+    const received = new Big(quote.outAmount.toString()).div(Math.pow(10, dlmm.tokenX.mint.decimals));
+    const lost = inValue.sub(received.mul(snapshot.activePrice));
+    const cost = lost.gt(0) ? lost : new Big(0);
+
+    const transactionId = await this.recordFill(positionId, 'SWAP', inValue, snapshot.activePrice, cost);
+    logTrade('PAPER_SWAP', poolAddress, inValue.toString(), {
+      positionId,
+      amountOut: received.toString(),
+      priceImpact,
+      cost: cost.toString(),
+      transactionId
+    });
+
+    return cost;
+  }
+
+  private async closePosition(action: StrategyAction): Promise<ExecutionResult> {
+    const { poolAddress, parameters } = action;
+    const position = await this.getActivePosition(parameters.positionId);
+    const snapshot = await this.loadSnapshot(poolAddress);
+
+    const fees = await this.accrueFees(position, snapshot);
+    this.markToMarket(position, snapshot);
+
+    const exitValue = valueHoldings(position.bins, snapshot.activePrice);
+    position.realizedPnl = position.realizedPnl.add(exitValue.sub(position.totalLiquidity)).add(fees);
+    position.unrealizedPnl = new Big(0);
+    position.feesCollected = position.feesCollected.add(fees);
+    position.status = PositionStatus.CLOSED;
+    position.updatedAt = new Date();
+    await this.databaseService.savePaperPosition(position);
+
+    const transactionId = await this.recordFill(position.id, 'CLOSE_POSITION', exitValue, snapshot.activePrice, fees);
+
+    logTrade('PAPER_CLOSE_POSITION', poolAddress, exitValue.toString(), {
+      positionId: position.id,
+      feesCollected: fees.toString(),
+      transactionId
+    });
+
+    return {
+      success: true,
+      transactionId,
+      actualReturn: exitValue.add(fees),
+      amountX: position.liquidityX,
+      amountY: position.liquidityY
+    };
+  }
+
+  private async rebalancePosition(action: StrategyAction): Promise<ExecutionResult> {
+    const { poolAddress, parameters } = action;
+    const { positionId, binRange } = parameters;
+
+    if (action.type === ActionType.ADJUST_RANGE && !binRange) {
+      throw new Error('Position ID and bin range are required for adjust range action');
+    }
+
+    const position = await this.getActivePosition(positionId);
+    const closeResult = await this.closePosition({
+      ...action,
+      type: ActionType.CLOSE_POSITION,
+      parameters: { positionId }
+    });
+
+    const createResult = await this.createPosition({
+      ...action,
+      type: ActionType.CREATE_POSITION,
+      parameters: {
+        ...parameters,
+        deploymentId: parameters.deploymentId || position.strategy,
+        strategyType: parameters.strategyType ?? position.strategyType,
+        liquidityAmount: closeResult.actualReturn || position.totalLiquidity
+      }
+    });
+
+    logTrade('PAPER_REBALANCE', poolAddress, (closeResult.actualReturn || new Big(0)).toString(), {
+      oldPositionId: positionId,
+      newPositionId: createResult.newPosition?.id
+    });
+
+    return createResult;
+  }
+
+  private async getCompoundAmount(position: PaperPosition, fees: Big): Promise<Big> {
+    if (!this.exposureService) {
+      return fees;
+    }
+
+    const exposure = await this.exposureService.checkAddition(position.id, position.poolAddress, fees);
+    return exposure.allowed ? exposure.amount : new Big(0);
+  }
+
+  private async collectFees(action: StrategyAction): Promise<ExecutionResult> {
+    const { poolAddress, parameters } = action;
+    const positions = parameters.positionId
+      ? [await this.getActivePosition(parameters.positionId)]
+      : (await this.databaseService.getPaperPositionsByPool(poolAddress))
+        .filter(position => position.status === PositionStatus.ACTIVE);
+
+    if (positions.length === 0) {
+      return { success: true, actualReturn: new Big(0) };
+    }
+
+    const snapshot = await this.loadSnapshot(poolAddress);
+    const minCompoundAmount = toBig(parameters.minCompoundAmount ?? 0);
+    let totalFees = new Big(0);
+    let totalCompounded = new Big(0);
+    let transactionId: string | undefined;
+
+    for (const position of positions) {
+      const fees = await this.accrueFees(position, snapshot);
+      this.markToMarket(position, snapshot);
+      position.feesCollected = position.feesCollected.add(fees);
+      position.updatedAt = new Date();
+      await this.databaseService.savePaperPosition(position);
+
+      const fillId = await this.recordFill(position.id, 'COLLECT_FEES', fees, snapshot.activePrice, fees);
+      transactionId = transactionId || fillId;
+      totalFees = totalFees.add(fees);
+
+      // Reinvest the claim over the same range, as live execution does, within the exposure limits
+      const compounded = parameters.autoCompound && fees.gt(0) && fees.gte(minCompoundAmount)
+        ? await this.getCompoundAmount(position, fees)
+        : new Big(0);
+      if (compounded.gt(0)) {
+        this.addHoldings(position, compounded, snapshot, parameters.strategyType ?? StrategyType.Spot);
+        position.updatedAt = new Date();
+        await this.databaseService.savePaperPosition(position);
+        await this.recordFill(position.id, 'COMPOUND', compounded, snapshot.activePrice, new Big(0), fillId);
+        totalCompounded = totalCompounded.add(compounded);
+      }
+    }
+
+    logTrade('PAPER_COLLECT_FEES', poolAddress, totalFees.toString(), {
+      positionIds: positions.map(position => position.id),
+      compounded: totalCompounded.toString(),
+      transactionId
+    });
+
+    return {
+      success: true,
+      transactionId,
+      actualReturn: totalFees
+    };
+  }
+
+  private async emergencyExit(action: StrategyAction): Promise<ExecutionResult> {
+    const { poolAddress, parameters } = action;
+
+    if (parameters.positionId) {
+      return await this.closePosition(action);
+    }
+
+    const positions = (await this.databaseService.getPaperPositionsByPool(poolAddress))
+      .filter(position => position.status === PositionStatus.ACTIVE);
+    const results: ExecutionResult[] = [];
+
+    for (const position of positions) {
+      try {
+        results.push(await this.closePosition({ ...action, parameters: { positionId: position.id } }));
+      } catch (error) {
+        results.push({ success: false, error: getErrorMessage(error) });
+      }
+    }
+
+    const successCount = results.filter(r => r.success).length;
+    const totalValue = results.reduce((sum, r) => sum.add(r.actualReturn || new Big(0)), new Big(0));
+
+    return {
+      success: successCount === results.length,
+      transactionId: results[0]?.transactionId,
+      actualReturn: totalValue,
+      error: successCount < results.length ? 'Some positions failed to close' : undefined
+    };
+  }
+
+  /**
+   * Add liquidity to a paper position, spread over its existing range
+   */
+  async addLiquidity(positionId: string, amount: Big, strategyType: StrategyType = StrategyType.Spot): Promise<ExecutionResult> {
+    const position = await this.getActivePosition(positionId);
+    const snapshot = await this.loadSnapshot(position.poolAddress);
+
+    this.markToMarket(position, snapshot);
+    this.addHoldings(position, amount, snapshot, strategyType);
+    position.updatedAt = new Date();
+    await this.databaseService.savePaperPosition(position);
+
+    const transactionId = await this.recordFill(position.id, 'ADD_LIQUIDITY', amount, snapshot.activePrice);
+    logTrade('PAPER_ADD_LIQUIDITY', position.poolAddress, amount.toString(), { positionId, transactionId });
+
+    return { success: true, transactionId, actualReturn: amount };
+  }
+
+  /**
+   * Withdraw a percentage of a paper position's liquidity
+   */
+  async removeLiquidity(positionId: string, percentage: number = 100): Promise<ExecutionResult> {
+    const position = await this.getActivePosition(positionId);
+
+    if (percentage >= 100) {
+      return await this.closePosition({
+        type: ActionType.CLOSE_POSITION,
+        poolAddress: position.poolAddress,
+        parameters: { positionId },
+        priority: 0,
+        estimatedGas: 0
+      });
+    }
+
+    const snapshot = await this.loadSnapshot(position.poolAddress);
+    // Fees accrue on the holdings before the withdrawal shrinks them, as they do on a close
+    const fees = await this.accrueFees(position, snapshot);
+    this.markToMarket(position, snapshot);
+
+    const ratio = percentage / 100;
+    const removedValue = valueHoldings(position.bins, snapshot.activePrice).mul(ratio);
+    const removedCost = position.totalLiquidity.mul(ratio);
+    const amountX = position.liquidityX.mul(ratio);
+    const amountY = position.liquidityY.mul(ratio);
+
+    const scale = (holdings: PaperBinHolding[]): PaperBinHolding[] => holdings.map(holding => ({
+      binId: holding.binId,
+      amountX: holding.amountX.mul(1 - ratio),
+      amountY: holding.amountY.mul(1 - ratio)
+    }));
+    position.bins = scale(position.bins);
+    position.entryBins = position.entryBins && scale(position.entryBins);
+    position.totalLiquidity = position.totalLiquidity.sub(removedCost);
+    position.realizedPnl = position.realizedPnl.add(removedValue.sub(removedCost)).add(fees);
+    position.feesCollected = position.feesCollected.add(fees);
+    this.markToMarket(position, snapshot);
+    position.updatedAt = new Date();
+    await this.databaseService.savePaperPosition(position);
+
+    const transactionId = await this.recordFill(position.id, 'REMOVE_LIQUIDITY', removedValue, snapshot.activePrice, fees);
+    logTrade('PAPER_REMOVE_LIQUIDITY', position.poolAddress, removedValue.toString(), {
+      positionId,
+      percentage,
+      feesCollected: fees.toString(),
+      transactionId
+    });
+
+    return { success: true, transactionId, actualReturn: removedValue.add(fees), amountX, amountY };
+  }
+
+  private async getActivePosition(positionId?: string): Promise<PaperPosition> {
+    if (!positionId) {
+      throw new Error('Position ID is required for this action');
+    }
+
+    const position = await this.databaseService.getPaperPosition(positionId);
+    if (!position) {
+      throw new Error(`Paper position not found: ${positionId}`);
+    }
+    if (position.status !== PositionStatus.ACTIVE) {
+      throw new Error(`Paper position is not active: ${positionId}`);
+    }
+    return position;
+  }
+
+  /**
+   * Settle bins crossed by the price and refresh the position's valuation
+   */
+  private markToMarket(position: PaperPosition, snapshot: PoolSnapshot): void {
+    position.bins = settleHoldings(position.bins, snapshot);
+    position.liquidityX = position.bins.reduce((sum, bin) => sum.add(bin.amountX), new Big(0));
+    position.liquidityY = position.bins.reduce((sum, bin) => sum.add(bin.amountY), new Big(0));
+    position.currentPrice = snapshot.activePrice;
+    position.unrealizedPnl = valueHoldings(position.bins, snapshot.activePrice).sub(position.totalLiquidity);
+
+    if (position.entryBins && position.entryActiveBinId !== undefined) {
+      position.impermanentLoss = calculateDivergenceLoss({
+        binStep: snapshot.binStep,
+        activeBinId: snapshot.activeBinId,
+        activePrice: snapshot.activePrice,
+        entryActiveBinId: position.entryActiveBinId,
+        entryBins: position.entryBins,
+        currentBins: position.bins
+      }).impermanentLoss;
+    }
+  }
+
+  /**
+   * Fees earned since the last accrual: the pool's daily fees pro-rated by
+   * elapsed time and by the position's share of the active bin. Out-of-range
+   * positions earn nothing.
+   */
+  private async accrueFees(position: PaperPosition, snapshot: PoolSnapshot): Promise<Big> {
+    const now = new Date();
+    const elapsed = now.getTime() - position.lastFeeAccrual.getTime();
+    position.lastFeeAccrual = now;
+
+    const activeHolding = position.bins.find(bin => bin.binId === snapshot.activeBinId);
+    if (!activeHolding || elapsed <= 0) {
+      return new Big(0);
+    }
+
+    const poolData = await this.marketDataService.getPoolData(position.poolAddress);
+    if (!poolData) {
+      return new Big(0);
+    }
+
+    const ownValue = valueHoldings([activeHolding], snapshot.activePrice);
+    const binValue = snapshot.bins.get(snapshot.activeBinId)?.liquidity || new Big(0);
+    const totalValue = binValue.add(ownValue);
+    if (totalValue.eq(0)) {
+      return new Big(0);
+    }
+
+    return poolData.metrics.fees24h
+      .mul(elapsed / DAY_MS)
+      .mul(ownValue.div(totalValue));
+  }
+
+  private addHoldings(position: PaperPosition, amount: Big, snapshot: PoolSnapshot, strategyType: StrategyType): void {
+    const added = distributeLiquidity(amount, position.lowerBinId, position.upperBinId, snapshot, strategyType);
+    const merge = (holdings: PaperBinHolding[]): PaperBinHolding[] => holdings.map(holding => {
+      const extra = added.find(bin => bin.binId === holding.binId);
+      return extra
+        ? { binId: holding.binId, amountX: holding.amountX.add(extra.amountX), amountY: holding.amountY.add(extra.amountY) }
+        : holding;
+    });
+    position.bins = merge(position.bins);
+    // Added liquidity joins the benchmark, as if it had been held from the start
+    position.entryBins = position.entryBins && merge(position.entryBins);
+    position.totalLiquidity = position.totalLiquidity.add(amount);
+    this.markToMarket(position, snapshot);
+  }
+
+  private async recordFill(
+    positionId: string,
+    type: string,
+    amount: Big,
+    price: Big,
+    fees: Big = new Big(0),
+    relatedTransactionId?: string
+  ): Promise<string> {
+    const transactionId = `paper_${randomUUID()}`;
+
+    try {
+      await this.databaseService.savePaperTransaction({
+        positionId,
+        type,
+        amount: amount.toString(),
+        price: price.toString(),
+        fees: fees.toString(),
+        transactionId,
+        relatedTransactionId,
+        timestamp: new Date()
+      });
+    } catch (error) {
+      logger.error('Failed to record paper fill', { error: getErrorMessage(error), positionId, type });
+      throw error;
+    }
+
+    return transactionId;
+  }
+}
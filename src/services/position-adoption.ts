@@ -0,0 +1,176 @@
+import Big from 'big.js';
+import DLMM, { LbPosition } from '@meteora-ag/dlmm';
+import { SolanaService } from './solana';
+import { MarketDataService } from './market-data';
+import { DatabaseService } from './database';
+import { StrategyRegistry, strategyRegistry } from '../strategies/registry';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { getErrorMessage } from '../utils/error';
+import { AdoptionCandidate, Position, PositionStatus } from '../types';
+
+// Strategy of adopted positions no deployment manages; they are tracked but never traded
+export const UNMANAGED_DEPLOYMENT = 'unmanaged';
+
+/**
+ * Finds DLMM positions the wallet already holds in the target pools but the
+ * bot has no record of, and records them one at a time once an operator
+ * confirms each. Nothing is adopted automatically: a position may belong to
+ * another tool sharing the wallet.
+ */
+export class PositionAdoptionService {
+  private solanaService: SolanaService;
+  private marketDataService: MarketDataService;
+  private databaseService: DatabaseService;
+  private registry: StrategyRegistry;
+  private pools: string[];
+
+  constructor(
+    solanaService: SolanaService,
+    marketDataService: MarketDataService,
+    databaseService: DatabaseService,
+    registry: StrategyRegistry = strategyRegistry,
+    pools: string[] = config.pools.targetPools
+  ) {
+    this.solanaService = solanaService;
+    this.marketDataService = marketDataService;
+    this.databaseService = databaseService;
+    this.registry = registry;
+    this.pools = pools;
+  }
+
+  async discover(): Promise<AdoptionCandidate[]> {
+    const candidates: AdoptionCandidate[] = [];
+
+    for (const poolAddress of this.pools) {
+      try {
+        candidates.push(...await this.discoverPool(poolAddress));
+      } catch (error) {
+        logger.error('Failed to discover wallet positions', { poolAddress, error: getErrorMessage(error) });
+      }
+    }
+
+    return candidates;
+  }
+
+  async getCandidate(positionId: string): Promise<AdoptionCandidate | null> {
+    const candidates = await this.discover();
+    return candidates.find(candidate => candidate.positionId === positionId) || null;
+  }
+
+  /**
+   * Record a discovered position under a deployment on its pool, or as
+   * unmanaged. Callers must have the operator's confirmation.
+   */
+  async adopt(candidate: AdoptionCandidate, deploymentId: string = UNMANAGED_DEPLOYMENT): Promise<Position> {
+    if (deploymentId !== UNMANAGED_DEPLOYMENT) {
+      if (!this.registry.has(deploymentId)) {
+        throw new Error(`Strategy deployment not found: ${deploymentId}`);
+      }
+      if (this.registry.getDeployment(deploymentId).poolAddress !== candidate.poolAddress) {
+        throw new Error(`Deployment ${deploymentId} does not trade pool ${candidate.poolAddress}`);
+      }
+    }
+
+    if (await this.databaseService.getPosition(candidate.positionId)) {
+      throw new Error(`Position already recorded: ${candidate.positionId}`);
+    }
+
+    const now = new Date();
+    const position: Position = {
+      id: candidate.positionId,
+      poolAddress: candidate.poolAddress,
+      strategy: deploymentId,
+      status: PositionStatus.ACTIVE,
+      lowerBinId: candidate.lowerBinId,
+      upperBinId: candidate.upperBinId,
+      liquidityX: candidate.amountX,
+      liquidityY: candidate.amountY,
+      // The deposit is unknown, so PnL is measured from adoption
+      totalLiquidity: candidate.value,
+      entryPrice: candidate.estimatedEntryPrice,
+      currentPrice: candidate.currentPrice,
+      unrealizedPnl: new Big(0),
+      realizedPnl: new Big(0),
+      feesCollected: new Big(0),
+      impermanentLoss: new Big(0),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.databaseService.savePosition(position);
+    logger.info('Position adopted', {
+      positionId: position.id,
+      poolAddress: position.poolAddress,
+      deploymentId,
+      binRange: [position.lowerBinId, position.upperBinId],
+      value: position.totalLiquidity.toString()
+    });
+
+    return position;
+  }
+
+  private async discoverPool(poolAddress: string): Promise<AdoptionCandidate[]> {
+    if (!this.marketDataService.getDLMMInstance(poolAddress)) {
+      await this.marketDataService.addPool(poolAddress);
+    }
+    const dlmm = this.marketDataService.getDLMMInstance(poolAddress);
+    if (!dlmm) {
+      throw new Error(`DLMM instance not found for pool: ${poolAddress}`);
+    }
+
+    await dlmm.refetchStates();
+    const { userPositions, activeBin } = await dlmm.getPositionsByUserAndLbPair(this.solanaService.getPublicKey());
+    const deployments = this.registry.getByPool(poolAddress);
+    const candidates: AdoptionCandidate[] = [];
+
+    for (const userPosition of userPositions) {
+      const positionId = userPosition.publicKey.toString();
+      if (await this.databaseService.getPosition(positionId)) {
+        continue;
+      }
+
+      candidates.push({
+        ...this.reconstruct(dlmm, userPosition, new Big(activeBin.pricePerToken)),
+        poolAddress,
+        suggestedDeploymentId: deployments.length === 1 ? deployments[0].id : undefined
+      });
+    }
+
+    return candidates;
+  }
+
+  private reconstruct(
+    dlmm: DLMM,
+    userPosition: LbPosition,
+    currentPrice: Big
+  ): Omit<AdoptionCandidate, 'poolAddress' | 'suggestedDeploymentId'> {
+    const { lowerBinId, upperBinId, totalXAmount, totalYAmount, positionBinData } = userPosition.positionData;
+    const scaleX = Math.pow(10, dlmm.tokenX.mint.decimals);
+    const scaleY = Math.pow(10, dlmm.tokenY.mint.decimals);
+    const amountX = new Big(totalXAmount).div(scaleX);
+    const amountY = new Big(totalYAmount).div(scaleY);
+
+    // Liquidity is added at prices around where it sits, so the bins' prices
+    // weighted by the value each holds stand in for the unknown entry price
+    let weightedPrice = new Big(0);
+    let totalWeight = new Big(0);
+    for (const bin of positionBinData) {
+      const price = new Big(bin.pricePerToken);
+      const weight = new Big(bin.positionXAmount).div(scaleX).mul(price).add(new Big(bin.positionYAmount).div(scaleY));
+      weightedPrice = weightedPrice.add(price.mul(weight));
+      totalWeight = totalWeight.add(weight);
+    }
+
+    return {
+      positionId: userPosition.publicKey.toString(),
+      lowerBinId,
+      upperBinId,
+      amountX,
+      amountY,
+      value: amountX.mul(currentPrice).add(amountY),
+      estimatedEntryPrice: totalWeight.gt(0) ? weightedPrice.div(totalWeight) : currentPrice,
+      currentPrice
+    };
+  }
+}
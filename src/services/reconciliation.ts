@@ -0,0 +1,306 @@
+import Big from 'big.js';
+import DLMM, { LbPosition } from '@meteora-ag/dlmm';
+import { SolanaService } from './solana';
+import { MarketDataService } from './market-data';
+import { DatabaseService } from './database';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { getErrorMessage } from '../utils/error';
+import {
+  AlertLevel,
+  AlertType,
+  DiscrepancyType,
+  Position,
+  PositionDiscrepancy,
+  PositionStatus,
+  ReconciliationReport,
+  RiskAlert
+} from '../types';
+
+// A position this young may not be visible at the RPC's commitment level yet
+const GHOST_GRACE_PERIOD = 5 * 60 * 1000;
+
+/**
+ * Periodically compares the recorded active positions with the wallet's
+ * positions on-chain, pool by pool. Drift the chain settles unambiguously is
+ * repaired: a closed position is marked closed, and a bin range or token mix
+ * is copied from the chain. Positions the bot never recorded and liquidity
+ * moved outside the bot are raised as risk alerts, once per discrepancy.
+ */
+export class ReconciliationService {
+  private solanaService: SolanaService;
+  private marketDataService: MarketDataService;
+  private databaseService: DatabaseService;
+  private interval: number;
+  private tolerance: number;
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private lastReport: ReconciliationReport | null = null;
+  private alerted: Set<string> = new Set();
+
+  constructor(
+    solanaService: SolanaService,
+    marketDataService: MarketDataService,
+    databaseService: DatabaseService,
+    interval: number = config.bot.reconciliationInterval,
+    tolerance: number = config.bot.reconciliationTolerance
+  ) {
+    this.solanaService = solanaService;
+    this.marketDataService = marketDataService;
+    this.databaseService = databaseService;
+    this.interval = interval;
+    this.tolerance = tolerance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      logger.warn('Reconciliation is already running');
+      return;
+    }
+
+    const run = () => {
+      this.reconcile().catch(error => {
+        logger.error('Reconciliation failed', { error: getErrorMessage(error) });
+      });
+    };
+
+    // Check right away so drift from while the bot was down shows up without waiting an interval
+    run();
+    this.timer = setInterval(run, this.interval);
+
+    logger.info('Reconciliation started', { interval: this.interval });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Reconciliation stopped');
+    }
+  }
+
+  async reconcile(): Promise<ReconciliationReport | null> {
+    if (this.isRunning) {
+      logger.warn('Previous reconciliation still running, skipping');
+      return null;
+    }
+
+    this.isRunning = true;
+    const startedAt = new Date();
+
+    try {
+      const active = await this.databaseService.getActivePositions();
+      const pools = Array.from(new Set([
+        ...this.marketDataService.getTrackedPools(),
+        ...active.map(position => position.poolAddress)
+      ]));
+
+      const discrepancies: PositionDiscrepancy[] = [];
+      const failedPools: ReconciliationReport['failedPools'] = [];
+      let positionsChecked = 0;
+
+      for (const poolAddress of pools) {
+        try {
+          const { found, checked } = await this.reconcilePool(poolAddress);
+          discrepancies.push(...found);
+          positionsChecked += checked;
+        } catch (error) {
+          // Without the pool's on-chain positions nothing in it can be judged missing
+          logger.error('Failed to reconcile pool', { poolAddress, error: getErrorMessage(error) });
+          failedPools.push({ poolAddress, error: getErrorMessage(error) });
+        }
+      }
+
+      await this.raiseAlerts(discrepancies.filter(discrepancy => !discrepancy.repaired));
+
+      this.lastReport = {
+        startedAt,
+        completedAt: new Date(),
+        poolsChecked: pools.length - failedPools.length,
+        positionsChecked,
+        discrepancies,
+        failedPools
+      };
+
+      logger.info('Reconciliation completed', {
+        poolsChecked: this.lastReport.poolsChecked,
+        positionsChecked,
+        discrepancies: discrepancies.length,
+        repaired: discrepancies.filter(discrepancy => discrepancy.repaired).length,
+        failedPools: failedPools.length
+      });
+
+      return this.lastReport;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async reconcilePool(poolAddress: string): Promise<{ found: PositionDiscrepancy[]; checked: number }> {
+    const dlmm = this.marketDataService.getDLMMInstance(poolAddress);
+    if (!dlmm) {
+      throw new Error(`DLMM instance not found for pool: ${poolAddress}`);
+    }
+
+    // The chain is read before the records, so a position opened in between
+    // shows up as a young ghost rather than a false orphan
+    await dlmm.refetchStates();
+    const { userPositions, activeBin } = await dlmm.getPositionsByUserAndLbPair(this.solanaService.getPublicKey());
+    const recorded = await this.databaseService.getPositionsByPool(poolAddress);
+    const onChain = new Map(userPositions.map(userPosition => [userPosition.publicKey.toString(), userPosition]));
+    const found: PositionDiscrepancy[] = [];
+
+    for (const position of recorded.filter(p => p.status === PositionStatus.ACTIVE)) {
+      const userPosition = onChain.get(position.id);
+
+      if (!userPosition) {
+        if (Date.now() - position.createdAt.getTime() >= GHOST_GRACE_PERIOD) {
+          found.push(await this.closeGhost(position));
+        }
+        continue;
+      }
+
+      found.push(...await this.compare(dlmm, position, userPosition, new Big(activeBin.pricePerToken)));
+    }
+
+    // Positions recorded under any status are the bot's own; the rest were opened elsewhere
+    const known = new Set(recorded.map(position => position.id));
+    for (const positionId of onChain.keys()) {
+      if (!known.has(positionId)) {
+        found.push({
+          type: DiscrepancyType.ORPHAN,
+          poolAddress,
+          positionId,
+          message: `Position ${positionId} exists on-chain but is not recorded`,
+          repaired: false
+        });
+      }
+    }
+
+    return { found, checked: onChain.size };
+  }
+
+  private async closeGhost(position: Position): Promise<PositionDiscrepancy> {
+    await this.databaseService.updatePosition({
+      ...position,
+      status: PositionStatus.CLOSED,
+      updatedAt: new Date()
+    });
+
+    return {
+      type: DiscrepancyType.GHOST,
+      poolAddress: position.poolAddress,
+      positionId: position.id,
+      message: `Position ${position.id} no longer exists on-chain and was marked closed`,
+      repaired: true
+    };
+  }
+
+  private async compare(
+    dlmm: DLMM,
+    position: Position,
+    userPosition: LbPosition,
+    price: Big
+  ): Promise<PositionDiscrepancy[]> {
+    const { poolAddress, id: positionId } = position;
+    const { lowerBinId, upperBinId, totalXAmount, totalYAmount } = userPosition.positionData;
+    const amountX = new Big(totalXAmount).div(Math.pow(10, dlmm.tokenX.mint.decimals));
+    const amountY = new Big(totalYAmount).div(Math.pow(10, dlmm.tokenY.mint.decimals));
+    const found: PositionDiscrepancy[] = [];
+    let repaired = position;
+
+    if (position.lowerBinId !== lowerBinId || position.upperBinId !== upperBinId) {
+      repaired = { ...repaired, lowerBinId, upperBinId };
+      found.push({
+        type: DiscrepancyType.BIN_RANGE,
+        poolAddress,
+        positionId,
+        message: `Bin range recorded as [${position.lowerBinId}, ${position.upperBinId}] is [${lowerBinId}, ${upperBinId}] on-chain`,
+        repaired: true
+      });
+    }
+
+    // A range position is never worth more than holding its recorded tokens, so
+    // on-chain value above that, or an emptied position, means liquidity moved
+    // outside the bot. Anything else is the pool swapping through the range.
+    const recordedValue = position.liquidityX.mul(price).add(position.liquidityY);
+    const onChainValue = amountX.mul(price).add(amountY);
+    const emptied = onChainValue.eq(0) && position.totalLiquidity.gt(0);
+
+    if (emptied || onChainValue.gt(recordedValue.mul(1 + this.tolerance))) {
+      found.push({
+        type: DiscrepancyType.LIQUIDITY,
+        poolAddress,
+        positionId,
+        message: `Position holds ${amountX.toString()} X and ${amountY.toString()} Y on-chain, ` +
+          `recorded as ${position.liquidityX.toString()} X and ${position.liquidityY.toString()} Y`,
+        repaired: false
+      });
+    } else if (this.drifted(position.liquidityX, amountX) || this.drifted(position.liquidityY, amountY)) {
+      repaired = { ...repaired, liquidityX: amountX, liquidityY: amountY };
+      found.push({
+        type: DiscrepancyType.LIQUIDITY,
+        poolAddress,
+        positionId,
+        message: `Token mix recorded as ${position.liquidityX.toString()} X and ${position.liquidityY.toString()} Y ` +
+          `is ${amountX.toString()} X and ${amountY.toString()} Y on-chain`,
+        repaired: true
+      });
+    }
+
+    if (repaired !== position) {
+      await this.databaseService.updatePosition({ ...repaired, updatedAt: new Date() });
+    }
+
+    return found;
+  }
+
+  private drifted(recorded: Big, onChain: Big): boolean {
+    const larger = recorded.gt(onChain) ? recorded : onChain;
+    return recorded.sub(onChain).abs().gt(larger.mul(this.tolerance));
+  }
+
+  /**
+   * Alert on each unrepaired discrepancy once, for as long as it persists
+   */
+  private async raiseAlerts(discrepancies: PositionDiscrepancy[]): Promise<void> {
+    const current = new Set<string>();
+
+    for (const discrepancy of discrepancies) {
+      const key = `${discrepancy.type}:${discrepancy.positionId}`;
+      current.add(key);
+      if (this.alerted.has(key)) {
+        continue;
+      }
+
+      const alert: RiskAlert = {
+        level: AlertLevel.WARNING,
+        type: AlertType.RECONCILIATION,
+        message: discrepancy.message,
+        positionId: discrepancy.positionId,
+        poolAddress: discrepancy.poolAddress,
+        timestamp: new Date(),
+        acknowledged: false
+      };
+
+      try {
+        await this.databaseService.saveRiskAlert(alert);
+        logger.warn('Reconciliation alert raised', { type: discrepancy.type, positionId: discrepancy.positionId });
+      } catch (error) {
+        // Left out of the alerted set so the next run tries again
+        current.delete(key);
+        logger.error('Failed to save reconciliation alert', { positionId: discrepancy.positionId, error: getErrorMessage(error) });
+      }
+    }
+
+    this.alerted = current;
+  }
+
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  async cleanup(): Promise<void> {
+    this.stop();
+  }
+}
@@ -0,0 +1,383 @@
+import { randomUUID } from 'crypto';
+import Big from 'big.js';
+import { MarketDataService } from './market-data';
+import { DatabaseService } from './database';
+import { DivergenceLoss, measurePositionDivergence } from './divergence-loss';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { getErrorMessage } from '../utils/error';
+import { ZERO, calculateImpermanentLoss, calculateMaxDrawdown, calculateSharpeRatio, max } from '../utils/math';
+import {
+  BotConfig,
+  DbPerformance,
+  DbTransaction,
+  ExecutionMode,
+  PoolData,
+  PoolRisk,
+  Position,
+  PositionRisk,
+  RiskFactors,
+  RiskLevel,
+  RiskReport
+} from '../types';
+
+export interface RiskSettings extends Pick<
+  BotConfig['risk'],
+  'ilWarningThreshold' | 'ilActionThreshold' | 'ilCriticalThreshold' | 'ilEmergencyThreshold' |
+  'maxVolatilityThreshold' | 'maxDrawdownThreshold'
+> {
+  minLiquidityUsd: number; // Pools shallower than this count as fully illiquid
+}
+
+export interface CapitalFlow {
+  amount: Big; // Deposited into positions when positive, withdrawn when negative
+  timestamp: Date;
+}
+
+export interface RiskInput {
+  positions: Position[];
+  pools: Map<string, PoolData>;
+  history: DbPerformance[];
+  flows: CapitalFlow[]; // Ledger flows since the last snapshot in the history
+}
+
+export const getDefaultRiskSettings = (): RiskSettings => ({
+  ...config.risk,
+  minLiquidityUsd: config.performance.minLiquidityUsd
+});
+
+// Weight of each factor in the 0-100 risk score
+const RISK_WEIGHTS: RiskFactors = {
+  impermanentLoss: 0.3,
+  drawdown: 0.2,
+  volatility: 0.2,
+  concentration: 0.15,
+  liquidity: 0.15
+};
+
+// Ledger entries that move capital into (1) or out of (-1) positions. Fee
+// claims are not counted: unclaimed fees are not part of the position value.
+const FLOW_DIRECTIONS: Record<string, number> = {
+  CREATE_POSITION: 1,
+  ADD_LIQUIDITY: 1,
+  COMPOUND: 1,
+  REMOVE_LIQUIDITY: -1,
+  CLOSE_POSITION: -1
+};
+
+const ratio = (value: Big, total: Big): number => (total.gt(0) ? Number(value.div(total).toString()) : 0);
+const capped = (value: number, limit: number): number => Math.min(1, limit > 0 ? value / limit : 0);
+
+const getRiskLevel = (score: number): RiskLevel => {
+  if (score < 25) return RiskLevel.LOW;
+  if (score < 50) return RiskLevel.MEDIUM;
+  if (score < 75) return RiskLevel.HIGH;
+  return RiskLevel.EXTREME;
+};
+
+/**
+ * Share of the held value lost to the price moving from the entry price
+ */
+export const getImpermanentLossRatio = (entryPrice: Big, price: Big): number => (
+  entryPrice.gt(0) && price.gt(0)
+    ? Math.max(0, -Number(calculateImpermanentLoss(entryPrice, price).toString()))
+    : 0
+);
+
+export const toCapitalFlows = (transactions: Pick<DbTransaction, 'type' | 'amount' | 'timestamp'>[]): CapitalFlow[] => (
+  transactions
+    .filter(transaction => FLOW_DIRECTIONS[transaction.type] !== undefined)
+    .map(transaction => ({
+      amount: new Big(transaction.amount).mul(FLOW_DIRECTIONS[transaction.type]),
+      timestamp: transaction.timestamp
+    }))
+);
+
+const getNetFlow = (flows: CapitalFlow[], since: Date): Big => flows
+  .filter(flow => flow.timestamp > since)
+  .reduce((sum, flow) => sum.add(flow.amount), ZERO);
+
+/**
+ * Return of the portfolio value over a period, net of the capital deposited or
+ * withdrawn during it. Flows count as made at the start of the period, so a
+ * period that starts with nothing deployed returns only what it earned.
+ */
+export const getPeriodReturn = (start: Big, end: Big, netFlow: Big): Big => {
+  const invested = start.add(netFlow);
+  return invested.gt(0) ? end.sub(start).sub(netFlow).div(invested) : ZERO;
+};
+
+/**
+ * A position's loss against holding at the pool's active bin: measured per bin
+ * from its entry composition when one was recorded, otherwise estimated with
+ * the full-range formula, which understates it for concentrated ranges
+ */
+export const getPositionLoss = (
+  position: Position,
+  pool: PoolData
+): { lossRatio: number; divergence: DivergenceLoss | null } => {
+  const divergence = measurePositionDivergence(position, pool);
+  return {
+    lossRatio: divergence
+      ? Math.max(0, divergence.impermanentLossRatio)
+      : getImpermanentLossRatio(position.entryPrice, pool.activeBin.price),
+    divergence
+  };
+};
+
+const getImpermanentLossLevel = (lossRatio: number, settings: RiskSettings): RiskLevel => {
+  if (lossRatio < settings.ilWarningThreshold) return RiskLevel.LOW;
+  if (lossRatio < settings.ilActionThreshold) return RiskLevel.MEDIUM;
+  if (lossRatio < settings.ilCriticalThreshold) return RiskLevel.HIGH;
+  return RiskLevel.EXTREME;
+};
+
+/**
+ * The recorded token amounts are the deposit's, so the position is valued at
+ * its current composition: the per-bin projection when entry bins were
+ * recorded, otherwise the held value less the estimated loss
+ */
+const assessPosition = (position: Position, pool: PoolData | undefined, settings: RiskSettings): PositionRisk => {
+  const price = pool?.activeBin.price ?? position.currentPrice;
+  const held = position.liquidityX.mul(price).add(position.liquidityY);
+
+  const { lossRatio, divergence } = pool
+    ? getPositionLoss(position, pool)
+    : { lossRatio: getImpermanentLossRatio(position.entryPrice, price), divergence: null };
+  const impermanentLoss = divergence ? max(divergence.impermanentLoss, 0) : held.mul(lossRatio);
+  const value = divergence ? divergence.positionValue : held.sub(impermanentLoss);
+
+  return {
+    positionId: position.id,
+    poolAddress: position.poolAddress,
+    value,
+    pnl: value.sub(position.totalLiquidity).add(position.realizedPnl),
+    impermanentLoss,
+    impermanentLossRatio: lossRatio,
+    feesEarned: position.feesCollected,
+    netPnl: position.feesCollected.sub(impermanentLoss),
+    inRange: pool
+      ? pool.activeBin.binId >= position.lowerBinId && pool.activeBin.binId <= position.upperBinId
+      : true,
+    riskLevel: getImpermanentLossLevel(lossRatio, settings)
+  };
+};
+
+/**
+ * Risk of a set of positions at the given pool states. Pool volatility and
+ * liquidity are weighted by the value held in each pool; drawdown and Sharpe
+ * ratio come from the daily returns in the performance history, which are net
+ * of capital flows so deposits and withdrawals read as neither gain nor loss.
+ */
+export const assessRisk = ({ positions, pools, history, flows }: RiskInput, settings: RiskSettings): RiskReport => {
+  const positionRisks = positions.map(position => assessPosition(position, pools.get(position.poolAddress), settings));
+  const portfolioValue = positionRisks.reduce((sum, risk) => sum.add(risk.value), new Big(0));
+
+  const poolRisks: PoolRisk[] = Array.from(new Set(positions.map(position => position.poolAddress))).map(poolAddress => {
+    const held = positionRisks.filter(risk => risk.poolAddress === poolAddress);
+    const value = held.reduce((sum, risk) => sum.add(risk.value), new Big(0));
+    const pool = pools.get(poolAddress);
+    const tvl = pool?.metrics.tvl;
+
+    return {
+      poolAddress,
+      positions: held.length,
+      value,
+      share: ratio(value, portfolioValue),
+      volatility: pool?.metrics.volatility ?? 0,
+      // How much of the pool an exit would have to swap through; unknown depth counts as none
+      liquidityRisk: !tvl || tvl.lt(settings.minLiquidityUsd) ? 1 : Math.min(1, ratio(value, tvl)),
+      impermanentLoss: held.reduce((sum, risk) => sum.add(risk.impermanentLoss), new Big(0))
+    };
+  });
+
+  const impermanentLoss = positionRisks.reduce((sum, risk) => sum.add(risk.impermanentLoss), new Big(0));
+  const volatility = poolRisks.reduce((sum, pool) => sum + pool.share * pool.volatility, 0);
+  const concentrationRisk = poolRisks.reduce((sum, pool) => sum + pool.share * pool.share, 0);
+  const liquidityRisk = poolRisks.reduce((sum, pool) => sum + pool.share * pool.liquidityRisk, 0);
+
+  // Drawdown of the compounded returns since the first snapshot, including the day so far
+  const last = history[history.length - 1];
+  const returns = history.slice(1).map(entry => new Big(entry.dailyReturn));
+  if (last) {
+    returns.push(getPeriodReturn(new Big(last.portfolioValue), portfolioValue, getNetFlow(flows, last.date)));
+  }
+  const index = returns.reduce((values, dailyReturn) => [...values, values[values.length - 1].mul(dailyReturn.add(1))], [new Big(1)]);
+  const maxDrawdown = Number(calculateMaxDrawdown(index).toString());
+  const sharpeRatio = Number(calculateSharpeRatio(history.map(entry => new Big(entry.dailyReturn))).toString());
+
+  const factors: RiskFactors = {
+    impermanentLoss: 100 * capped(ratio(impermanentLoss, portfolioValue.add(impermanentLoss)), settings.ilEmergencyThreshold),
+    drawdown: 100 * capped(maxDrawdown, settings.maxDrawdownThreshold),
+    volatility: 100 * capped(volatility, settings.maxVolatilityThreshold),
+    concentration: 100 * concentrationRisk,
+    liquidity: 100 * liquidityRisk
+  };
+  const riskScore = Math.round(
+    (Object.keys(RISK_WEIGHTS) as (keyof RiskFactors)[]).reduce((sum, key) => sum + RISK_WEIGHTS[key] * factors[key], 0)
+  );
+
+  return {
+    metrics: {
+      portfolioValue,
+      totalPnl: positionRisks.reduce((sum, risk) => sum.add(risk.pnl), new Big(0)),
+      maxDrawdown,
+      sharpeRatio,
+      volatility,
+      concentrationRisk,
+      liquidityRisk,
+      impermanentLoss,
+      riskScore
+    },
+    level: getRiskLevel(riskScore),
+    factors,
+    positions: positionRisks,
+    pools: poolRisks,
+    evaluatedAt: new Date()
+  };
+};
+
+/**
+ * Keeps a risk report of the open positions current: it is recomputed after
+ * every market data refresh, and a daily performance snapshot is recorded
+ * for drawdown and Sharpe ratio.
+ */
+export class RiskService {
+  private marketDataService: MarketDataService;
+  private databaseService: DatabaseService;
+  private settings: RiskSettings;
+  private executionMode: ExecutionMode;
+  private latest: RiskReport | null = null;
+  private pending: Promise<RiskReport> | null = null;
+
+  constructor(
+    marketDataService: MarketDataService,
+    databaseService: DatabaseService,
+    settings: RiskSettings = getDefaultRiskSettings(),
+    executionMode: ExecutionMode = config.bot.executionMode
+  ) {
+    this.marketDataService = marketDataService;
+    this.databaseService = databaseService;
+    this.settings = settings;
+    this.executionMode = executionMode;
+  }
+
+  initialize(): void {
+    this.marketDataService.onUpdate(() => {
+      this.evaluate().catch(error => {
+        logger.error('Risk evaluation failed', { error: getErrorMessage(error) });
+      });
+    });
+  }
+
+  /**
+   * Recompute the report; callers arriving while one is in progress share it
+   */
+  async evaluate(): Promise<RiskReport> {
+    if (!this.pending) {
+      this.pending = this.runEvaluation().finally(() => {
+        this.pending = null;
+      });
+    }
+    return await this.pending;
+  }
+
+  async getReport(): Promise<RiskReport> {
+    return this.latest ?? await this.evaluate();
+  }
+
+  getSettings(): RiskSettings {
+    return this.settings;
+  }
+
+  /**
+   * Replace some settings until the next restart; the next evaluation applies them
+   */
+  updateSettings(settings: Partial<RiskSettings>): RiskSettings {
+    this.settings = { ...this.settings, ...settings };
+    return this.settings;
+  }
+
+  private async runEvaluation(): Promise<RiskReport> {
+    const positions = this.executionMode === ExecutionMode.PAPER
+      ? await this.databaseService.getActivePaperPositions()
+      : await this.databaseService.getActivePositions();
+
+    const pools = new Map<string, PoolData>();
+    for (const poolAddress of new Set(positions.map(position => position.poolAddress))) {
+      try {
+        const pool = await this.marketDataService.getPoolData(poolAddress);
+        if (pool) {
+          pools.set(poolAddress, pool);
+        }
+      } catch (error) {
+        // The position's recorded price stands in for the pool's
+        logger.warn('Pool data unavailable for risk evaluation', { poolAddress, error: getErrorMessage(error) });
+      }
+    }
+
+    const history = await this.databaseService.getPerformanceHistory();
+    const flows = await this.loadFlows(history);
+    const report = assessRisk({ positions, pools, history, flows }, this.settings);
+    await this.recordSnapshot(report, positions, history, flows);
+
+    this.latest = report;
+    logger.debug('Risk evaluated', {
+      riskScore: report.metrics.riskScore,
+      level: report.level,
+      portfolioValue: report.metrics.portfolioValue.toString(),
+      positions: positions.length
+    });
+
+    return report;
+  }
+
+  private async loadFlows(history: DbPerformance[]): Promise<CapitalFlow[]> {
+    const last = history[history.length - 1];
+    if (!last) {
+      return [];
+    }
+
+    const transactions = this.executionMode === ExecutionMode.PAPER
+      ? await this.databaseService.getPaperTransactionsSince(last.date)
+      : await this.databaseService.getTransactionsSince(last.date);
+    return toCapitalFlows(transactions);
+  }
+
+  private async recordSnapshot(
+    report: RiskReport,
+    positions: Position[],
+    history: DbPerformance[],
+    flows: CapitalFlow[]
+  ): Promise<void> {
+    const last = history[history.length - 1];
+    const { portfolioValue } = report.metrics;
+
+    if (portfolioValue.eq(0) || (last && last.date.toDateString() === report.evaluatedAt.toDateString())) {
+      return;
+    }
+
+
+    try {
+      await this.databaseService.savePerformance({
+        id: randomUUID(),
+        date: report.evaluatedAt,
+        portfolioValue: portfolioValue.toString(),
+        totalPnl: report.metrics.totalPnl.toString(),
+        feesEarned: positions.reduce((sum, position) => sum.add(position.feesCollected), new Big(0)).toString(),
+        impermanentLoss: report.metrics.impermanentLoss.toString(),
+        activePositions: positions.length,
+        dailyReturn: last
+          ? getPeriodReturn(new Big(last.portfolioValue), portfolioValue, getNetFlow(flows, last.date)).toString()
+          : '0'
+      });
+    } catch (error) {
+      // A missed snapshot only thins the history
+      logger.error('Failed to record performance snapshot', { error: getErrorMessage(error) });
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    this.latest = null;
+  }
+}
@@ -1,14 +1,24 @@
-import { Connection, Keypair, PublicKey, Transaction, sendAndConfirmTransaction } from '@solana/web3.js';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  Signer,
+  SimulatedTransactionResponse,
+  Transaction,
+  VersionedTransaction
+} from '@solana/web3.js';
 import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
 import bs58 from 'bs58';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { getErrorMessage } from '../utils/error';
+import { TransactionFailedError, getErrorMessage } from '../utils/error';
+import { SendRetryOptions } from '../types';
 
 export class SolanaService {
   private connection: Connection;
   private wallet: Wallet;
   private provider: AnchorProvider;
+  private confirmationPollInterval = 1000;
 
   constructor() {
     this.connection = new Connection(config.solana.rpcUrl, 'confirmed');
@@ -82,21 +92,10 @@ export class SolanaService {
 
   async sendTransaction(transaction: Transaction): Promise<string> {
     try {
-      // Set recent blockhash
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = this.wallet.publicKey;
-
-      // Sign and send transaction
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [this.wallet.payer],
-        {
-          commitment: 'confirmed',
-          preflightCommitment: 'confirmed',
-        }
-      );
+      const signature = await this.sendTransactionWithRetry(transaction, [this.wallet.payer], {
+        label: 'transaction',
+        maxAttempts: config.solana.maxSendAttempts
+      });
 
       logger.info('Transaction sent successfully', {
         signature,
@@ -113,19 +112,152 @@ export class SolanaService {
     }
   }
 
-  async simulateTransaction(transaction: Transaction): Promise<any> {
+  /**
+   * Send a transaction and keep rebroadcasting it until it confirms or its
+   * blockhash expires. An expired attempt is re-signed with a fresh blockhash,
+   * but only after checking that none of the earlier signatures landed, so a
+   * slow confirmation is never submitted twice. RPC errors and confirmation
+   * timeouts move on to the next attempt; only an on-chain failure stops early.
+   */
+  async sendTransactionWithRetry(
+    transaction: Transaction | VersionedTransaction,
+    signers: Signer[],
+    options: SendRetryOptions
+  ): Promise<string> {
+    const { label, maxAttempts } = options;
+    const signatures: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const landed = await this.findLandedSignature(signatures);
+      if (landed) {
+        logger.info('Earlier attempt landed, not resubmitting', { label, signature: landed, attempt });
+        return landed;
+      }
+
+      options.beforeAttempt?.(attempt);
+
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+      const signature = this.signWithBlockhash(transaction, signers, blockhash);
+      const rawTransaction = transaction.serialize();
+      signatures.push(signature);
+
+      logger.info('Sending transaction', { label, attempt, maxAttempts, signature, lastValidBlockHeight });
+
+      const rebroadcast = async (): Promise<void> => {
+        await this.connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+      };
+      // A failed first broadcast is left to the rebroadcasts while polling
+      await rebroadcast().catch(error =>
+        logger.warn('Broadcast failed', { label, attempt, signature, error: getErrorMessage(error) })
+      );
+
+      try {
+        if (await this.waitForConfirmation(signature, 120000, lastValidBlockHeight, rebroadcast)) {
+          logger.info('Transaction confirmed', { label, attempt, signature });
+          return signature;
+        }
+
+        logger.warn('Transaction blockhash expired before confirmation', { label, attempt, signature, lastValidBlockHeight });
+      } catch (error) {
+        if (error instanceof TransactionFailedError) {
+          throw error;
+        }
+        logger.warn('Confirmation failed, retrying', { label, attempt, signature, error: getErrorMessage(error) });
+      }
+    }
+
+    // The last attempt may still have landed in the final valid block
+    const landed = await this.findLandedSignature(signatures);
+    if (landed) {
+      return landed;
+    }
+
+    throw new Error(`Transaction ${label} was not confirmed after ${maxAttempts} attempts`);
+  }
+
+  /**
+   * Sign a transaction for a blockhash and return its signature. A v0
+   * transaction is signed only by the signers its message requires, since a
+   * multi-transaction operation shares one signer list across its steps.
+   */
+  private signWithBlockhash(
+    transaction: Transaction | VersionedTransaction,
+    signers: Signer[],
+    blockhash: string
+  ): string {
+    if (transaction instanceof VersionedTransaction) {
+      const { message } = transaction;
+      const required = message.staticAccountKeys.slice(0, message.header.numRequiredSignatures);
+      message.recentBlockhash = blockhash;
+      transaction.signatures = required.map(() => new Uint8Array(64));
+      transaction.sign(signers.filter(signer => required.some(key => key.equals(signer.publicKey))));
+      return bs58.encode(transaction.signatures[0]);
+    }
+
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = transaction.feePayer || this.wallet.publicKey;
+    transaction.sign(...signers);
+    return bs58.encode(transaction.signature!);
+  }
+
+  /**
+   * First of the given signatures that confirmed. A signature that landed but
+   * failed is thrown rather than resubmitted.
+   */
+  private async findLandedSignature(signatures: string[]): Promise<string | null> {
+    if (signatures.length === 0) {
+      return null;
+    }
+
+    const { value: statuses } = await this.connection.getSignatureStatuses(signatures, {
+      searchTransactionHistory: true
+    });
+
+    for (let i = 0; i < signatures.length; i++) {
+      const status = statuses[i];
+      if (status?.err) {
+        throw new TransactionFailedError(status.err);
+      }
+      if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+        return signatures[i];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Simulate a transaction against the latest state. A failed simulation is
+   * returned rather than thrown so callers can read its logs; the post-state
+   * of any requested accounts is included in the response.
+   */
+  async simulateTransaction(
+    transaction: Transaction | VersionedTransaction,
+    accounts: PublicKey[] = []
+  ): Promise<SimulatedTransactionResponse> {
     try {
+      if (transaction instanceof VersionedTransaction) {
+        const result = await this.connection.simulateTransaction(transaction, {
+          sigVerify: false,
+          replaceRecentBlockhash: true,
+          accounts: accounts.length > 0
+            ? { encoding: 'base64', addresses: accounts.map(account => account.toBase58()) }
+            : undefined
+        });
+        return result.value;
+      }
+
       // Set recent blockhash
       const { blockhash } = await this.connection.getLatestBlockhash();
       transaction.recentBlockhash = blockhash;
       transaction.feePayer = this.wallet.publicKey;
 
       // Simulate transaction
-      const result = await this.connection.simulateTransaction(transaction);
-      
-      if (result.value.err) {
-        throw new Error(`Transaction simulation failed: ${JSON.stringify(result.value.err)}`);
-      }
+      const result = await this.connection.simulateTransaction(
+        transaction,
+        undefined,
+        accounts.length > 0 ? accounts : undefined
+      );
 
       return result.value;
     } catch (error) {
@@ -179,7 +311,17 @@ export class SolanaService {
     }
   }
 
-  async waitForConfirmation(signature: string, timeout: number = 60000): Promise<boolean> {
+  /**
+   * Poll until a signature confirms. With lastValidBlockHeight, resolves false
+   * once the blockhash has expired, since the transaction can no longer land;
+   * onPoll runs on every unconfirmed poll, e.g. to rebroadcast.
+   */
+  async waitForConfirmation(
+    signature: string,
+    timeout: number = 60000,
+    lastValidBlockHeight?: number,
+    onPoll?: () => Promise<void>
+  ): Promise<boolean> {
     try {
       const start = Date.now();
       
@@ -192,11 +334,22 @@ export class SolanaService {
         }
         
         if (status.value?.err) {
-          throw new Error(`Transaction failed: ${JSON.stringify(status.value.err)}`);
+          throw new TransactionFailedError(status.value.err);
+        }
+
+        if (lastValidBlockHeight !== undefined &&
+            await this.connection.getBlockHeight('confirmed') > lastValidBlockHeight) {
+          return false;
+        }
+
+        if (onPoll) {
+          await onPoll().catch(error =>
+            logger.debug('Rebroadcast failed', { signature, error: getErrorMessage(error) })
+          );
         }
         
-        // Wait 1 second before checking again
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        // Wait before checking again
+        await new Promise(resolve => setTimeout(resolve, this.confirmationPollInterval));
       }
       
       throw new Error('Transaction confirmation timeout');
@@ -209,6 +362,39 @@ export class SolanaService {
     }
   }
 
+  /**
+   * Per-compute-unit fees, in micro-lamports, paid by landed transactions in
+   * recent slots that wrote to any of the given accounts
+   */
+  async getRecentPrioritizationFees(accounts: PublicKey[]): Promise<number[]> {
+    try {
+      const fees = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: accounts
+      });
+      return fees.map(fee => fee.prioritizationFee);
+    } catch (error) {
+      logger.error('Failed to get recent prioritization fees', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Lamports a confirmed transaction paid in fees, or null if the RPC node
+   * cannot return it yet
+   */
+  async getTransactionFee(signature: string): Promise<number | null> {
+    try {
+      const transaction = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+      return transaction?.meta?.fee ?? null;
+    } catch (error) {
+      logger.error('Failed to get transaction fee', { error: getErrorMessage(error), signature });
+      return null;
+    }
+  }
+
   async getRecentPerformanceSamples(): Promise<any[]> {
     try {
       const samples = await this.connection.getRecentPerformanceSamples(10);
@@ -248,8 +434,13 @@ export class SolanaService {
     }
   }
 
-  async estimateTransactionFee(transaction: Transaction): Promise<number> {
+  async estimateTransactionFee(transaction: Transaction | VersionedTransaction): Promise<number> {
     try {
+      if (transaction instanceof VersionedTransaction) {
+        const fee = await this.connection.getFeeForMessage(transaction.message, 'confirmed');
+        return fee.value || 5000;
+      }
+
       // Set recent blockhash
       const { blockhash } = await this.connection.getLatestBlockhash();
       transaction.recentBlockhash = blockhash;
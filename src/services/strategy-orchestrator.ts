@@ -0,0 +1,371 @@
+import { MarketDataService } from './market-data';
+import { DatabaseService } from './database';
+import { ILPolicyService, IL_POLICY_SOURCE } from './il-policy';
+import { EmergencyHaltService } from './emergency-halt';
+import { StrategyRegistry, strategyRegistry } from '../strategies/registry';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { getErrorMessage } from '../utils/error';
+import {
+  ActionType,
+  DbActionExecution,
+  ExecutionMode,
+  ExecutionResult,
+  MarketData,
+  PlannedAction,
+  Position,
+  PositionStatus,
+  StrategyAction,
+  StrategyCycleResult
+} from '../types';
+
+// Actions that take a pool out of the market; other actions for the same pool are dropped when present
+const EXIT_ACTIONS = [ActionType.EMERGENCY_EXIT];
+
+/**
+ * Drives the strategy loop: on every tick market data is fanned out to each
+ * running deployment, the resulting actions and the IL policy's responses are
+ * merged and executed in priority order.
+ */
+export class StrategyOrchestrator {
+  private marketDataService: MarketDataService;
+  private databaseService: DatabaseService;
+  private registry: StrategyRegistry;
+  private loopInterval: number;
+  private executionMode: ExecutionMode;
+  private ilPolicy: ILPolicyService;
+  private haltService: EmergencyHaltService;
+  private timer: NodeJS.Timeout | null = null;
+  private isCycleRunning = false;
+  private lastCycle: StrategyCycleResult | null = null;
+
+  constructor(
+    marketDataService: MarketDataService,
+    databaseService: DatabaseService,
+    registry: StrategyRegistry = strategyRegistry,
+    loopInterval: number = config.bot.strategyLoopInterval,
+    executionMode: ExecutionMode = config.bot.executionMode,
+    ilPolicy: ILPolicyService = new ILPolicyService(databaseService),
+    haltService: EmergencyHaltService = new EmergencyHaltService(databaseService)
+  ) {
+    this.marketDataService = marketDataService;
+    this.databaseService = databaseService;
+    this.registry = registry;
+    this.loopInterval = loopInterval;
+    this.executionMode = executionMode;
+    this.ilPolicy = ilPolicy;
+    this.haltService = haltService;
+  }
+
+  start(): void {
+    if (this.timer) {
+      logger.warn('Strategy orchestrator is already running');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runCycle().catch(error => {
+        logger.error('Strategy cycle failed', { error: getErrorMessage(error) });
+      });
+    }, this.loopInterval);
+
+    logger.info('Strategy orchestrator started', { interval: this.loopInterval });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Strategy orchestrator stopped');
+    }
+  }
+
+  async runCycle(): Promise<StrategyCycleResult | null> {
+    // Skip the tick if the previous cycle is still executing transactions
+    if (this.isCycleRunning) {
+      logger.warn('Previous strategy cycle still running, skipping tick');
+      return null;
+    }
+
+    this.isCycleRunning = true;
+    const startedAt = new Date();
+
+    try {
+      const marketData = await this.marketDataService.getMarketData();
+      marketData.positions = await this.loadPositions();
+      marketData.executions = await this.loadExecutions();
+      const { planned, analyzed, failed } = await this.collectActions(marketData);
+      planned.push(...await this.collectPolicyActions(marketData));
+      const merged = this.skipWhileHalted(this.mergeActions(planned));
+
+      let actionsSucceeded = 0;
+      for (const plannedAction of merged) {
+        const result = await this.executePlannedAction(plannedAction);
+        if (result.success) {
+          actionsSucceeded++;
+        }
+      }
+
+      this.lastCycle = {
+        startedAt,
+        completedAt: new Date(),
+        strategiesAnalyzed: analyzed,
+        strategiesFailed: failed,
+        actionsProposed: planned.length,
+        actionsExecuted: merged.length,
+        actionsSucceeded
+      };
+
+      logger.info('Strategy cycle completed', {
+        strategiesAnalyzed: analyzed,
+        strategiesFailed: failed.length,
+        actionsProposed: planned.length,
+        actionsExecuted: merged.length,
+        actionsSucceeded,
+        duration: this.lastCycle.completedAt.getTime() - startedAt.getTime()
+      });
+
+      return this.lastCycle;
+    } finally {
+      this.isCycleRunning = false;
+    }
+  }
+
+  /**
+   * Open positions in every pool with a running deployment, from the ledger
+   * matching the execution mode
+   */
+  private async loadPositions(): Promise<Position[]> {
+    const pools = new Set(this.registry.getRunning().map(deployment => deployment.poolAddress));
+    const positions: Position[] = [];
+
+    for (const poolAddress of pools) {
+      try {
+        const poolPositions = this.executionMode === ExecutionMode.PAPER
+          ? await this.databaseService.getPaperPositionsByPool(poolAddress)
+          : await this.databaseService.getPositionsByPool(poolAddress);
+        positions.push(...poolPositions.filter(position => position.status === PositionStatus.ACTIVE));
+      } catch (error) {
+        logger.error('Failed to load positions for strategy cycle', {
+          poolAddress,
+          error: getErrorMessage(error)
+        });
+      }
+    }
+
+    return positions;
+  }
+
+  /**
+   * Successful past actions of running limit-order deployments, whose fills
+   * leave no open position behind to rebuild them from. Left out entirely if
+   * any fail to load, so strategies keep their own counts rather than
+   * rebuilding them from a partial history.
+   */
+  private async loadExecutions(): Promise<DbActionExecution[] | undefined> {
+    const deployments = this.registry.getRunning().filter(deployment => deployment.strategy.placesLimitOrders);
+    const executions: DbActionExecution[] = [];
+
+    try {
+      for (const deployment of deployments) {
+        executions.push(...await this.databaseService.getActionExecutionsByDeployment(deployment.id));
+      }
+    } catch (error) {
+      logger.error('Failed to load action executions for strategy cycle', { error: getErrorMessage(error) });
+      return undefined;
+    }
+
+    return executions;
+  }
+
+  private async collectActions(marketData: MarketData): Promise<{
+    planned: PlannedAction[];
+    analyzed: number;
+    failed: string[];
+  }> {
+    const planned: PlannedAction[] = [];
+    const failed: string[] = [];
+    let analyzed = 0;
+
+    for (const deployment of this.registry.getRunning()) {
+      try {
+        const actions = await deployment.strategy.analyze(marketData);
+        analyzed++;
+
+        for (const action of actions) {
+          planned.push({ action, deployment, sources: [deployment.id] });
+        }
+      } catch (error) {
+        // A failing deployment must not stall the rest of the cycle
+        failed.push(deployment.id);
+        logger.error('Strategy analysis failed during cycle', {
+          deployment: deployment.id,
+          strategy: deployment.strategyType,
+          error: getErrorMessage(error)
+        });
+      }
+    }
+
+    return { planned, analyzed, failed };
+  }
+
+  /**
+   * Responses of the IL policy, executed through the deployment that manages
+   * each position so its state tracks the outcome. Limit orders are left out:
+   * converting fully is their purpose, not a loss to respond to.
+   */
+  private async collectPolicyActions(marketData: MarketData): Promise<PlannedAction[]> {
+    const running = this.registry.getRunning();
+    const limitOrderDeployments = new Set(running.filter(d => d.strategy.placesLimitOrders).map(d => d.id));
+    const positions = (marketData.positions || []).filter(p => !limitOrderDeployments.has(p.strategy));
+    const decisions = await this.ilPolicy.evaluate(positions, marketData.pools);
+    const planned: PlannedAction[] = [];
+
+    for (const decision of decisions) {
+      if (!decision.action) {
+        continue;
+      }
+
+      const position = positions.find(p => p.id === decision.positionId);
+      const deployment = running.find(d => d.id === position?.strategy);
+      if (!deployment) {
+        // Adopted positions left unmanaged are only alerted on
+        logger.warn('No running deployment manages position, IL response not executed', {
+          positionId: decision.positionId,
+          tier: decision.tier,
+          action: decision.action.type
+        });
+        continue;
+      }
+
+      planned.push({ action: decision.action, deployment, sources: [IL_POLICY_SOURCE] });
+    }
+
+    return planned;
+  }
+
+  /**
+   * De-duplicate equivalent actions across strategies, keeping the highest
+   * priority proposal, and return them in execution order.
+   */
+  mergeActions(planned: PlannedAction[]): PlannedAction[] {
+    const merged = new Map<string, PlannedAction>();
+
+    for (const candidate of planned) {
+      const key = this.getActionKey(candidate.action);
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, { ...candidate, sources: [...candidate.sources] });
+        continue;
+      }
+
+      const sources = Array.from(new Set([...existing.sources, ...candidate.sources]));
+      if (candidate.action.priority > existing.action.priority) {
+        merged.set(key, { ...candidate, sources });
+      } else {
+        existing.sources = sources;
+      }
+    }
+
+    const exitingPools = new Set(
+      Array.from(merged.values())
+        .filter(p => EXIT_ACTIONS.includes(p.action.type) && !p.action.parameters.positionId)
+        .map(p => p.action.poolAddress)
+    );
+
+    return Array.from(merged.values())
+      .filter(p => !exitingPools.has(p.action.poolAddress) || EXIT_ACTIONS.includes(p.action.type))
+      .sort((a, b) => b.action.priority - a.action.priority);
+  }
+
+  /**
+   * While trading is halted only exits run; the executor would refuse the rest
+   */
+  private skipWhileHalted(actions: PlannedAction[]): PlannedAction[] {
+    const allowed = actions.filter(p => this.haltService.allows(p.action));
+
+    if (allowed.length < actions.length) {
+      logger.warn('Trading halted, skipping actions that are not exits', {
+        skipped: actions.length - allowed.length,
+        haltReason: this.haltService.getHalt()?.reason
+      });
+    }
+
+    return allowed;
+  }
+
+  private getActionKey(action: StrategyAction): string {
+    const { positionId, binRange, percentage } = action.parameters;
+    return [
+      action.type,
+      action.poolAddress,
+      positionId || '',
+      binRange ? binRange.join(':') : '',
+      percentage ?? ''
+    ].join('|');
+  }
+
+  private async executePlannedAction(plannedAction: PlannedAction): Promise<ExecutionResult> {
+    const { action, deployment, sources } = plannedAction;
+    let result: ExecutionResult;
+
+    try {
+      // Strategies submit through their execution port so their own state tracks the outcome
+      result = await deployment.strategy.execute(action);
+    } catch (error) {
+      result = { success: false, error: getErrorMessage(error) };
+    }
+
+    if (!result.success) {
+      logger.warn('Planned action failed', {
+        deployment: deployment.id,
+        sources,
+        action: action.type,
+        poolAddress: action.poolAddress,
+        error: result.error
+      });
+    }
+
+    await this.recordOutcome(plannedAction, result);
+    return result;
+  }
+
+  private async recordOutcome(plannedAction: PlannedAction, result: ExecutionResult): Promise<void> {
+    const { action, deployment } = plannedAction;
+
+    try {
+      await this.databaseService.saveActionExecution({
+        deploymentId: deployment.id,
+        actionType: action.type,
+        poolAddress: action.poolAddress,
+        positionId: action.parameters.positionId || result.newPosition?.id,
+        priority: action.priority,
+        parameters: JSON.stringify(action.parameters),
+        success: result.success,
+        transactionId: result.transactionId,
+        error: result.error,
+        executedAt: new Date()
+      });
+    } catch (error) {
+      logger.error('Failed to record action outcome', {
+        deployment: deployment.id,
+        action: action.type,
+        error: getErrorMessage(error)
+      });
+    }
+  }
+
+  getLastCycle(): StrategyCycleResult | null {
+    return this.lastCycle;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  async cleanup(): Promise<void> {
+    this.stop();
+    await this.ilPolicy.cleanup();
+  }
+}
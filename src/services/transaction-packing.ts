@@ -0,0 +1,134 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetInstruction,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Signer,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { MAX_COMPUTE_UNITS, getComputeBudgetInstructions, isComputeBudgetInstruction } from './compute-budget';
+
+const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+const DEFAULT_INSTRUCTION_UNITS = 200_000; // Runtime default per instruction without a limit
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58(); // Replaced when the transaction is signed
+
+/**
+ * Compile instructions into a v0 message that loads non-signer accounts from
+ * the lookup tables
+ */
+export const compileV0Message = (
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[],
+  recentBlockhash: string = PLACEHOLDER_BLOCKHASH
+): VersionedMessage =>
+  new TransactionMessage({ payerKey: payer, recentBlockhash, instructions }).compileToV0Message(lookupTables);
+
+/**
+ * Serialized size of a v0 transaction holding the instructions plus a compute
+ * budget, or Infinity when it cannot be encoded at all
+ */
+export const getV0TransactionSize = (
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[]
+): number => {
+  try {
+    const message = compileV0Message(payer, [...getComputeBudgetInstructions(0, 0), ...instructions], lookupTables);
+    return new VersionedTransaction(message).serialize().length;
+  } catch (error) {
+    return Infinity;
+  }
+};
+
+/**
+ * Compute units an SDK transaction asked for, or the runtime default for its
+ * instructions when it set no limit
+ */
+const getRequestedUnits = (transaction: Transaction): number => {
+  const limit = transaction.instructions.find(instruction =>
+    isComputeBudgetInstruction(instruction) &&
+    ComputeBudgetInstruction.decodeInstructionType(instruction) === 'SetComputeUnitLimit'
+  );
+
+  return limit
+    ? ComputeBudgetInstruction.decodeSetComputeUnitLimit(limit).units
+    : DEFAULT_INSTRUCTION_UNITS * transaction.instructions.filter(i => !isComputeBudgetInstruction(i)).length;
+};
+
+const instructionKey = (instruction: TransactionInstruction): string => [
+  instruction.programId.toString(),
+  ...instruction.keys.map(key => key.pubkey.toString()),
+  instruction.data.toString('hex')
+].join(':');
+
+/**
+ * Merge consecutive SDK transactions into as few v0 transactions as fit the
+ * packet size and compute limit. SDK transactions are never split, since
+ * each one wraps and unwraps its own tokens; their compute budget
+ * instructions are dropped for the sender to set, and repeated idempotent
+ * token account creations are sent once.
+ */
+export const packTransactions = (
+  transactions: Transaction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[]
+): TransactionInstruction[][] => {
+  const groups: TransactionInstruction[][] = [];
+  let current: TransactionInstruction[] = [];
+  let currentUnits = 0;
+
+  for (const transaction of transactions) {
+    const units = getRequestedUnits(transaction);
+    const seen = new Set(current.map(instructionKey));
+    const instructions = transaction.instructions.filter(instruction =>
+      !isComputeBudgetInstruction(instruction) &&
+      !(instruction.programId.toString() === ASSOCIATED_TOKEN_PROGRAM_ID && seen.has(instructionKey(instruction)))
+    );
+
+    const merged = [...current, ...instructions];
+    const fits = currentUnits + units <= MAX_COMPUTE_UNITS &&
+      getV0TransactionSize(payer, merged, lookupTables) <= PACKET_DATA_SIZE;
+
+    if (current.length > 0 && !fits) {
+      groups.push(current);
+      current = transaction.instructions.filter(instruction => !isComputeBudgetInstruction(instruction));
+      currentUnits = units;
+    } else {
+      current = merged;
+      currentUnits += units;
+    }
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups;
+};
+
+/**
+ * Accounts worth adding to a lookup table: the allowed accounts the
+ * instructions touch, except signers and the programs they invoke, which must
+ * stay in the message
+ */
+export const getLookupCandidates = (transactions: Transaction[], signers: Signer[], allowed: PublicKey[]): PublicKey[] => {
+  const excluded = new Set(signers.map(signer => signer.publicKey.toString()));
+  const allowedKeys = new Set(allowed.map(key => key.toString()));
+  const candidates = new Map<string, PublicKey>();
+
+  for (const instruction of transactions.flatMap(transaction => transaction.instructions)) {
+    excluded.add(instruction.programId.toString());
+    for (const key of instruction.keys) {
+      if (!key.isSigner && allowedKeys.has(key.pubkey.toString())) {
+        candidates.set(key.pubkey.toString(), key.pubkey);
+      }
+    }
+  }
+
+  return Array.from(candidates.values()).filter(key => !excluded.has(key.toString()));
+};
@@ -0,0 +1,340 @@
+import {
+  AddressLookupTableAccount,
+  PublicKey,
+  Signer,
+  SimulatedTransactionResponse,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction
+} from '@solana/web3.js';
+import Big from 'big.js';
+import { SolanaService } from './solana';
+import { LookupTableService } from './lookup-table';
+import {
+  MAX_COMPUTE_UNITS,
+  escalatePriorityFee,
+  getComputeBudgetInstructions,
+  getComputeUnitLimit,
+  getPriorityFeeLamports,
+  getWritableAccounts,
+  selectPriorityFee,
+  setComputeBudget
+} from './compute-budget';
+import { compileV0Message, getLookupCandidates, packTransactions } from './transaction-packing';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { TransactionSequenceError, getErrorMessage } from '../utils/error';
+import {
+  PriorityFeeConfig,
+  PriorityFeePolicy,
+  TokenBalanceChange,
+  TransactionSimulation,
+  TransactionStep,
+  TransactionStepStatus
+} from '../types';
+
+const NATIVE_MINT = 'So11111111111111111111111111111111111111112';
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64; // After the mint and owner keys
+
+// Bounds on how a transaction may move one wallet token balance, in token units
+export interface BalanceGuard {
+  mint: PublicKey;
+  decimals: number;
+  maxSpend?: Big;
+  minReceive?: Big;
+}
+
+export interface SendOptions {
+  label: string;
+  guards?: BalanceGuard[];
+}
+
+export interface SequenceOptions extends SendOptions {
+  poolAddress: string; // Selects the lookup table
+  lookupAccounts?: PublicKey[]; // Stable pool accounts the table may hold; without them no table is used
+}
+
+export interface SentTransaction {
+  signature: string;
+  simulation: TransactionSimulation;
+  computeUnitLimit: number;
+  computeUnitPrice: number; // Micro-lamports, as set on the last attempt
+  fee: number; // Lamports paid, including the priority fee
+}
+
+interface WatchedAccount {
+  guard: BalanceGuard;
+  address: PublicKey;
+  before: Big; // Raw units
+}
+
+/**
+ * Sends transactions only after a simulation of them succeeds. The wallet's
+ * token accounts named by the guards are read before and after the simulated
+ * transaction, and a predicted spend above maxSpend or receipt below
+ * minReceive rejects the transaction before anything is signed. The compute
+ * unit limit is sized from the simulation and the price from the priority fee
+ * policy.
+ */
+export class TransactionSender {
+  private solanaService: SolanaService;
+  private lookupTableService: LookupTableService | null;
+  private priorityFee: PriorityFeeConfig;
+  private computeUnitMargin: number;
+  private maxAttempts: number;
+
+  constructor(
+    solanaService: SolanaService,
+    lookupTableService: LookupTableService | null = null,
+    priorityFee: PriorityFeeConfig = config.solana.priorityFee,
+    computeUnitMargin: number = config.solana.computeUnitMargin,
+    maxAttempts: number = config.solana.maxSendAttempts
+  ) {
+    this.solanaService = solanaService;
+    this.lookupTableService = lookupTableService;
+    this.priorityFee = priorityFee;
+    this.computeUnitMargin = computeUnitMargin;
+    this.maxAttempts = maxAttempts;
+  }
+
+  async send(transaction: Transaction, signers: Signer[], options: SendOptions): Promise<SentTransaction> {
+    // Simulate at the maximum limit so the measurement is not cut short
+    setComputeBudget(transaction, MAX_COMPUTE_UNITS);
+
+    return await this.dispatch(transaction, transaction.instructions, signers, options, (units, microLamports) =>
+      setComputeBudget(transaction, units, microLamports)
+    );
+  }
+
+  /**
+   * Send the transactions an SDK call produced for one operation, packed into
+   * as few v0 transactions as fit over the pool's lookup table. Steps run in
+   * order; if one fails the rest are not sent, and the error lists which
+   * steps landed.
+   */
+  async sendSequence(transactions: Transaction[], signers: Signer[], options: SequenceOptions): Promise<SentTransaction[]> {
+    const payer = this.solanaService.getPublicKey();
+    const lookupTables = this.lookupTableService && options.lookupAccounts
+      ? [await this.lookupTableService.getLookupTable(
+        options.poolAddress,
+        getLookupCandidates(transactions, signers, options.lookupAccounts)
+      )]
+      : [];
+
+    const groups = packTransactions(transactions, payer, lookupTables);
+    const label = (index: number): string =>
+      groups.length > 1 ? `${options.label} ${index + 1}/${groups.length}` : options.label;
+
+    if (groups.length < transactions.length) {
+      logger.info('Packed transactions', { label: options.label, transactions: transactions.length, packed: groups.length });
+    }
+
+    const steps: TransactionStep[] = groups.map((_, index) => ({
+      label: label(index),
+      status: TransactionStepStatus.NOT_SENT
+    }));
+    const sent: SentTransaction[] = [];
+
+    for (const [index, instructions] of groups.entries()) {
+      try {
+        const result = await this.sendV0(instructions, signers, { ...options, label: label(index) }, lookupTables);
+        steps[index] = { ...steps[index], status: TransactionStepStatus.LANDED, signature: result.signature };
+        sent.push(result);
+      } catch (error) {
+        steps[index] = { ...steps[index], status: TransactionStepStatus.FAILED, error: getErrorMessage(error) };
+
+        const message = groups.length > 1
+          ? `${options.label} stopped at step ${index + 1} of ${groups.length} with ${index} landed: ${getErrorMessage(error)}`
+          : getErrorMessage(error);
+        logger.error('Transaction sequence failed', { label: options.label, steps });
+        throw new TransactionSequenceError(message, steps);
+      }
+    }
+
+    return sent;
+  }
+
+  private async sendV0(
+    instructions: TransactionInstruction[],
+    signers: Signer[],
+    options: SendOptions,
+    lookupTables: AddressLookupTableAccount[]
+  ): Promise<SentTransaction> {
+    const payer = this.solanaService.getPublicKey();
+    const compile = (units: number, microLamports?: number) =>
+      compileV0Message(payer, [...getComputeBudgetInstructions(units, microLamports), ...instructions], lookupTables);
+
+    const transaction = new VersionedTransaction(compile(MAX_COMPUTE_UNITS));
+
+    return await this.dispatch(transaction, instructions, signers, options, (units, microLamports) => {
+      transaction.message = compile(units, microLamports);
+    });
+  }
+
+  /**
+   * Simulate, size the compute budget, and send with retries. applyBudget
+   * rewrites the transaction's compute budget before each signing.
+   */
+  private async dispatch(
+    transaction: Transaction | VersionedTransaction,
+    instructions: TransactionInstruction[],
+    signers: Signer[],
+    options: SendOptions,
+    applyBudget: (units: number, microLamports: number) => void
+  ): Promise<SentTransaction> {
+    const simulation = await this.simulate(transaction, options);
+
+    const computeUnitLimit = getComputeUnitLimit(simulation.unitsConsumed ?? MAX_COMPUTE_UNITS, this.computeUnitMargin);
+    const basePrice = await this.getPriorityFee(instructions);
+    let computeUnitPrice = basePrice;
+
+    const signature = await this.solanaService.sendTransactionWithRetry(transaction, signers, {
+      label: options.label,
+      maxAttempts: this.maxAttempts,
+      beforeAttempt: attempt => {
+        computeUnitPrice = escalatePriorityFee(basePrice, attempt, this.priorityFee);
+        applyBudget(computeUnitLimit, computeUnitPrice);
+      }
+    });
+
+    // Fall back to the estimate when the node has not indexed the transaction yet
+    const fee = await this.solanaService.getTransactionFee(signature) ??
+      await this.solanaService.estimateTransactionFee(transaction) + getPriorityFeeLamports(computeUnitLimit, computeUnitPrice);
+
+    logger.debug('Transaction sent', { label: options.label, signature, computeUnitLimit, computeUnitPrice, fee });
+
+    return { signature, simulation, computeUnitLimit, computeUnitPrice, fee };
+  }
+
+  async simulate(
+    transaction: Transaction | VersionedTransaction,
+    { label, guards = [] }: SendOptions
+  ): Promise<TransactionSimulation> {
+    const watched = await this.watchAccounts(guards);
+    const response = await this.solanaService.simulateTransaction(
+      transaction,
+      watched.map(account => account.address)
+    );
+    const logs = response.logs || [];
+
+    if (response.err) {
+      logger.warn('Transaction simulation failed', { label, err: response.err, logs });
+      throw new Error(`Simulation of ${label} failed: ${getSimulationError(response)}`);
+    }
+
+    const balanceChanges: TokenBalanceChange[] = watched.map((account, index) => {
+      const after = decodeTokenAmount(response.accounts?.[index]?.data);
+      return {
+        mint: account.guard.mint.toString(),
+        change: after.sub(account.before).div(Math.pow(10, account.guard.decimals))
+      };
+    });
+
+    watched.forEach(({ guard }, index) => {
+      const { change } = balanceChanges[index];
+      if (guard.maxSpend !== undefined && change.neg().gt(guard.maxSpend)) {
+        throw new Error(
+          `Simulation of ${label} spends ${change.neg().toString()} of ${guard.mint.toString()}, above the limit of ${guard.maxSpend.toString()}`
+        );
+      }
+      if (guard.minReceive !== undefined && change.lt(guard.minReceive)) {
+        throw new Error(
+          `Simulation of ${label} receives ${change.toString()} of ${guard.mint.toString()}, below the minimum of ${guard.minReceive.toString()}`
+        );
+      }
+    });
+
+    const simulation: TransactionSimulation = {
+      label,
+      unitsConsumed: response.unitsConsumed,
+      logs,
+      balanceChanges
+    };
+
+    logger.debug('Transaction simulated', {
+      label,
+      unitsConsumed: simulation.unitsConsumed,
+      balanceChanges: balanceChanges.map(({ mint, change }) => ({ mint, change: change.toString() }))
+    });
+
+    return simulation;
+  }
+
+  private async getPriorityFee(instructions: TransactionInstruction[]): Promise<number> {
+    if (this.priorityFee.policy === PriorityFeePolicy.FIXED) {
+      return this.priorityFee.microLamports;
+    }
+
+    try {
+      const recentFees = await this.solanaService.getRecentPrioritizationFees(getWritableAccounts(instructions));
+      return selectPriorityFee(recentFees, this.priorityFee);
+    } catch (error) {
+      // An unavailable fee market should not block the send; the floor price still applies
+      return this.priorityFee.microLamports;
+    }
+  }
+
+  /**
+   * Resolve the wallet token accounts to watch. Wrapped SOL is skipped because
+   * the SDK funds it from native SOL inside the same transaction, and a missing
+   * account holds nothing that could be overspent.
+   */
+  private async watchAccounts(guards: BalanceGuard[]): Promise<WatchedAccount[]> {
+    const watched: WatchedAccount[] = [];
+
+    for (const guard of guards) {
+      if (guard.mint.toString() === NATIVE_MINT) {
+        continue;
+      }
+
+      const address = await this.solanaService.getTokenAccountAddress(guard.mint);
+      if (!address) {
+        continue;
+      }
+
+      const { value } = await this.solanaService.getConnection().getTokenAccountBalance(address);
+      watched.push({ guard, address, before: new Big(value.amount) });
+    }
+
+    return watched;
+  }
+}
+
+/**
+ * Amount field of a base64-encoded SPL token account, or zero for an account
+ * the transaction closes
+ */
+export const decodeTokenAmount = (data?: string[] | null): Big => {
+  if (!data || !data[0]) {
+    return new Big(0);
+  }
+
+  const buffer = Buffer.from(data[0], 'base64');
+  if (buffer.length < TOKEN_ACCOUNT_AMOUNT_OFFSET + 8) {
+    return new Big(0);
+  }
+
+  return new Big(buffer.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET).toString());
+};
+
+/**
+ * Most specific reason a simulation failed: the program's own error log line
+ * when there is one, otherwise the runtime error
+ */
+export const getSimulationError = (response: SimulatedTransactionResponse): string => {
+  const logs = [...(response.logs || [])].reverse();
+  const programError = logs.find(log => /^Program log: (AnchorError|Error)/.test(log)) ||
+    logs.find(log => /^Program \w+ failed: /.test(log));
+
+  return programError || JSON.stringify(response.err);
+};
+
+/**
+ * Compact form of simulations for trade logs, without the raw program logs
+ */
+export const summarizeSimulations = (simulations: TransactionSimulation[]): Record<string, any>[] =>
+  simulations.map(({ label, unitsConsumed, balanceChanges }) => ({
+    label,
+    unitsConsumed,
+    balanceChanges: balanceChanges.map(({ mint, change }) => ({ mint, change: change.toString() }))
+  }));
@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { DatabaseService } from './database';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import {
+  Workflow,
+  WorkflowDefinition,
+  WorkflowStatus,
+  WorkflowStepStatus
+} from '../types';
+
+/**
+ * Runs multi-transaction operations as persisted step sequences. Step state is
+ * written before and after every step, so a workflow interrupted by a crash
+ * resumes at the step that was in flight instead of starting over, and a
+ * workflow key that already completed is never executed again.
+ */
+export class WorkflowService {
+  private databaseService: DatabaseService;
+  private definitions: Map<string, WorkflowDefinition> = new Map();
+
+  constructor(databaseService: DatabaseService) {
+    this.databaseService = databaseService;
+  }
+
+  register(type: string, definition: WorkflowDefinition): void {
+    this.definitions.set(type, definition);
+  }
+
+  /**
+   * Start the workflow for a key, or continue it if one already exists.
+   * A failed workflow is retried from its first unfinished step with the new input.
+   */
+  async run(type: string, idempotencyKey: string, input: Record<string, any>): Promise<Workflow> {
+    const definition = this.getDefinition(type);
+    const existing = await this.databaseService.getWorkflowByKey(idempotencyKey);
+
+    if (existing) {
+      if (existing.status === WorkflowStatus.COMPLETED) {
+        logger.info('Workflow already completed', { workflowId: existing.id, idempotencyKey });
+        return existing;
+      }
+
+      if (existing.status === WorkflowStatus.FAILED) {
+        existing.input = input;
+        existing.status = WorkflowStatus.RUNNING;
+        existing.error = undefined;
+      }
+
+      logger.info('Resuming workflow', { workflowId: existing.id, type, idempotencyKey });
+      return await this.execute(existing, definition);
+    }
+
+    const now = new Date();
+    const workflow: Workflow = {
+      id: randomUUID(),
+      type,
+      idempotencyKey,
+      status: WorkflowStatus.RUNNING,
+      input,
+      steps: definition.plan(input).map((name, index) => ({
+        name,
+        idempotencyKey: `${idempotencyKey}:${index}:${name}`,
+        status: WorkflowStepStatus.PENDING,
+        attempts: 0
+      })),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    logger.info('Starting workflow', { workflowId: workflow.id, type, idempotencyKey, steps: workflow.steps.length });
+    return await this.execute(workflow, definition);
+  }
+
+  /**
+   * Continue every workflow that was still running when the process stopped,
+   * and retry every failed one that had completed a step: its side effects
+   * landed, and no caller will run it again (e.g. a rebalance whose close
+   * landed leaves no position for its strategy to rebalance)
+   */
+  async resumeIncomplete(): Promise<Workflow[]> {
+    const workflows = await this.databaseService.getIncompleteWorkflows();
+    const resumed: Workflow[] = [];
+
+    for (const workflow of workflows) {
+      if (workflow.status === WorkflowStatus.FAILED) {
+        if (!workflow.steps.some(step => step.status === WorkflowStepStatus.COMPLETED)) {
+          continue;
+        }
+        workflow.status = WorkflowStatus.RUNNING;
+        workflow.error = undefined;
+      }
+
+      const definition = this.definitions.get(workflow.type);
+      if (!definition) {
+        logger.warn('No definition registered for incomplete workflow', { workflowId: workflow.id, type: workflow.type });
+        continue;
+      }
+
+      logger.info('Resuming interrupted workflow', { workflowId: workflow.id, type: workflow.type });
+      resumed.push(await this.execute(workflow, definition));
+    }
+
+    return resumed;
+  }
+
+  private async execute(workflow: Workflow, definition: WorkflowDefinition): Promise<Workflow> {
+    await this.persist(workflow);
+
+    for (const step of workflow.steps) {
+      if (step.status === WorkflowStepStatus.COMPLETED) {
+        continue;
+      }
+
+      // Record the attempt before the side effect so a crash leaves the step marked in flight
+      step.status = WorkflowStepStatus.RUNNING;
+      step.attempts++;
+      step.error = undefined;
+      await this.persist(workflow);
+
+      try {
+        step.result = await definition.runStep(workflow, step);
+        step.status = WorkflowStepStatus.COMPLETED;
+        step.completedAt = new Date();
+        await this.persist(workflow);
+      } catch (error) {
+        step.status = WorkflowStepStatus.FAILED;
+        step.error = getErrorMessage(error);
+        await this.persist(workflow);
+
+        logger.error('Workflow step failed', {
+          workflowId: workflow.id,
+          type: workflow.type,
+          step: step.name,
+          attempts: step.attempts,
+          error: step.error
+        });
+
+        if (!definition.continueOnError) {
+          break;
+        }
+      }
+    }
+
+    const failedStep = workflow.steps.find(step => step.status !== WorkflowStepStatus.COMPLETED);
+    workflow.status = failedStep ? WorkflowStatus.FAILED : WorkflowStatus.COMPLETED;
+    workflow.error = failedStep ? `Step ${failedStep.name} failed: ${failedStep.error}` : undefined;
+    await this.persist(workflow);
+
+    logger.info('Workflow finished', { workflowId: workflow.id, type: workflow.type, status: workflow.status });
+    return workflow;
+  }
+
+  private async persist(workflow: Workflow): Promise<void> {
+    workflow.updatedAt = new Date();
+    await this.databaseService.saveWorkflow(workflow);
+  }
+
+  private getDefinition(type: string): WorkflowDefinition {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Workflow type not registered: ${type}`);
+    }
+    return definition;
+  }
+}
+
+/**
+ * Result of a completed step, or undefined if it has not completed
+ */
+export const getStepResult = (workflow: Workflow, name: string): Record<string, any> | undefined =>
+  workflow.steps.find(step => step.name === name && step.status === WorkflowStepStatus.COMPLETED)?.result;
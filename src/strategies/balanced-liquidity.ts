@@ -7,19 +7,48 @@ import {
   MarketData, 
   RiskLevel,
   ActionType,
-  StrategyConfig
+  StrategyConfig,
+  PoolData,
+  Position,
+  PositionStatus,
+  TimeFrame
 } from '../types';
+import { MetricsService } from '../services/metrics';
+import { HistoricalDataService } from '../services/historical-data';
+import { config } from '../config';
 import { logger } from '../utils/logger';
 import { getErrorMessage } from '../utils/error';
-import { toBig, isGreaterThan, isLessThan, multiply, divide, subtract } from '../utils/math';
+import { toBig, isGreaterThan, isLessThan, multiply, divide, subtract, normalQuantile } from '../utils/math';
+
+const HOUR_MS = 60 * 60 * 1000;
+const HOURS_PER_YEAR = 24 * 365;
+const MIN_VOLATILITY_SAMPLES = 3;
 
 interface BalancedLiquidityConfig extends StrategyConfig {
   targetRange: number; // Number of bins on each side of active bin
-  rebalanceThreshold: number; // Price movement threshold to trigger rebalance (%)
+  rebalanceThreshold: number; // Rebalance when the active bin is within this share of the range width from an edge
   minLiquidityAmount: Big;
   maxLiquidityAmount: Big;
   autoCompound: boolean;
+  minCompoundAmount: Big; // Claims worth less than this stay in the wallet; set above the deposit transaction cost
   feeCollectionThreshold: Big; // Minimum fees to collect
+  adaptiveRange: boolean; // Size the range from realized volatility instead of the fixed targetRange
+  targetProbability: number; // Share of expected price moves over the horizon the range should cover
+  rebalanceHorizonHours: number; // Horizon the range should last before a rebalance
+  volatilityLookback: number; // Hourly price samples used for realized volatility
+  minRangeBins: number;
+  maxRangeBins: number;
+}
+
+// Range width chosen for an analysis cycle, with the inputs that produced it
+interface RangeWidth {
+  binsPerSide: number;
+  source: 'realized' | 'pool' | 'fixed';
+  volatility: number;
+  binStep: number | null;
+  horizonHours: number;
+  targetProbability: number;
+  capped: 'min' | 'max' | null;
 }
 
 export class BalancedLiquidityStrategy extends BaseStrategy {
@@ -31,6 +60,15 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
   private lastActiveBinId: number = 0;
   private lastRebalanceTime: Date = new Date(0);
   private minRebalanceInterval: number = 300000; // 5 minutes
+  private metricsService: MetricsService = new MetricsService();
+  private priceSamples: { timestamp: Date; price: Big }[] = [];
+  private rangeWidth: RangeWidth | null = null;
+  private historicalDataService: HistoricalDataService | null;
+
+  constructor(historicalDataService: HistoricalDataService | null = null) {
+    super();
+    this.historicalDataService = historicalDataService;
+  }
 
   protected async onInitialize(): Promise<void> {
     this.balancedConfig = {
@@ -39,10 +77,23 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
       minLiquidityAmount: toBig(100),
       maxLiquidityAmount: toBig(10000),
       autoCompound: true,
+      minCompoundAmount: toBig(5),
       feeCollectionThreshold: toBig(10),
+      adaptiveRange: true,
+      targetProbability: 0.9,
+      rebalanceHorizonHours: 24,
+      volatilityLookback: 24,
+      minRangeBins: config.strategies.balancedMinRangeBins,
+      maxRangeBins: config.strategies.balancedMaxRangeBins,
       ...this.config
     } as BalancedLiquidityConfig;
 
+    // Deployment parameters may arrive as plain JSON numbers
+    this.balancedConfig.minLiquidityAmount = toBig(this.balancedConfig.minLiquidityAmount);
+    this.balancedConfig.maxLiquidityAmount = toBig(this.balancedConfig.maxLiquidityAmount);
+    this.balancedConfig.minCompoundAmount = toBig(this.balancedConfig.minCompoundAmount);
+    this.balancedConfig.feeCollectionThreshold = toBig(this.balancedConfig.feeCollectionThreshold);
+
     logger.info('Balanced liquidity strategy initialized', {
       poolAddress: this.config.poolAddress,
       targetRange: this.balancedConfig.targetRange,
@@ -60,16 +111,22 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
         return actions;
       }
 
+      this.recordPriceSample(poolData);
+      this.rangeWidth = this.calculateRangeWidth(poolData, await this.loadHourlyPrices());
+
       // Check for fee collection opportunities
       const feeActions = await this.analyzeFeeCollection(poolData);
       actions.push(...feeActions);
 
       // Check for rebalancing opportunities
-      const rebalanceActions = await this.analyzeRebalancing(poolData);
+      const positions = this.getOwnPositions(marketData);
+      const rebalanceActions = await this.analyzeRebalancing(poolData, positions);
       actions.push(...rebalanceActions);
 
       // Check for new position opportunities
-      const positionActions = await this.analyzeNewPositions(poolData, marketData);
+      const positionActions = positions && positions.length > 0
+        ? []
+        : await this.analyzeNewPositions(poolData, marketData);
       actions.push(...positionActions);
 
       // Set priorities for all actions
@@ -95,19 +152,22 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
     return actions;
   }
 
-  private async analyzeFeeCollection(poolData: any): Promise<StrategyAction[]> {
+  private async analyzeFeeCollection(poolData: PoolData): Promise<StrategyAction[]> {
     const actions: StrategyAction[] = [];
 
     try {
       // Check if fees are above collection threshold
-      if (isGreaterThan(poolData.fees24h, this.balancedConfig.feeCollectionThreshold)) {
-        const expectedFees = poolData.fees24h;
+      if (isGreaterThan(poolData.metrics.fees24h, this.balancedConfig.feeCollectionThreshold)) {
+        const expectedFees = poolData.metrics.fees24h;
         
         actions.push(this.createAction(
           ActionType.COLLECT_FEES,
           this.config.poolAddress,
           {
-            autoCompound: this.balancedConfig.autoCompound
+            autoCompound: this.balancedConfig.autoCompound,
+            minCompoundAmount: this.balancedConfig.minCompoundAmount,
+            // Compound with the same shape positions are opened with
+            strategyType: StrategyType.Spot
           },
           expectedFees
         ));
@@ -127,49 +187,58 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
     return actions;
   }
 
-  private async analyzeRebalancing(poolData: any): Promise<StrategyAction[]> {
+  private async analyzeRebalancing(poolData: PoolData, positions: Position[] | null): Promise<StrategyAction[]> {
     const actions: StrategyAction[] = [];
 
     try {
-      const currentActiveBinId = poolData.activeId;
-      const now = new Date();
+      const currentActiveBinId = poolData.activeBin.binId;
+      this.lastActiveBinId = currentActiveBinId;
+
+      if (!positions) {
+        logger.debug('No position data available, skipping rebalancing', {
+          poolAddress: this.config.poolAddress
+        });
+        return actions;
+      }
 
       // Check if enough time has passed since last rebalance
-      if (now.getTime() - this.lastRebalanceTime.getTime() < this.minRebalanceInterval) {
+      if (this.now().getTime() - this.lastRebalanceTime.getTime() < this.minRebalanceInterval) {
         return actions;
       }
 
-      // Check if active bin has moved significantly
-      if (this.lastActiveBinId !== 0) {
-        const binMovement = Math.abs(currentActiveBinId - this.lastActiveBinId);
-        const movementThreshold = Math.floor(this.balancedConfig.targetRange * this.balancedConfig.rebalanceThreshold);
+      const rangeWidth = this.getRangeWidth();
 
-        if (binMovement >= movementThreshold) {
-          // Calculate new range around current active bin
-          const newMinBinId = currentActiveBinId - this.balancedConfig.targetRange;
-          const newMaxBinId = currentActiveBinId + this.balancedConfig.targetRange;
+      for (const position of positions) {
+        const reason = this.getRebalanceReason(position, currentActiveBinId);
+        if (!reason) {
+          continue;
+        }
 
-          actions.push(this.createAction(
-            ActionType.REBALANCE,
-            this.config.poolAddress,
-            {
-              binRange: [newMinBinId, newMaxBinId],
-              strategyType: StrategyType.Spot,
-              reason: 'Active bin movement'
-            }
-          ));
+        // Calculate new range around current active bin
+        const newMinBinId = currentActiveBinId - rangeWidth.binsPerSide;
+        const newMaxBinId = currentActiveBinId + rangeWidth.binsPerSide;
 
-          logger.info('Rebalancing opportunity identified', {
-            poolAddress: this.config.poolAddress,
-            oldActiveBin: this.lastActiveBinId,
-            newActiveBin: currentActiveBinId,
-            binMovement,
-            newRange: [newMinBinId, newMaxBinId]
-          });
-        }
-      }
+        actions.push(this.createAction(
+          ActionType.REBALANCE,
+          this.config.poolAddress,
+          {
+            positionId: position.id,
+            binRange: [newMinBinId, newMaxBinId],
+            strategyType: StrategyType.Spot,
+            rangeWidth,
+            reason
+          }
+        ));
 
-      this.lastActiveBinId = currentActiveBinId;
+        logger.info('Rebalancing opportunity identified', {
+          poolAddress: this.config.poolAddress,
+          positionId: position.id,
+          positionRange: [position.lowerBinId, position.upperBinId],
+          activeBin: currentActiveBinId,
+          reason,
+          newRange: [newMinBinId, newMaxBinId]
+        });
+      }
     } catch (error) {
       logger.error('Error analyzing rebalancing', {
         poolAddress: this.config.poolAddress,
@@ -180,14 +249,51 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
     return actions;
   }
 
-  private async analyzeNewPositions(poolData: any, marketData: MarketData): Promise<StrategyAction[]> {
+  /**
+   * A position needs rebalancing once the active bin leaves its range, or comes
+   * within rebalanceThreshold of the range width from either edge
+   */
+  private getRebalanceReason(position: Position, activeBinId: number): string | null {
+    if (activeBinId < position.lowerBinId || activeBinId > position.upperBinId) {
+      return 'Out of range';
+    }
+
+    const width = position.upperBinId - position.lowerBinId + 1;
+    const edgeBins = Math.floor(width * this.balancedConfig.rebalanceThreshold);
+    const distanceToEdge = Math.min(activeBinId - position.lowerBinId, position.upperBinId - activeBinId);
+
+    if (distanceToEdge < edgeBins) {
+      return 'Near range edge';
+    }
+
+    return null;
+  }
+
+  /**
+   * Open positions of this deployment in its pool, or null when the cycle
+   * carries no position data
+   */
+  private getOwnPositions(marketData: MarketData): Position[] | null {
+    if (!marketData.positions) {
+      return null;
+    }
+
+    const deploymentId = this.config.deploymentId;
+    return marketData.positions.filter(position =>
+      position.poolAddress === this.config.poolAddress &&
+      position.status === PositionStatus.ACTIVE &&
+      (!deploymentId || position.strategy === deploymentId)
+    );
+  }
+
+  private async analyzeNewPositions(poolData: PoolData, marketData: MarketData): Promise<StrategyAction[]> {
     const actions: StrategyAction[] = [];
 
     try {
       // Check if pool conditions are favorable for new positions
-      const isVolatilityAcceptable = poolData.volatility <= this.riskParameters.volatilityThreshold;
-      const isAPRAttractive = poolData.apr >= 0.1; // 10% minimum APR
-      const hasGoodLiquidity = isGreaterThan(poolData.liquidity, toBig(10000)); // $10k minimum liquidity
+      const isVolatilityAcceptable = poolData.metrics.volatility <= this.riskParameters.volatilityThreshold;
+      const isAPRAttractive = poolData.metrics.apr >= 0.1; // 10% minimum APR
+      const hasGoodLiquidity = isGreaterThan(poolData.metrics.tvl, toBig(10000)); // $10k minimum liquidity
 
       if (isVolatilityAcceptable && isAPRAttractive && hasGoodLiquidity) {
         // Calculate optimal position size based on pool conditions
@@ -196,9 +302,10 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
         if (isGreaterThan(optimalSize, this.balancedConfig.minLiquidityAmount) &&
             isLessThan(optimalSize, this.balancedConfig.maxLiquidityAmount)) {
           
-          const activeBinId = poolData.activeId;
-          const minBinId = activeBinId - this.balancedConfig.targetRange;
-          const maxBinId = activeBinId + this.balancedConfig.targetRange;
+          const rangeWidth = this.getRangeWidth();
+          const activeBinId = poolData.activeBin.binId;
+          const minBinId = activeBinId - rangeWidth.binsPerSide;
+          const maxBinId = activeBinId + rangeWidth.binsPerSide;
 
           actions.push(this.createAction(
             ActionType.CREATE_POSITION,
@@ -207,16 +314,17 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
               liquidityAmount: optimalSize,
               binRange: [minBinId, maxBinId],
               strategyType: StrategyType.Spot,
-              slippage: 0.01
+              slippage: 0.01,
+              rangeWidth
             },
-            multiply(optimalSize, toBig(poolData.apr / 365)) // Daily expected return
+            multiply(optimalSize, toBig(poolData.metrics.apr / 365)) // Daily expected return
           ));
 
           logger.info('New position opportunity identified', {
             poolAddress: this.config.poolAddress,
             optimalSize: optimalSize.toString(),
-            apr: poolData.apr,
-            volatility: poolData.volatility,
+            apr: poolData.metrics.apr,
+            volatility: poolData.metrics.volatility,
             binRange: [minBinId, maxBinId]
           });
         }
@@ -231,21 +339,130 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
     return actions;
   }
 
-  private calculateOptimalPositionSize(poolData: any, marketData: MarketData): Big {
+  /**
+   * Keep one price sample per hour for realized volatility
+   */
+  private recordPriceSample(poolData: PoolData): void {
+    const now = this.now();
+    const last = this.priceSamples[this.priceSamples.length - 1];
+
+    if (!last || now.getTime() - last.timestamp.getTime() >= HOUR_MS) {
+      this.priceSamples.push({ timestamp: now, price: poolData.activeBin.price });
+      this.priceSamples = this.priceSamples.slice(-(this.balancedConfig.volatilityLookback + 1));
+    }
+  }
+
+  /**
+   * Hourly prices for realized volatility: the stored series when a
+   * historical data service holds enough of it, the in-memory samples otherwise
+   */
+  private async loadHourlyPrices(): Promise<Big[]> {
+    const { volatilityLookback } = this.balancedConfig;
+    const samples = this.priceSamples.map(sample => sample.price);
+    if (!this.historicalDataService) {
+      return samples;
+    }
+
+    const end = this.now();
+    const start = new Date(end.getTime() - (volatilityLookback + 1) * HOUR_MS);
+    try {
+      const points = await this.historicalDataService.getHistoricalData(
+        this.config.poolAddress,
+        TimeFrame.HOURLY,
+        start,
+        end
+      );
+      if (points.length >= MIN_VOLATILITY_SAMPLES) {
+        return points.slice(-(volatilityLookback + 1)).map(point => point.price);
+      }
+    } catch (error) {
+      logger.warn('Failed to load hourly price history', {
+        poolAddress: this.config.poolAddress,
+        error: getErrorMessage(error)
+      });
+    }
+    return samples;
+  }
+
+  /**
+   * Bins per side so the range covers targetProbability of the log-price
+   * moves expected over the rebalance horizon: z * sigma * sqrt(horizon),
+   * divided by the log-price width of one bin, ln(1 + binStep / 10000).
+   */
+  private calculateRangeWidth(poolData: PoolData, prices: Big[]): RangeWidth {
+    const { adaptiveRange, targetRange, targetProbability, rebalanceHorizonHours, minRangeBins, maxRangeBins } = this.balancedConfig;
+    const binStep = poolData.parameters?.binStep || null;
+
+    let source: RangeWidth['source'] = 'realized';
+    let volatility = prices.length >= MIN_VOLATILITY_SAMPLES
+      ? this.metricsService.calculateVolatility(prices)
+      : 0;
+
+    if (volatility <= 0) {
+      source = 'pool';
+      volatility = poolData.metrics.volatility || 0;
+    }
+
+    const fixed: RangeWidth = {
+      binsPerSide: targetRange,
+      source: 'fixed',
+      volatility,
+      binStep,
+      horizonHours: rebalanceHorizonHours,
+      targetProbability,
+      capped: null
+    };
+
+    if (!adaptiveRange || !binStep || volatility <= 0) {
+      return fixed;
+    }
+
+    const horizonVolatility = volatility * Math.sqrt(rebalanceHorizonHours / HOURS_PER_YEAR);
+    const halfWidth = normalQuantile((1 + targetProbability) / 2) * horizonVolatility;
+    const bins = Math.ceil(halfWidth / Math.log(1 + binStep / 10000));
+
+    let capped: RangeWidth['capped'] = null;
+    if (bins < minRangeBins) {
+      capped = 'min';
+    } else if (bins > maxRangeBins) {
+      capped = 'max';
+    }
+
+    return {
+      ...fixed,
+      binsPerSide: Math.min(maxRangeBins, Math.max(minRangeBins, bins)),
+      source,
+      capped
+    };
+  }
+
+  private getRangeWidth(): RangeWidth {
+    return this.rangeWidth || {
+      binsPerSide: this.targetRange,
+      source: 'fixed',
+      volatility: 0,
+      binStep: null,
+      horizonHours: this.balancedConfig.rebalanceHorizonHours,
+      targetProbability: this.balancedConfig.targetProbability,
+      capped: null
+    };
+  }
+
+  private calculateOptimalPositionSize(poolData: PoolData, marketData: MarketData): Big {
     try {
       // Base size calculation
       let optimalSize = this.config.maxPositionSize.mul(0.1); // Start with 10% of max
 
       // Adjust based on APR
-      const aprMultiplier = Math.min(2.0, Math.max(0.5, poolData.apr / 0.2)); // Scale around 20% APR
+      const aprMultiplier = Math.min(2.0, Math.max(0.5, poolData.metrics.apr / 0.2)); // Scale around 20% APR
       optimalSize = optimalSize.mul(aprMultiplier);
 
       // Adjust based on volatility (lower volatility = larger position)
-      const volatilityMultiplier = Math.max(0.3, 1.0 - poolData.volatility);
+      const volatilityMultiplier = Math.max(0.3, 1.0 - poolData.metrics.volatility);
       optimalSize = optimalSize.mul(volatilityMultiplier);
 
       // Adjust based on liquidity (more liquidity = can take larger position)
-      const liquidityRatio = Number(poolData.liquidity.toString()) / 100000; // Scale around $100k
+      const liquidityRatio = Number(poolData.metrics.tvl.toString()) / 100000; // Scale around $100k
       const liquidityMultiplier = Math.min(1.5, Math.max(0.5, liquidityRatio));
       optimalSize = optimalSize.mul(liquidityMultiplier);
 
@@ -278,25 +495,20 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
 
   protected async onExecute(action: StrategyAction): Promise<ExecutionResult> {
     try {
-      // Update last rebalance time for rebalance actions
-      if (action.type === ActionType.REBALANCE) {
-        this.lastRebalanceTime = new Date();
-      }
-
-      // The actual execution will be handled by the OrderExecutionService
-      // This method would typically coordinate with that service
       logger.info('Balanced liquidity strategy executing action', {
         poolAddress: this.config.poolAddress,
         action: action.type,
         parameters: action.parameters
       });
 
-      // Return a placeholder result - in practice, this would call the OrderExecutionService
-      return {
-        success: true,
-        transactionId: 'placeholder',
-        actualReturn: action.expectedReturn
-      };
+      const result = await this.submitAction(action);
+
+      // Only advance rebalance state once the execution actually landed
+      if (result.success && action.type === ActionType.REBALANCE) {
+        this.lastRebalanceTime = this.now();
+      }
+
+      return result;
     } catch (error) {
       logger.error('Error executing balanced liquidity action', {
         poolAddress: this.config.poolAddress,
@@ -319,6 +531,8 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
     // Reset state
     this.lastActiveBinId = 0;
     this.lastRebalanceTime = new Date(0);
+    this.priceSamples = [];
+    this.rangeWidth = null;
   }
 
   protected async validateStrategySpecificConfig(config: StrategyConfig): Promise<void> {
@@ -338,6 +552,17 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
         isGreaterThan(balancedConfig.minLiquidityAmount, balancedConfig.maxLiquidityAmount)) {
       throw new Error('Minimum liquidity amount cannot be greater than maximum');
     }
+
+    if (balancedConfig.targetProbability !== undefined &&
+        (balancedConfig.targetProbability <= 0 || balancedConfig.targetProbability >= 1)) {
+      throw new Error('Target probability must be between 0 and 1');
+    }
+
+    if (balancedConfig.minRangeBins !== undefined &&
+        balancedConfig.maxRangeBins !== undefined &&
+        balancedConfig.minRangeBins > balancedConfig.maxRangeBins) {
+      throw new Error('Minimum range cannot be greater than maximum');
+    }
   }
 
   protected async isStrategySpecificActionSafe(
@@ -351,17 +576,17 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
       }
 
       // Don't create new positions if volatility is too high
-      if (action.type === ActionType.CREATE_POSITION && poolData.volatility > 0.4) {
+      if (action.type === ActionType.CREATE_POSITION && poolData.metrics.volatility > 0.4) {
         logger.warn('Rejecting position creation due to high volatility', {
           poolAddress: action.poolAddress,
-          volatility: poolData.volatility
+          volatility: poolData.metrics.volatility
         });
         return false;
       }
 
       // Don't rebalance too frequently
       if (action.type === ActionType.REBALANCE) {
-        const timeSinceLastRebalance = new Date().getTime() - this.lastRebalanceTime.getTime();
+        const timeSinceLastRebalance = this.now().getTime() - this.lastRebalanceTime.getTime();
         if (timeSinceLastRebalance < this.minRebalanceInterval) {
           logger.warn('Rejecting rebalance due to frequency limit', {
             poolAddress: action.poolAddress,
@@ -381,6 +606,16 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
     }
   }
 
+  protected getStrategySpecificState(): Record<string, any> {
+    return {
+      targetRange: this.targetRange,
+      rebalanceThreshold: this.rebalanceThreshold,
+      rangeWidth: this.rangeWidth,
+      lastActiveBinId: this.lastActiveBinId,
+      lastRebalanceTime: this.lastRebalanceTime.getTime() > 0 ? this.lastRebalanceTime : null
+    };
+  }
+
   // Getters for strategy-specific configuration
   get targetRange(): number {
     return this.balancedConfig?.targetRange || 10;
@@ -391,6 +626,6 @@ export class BalancedLiquidityStrategy extends BaseStrategy {
   }
 
   get autoCompound(): boolean {
-    return this.balancedConfig?.autoCompound || true;
+    return this.balancedConfig?.autoCompound ?? true;
   }
 }
\ No newline at end of file
@@ -7,24 +7,31 @@ import {
   MarketData, 
   RiskLevel,
   ActionType,
-  RiskParameters
+  RiskParameters,
+  ExecutionPort
 } from '../types';
 import { logger } from '../utils/logger';
 import { getErrorMessage } from '../utils/error';
 
+// Actions that put new capital into a pool; only these are held back in volatile markets
+const ENTRY_ACTIONS = [ActionType.CREATE_POSITION];
+
 export abstract class BaseStrategy implements Strategy {
   public abstract name: string;
   public abstract description: string;
   public abstract riskLevel: RiskLevel;
   
   protected config: StrategyConfig;
+  protected executor: ExecutionPort;
   protected isInitialized: boolean = false;
+  private marketTime: Date | null = null;
 
   constructor() {}
 
-  async initialize(config: StrategyConfig): Promise<void> {
+  async initialize(config: StrategyConfig, executor: ExecutionPort): Promise<void> {
     try {
       this.config = config;
+      this.executor = executor;
       await this.validateConfig(config);
       await this.onInitialize();
       this.isInitialized = true;
@@ -48,6 +55,7 @@ export abstract class BaseStrategy implements Strategy {
     }
 
     try {
+      this.marketTime = marketData.timestamp;
       const actions = await this.onAnalyze(marketData);
       
       // Apply risk filters
@@ -132,6 +140,14 @@ export abstract class BaseStrategy implements Strategy {
     }
   }
 
+  /**
+   * Current time as seen by the strategy: the timestamp of the market data
+   * being analyzed, so replays of historical data keep their own clock
+   */
+  protected now(): Date {
+    return this.marketTime ? new Date(this.marketTime) : new Date();
+  }
+
   // Abstract methods to be implemented by concrete strategies
   protected abstract onInitialize(): Promise<void>;
   protected abstract onAnalyze(marketData: MarketData): Promise<StrategyAction[]>;
@@ -196,13 +212,14 @@ export abstract class BaseStrategy implements Strategy {
         }
       }
 
-      // Check volatility limits
+      // Check volatility limits; exits and rebalances still run, since they reduce or move exposure
       const poolData = marketData.pools.find(p => p.address === action.poolAddress);
-      if (poolData && poolData.volatility > this.config.riskParameters.volatilityThreshold) {
+      if (ENTRY_ACTIONS.includes(action.type) && poolData &&
+          poolData.metrics.volatility > this.config.riskParameters.volatilityThreshold) {
         logger.warn('Pool volatility exceeds threshold', {
           strategy: this.name,
           poolAddress: action.poolAddress,
-          volatility: poolData.volatility,
+          volatility: poolData.metrics.volatility,
           threshold: this.config.riskParameters.volatilityThreshold
         });
         return false;
@@ -236,6 +253,15 @@ export abstract class BaseStrategy implements Strategy {
     return true;
   }
 
+  // Submit an action through the injected execution port
+  protected async submitAction(action: StrategyAction): Promise<ExecutionResult> {
+    if (!this.executor) {
+      throw new Error(`Strategy ${this.name} has no execution port`);
+    }
+
+    return await this.executor.executeAction(action);
+  }
+
   // Utility methods
   protected calculatePriority(
     action: StrategyAction, 
@@ -263,12 +289,12 @@ export abstract class BaseStrategy implements Strategy {
     const poolData = marketData.pools.find(p => p.address === action.poolAddress);
     if (poolData) {
       // Lower priority for high volatility pools
-      if (poolData.volatility > 0.3) {
+      if (poolData.metrics.volatility > 0.3) {
         priority -= 20;
       }
       
       // Higher priority for high APR pools
-      if (poolData.apr > 0.2) {
+      if (poolData.metrics.apr > 0.2) {
         priority += 15;
       }
     }
@@ -277,17 +303,18 @@ export abstract class BaseStrategy implements Strategy {
   }
 
   protected estimateGas(action: StrategyAction): number {
-    // Base gas estimates for different action types
-    const gasEstimates = {
-      [ActionType.CREATE_POSITION]: 300000,
-      [ActionType.CLOSE_POSITION]: 200000,
-      [ActionType.REBALANCE]: 400000,
-      [ActionType.COLLECT_FEES]: 150000,
+    // Typical compute units per action; the executor sizes the real limit from simulation
+    const computeUnitEstimates = {
+      [ActionType.CREATE_POSITION]: 250000,
+      [ActionType.CLOSE_POSITION]: 100000,
+      [ActionType.REBALANCE]: 350000,
+      [ActionType.COLLECT_FEES]: 80000,
       [ActionType.ADJUST_RANGE]: 350000,
-      [ActionType.EMERGENCY_EXIT]: 250000
+      [ActionType.REMOVE_LIQUIDITY]: 100000,
+      [ActionType.EMERGENCY_EXIT]: 100000
     };
 
-    return gasEstimates[action.type] || 200000;
+    return computeUnitEstimates[action.type] || 200000;
   }
 
   protected createAction(
@@ -299,7 +326,11 @@ export abstract class BaseStrategy implements Strategy {
     const action: StrategyAction = {
       type,
       poolAddress,
-      parameters,
+      parameters: {
+        deploymentId: this.config?.deploymentId,
+        maxSlippage: this.config?.riskParameters?.maxSlippage,
+        ...parameters
+      },
       priority: 50, // Will be calculated later
       estimatedGas: this.estimateGas({ type } as StrategyAction),
       expectedReturn
@@ -308,6 +339,20 @@ export abstract class BaseStrategy implements Strategy {
     return action;
   }
 
+  // Snapshot of runtime state exposed per deployment
+  getState(): Record<string, any> {
+    return {
+      initialized: this.isInitialized,
+      poolAddress: this.poolAddress,
+      ...this.getStrategySpecificState()
+    };
+  }
+
+  protected getStrategySpecificState(): Record<string, any> {
+    // Override in concrete strategies to expose their state
+    return {};
+  }
+
   // Getters
   get isActive(): boolean {
     return this.isInitialized;
@@ -0,0 +1,416 @@
+import { StrategyType } from '@meteora-ag/dlmm';
+import Big from 'big.js';
+import { BaseStrategy } from './base';
+import {
+  StrategyAction,
+  ExecutionResult,
+  MarketData,
+  RiskLevel,
+  ActionType,
+  StrategyConfig,
+  PoolData,
+  Position,
+  DbActionExecution
+} from '../types';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import { toBig, isGreaterThan, isLessThan } from '../utils/math';
+
+type DCATargetToken = 'X' | 'Y';
+
+interface DCAConfig extends StrategyConfig {
+  targetToken: DCATargetToken; // Token to accumulate
+  orderAmount: Big; // Quote value placed per order
+  totalBudget: Big; // Total quote value the strategy may commit
+  intervalMs: number; // Cadence between orders
+  binOffset: number; // Distance in bins between the active bin and the nearest order bin
+  orderWidth: number; // Bins per order (1 = single-bin limit order)
+  orderTimeoutMs: number; // Cancel untouched orders after this long (0 = never)
+  minPrice?: Big; // Only place orders while the active price is inside this band
+  maxPrice?: Big;
+}
+
+interface DCAOrder {
+  positionId: string;
+  lowerBinId: number;
+  upperBinId: number;
+  amount: Big;
+  placedAt: Date;
+}
+
+/**
+ * Dollar-cost averaging through DLMM limit orders: one-sided liquidity placed
+ * just below (to buy X with Y) or above (to buy Y with X) the active bin is
+ * converted as the price crosses it, then withdrawn once fully filled.
+ * Open orders are rebuilt from the deployment's positions and filled ones from
+ * its recorded executions each cycle, so a restart or redeploy keeps counting
+ * both against the budget.
+ */
+export class DCAStrategy extends BaseStrategy {
+  public name = 'dca';
+  public description = 'Accumulates a target token over time with one-sided limit-order liquidity';
+  public riskLevel = RiskLevel.LOW;
+  public readonly placesLimitOrders = true;
+
+  private dcaConfig: DCAConfig;
+  private orders: Map<string, DCAOrder> = new Map();
+  private committed: Big = new Big(0);
+  private spent: Big = new Big(0); // Budget converted by filled orders
+  private accumulated: Big = new Big(0); // Target token received, in token units
+  private filledOrders: number = 0;
+  private lastOrderTime: Date = new Date(0);
+
+  protected async onInitialize(): Promise<void> {
+    this.dcaConfig = {
+      targetToken: 'X',
+      orderAmount: toBig(100),
+      totalBudget: this.config.maxPositionSize,
+      intervalMs: 3600000, // 1 hour
+      binOffset: 1,
+      orderWidth: 1,
+      orderTimeoutMs: 86400000, // 24 hours
+      ...this.config
+    } as DCAConfig;
+
+    // Deployment parameters may arrive as plain JSON numbers
+    this.dcaConfig.orderAmount = toBig(this.dcaConfig.orderAmount);
+    this.dcaConfig.totalBudget = toBig(this.dcaConfig.totalBudget);
+    if (this.dcaConfig.minPrice !== undefined) {
+      this.dcaConfig.minPrice = toBig(this.dcaConfig.minPrice);
+    }
+    if (this.dcaConfig.maxPrice !== undefined) {
+      this.dcaConfig.maxPrice = toBig(this.dcaConfig.maxPrice);
+    }
+
+    logger.info('DCA strategy initialized', {
+      poolAddress: this.config.poolAddress,
+      targetToken: this.dcaConfig.targetToken,
+      orderAmount: this.dcaConfig.orderAmount.toString(),
+      totalBudget: this.dcaConfig.totalBudget.toString(),
+      intervalMs: this.dcaConfig.intervalMs
+    });
+  }
+
+  protected async onAnalyze(marketData: MarketData): Promise<StrategyAction[]> {
+    const actions: StrategyAction[] = [];
+
+    try {
+      const poolData = marketData.pools.find(p => p.address === this.config.poolAddress);
+      if (!poolData) {
+        logger.warn('Pool data not found', { poolAddress: this.config.poolAddress });
+        return actions;
+      }
+
+      this.syncFills(marketData.executions);
+      this.syncOrders(marketData.positions);
+      actions.push(...this.analyzeOpenOrders(poolData));
+      actions.push(...this.analyzeNewOrder(poolData));
+
+      for (const action of actions) {
+        action.priority = this.calculatePriority(action, marketData);
+      }
+    } catch (error) {
+      logger.error('Error in DCA analysis', {
+        poolAddress: this.config.poolAddress,
+        error: getErrorMessage(error)
+      });
+    }
+
+    return actions;
+  }
+
+  /**
+   * Rebuild the budget converted by filled orders from the deployment's
+   * recorded executions when the cycle provides them: each filled withdrawal
+   * spends the amount its order was placed with.
+   */
+  private syncFills(executions?: DbActionExecution[]): void {
+    if (!executions) {
+      return;
+    }
+
+    const own = executions.filter(execution =>
+      execution.deploymentId === this.config.deploymentId && execution.success && execution.positionId
+    );
+    const placed = new Map<string, Big>();
+    let spent = new Big(0);
+    let filledOrders = 0;
+
+    for (const execution of own) {
+      const parameters = JSON.parse(execution.parameters);
+
+      if (execution.actionType === ActionType.CREATE_POSITION) {
+        placed.set(execution.positionId!, toBig(parameters.liquidityAmount ?? this.dcaConfig.orderAmount));
+      } else if (execution.actionType === ActionType.REMOVE_LIQUIDITY && parameters.dcaOutcome === 'filled') {
+        spent = spent.add(placed.get(execution.positionId!) ?? this.dcaConfig.orderAmount);
+        filledOrders++;
+      }
+    }
+
+    this.spent = spent;
+    this.filledOrders = filledOrders;
+  }
+
+  /**
+   * Refresh open orders from the persisted positions when the cycle provides
+   * them. The ledger passes only open positions; filled orders withdrawn
+   * before a restart are counted through the spent budget instead.
+   */
+  private syncOrders(positions?: Position[]): void {
+    if (!positions) {
+      return;
+    }
+
+    const deploymentId = this.config.deploymentId;
+    const current = positions.filter(position =>
+      position.poolAddress === this.config.poolAddress &&
+      ((deploymentId && position.strategy === deploymentId) || this.orders.has(position.id))
+    );
+
+    this.orders = new Map(current.map(position => [position.id, this.orders.get(position.id) ?? {
+      positionId: position.id,
+      lowerBinId: position.lowerBinId,
+      upperBinId: position.upperBinId,
+      amount: position.totalLiquidity,
+      placedAt: position.createdAt
+    }]));
+    this.committed = Array.from(this.orders.values()).reduce((sum, order) => sum.add(order.amount), this.spent);
+
+    for (const order of this.orders.values()) {
+      if (order.placedAt > this.lastOrderTime) {
+        this.lastOrderTime = order.placedAt;
+      }
+    }
+  }
+
+  private analyzeOpenOrders(poolData: PoolData): StrategyAction[] {
+    const actions: StrategyAction[] = [];
+    const activeBinId = poolData.activeBin.binId;
+    const now = this.now();
+
+    for (const order of this.orders.values()) {
+      if (this.isFilled(order, activeBinId)) {
+        actions.push(this.createAction(
+          ActionType.REMOVE_LIQUIDITY,
+          this.config.poolAddress,
+          {
+            positionId: order.positionId,
+            percentage: 100,
+            dcaOutcome: 'filled',
+            reason: 'DCA order filled'
+          }
+        ));
+        continue;
+      }
+
+      // Only cancel orders the price has not started crossing
+      const untouched = activeBinId < order.lowerBinId || activeBinId > order.upperBinId;
+      const expired = this.dcaConfig.orderTimeoutMs > 0 &&
+        now.getTime() - order.placedAt.getTime() >= this.dcaConfig.orderTimeoutMs;
+
+      if (untouched && expired) {
+        actions.push(this.createAction(
+          ActionType.REMOVE_LIQUIDITY,
+          this.config.poolAddress,
+          {
+            positionId: order.positionId,
+            percentage: 100,
+            dcaOutcome: 'expired',
+            reason: 'DCA order expired'
+          }
+        ));
+      }
+    }
+
+    return actions;
+  }
+
+  private analyzeNewOrder(poolData: PoolData): StrategyAction[] {
+    const { orderAmount, totalBudget, intervalMs, minPrice, maxPrice } = this.dcaConfig;
+    const price = poolData.activeBin.price;
+
+    if (this.now().getTime() - this.lastOrderTime.getTime() < intervalMs) {
+      return [];
+    }
+
+    if (isGreaterThan(this.committed.add(orderAmount), totalBudget)) {
+      logger.debug('DCA budget exhausted', {
+        poolAddress: this.config.poolAddress,
+        committed: this.committed.toString(),
+        totalBudget: totalBudget.toString()
+      });
+      return [];
+    }
+
+    if ((minPrice && isLessThan(price, minPrice)) || (maxPrice && isGreaterThan(price, maxPrice))) {
+      logger.debug('Active price outside DCA band', {
+        poolAddress: this.config.poolAddress,
+        price: price.toString(),
+        minPrice: minPrice?.toString(),
+        maxPrice: maxPrice?.toString()
+      });
+      return [];
+    }
+
+    const binRange = this.getOrderRange(poolData.activeBin.binId);
+
+    logger.info('DCA order identified', {
+      poolAddress: this.config.poolAddress,
+      targetToken: this.dcaConfig.targetToken,
+      orderAmount: orderAmount.toString(),
+      binRange
+    });
+
+    return [this.createAction(
+      ActionType.CREATE_POSITION,
+      this.config.poolAddress,
+      {
+        liquidityAmount: orderAmount,
+        binRange,
+        strategyType: StrategyType.Spot,
+        slippage: 0.01,
+        reason: 'DCA order'
+      }
+    )];
+  }
+
+  /**
+   * Buying X places Y below the active bin; buying Y places X above it
+   */
+  private getOrderRange(activeBinId: number): [number, number] {
+    const { targetToken, binOffset, orderWidth } = this.dcaConfig;
+
+    if (targetToken === 'X') {
+      const upperBinId = activeBinId - binOffset;
+      return [upperBinId - orderWidth + 1, upperBinId];
+    }
+
+    const lowerBinId = activeBinId + binOffset;
+    return [lowerBinId, lowerBinId + orderWidth - 1];
+  }
+
+  /**
+   * An order is filled once the price has crossed every bin in its range
+   */
+  private isFilled(order: DCAOrder, activeBinId: number): boolean {
+    return this.dcaConfig.targetToken === 'X'
+      ? activeBinId < order.lowerBinId
+      : activeBinId > order.upperBinId;
+  }
+
+  protected async onExecute(action: StrategyAction): Promise<ExecutionResult> {
+    try {
+      const result = await this.submitAction(action);
+      if (!result.success) {
+        return result;
+      }
+
+      if (action.type === ActionType.CREATE_POSITION && result.newPosition) {
+        const [lowerBinId, upperBinId] = action.parameters.binRange as [number, number];
+        const amount = toBig(action.parameters.liquidityAmount || this.dcaConfig.orderAmount);
+
+        this.orders.set(result.newPosition.id, {
+          positionId: result.newPosition.id,
+          lowerBinId,
+          upperBinId,
+          amount,
+          placedAt: this.now()
+        });
+        this.committed = this.committed.add(amount);
+        this.lastOrderTime = this.now();
+      }
+
+      if (action.type === ActionType.REMOVE_LIQUIDITY && action.parameters.positionId) {
+        const order = this.orders.get(action.parameters.positionId);
+        if (order) {
+          this.orders.delete(order.positionId);
+
+          if (action.parameters.dcaOutcome === 'filled') {
+            this.filledOrders++;
+            this.spent = this.spent.add(order.amount);
+            const received = this.dcaConfig.targetToken === 'X' ? result.amountX : result.amountY;
+            this.accumulated = this.accumulated.add(received || 0);
+          } else {
+            // Unfilled funds return to the budget
+            this.committed = this.committed.sub(order.amount);
+          }
+        }
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Error executing DCA action', {
+        poolAddress: this.config.poolAddress,
+        action: action.type,
+        error: getErrorMessage(error)
+      });
+
+      return {
+        success: false,
+        error: getErrorMessage(error)
+      };
+    }
+  }
+
+  protected async onCleanup(): Promise<void> {
+    logger.info('Cleaning up DCA strategy', {
+      poolAddress: this.config.poolAddress,
+      openOrders: this.orders.size
+    });
+
+    // Reset state
+    this.orders.clear();
+    this.committed = new Big(0);
+    this.spent = new Big(0);
+    this.accumulated = new Big(0);
+    this.filledOrders = 0;
+    this.lastOrderTime = new Date(0);
+  }
+
+  protected async validateStrategySpecificConfig(config: StrategyConfig): Promise<void> {
+    const dcaConfig = config as DCAConfig;
+
+    if (dcaConfig.targetToken && !['X', 'Y'].includes(dcaConfig.targetToken)) {
+      throw new Error('Target token must be X or Y');
+    }
+
+    if (dcaConfig.binOffset !== undefined && dcaConfig.binOffset < 1) {
+      throw new Error('Bin offset must be at least 1 so orders stay one-sided');
+    }
+
+    if (dcaConfig.orderWidth !== undefined && dcaConfig.orderWidth < 1) {
+      throw new Error('Order width must be at least 1 bin');
+    }
+
+    if (dcaConfig.intervalMs !== undefined && dcaConfig.intervalMs <= 0) {
+      throw new Error('Order interval must be greater than 0');
+    }
+
+    if (dcaConfig.orderAmount !== undefined && dcaConfig.totalBudget !== undefined &&
+        isGreaterThan(toBig(dcaConfig.orderAmount), toBig(dcaConfig.totalBudget))) {
+      throw new Error('Order amount cannot be greater than the total budget');
+    }
+
+    if (dcaConfig.minPrice !== undefined && dcaConfig.maxPrice !== undefined &&
+        isGreaterThan(toBig(dcaConfig.minPrice), toBig(dcaConfig.maxPrice))) {
+      throw new Error('Minimum price cannot be greater than maximum price');
+    }
+  }
+
+  protected getStrategySpecificState(): Record<string, any> {
+    return {
+      targetToken: this.dcaConfig?.targetToken,
+      committed: this.committed.toString(),
+      remainingBudget: this.dcaConfig ? this.dcaConfig.totalBudget.sub(this.committed).toString() : null,
+      accumulated: this.accumulated.toString(),
+      filledOrders: this.filledOrders,
+      openOrders: Array.from(this.orders.values()).map(order => ({
+        positionId: order.positionId,
+        binRange: [order.lowerBinId, order.upperBinId],
+        amount: order.amount.toString(),
+        placedAt: order.placedAt
+      })),
+      lastOrderTime: this.lastOrderTime.getTime() > 0 ? this.lastOrderTime : null
+    };
+  }
+}
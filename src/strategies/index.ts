@@ -0,0 +1,28 @@
+import { config } from '../config';
+import { HistoricalDataService } from '../services/historical-data';
+import { BalancedLiquidityStrategy } from './balanced-liquidity';
+import { DCAStrategy } from './dca';
+import { MarketMakingStrategy } from './market-making';
+import { StrategyRegistry, strategyRegistry } from './registry';
+
+/**
+ * Register the built-in strategy types enabled in the configuration. The
+ * historical data service supplies the hourly price series strategies size
+ * their ranges from.
+ */
+export const registerStrategyTypes = (
+  registry: StrategyRegistry = strategyRegistry,
+  historicalDataService: HistoricalDataService | null = null
+): void => {
+  if (config.strategies.balancedLiquidityEnabled) {
+    registry.registerType(() => new BalancedLiquidityStrategy(historicalDataService));
+  }
+
+  if (config.strategies.dcaStrategyEnabled) {
+    registry.registerType(() => new DCAStrategy());
+  }
+
+  if (config.strategies.marketMakingEnabled) {
+    registry.registerType(() => new MarketMakingStrategy());
+  }
+};
@@ -0,0 +1,330 @@
+import { StrategyType } from '@meteora-ag/dlmm';
+import Big from 'big.js';
+import { BaseStrategy } from './base';
+import {
+  StrategyAction,
+  ExecutionResult,
+  MarketData,
+  RiskLevel,
+  ActionType,
+  StrategyConfig,
+  PoolData,
+  Position
+} from '../types';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import { toBig } from '../utils/math';
+
+type QuoteShape = 'auto' | 'curve' | 'bid_ask';
+
+interface MarketMakingConfig extends StrategyConfig {
+  quoteAmount: Big; // Quote value committed to the book
+  baseRange: number; // Bins per side in calm markets
+  maxRange: number; // Cap on bins per side however wide conditions push the quote
+  targetVolatility: number; // Volatility at or below which the base range is used
+  referenceFee: number; // Dynamic fee (percent) at or below which the base range is used
+  shape: QuoteShape; // Liquidity shape; auto picks Curve when calm and BidAsk when wide
+  bidAskWidening: number; // Widening factor from which auto switches to BidAsk
+  maxSkew: number; // Largest shift of the quote center, as a fraction of the half width
+  requoteWidthChange: number; // Relative width change that triggers a requote
+  minRequoteInterval: number; // Minimum time between requotes (ms)
+}
+
+interface QuotePlan {
+  binRange: [number, number];
+  strategyType: StrategyType;
+  halfWidth: number;
+  widening: number;
+  volatility: number;
+  dynamicFee: number | null;
+  inventoryImbalance: number;
+  skewBins: number;
+}
+
+/**
+ * Quotes liquidity around the active bin: Curve concentrates depth at the
+ * mid in calm markets, BidAsk pushes it to the edges when conditions widen.
+ * The quote center is skewed away from the token we hold too much of.
+ */
+export class MarketMakingStrategy extends BaseStrategy {
+  public name = 'market_making';
+  public description = 'Quotes around the active bin with inventory skew and volatility-driven range widening';
+  public riskLevel = RiskLevel.HIGH;
+
+  private mmConfig: MarketMakingConfig;
+  private quotes: Map<string, Position> = new Map();
+  private lastQuote: QuotePlan | null = null;
+  private lastRequoteTime: Date = new Date(0);
+
+  protected async onInitialize(): Promise<void> {
+    this.mmConfig = {
+      quoteAmount: this.config.maxPositionSize.mul(0.1),
+      baseRange: 8,
+      maxRange: 40,
+      targetVolatility: 0.1,
+      referenceFee: 0.25,
+      shape: 'auto',
+      bidAskWidening: 1.5,
+      maxSkew: 0.5,
+      requoteWidthChange: 0.5,
+      minRequoteInterval: 600000, // 10 minutes
+      ...this.config
+    } as MarketMakingConfig;
+
+    // Deployment parameters may arrive as plain JSON numbers
+    this.mmConfig.quoteAmount = toBig(this.mmConfig.quoteAmount);
+
+    logger.info('Market making strategy initialized', {
+      poolAddress: this.config.poolAddress,
+      quoteAmount: this.mmConfig.quoteAmount.toString(),
+      baseRange: this.mmConfig.baseRange,
+      maxRange: this.mmConfig.maxRange,
+      shape: this.mmConfig.shape
+    });
+  }
+
+  protected async onAnalyze(marketData: MarketData): Promise<StrategyAction[]> {
+    const actions: StrategyAction[] = [];
+
+    try {
+      const poolData = marketData.pools.find(p => p.address === this.config.poolAddress);
+      if (!poolData) {
+        logger.warn('Pool data not found', { poolAddress: this.config.poolAddress });
+        return actions;
+      }
+
+      this.syncQuotes(marketData.positions);
+      const quote = this.planQuote(poolData);
+      this.lastQuote = quote;
+
+      if (this.quotes.size === 0) {
+        actions.push(this.createAction(
+          ActionType.CREATE_POSITION,
+          this.config.poolAddress,
+          {
+            liquidityAmount: this.mmConfig.quoteAmount,
+            ...this.toActionParameters(quote),
+            slippage: 0.01,
+            reason: 'Initial quote'
+          }
+        ));
+      } else if (this.now().getTime() - this.lastRequoteTime.getTime() >= this.mmConfig.minRequoteInterval) {
+        for (const position of this.quotes.values()) {
+          const reason = this.getRequoteReason(position, poolData, quote);
+          if (!reason) {
+            continue;
+          }
+
+          actions.push(this.createAction(
+            ActionType.REBALANCE,
+            this.config.poolAddress,
+            {
+              positionId: position.id,
+              ...this.toActionParameters(quote),
+              reason
+            }
+          ));
+        }
+      }
+
+      for (const action of actions) {
+        action.priority = this.calculatePriority(action, marketData);
+      }
+
+      logger.debug('Market making analysis completed', {
+        poolAddress: this.config.poolAddress,
+        quotes: this.quotes.size,
+        actionsGenerated: actions.length,
+        binRange: quote.binRange,
+        widening: quote.widening
+      });
+    } catch (error) {
+      logger.error('Error in market making analysis', {
+        poolAddress: this.config.poolAddress,
+        error: getErrorMessage(error)
+      });
+    }
+
+    return actions;
+  }
+
+  /**
+   * Refresh our quotes from the persisted positions when the cycle provides them
+   */
+  private syncQuotes(positions?: Position[]): void {
+    if (!positions) {
+      return;
+    }
+
+    const deploymentId = this.config.deploymentId;
+    const current = positions.filter(position =>
+      position.poolAddress === this.config.poolAddress &&
+      ((deploymentId && position.strategy === deploymentId) || this.quotes.has(position.id))
+    );
+
+    this.quotes = new Map(current.map(position => [position.id, position]));
+  }
+
+  private planQuote(poolData: PoolData): QuotePlan {
+    const { baseRange, maxRange, targetVolatility, referenceFee, shape, bidAskWidening, maxSkew } = this.mmConfig;
+    const activeBinId = poolData.activeBin.binId;
+    const volatility = poolData.metrics.volatility || 0;
+    const dynamicFee = poolData.metrics.dynamicFee ?? null;
+
+    // Widen with whichever of volatility and the dynamic fee is further above its reference
+    const volatilityFactor = targetVolatility > 0 ? volatility / targetVolatility : 1;
+    const feeFactor = dynamicFee !== null && referenceFee > 0 ? dynamicFee / referenceFee : 1;
+    const widening = Math.max(1, volatilityFactor, feeFactor);
+    const halfWidth = Math.min(maxRange, Math.ceil(baseRange * widening));
+
+    // Shift the quote toward the side that sells the surplus token:
+    // bins above the active bin hold X, bins below hold Y
+    const inventoryImbalance = this.getInventoryImbalance(poolData.activeBin.price);
+    const skewBins = Math.round(inventoryImbalance * maxSkew * halfWidth);
+    const center = activeBinId + skewBins;
+
+    let strategyType = StrategyType.Curve;
+    if (shape === 'bid_ask' || (shape === 'auto' && widening >= bidAskWidening)) {
+      strategyType = StrategyType.BidAsk;
+    }
+
+    return {
+      binRange: [center - halfWidth, center + halfWidth],
+      strategyType,
+      halfWidth,
+      widening,
+      volatility,
+      dynamicFee,
+      inventoryImbalance,
+      skewBins
+    };
+  }
+
+  /**
+   * (X value - Y value) / total value across our quotes, in [-1, 1]
+   */
+  private getInventoryImbalance(price: Big): number {
+    let valueX = new Big(0);
+    let valueY = new Big(0);
+
+    for (const position of this.quotes.values()) {
+      valueX = valueX.add(position.liquidityX.mul(price));
+      valueY = valueY.add(position.liquidityY);
+    }
+
+    const total = valueX.add(valueY);
+    if (total.lte(0)) {
+      return 0;
+    }
+
+    return Number(valueX.sub(valueY).div(total).toString());
+  }
+
+  private getRequoteReason(position: Position, poolData: PoolData, quote: QuotePlan): string | null {
+    const activeBinId = poolData.activeBin.binId;
+    if (activeBinId < position.lowerBinId || activeBinId > position.upperBinId) {
+      return 'Active bin outside quote';
+    }
+
+    const currentHalfWidth = (position.upperBinId - position.lowerBinId) / 2;
+    const widthChange = Math.abs(quote.halfWidth - currentHalfWidth) / Math.max(1, currentHalfWidth);
+    if (widthChange >= this.mmConfig.requoteWidthChange) {
+      return quote.halfWidth > currentHalfWidth ? 'Widening quote' : 'Tightening quote';
+    }
+
+    return null;
+  }
+
+  private toActionParameters(quote: QuotePlan): Record<string, any> {
+    return {
+      binRange: quote.binRange,
+      strategyType: quote.strategyType,
+      quote: {
+        halfWidth: quote.halfWidth,
+        widening: quote.widening,
+        volatility: quote.volatility,
+        dynamicFee: quote.dynamicFee,
+        inventoryImbalance: quote.inventoryImbalance,
+        skewBins: quote.skewBins
+      }
+    };
+  }
+
+  protected async onExecute(action: StrategyAction): Promise<ExecutionResult> {
+    try {
+      const result = await this.submitAction(action);
+      if (!result.success) {
+        return result;
+      }
+
+      if (action.type === ActionType.REBALANCE || action.type === ActionType.CLOSE_POSITION) {
+        if (action.parameters.positionId) {
+          this.quotes.delete(action.parameters.positionId);
+        }
+      }
+
+      if (result.newPosition) {
+        this.quotes.set(result.newPosition.id, result.newPosition);
+      }
+
+      if (action.type === ActionType.REBALANCE) {
+        this.lastRequoteTime = this.now();
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Error executing market making action', {
+        poolAddress: this.config.poolAddress,
+        action: action.type,
+        error: getErrorMessage(error)
+      });
+
+      return {
+        success: false,
+        error: getErrorMessage(error)
+      };
+    }
+  }
+
+  protected async onCleanup(): Promise<void> {
+    logger.info('Cleaning up market making strategy', {
+      poolAddress: this.config.poolAddress
+    });
+
+    // Reset state
+    this.quotes.clear();
+    this.lastQuote = null;
+    this.lastRequoteTime = new Date(0);
+  }
+
+  protected async validateStrategySpecificConfig(config: StrategyConfig): Promise<void> {
+    const mmConfig = config as MarketMakingConfig;
+
+    if (mmConfig.baseRange !== undefined && mmConfig.baseRange < 1) {
+      throw new Error('Base range must be at least 1 bin');
+    }
+
+    if (mmConfig.baseRange !== undefined && mmConfig.maxRange !== undefined && mmConfig.maxRange < mmConfig.baseRange) {
+      throw new Error('Maximum range cannot be smaller than the base range');
+    }
+
+    if (mmConfig.shape && !['auto', 'curve', 'bid_ask'].includes(mmConfig.shape)) {
+      throw new Error('Shape must be auto, curve or bid_ask');
+    }
+
+    if (mmConfig.maxSkew !== undefined && (mmConfig.maxSkew < 0 || mmConfig.maxSkew >= 1)) {
+      throw new Error('Maximum skew must be between 0 and 1 so the quote keeps the active bin');
+    }
+  }
+
+  protected getStrategySpecificState(): Record<string, any> {
+    return {
+      quotes: Array.from(this.quotes.values()).map(position => ({
+        positionId: position.id,
+        binRange: [position.lowerBinId, position.upperBinId]
+      })),
+      lastQuote: this.lastQuote,
+      lastRequoteTime: this.lastRequoteTime.getTime() > 0 ? this.lastRequoteTime : null
+    };
+  }
+}
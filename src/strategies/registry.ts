@@ -1,97 +1,333 @@
-import { Strategy } from '../types';
+import Big from 'big.js';
+import {
+  Strategy,
+  StrategyConfig,
+  StrategyDeployment,
+  DeploymentDefinition,
+  DeploymentStatus,
+  ExecutionPort,
+  RiskLevel
+} from '../types';
+import { config } from '../config';
 import { logger } from '../utils/logger';
 import { getErrorMessage } from '../utils/error';
 
+export type StrategyFactory = () => Strategy;
+
+export interface StrategyTypeInfo {
+  name: string;
+  description: string;
+  riskLevel: RiskLevel;
+}
+
+/**
+ * Build the runtime config for a deployment from its parameters and the bot-wide defaults
+ */
+export function buildStrategyConfig(definition: DeploymentDefinition): StrategyConfig {
+  const parameters = definition.parameters || {};
+  const riskOverrides = parameters.riskParameters || {};
+  const maxPositionSize = new Big(parameters.maxPositionSize ?? config.bot.maxPositionSize);
+
+  return {
+    ...parameters,
+    poolAddress: definition.poolAddress,
+    deploymentId: definition.id,
+    maxPositionSize,
+    riskParameters: {
+      maxSlippage: 0.01,
+      volatilityThreshold: config.risk.maxVolatilityThreshold,
+      concentrationLimit: 0.25,
+      ...riskOverrides,
+      maxPositionSize: new Big(riskOverrides.maxPositionSize ?? maxPositionSize)
+    }
+  };
+}
+
 /**
- * Strategy Registry for managing and accessing trading strategies
+ * Strategy Registry for managing strategy types and their per-pool deployments
  */
 export class StrategyRegistry {
-  private strategies: Map<string, Strategy> = new Map();
+  private factories: Map<string, StrategyFactory> = new Map();
+  private typeInfo: Map<string, StrategyTypeInfo> = new Map();
+  private deployments: Map<string, StrategyDeployment> = new Map();
+  private executor: ExecutionPort | null = null;
 
   /**
-   * Register a new strategy
+   * Register a strategy type that deployments can be created from
    */
-  register(strategy: Strategy): void {
+  registerType(factory: StrategyFactory): void {
     try {
-      if (this.strategies.has(strategy.name)) {
-        logger.warn(`Strategy ${strategy.name} is already registered. Overwriting.`);
+      const prototype = factory();
+      if (this.factories.has(prototype.name)) {
+        logger.warn(`Strategy type ${prototype.name} is already registered. Overwriting.`);
       }
-      
-      this.strategies.set(strategy.name, strategy);
-      logger.info(`Strategy registered: ${strategy.name}`);
+
+      this.factories.set(prototype.name, factory);
+      this.typeInfo.set(prototype.name, {
+        name: prototype.name,
+        description: prototype.description,
+        riskLevel: prototype.riskLevel
+      });
+      logger.info(`Strategy type registered: ${prototype.name}`);
     } catch (error) {
-      logger.error(`Failed to register strategy ${strategy.name}: ${getErrorMessage(error)}`);
+      logger.error(`Failed to register strategy type: ${getErrorMessage(error)}`);
       throw error;
     }
   }
 
   /**
-   * Get a strategy by name
+   * Check if a strategy type is registered
+   */
+  hasType(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  /**
+   * List all registered strategy types
+   */
+  listTypes(): StrategyTypeInfo[] {
+    return Array.from(this.typeInfo.values());
+  }
+
+  /**
+   * Create a fresh, uninitialized instance of a strategy type
    */
-  get(name: string): Strategy {
-    const strategy = this.strategies.get(name);
-    if (!strategy) {
+  createInstance(name: string): Strategy {
+    const factory = this.factories.get(name);
+    if (!factory) {
       throw new Error(`Strategy not found: ${name}`);
     }
-    return strategy;
+    return factory();
   }
 
   /**
-   * Check if a strategy is registered
+   * Set the execution port handed to every deployment on start
    */
-  has(name: string): boolean {
-    return this.strategies.has(name);
+  setExecutionPort(executor: ExecutionPort): void {
+    this.executor = executor;
   }
 
   /**
-   * List all registered strategy names
+   * Create a deployment from a strategy type and start it
    */
-  list(): string[] {
-    return Array.from(this.strategies.keys());
+  async deploy(definition: DeploymentDefinition): Promise<StrategyDeployment> {
+    const strategy = this.createInstance(definition.strategy);
+
+    if (this.deployments.has(definition.id)) {
+      throw new Error(`Strategy deployment already exists: ${definition.id}`);
+    }
+
+    const now = new Date();
+    const deployment: StrategyDeployment = {
+      id: definition.id,
+      strategyType: definition.strategy,
+      poolAddress: definition.poolAddress,
+      parameters: definition.parameters || {},
+      status: DeploymentStatus.STOPPED,
+      strategy,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.deployments.set(deployment.id, deployment);
+    logger.info(`Strategy deployment created: ${deployment.id}`, {
+      strategy: deployment.strategyType,
+      poolAddress: deployment.poolAddress
+    });
+
+    await this.start(deployment.id);
+    return deployment;
   }
 
   /**
-   * Get all registered strategies
+   * Initialize a deployment's strategy so it takes part in the strategy loop
    */
-  getAll(): Strategy[] {
-    return Array.from(this.strategies.values());
+  async start(id: string): Promise<StrategyDeployment> {
+    const deployment = this.getDeployment(id);
+    if (deployment.status === DeploymentStatus.RUNNING) {
+      return deployment;
+    }
+
+    if (!this.executor) {
+      throw new Error('Execution port not configured');
+    }
+
+    try {
+      await deployment.strategy.initialize(
+        buildStrategyConfig({
+          id: deployment.id,
+          strategy: deployment.strategyType,
+          poolAddress: deployment.poolAddress,
+          parameters: deployment.parameters
+        }),
+        this.executor
+      );
+      deployment.status = DeploymentStatus.RUNNING;
+      deployment.lastError = undefined;
+      logger.info(`Strategy deployment started: ${id}`);
+    } catch (error) {
+      deployment.status = DeploymentStatus.ERROR;
+      deployment.lastError = getErrorMessage(error);
+      logger.error(`Failed to start strategy deployment ${id}: ${getErrorMessage(error)}`);
+      throw error;
+    } finally {
+      deployment.updatedAt = new Date();
+    }
+
+    return deployment;
   }
 
   /**
-   * Unregister a strategy
+   * Stop a deployment without affecting any other deployment
    */
-  unregister(name: string): boolean {
-    const removed = this.strategies.delete(name);
-    if (removed) {
-      logger.info(`Strategy unregistered: ${name}`);
+  async stop(id: string): Promise<StrategyDeployment> {
+    const deployment = this.getDeployment(id);
+    if (deployment.status === DeploymentStatus.STOPPED) {
+      return deployment;
+    }
+
+    try {
+      if (deployment.strategy.isActive) {
+        await deployment.strategy.cleanup();
+      }
+      deployment.status = DeploymentStatus.STOPPED;
+      logger.info(`Strategy deployment stopped: ${id}`);
+    } catch (error) {
+      deployment.status = DeploymentStatus.ERROR;
+      deployment.lastError = getErrorMessage(error);
+      logger.error(`Failed to stop strategy deployment ${id}: ${getErrorMessage(error)}`);
+      throw error;
+    } finally {
+      deployment.updatedAt = new Date();
+    }
+
+    return deployment;
+  }
+
+  /**
+   * Replace a deployment's parameters, restarting it if it was running
+   */
+  async reconfigure(id: string, parameters: Record<string, any>): Promise<StrategyDeployment> {
+    const deployment = this.getDeployment(id);
+    const wasRunning = deployment.status === DeploymentStatus.RUNNING;
+
+    if (wasRunning) {
+      await this.stop(id);
     }
-    return removed;
+
+    deployment.parameters = { ...deployment.parameters, ...parameters };
+    deployment.updatedAt = new Date();
+    logger.info(`Strategy deployment reconfigured: ${id}`, { parameters: deployment.parameters });
+
+    if (wasRunning) {
+      await this.start(id);
+    }
+
+    return deployment;
+  }
+
+  /**
+   * Stop and remove a deployment
+   */
+  async remove(id: string): Promise<boolean> {
+    if (!this.deployments.has(id)) {
+      return false;
+    }
+
+    await this.stop(id);
+    this.deployments.delete(id);
+    logger.info(`Strategy deployment removed: ${id}`);
+    return true;
+  }
+
+  /**
+   * Get a deployment's strategy by deployment ID
+   */
+  get(id: string): Strategy {
+    return this.getDeployment(id).strategy;
+  }
+
+  /**
+   * Get a deployment by ID
+   */
+  getDeployment(id: string): StrategyDeployment {
+    const deployment = this.deployments.get(id);
+    if (!deployment) {
+      throw new Error(`Strategy not found: ${id}`);
+    }
+    return deployment;
+  }
+
+  /**
+   * Check if a deployment exists
+   */
+  has(id: string): boolean {
+    return this.deployments.has(id);
+  }
+
+  /**
+   * List all deployment IDs
+   */
+  list(): string[] {
+    return Array.from(this.deployments.keys());
+  }
+
+  /**
+   * Get all deployments
+   */
+  getDeployments(): StrategyDeployment[] {
+    return Array.from(this.deployments.values());
+  }
+
+  /**
+   * Get deployments currently taking part in the strategy loop
+   */
+  getRunning(): StrategyDeployment[] {
+    return this.getDeployments().filter(
+      deployment => deployment.status === DeploymentStatus.RUNNING && deployment.strategy.isActive
+    );
+  }
+
+  /**
+   * Get deployments bound to a pool
+   */
+  getByPool(poolAddress: string): StrategyDeployment[] {
+    return this.getDeployments().filter(deployment => deployment.poolAddress === poolAddress);
+  }
+
+  /**
+   * Get the strategies of all deployments
+   */
+  getAll(): Strategy[] {
+    return this.getDeployments().map(deployment => deployment.strategy);
   }
 
   /**
-   * Clear all registered strategies
+   * Clear all strategy types and deployments
    */
   clear(): void {
-    this.strategies.clear();
+    this.factories.clear();
+    this.typeInfo.clear();
+    this.deployments.clear();
     logger.info('All strategies cleared from registry');
   }
 
   /**
-   * Get strategies by risk level
+   * Get deployments by risk level
    */
-  getByRiskLevel(riskLevel: string): Strategy[] {
-    return Array.from(this.strategies.values()).filter(
-      strategy => strategy.riskLevel === riskLevel
+  getByRiskLevel(riskLevel: string): StrategyDeployment[] {
+    return this.getDeployments().filter(
+      deployment => deployment.strategy.riskLevel === riskLevel
     );
   }
 
   /**
-   * Get strategy count
+   * Get deployment count
    */
   count(): number {
-    return this.strategies.size;
+    return this.deployments.size;
   }
 }
 
 // Export singleton instance
-export const strategyRegistry = new StrategyRegistry();
\ No newline at end of file
+export const strategyRegistry = new StrategyRegistry();
@@ -6,6 +6,10 @@ export interface BotConfig {
   solana: {
     rpcUrl: string;
     privateKey: string;
+    priorityFee: PriorityFeeConfig;
+    computeUnitMargin: number; // Headroom over simulated compute units, e.g. 0.1 for 10%
+    maxSendAttempts: number; // Fresh blockhashes tried before a send gives up
+    useLookupTables: boolean; // Pack multi-transaction operations into v0 transactions over per-pool lookup tables
   };
   database: {
     url: string;
@@ -17,12 +21,22 @@ export interface BotConfig {
   bot: {
     maxPortfolioSize: number;
     maxPositionSize: number;
+    maxPoolExposure: number; // Value held across positions in one pool
+    maxTokenExposure: number; // Value held in one token across all pools
+    maxOpenPositions: number;
+    strategyLoopInterval: number;
+    executionMode: ExecutionMode;
+    autoSwapEnabled: boolean; // Swap through the pool to reach a deposit's X/Y mix
+    reconciliationInterval: number;
+    reconciliationTolerance: number; // Relative value drift tolerated before alerting
   };
   risk: {
     ilWarningThreshold: number;
     ilActionThreshold: number;
     ilCriticalThreshold: number;
     ilEmergencyThreshold: number;
+    ilActionCooldown: number; // Milliseconds before the IL policy repeats a response at the same tier
+    ilWithdrawPercentage: number; // Share of a position withdrawn at the critical IL tier
     maxVolatilityThreshold: number;
     maxDrawdownThreshold: number;
   };
@@ -30,6 +44,9 @@ export interface BotConfig {
     balancedLiquidityEnabled: boolean;
     dcaStrategyEnabled: boolean;
     marketMakingEnabled: boolean;
+    balancedMinRangeBins: number; // Caps on the volatility-adaptive range, in bins per side
+    balancedMaxRangeBins: number;
+    deployments: DeploymentDefinition[];
   };
   monitoring: {
     enableAlerts: boolean;
@@ -127,6 +144,16 @@ export interface BinArrayState {
   };
 }
 
+// Liquidity held in a single bin, amounts in token units and value in token Y
+export interface BinLiquidity {
+  binId: number;
+  priceX: Big;
+  supplyX: Big;
+  supplyY: Big;
+  liquidity: Big;
+  isActive: boolean;
+}
+
 // Updated metrics to match SDK data
 export interface PoolMetrics {
   volume24h: Big;
@@ -134,6 +161,7 @@ export interface PoolMetrics {
   tvl: Big;
   apr: number;
   volatility: number;
+  dynamicFee?: number; // Current dynamic fee rate in percent, when the pool state is available
   binUtilization: number;
   liquidityDistribution: {
     concentrationIndex: number;
@@ -158,11 +186,21 @@ export interface Position {
   realizedPnl: Big;
   feesCollected: Big;
   impermanentLoss: Big;
+  strategyType?: number; // The SDK StrategyType the liquidity was deposited with
+  entryBins?: BinAmounts[]; // Composition deposited, the benchmark for impermanent loss
+  entryActiveBinId?: number;
   createdAt: Date;
   updatedAt: Date;
   lastRebalance?: Date;
 }
 
+// Token amounts, in token units, a position holds in one bin
+export interface BinAmounts {
+  binId: number;
+  amountX: Big;
+  amountY: Big;
+}
+
 export enum PositionStatus {
   ACTIVE = 'active',
   CLOSED = 'closed',
@@ -170,19 +208,68 @@ export enum PositionStatus {
   ERROR = 'error'
 }
 
+// Execution mode: live sends transactions, paper simulates fills against live pool state
+export enum ExecutionMode {
+  LIVE = 'live',
+  PAPER = 'paper'
+}
+
+// How the compute unit price of a transaction is chosen
+export enum PriorityFeePolicy {
+  FIXED = 'fixed', // Always microLamports
+  PERCENTILE = 'percentile', // Percentile of recent prioritization fees on the transaction's writable accounts
+  CAPPED = 'capped' // Percentile, but never above maxMicroLamports
+}
+
+export interface PriorityFeeConfig {
+  policy: PriorityFeePolicy;
+  microLamports: number; // Per compute unit; the fixed price and the floor for the other policies
+  percentile: number;
+  maxMicroLamports: number;
+  escalation: number; // Price multiplier for each resubmission after a blockhash expires
+}
+
+export interface SendRetryOptions {
+  label: string;
+  maxAttempts: number;
+  // Runs before each signing, e.g. to raise the priority fee on a resubmission
+  beforeAttempt?: (attempt: number) => void;
+}
+
+// Token amounts a paper position holds in a single bin
+export interface PaperBinHolding {
+  binId: number;
+  amountX: Big;
+  amountY: Big;
+}
+
+export interface PaperPosition extends Position {
+  bins: PaperBinHolding[];
+  lastFeeAccrual: Date;
+}
+
 // Strategy Framework
 export interface Strategy {
   name: string;
   description: string;
   riskLevel: RiskLevel;
-  initialize(config: StrategyConfig): Promise<void>;
+  readonly isActive: boolean;
+  readonly placesLimitOrders?: boolean; // Positions are meant to convert fully, so the IL policy leaves them alone and cycles carry its executions
+  initialize(config: StrategyConfig, executor: ExecutionPort): Promise<void>;
   analyze(marketData: MarketData): Promise<StrategyAction[]>;
   execute(action: StrategyAction): Promise<ExecutionResult>;
   cleanup(): Promise<void>;
+  getState(): Record<string, any>;
+}
+
+// Port through which strategies submit actions for on-chain execution
+export interface ExecutionPort {
+  executeAction(action: StrategyAction): Promise<ExecutionResult>;
 }
 
 export interface StrategyConfig {
   poolAddress: string;
+  deploymentId?: string;
   maxPositionSize: Big;
   riskParameters: RiskParameters;
   [key: string]: any;
@@ -193,7 +280,7 @@ export interface StrategyAction {
   poolAddress: string;
   parameters: ActionParameters;
   priority: number;
-  estimatedGas: number;
+  estimatedGas: number; // Compute units
   expectedReturn?: Big;
 }
 
@@ -203,11 +290,13 @@ export enum ActionType {
   REBALANCE = 'rebalance',
   COLLECT_FEES = 'collect_fees',
   ADJUST_RANGE = 'adjust_range',
+  REMOVE_LIQUIDITY = 'remove_liquidity', // Partial withdrawal: { positionId, percentage }
   EMERGENCY_EXIT = 'emergency_exit'
 }
 
 export interface ActionParameters {
   positionId?: string;
+  deploymentId?: string;
   binRange?: [number, number];
   liquidityAmount?: Big;
   slippage?: number;
@@ -218,9 +307,127 @@ export interface ExecutionResult {
   success: boolean;
   transactionId?: string;
   error?: string;
-  gasUsed?: number;
+  gasUsed?: number; // Lamports paid in transaction and priority fees
   actualReturn?: Big;
   newPosition?: Position;
+  simulations?: TransactionSimulation[];
+  steps?: TransactionStep[]; // Per-transaction outcome of a multi-transaction operation
+  limitReason?: string; // Exposure limit that rejected or downsized the action
+  amountX?: Big; // Token amounts a withdrawal returned to the wallet, excluding fees
+  amountY?: Big;
+}
+
+export enum TransactionStepStatus {
+  LANDED = 'landed',
+  FAILED = 'failed',
+  NOT_SENT = 'not_sent'
+}
+
+export interface TransactionStep {
+  label: string;
+  status: TransactionStepStatus;
+  signature?: string;
+  error?: string;
+}
+
+// Predicted change of one wallet token account, in token units (negative when spent)
+export interface TokenBalanceChange {
+  mint: string;
+  change: Big;
+}
+
+// Pre-send simulation of one transaction
+export interface TransactionSimulation {
+  label: string;
+  unitsConsumed?: number;
+  logs: string[];
+  balanceChanges: TokenBalanceChange[];
+}
+
+// Strategy deployments (one strategy instance bound to a pool and parameters)
+export interface DeploymentDefinition {
+  id: string;
+  strategy: string;
+  poolAddress: string;
+  parameters?: Record<string, any>;
+}
+
+export enum DeploymentStatus {
+  RUNNING = 'running',
+  STOPPED = 'stopped',
+  ERROR = 'error'
+}
+
+export interface StrategyDeployment {
+  id: string;
+  strategyType: string;
+  poolAddress: string;
+  parameters: Record<string, any>;
+  status: DeploymentStatus;
+  strategy: Strategy;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Strategy orchestration
+export interface PlannedAction {
+  action: StrategyAction;
+  deployment: StrategyDeployment;
+  sources: string[]; // IDs of every deployment, or the IL policy, that proposed an equivalent action
+}
+
+export interface StrategyCycleResult {
+  startedAt: Date;
+  completedAt: Date;
+  strategiesAnalyzed: number;
+  strategiesFailed: string[];
+  actionsProposed: number;
+  actionsExecuted: number;
+  actionsSucceeded: number;
+}
+
+// Durable multi-step workflows (e.g. rebalance = close then create)
+export enum WorkflowStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export enum WorkflowStepStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export interface WorkflowStep {
+  name: string;
+  idempotencyKey: string; // Stable per workflow and step, passed to the side effect
+  status: WorkflowStepStatus;
+  result?: Record<string, any>;
+  error?: string;
+  attempts: number;
+  completedAt?: Date;
+}
+
+export interface Workflow {
+  id: string;
+  type: string;
+  idempotencyKey: string;
+  status: WorkflowStatus;
+  input: Record<string, any>;
+  steps: WorkflowStep[];
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkflowDefinition {
+  plan(input: Record<string, any>): string[]; // Step names, in execution order
+  // Must be safe to call again for a step that was RUNNING when the process died
+  runStep(workflow: Workflow, step: WorkflowStep): Promise<Record<string, any>>;
+  continueOnError?: boolean; // Run the remaining steps even when one fails
 }
 
 export enum RiskLevel {
@@ -252,12 +459,54 @@ export interface RiskMetrics {
   riskScore: number; // 0-100
 }
 
+export interface PositionRisk {
+  positionId: string;
+  poolAddress: string;
+  value: Big; // In Y at the current price
+  pnl: Big;
+  impermanentLoss: Big; // Value lost against holding the tokens deposited at entry
+  impermanentLossRatio: number;
+  feesEarned: Big; // Fees collected, which offset the impermanent loss
+  netPnl: Big; // Against holding: fees earned less the impermanent loss
+  inRange: boolean;
+  riskLevel: RiskLevel;
+}
+
+export interface PoolRisk {
+  poolAddress: string;
+  positions: number;
+  value: Big;
+  share: number; // Of portfolio value
+  volatility: number;
+  liquidityRisk: number; // 0-1
+  impermanentLoss: Big;
+}
+
+// Contribution of each factor to the risk score, 0-100 each before weighting
+export interface RiskFactors {
+  impermanentLoss: number;
+  drawdown: number;
+  volatility: number;
+  concentration: number;
+  liquidity: number;
+}
+
+export interface RiskReport {
+  metrics: RiskMetrics;
+  level: RiskLevel;
+  factors: RiskFactors;
+  positions: PositionRisk[];
+  pools: PoolRisk[];
+  evaluatedAt: Date;
+}
+
 export interface RiskAlert {
   level: AlertLevel;
   type: AlertType;
   message: string;
   positionId?: string;
   poolAddress?: string;
+  details?: Record<string, any>; // Values that triggered the alert
   timestamp: Date;
   acknowledged: boolean;
 }
@@ -275,7 +524,86 @@ export enum AlertType {
   VOLATILITY = 'volatility',
   LIQUIDITY = 'liquidity',
   DRAWDOWN = 'drawdown',
-  SYSTEM_ERROR = 'system_error'
+  SYSTEM_ERROR = 'system_error',
+  RECONCILIATION = 'reconciliation',
+  WORKFLOW = 'workflow' // A multi-transaction operation stopped partway, e.g. a rebalance that closed but did not reopen
+}
+
+// Escalating responses of the impermanent loss policy, in order of severity
+export enum ILPolicyTier {
+  NONE = 'none',
+  WARNING = 'warning', // Alert only
+  ACTION = 'action', // Recenter the range on the active bin
+  CRITICAL = 'critical', // Withdraw part of the position
+  EMERGENCY = 'emergency' // Exit the position
+}
+
+export interface ILPolicyDecision {
+  positionId: string;
+  poolAddress: string;
+  tier: ILPolicyTier;
+  impermanentLossRatio: number;
+  threshold: number; // Threshold of the tier that was crossed
+  entryPrice: Big;
+  currentPrice: Big;
+  action?: StrategyAction;
+  cooldownUntil: Date;
+}
+
+// Global trading halt set by an emergency stop; only exits run until it is reset
+export interface EmergencyHalt {
+  id?: string;
+  reason: string;
+  haltedAt: Date;
+  resetAt?: Date;
+  resetReason?: string;
+}
+
+export interface EmergencyExitOutcome {
+  positionId: string;
+  poolAddress: string;
+  success: boolean;
+  transactionId?: string;
+  error?: string;
+}
+
+// Reconciliation of recorded positions against the wallet's on-chain positions
+export enum DiscrepancyType {
+  ORPHAN = 'orphan', // On-chain but not recorded
+  GHOST = 'ghost', // Recorded as active but gone on-chain
+  BIN_RANGE = 'bin_range',
+  LIQUIDITY = 'liquidity'
+}
+
+export interface PositionDiscrepancy {
+  type: DiscrepancyType;
+  poolAddress: string;
+  positionId: string;
+  message: string;
+  repaired: boolean;
+}
+
+export interface ReconciliationReport {
+  startedAt: Date;
+  completedAt: Date;
+  poolsChecked: number;
+  positionsChecked: number;
+  discrepancies: PositionDiscrepancy[];
+  failedPools: { poolAddress: string; error: string }[];
+}
+
+// A wallet position the bot has not recorded, as reconstructed from on-chain data
+export interface AdoptionCandidate {
+  positionId: string;
+  poolAddress: string;
+  lowerBinId: number;
+  upperBinId: number;
+  amountX: Big;
+  amountY: Big;
+  value: Big; // In Y at the current price
+  estimatedEntryPrice: Big;
+  currentPrice: Big;
+  suggestedDeploymentId?: string; // The pool's only deployment, when it has exactly one
 }
 
 // Market Analysis
@@ -283,6 +611,8 @@ export interface MarketData {
   pools: PoolData[];
   trends: MarketTrend[];
   opportunities: TradingOpportunity[];
+  positions?: Position[]; // Open positions in the pools being traded, attached by the orchestrator
+  executions?: DbActionExecution[]; // Past actions of limit-order deployments, from which their fills are rebuilt
   timestamp: Date;
 }
 
@@ -337,6 +667,38 @@ export interface PerformanceMetrics {
   };
 }
 
+// Backtesting
+export interface BacktestRequest {
+  strategy: string;
+  poolAddress: string;
+  timeframe: TimeFrame;
+  startTime: Date;
+  endTime: Date;
+  initialCapital: number;
+  parameters?: Record<string, any>;
+  binStep?: number;          // Inferred from the price series when omitted
+  transactionCost?: number;  // Cost of each executed transaction, in token Y
+  activeBinShare?: number;   // Share of pool liquidity assumed to sit in the active bin
+}
+
+export interface BacktestReport {
+  strategy: string;
+  poolAddress: string;
+  timeframe: TimeFrame;
+  parameters: Record<string, any>;
+  initialCapital: Big;
+  finalValue: Big;
+  dataPoints: number;
+  rebalances: number;
+  rebalancingCosts: Big;
+  actionsExecuted: Record<string, number>;
+  metrics: PerformanceMetrics;
+  equityCurve: {
+    timestamp: Date;
+    value: Big;
+  }[];
+}
+
 // API Types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -384,17 +746,46 @@ export interface DbPosition {
 }
 
 export interface DbTransaction {
-  id: string;
+  id?: string;
   positionId: string;
   type: string;
-  amount: string;
+  amount: string; // Quote value
+  amountX?: string; // Token amounts, when the transaction moved both sides (e.g. fee claims)
+  amountY?: string;
   price: string;
   fees: string;
   gasUsed: number;
   transactionId: string;
+  relatedTransactionId?: string; // Transaction this one follows from (e.g. the claim a compound reinvests)
+  timestamp: Date;
+}
+
+export interface DbPaperTransaction {
+  id?: string;
+  positionId: string;
+  type: string;
+  amount: string;
+  price: string;
+  fees: string;
+  transactionId: string;
+  relatedTransactionId?: string;
   timestamp: Date;
 }
 
+export interface DbActionExecution {
+  id?: string;
+  deploymentId: string;
+  actionType: string;
+  poolAddress: string;
+  positionId?: string;
+  priority: number;
+  parameters: string;
+  success: boolean;
+  transactionId?: string;
+  error?: string;
+  executedAt: Date;
+}
+
 export interface DbPerformance {
   id: string;
   date: Date;
@@ -429,6 +820,25 @@ export interface PoolHistoricalData {
   weekly: HistoricalDataPoint[];
 }
 
+export interface FeeInfo {
+  baseFactor: number;
+  maxVolatilityFactor: number;
+  maxFee: number;
+  protocolShare: number;
+  totalFeesBps: Big;
+  volatilityFee: Big;
+  protocolFees: Big;
+  lastFeeUpdate: Date;
+}
+
+export interface BinMetrics {
+  utilization: number;
+  timeInRange: number;
+  volumeShare: number;
+  liquidityConcentration: number;
+  lastTransition: Date;
+}
+
 // Utility Types
 export type Awaitable<T> = T | Promise<T>;
 export type Optional<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
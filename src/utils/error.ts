@@ -1,3 +1,30 @@
+import { TransactionStep } from '../types';
+
+/**
+ * Raised when a multi-transaction operation stops part way; steps records
+ * which transactions landed, which failed and which were never sent
+ */
+export class TransactionSequenceError extends Error {
+  readonly steps: TransactionStep[];
+
+  constructor(message: string, steps: TransactionStep[]) {
+    super(message);
+    this.name = 'TransactionSequenceError';
+    this.steps = steps;
+  }
+}
+
+/**
+ * Raised when a transaction landed but failed on-chain, so resending it
+ * would only fail again
+ */
+export class TransactionFailedError extends Error {
+  constructor(err: unknown) {
+    super(`Transaction failed: ${JSON.stringify(err)}`);
+    this.name = 'TransactionFailedError';
+  }
+}
+
 /**
  * Utility function to safely extract error messages from unknown error types
  */
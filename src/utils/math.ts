@@ -203,6 +203,20 @@ export const calculateMaxDrawdown = (values: Big[]): Big => {
   return maxDrawdown;
 };
 
+// Inverse of the standard normal CDF (Abramowitz & Stegun 26.2.23, error < 4.5e-4)
+export const normalQuantile = (probability: number): number => {
+  if (probability <= 0 || probability >= 1) {
+    throw new Error('Probability must be between 0 and 1');
+  }
+
+  const p = probability < 0.5 ? probability : 1 - probability;
+  const t = Math.sqrt(-2 * Math.log(p));
+  const z = t - (2.515517 + 0.802853 * t + 0.010328 * t * t) /
+    (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+
+  return probability < 0.5 ? -z : z;
+};
+
 // Liquidity calculations
 export const calculateLiquidityValue = (
   liquidityX: Big,
@@ -213,7 +227,7 @@ export const calculateLiquidityValue = (
   return add(multiply(liquidityX, priceX), multiply(liquidityY, priceY));
 };
 
-// Impermanent Loss calculation
+// Impermanent Loss calculation (full-range constant product; see calculateDivergenceLoss for DLMM bin ranges)
 export const calculateImpermanentLoss = (
   initialPriceRatio: Big,
   currentPriceRatio: Big
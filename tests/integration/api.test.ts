@@ -1,5 +1,9 @@
 import request from 'supertest';
 import { ApiServer } from '../../src/api';
+import { strategyRegistry } from '../../src/strategies/registry';
+import { RiskService } from '../../src/services/risk';
+import { ILPolicyService } from '../../src/services/il-policy';
+import { ExecutionMode, RiskLevel, Strategy } from '../../src/types';
 
 // Mock the config module
 jest.mock('../../src/config', () => ({
@@ -164,15 +168,41 @@ describe('API Integration Tests', () => {
       expect(response.body.data.totalIL).toBeDefined();
     });
 
-    it('should handle emergency stop', async () => {
+    it('should refuse an emergency stop without a bot to halt', async () => {
       const response = await request(app)
         .post('/api/risk/emergency/stop')
         .set('x-api-key', 'test-secret')
         .send({ reason: 'Test emergency stop' })
-        .expect(200);
+        .expect(503);
 
-      expect(response.body.success).toBe(true);
-      expect(response.body.message).toBe('Emergency stop initiated');
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Emergency controls are not available');
+    });
+
+    it('should refuse to update risk parameters without a bot to apply them to', async () => {
+      const response = await request(app)
+        .put('/api/risk/parameters')
+        .set('x-api-key', 'test-secret')
+        .send({ parameters: { maxDrawdownThreshold: 0.3 } })
+        .expect(503);
+
+      expect(response.body.error).toBe('Risk controls are not available');
+    });
+
+    it('should require a reason and confirmation to reset the emergency halt', async () => {
+      const withoutReason = await request(app)
+        .post('/api/risk/emergency/reset')
+        .set('x-api-key', 'test-secret')
+        .send({ confirm: true })
+        .expect(400);
+      expect(withoutReason.body.error).toBe('A reason is required to reset the emergency halt');
+
+      const unconfirmed = await request(app)
+        .post('/api/risk/emergency/reset')
+        .set('x-api-key', 'test-secret')
+        .send({ reason: 'Incident resolved' })
+        .expect(400);
+      expect(unconfirmed.body.error).toBe('Resetting the emergency halt requires confirm: true');
     });
   });
 
@@ -251,4 +281,116 @@ describe('API Integration Tests', () => {
       expect(response.body.error).toContain('required');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Strategy Deployment Endpoints', () => {
+  const trackedPools = new Set<string>();
+  const marketDataService = {
+    getDLMMInstance: jest.fn((poolAddress: string) => (trackedPools.has(poolAddress) ? {} : undefined)),
+    addPool: jest.fn(async (poolAddress: string) => {
+      trackedPools.add(poolAddress);
+    })
+  };
+  // Starting a deployment fails unless its pool is already tracked
+  const createStrategy = (): Strategy => {
+    let poolAddress = '';
+    return {
+      name: 'test_strategy',
+      description: 'Test strategy',
+      riskLevel: RiskLevel.LOW,
+      isActive: true,
+      initialize: async strategyConfig => {
+        if (!trackedPools.has(strategyConfig.poolAddress)) {
+          throw new Error(`Pool not tracked: ${strategyConfig.poolAddress}`);
+        }
+        poolAddress = strategyConfig.poolAddress;
+      },
+      analyze: async () => [],
+      execute: async () => ({ success: true }),
+      cleanup: async () => undefined,
+      getState: () => ({ poolAddress, orders: 2 })
+    };
+  };
+  let apiServer: ApiServer;
+
+  beforeAll(() => {
+    strategyRegistry.registerType(createStrategy);
+    strategyRegistry.setExecutionPort({ executeAction: jest.fn() });
+    apiServer = new ApiServer({ marketDataService } as any);
+  });
+
+  afterAll(async () => {
+    strategyRegistry.clear();
+    await apiServer.stop();
+  });
+
+  it('should track the pool before starting an activated deployment', async () => {
+    const response = await request(apiServer.getApp())
+      .post('/api/strategies/activate')
+      .set('x-api-key', 'test-secret')
+      .send({ strategy: 'test_strategy', poolAddress: 'pool_1', parameters: { maxPositionSize: 1000 } })
+      .expect(200);
+
+    expect(marketDataService.addPool).toHaveBeenCalledWith('pool_1');
+    expect(response.body.data).toMatchObject({ id: 'test_strategy:pool_1', status: 'running' });
+  });
+
+  it('should list deployments with their runtime state', async () => {
+    const app = apiServer.getApp();
+
+    const deployments = await request(app).get('/api/strategies/deployments').set('x-api-key', 'test-secret').expect(200);
+    const strategies = await request(app).get('/api/strategies').set('x-api-key', 'test-secret').expect(200);
+
+    const expected = { id: 'test_strategy:pool_1', state: { poolAddress: 'pool_1', orders: 2 } };
+    expect(deployments.body.data).toEqual([expect.objectContaining(expected)]);
+    expect(strategies.body.data).toEqual([
+      expect.objectContaining({ name: 'test_strategy', deployments: [expect.objectContaining(expected)] })
+    ]);
+  });
+});
+
+describe('Risk Parameter Endpoints', () => {
+  const thresholds = { ilWarningThreshold: 0.02, ilActionThreshold: 0.05, ilCriticalThreshold: 0.1, ilEmergencyThreshold: 0.2 };
+  let riskService: RiskService;
+  let ilPolicyService: ILPolicyService;
+  let apiServer: ApiServer;
+
+  beforeEach(() => {
+    riskService = new RiskService({} as any, {} as any, {
+      ...thresholds,
+      maxVolatilityThreshold: 0.5,
+      maxDrawdownThreshold: 0.2,
+      minLiquidityUsd: 10000
+    }, ExecutionMode.LIVE);
+    ilPolicyService = new ILPolicyService({} as any, { ...thresholds, ilActionCooldown: 3600000, ilWithdrawPercentage: 50 });
+    apiServer = new ApiServer({ riskService, ilPolicyService } as any);
+  });
+
+  afterEach(async () => {
+    await apiServer.stop();
+  });
+
+  const update = (parameters: Record<string, any>) => request(apiServer.getApp())
+    .put('/api/risk/parameters')
+    .set('x-api-key', 'test-secret')
+    .send({ parameters });
+
+  it('should apply each parameter to the service that reads it', async () => {
+    const response = await update({ ilActionThreshold: 0.04, maxDrawdownThreshold: 0.3, ilWithdrawPercentage: 25 }).expect(200);
+
+    expect(riskService.getSettings()).toMatchObject({ ilActionThreshold: 0.04, maxDrawdownThreshold: 0.3 });
+    expect(riskService.getSettings()).not.toHaveProperty('ilWithdrawPercentage');
+    expect(ilPolicyService.getSettings()).toMatchObject({ ilActionThreshold: 0.04, ilWithdrawPercentage: 25 });
+    expect(response.body.data.parameters).toMatchObject({ ilActionThreshold: 0.04, maxDrawdownThreshold: 0.3, ilWithdrawPercentage: 25 });
+  });
+
+  it('should reject unknown, out of range and misordered parameters unchanged', async () => {
+    expect((await update({ maxLeverage: 3 }).expect(400)).body.error).toContain('"maxLeverage" is not allowed');
+    expect((await update({ ilWithdrawPercentage: 100 }).expect(400)).body.error).toContain('ilWithdrawPercentage');
+    expect((await update({ ilCriticalThreshold: 0.3 }).expect(400)).body.error)
+      .toBe('IL thresholds must increase from warning to action, critical and emergency');
+
+    expect(riskService.getSettings().ilCriticalThreshold).toBe(0.1);
+    expect(ilPolicyService.getSettings().ilWithdrawPercentage).toBe(50);
+  });
+});
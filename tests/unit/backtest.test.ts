@@ -0,0 +1,192 @@
+import Big from 'big.js';
+import { BacktestService, inferBinStep } from '../../src/services/backtest';
+import { StrategyRegistry } from '../../src/strategies/registry';
+import {
+  ActionType,
+  BacktestRequest,
+  ExecutionPort,
+  HistoricalDataPoint,
+  MarketData,
+  RiskLevel,
+  Strategy,
+  TimeFrame
+} from '../../src/types';
+
+const POOL = 'pool_1';
+const HOUR_MS = 60 * 60 * 1000;
+
+const createPoint = (hour: number, binId: number, fees = 10): HistoricalDataPoint => ({
+  timestamp: new Date(Date.UTC(2024, 0, 1) + hour * HOUR_MS),
+  price: new Big(100).mul(new Big(1.01).pow(binId - 100)),
+  volume: new Big(fees * 1000),
+  fees: new Big(fees),
+  liquidityX: new Big(10),
+  liquidityY: new Big(1000),
+  binId
+});
+
+// Opens one position around the first active bin and holds it
+const createHoldStrategy = (): Strategy => {
+  let executor: ExecutionPort;
+  let opened = false;
+
+  return {
+    name: 'hold',
+    description: 'Open once and hold',
+    riskLevel: RiskLevel.LOW,
+    isActive: true,
+    initialize: async (_config, port) => {
+      executor = port!;
+    },
+    analyze: async (marketData: MarketData) => {
+      if (opened) {
+        return [];
+      }
+      opened = true;
+      const { binId } = marketData.pools[0].activeBin;
+      return [{
+        type: ActionType.CREATE_POSITION,
+        poolAddress: POOL,
+        parameters: { liquidityAmount: new Big(1000), binRange: [binId - 2, binId + 2] },
+        priority: 50,
+        estimatedGas: 0
+      }];
+    },
+    execute: async action => executor.executeAction(action),
+    cleanup: jest.fn(),
+    getState: () => ({})
+  };
+};
+
+// Opens one position, then moves it once with the given action
+const createMoveStrategy = (type: ActionType.REBALANCE | ActionType.ADJUST_RANGE) => (): Strategy => {
+  let executor: ExecutionPort;
+  let positionId: string | undefined;
+  let moved = false;
+
+  return {
+    name: 'move',
+    description: 'Open once and move the range once',
+    riskLevel: RiskLevel.LOW,
+    isActive: true,
+    initialize: async (_config, port) => {
+      executor = port!;
+    },
+    analyze: async (marketData: MarketData) => {
+      const { binId } = marketData.pools[0].activeBin;
+      if (!positionId) {
+        return [{
+          type: ActionType.CREATE_POSITION,
+          poolAddress: POOL,
+          parameters: { liquidityAmount: new Big(1000), binRange: [binId - 2, binId + 2] },
+          priority: 50,
+          estimatedGas: 0
+        }];
+      }
+      if (moved) {
+        return [];
+      }
+      moved = true;
+      return [{
+        type,
+        poolAddress: POOL,
+        parameters: { positionId, binRange: [binId - 4, binId + 4] },
+        priority: 50,
+        estimatedGas: 0
+      }];
+    },
+    execute: async action => {
+      const result = await executor.executeAction(action);
+      positionId = result.newPosition?.id ?? positionId;
+      return result;
+    },
+    cleanup: jest.fn(),
+    getState: () => ({})
+  };
+};
+
+describe('BacktestService', () => {
+  let registry: StrategyRegistry;
+  let historicalDataService: any;
+  let service: BacktestService;
+
+  const request: BacktestRequest = {
+    strategy: 'hold',
+    poolAddress: POOL,
+    timeframe: TimeFrame.HOURLY,
+    startTime: new Date(Date.UTC(2024, 0, 1)),
+    endTime: new Date(Date.UTC(2024, 0, 2)),
+    initialCapital: 10000,
+    binStep: 100
+  };
+
+  beforeEach(() => {
+    registry = new StrategyRegistry();
+    registry.registerType(createHoldStrategy);
+    historicalDataService = {
+      getHistoricalData: jest.fn()
+    };
+    service = new BacktestService(historicalDataService, registry);
+  });
+
+  it('should reject unknown strategies', async () => {
+    await expect(service.run({ ...request, strategy: 'unknown' })).rejects.toThrow('Strategy not found: unknown');
+  });
+
+  it('should require at least two data points', async () => {
+    historicalDataService.getHistoricalData.mockResolvedValue([createPoint(0, 100)]);
+
+    await expect(service.run(request)).rejects.toThrow('Not enough historical data');
+  });
+
+  it('should earn fees while the price stays in range', async () => {
+    historicalDataService.getHistoricalData.mockResolvedValue([0, 1, 2, 3].map(hour => createPoint(hour, 100)));
+
+    const report = await service.run(request);
+
+    expect(report.dataPoints).toBe(4);
+    expect(report.actionsExecuted).toEqual({ [ActionType.CREATE_POSITION]: 1 });
+    expect(report.metrics.totalTrades).toBe(1);
+    expect(report.metrics.feesEarned.gt(0)).toBe(true);
+    expect(report.metrics.impermanentLoss.abs().lt(0.01)).toBe(true);
+    expect(report.metrics.netProfit.gt(0)).toBe(true);
+    expect(report.metrics.winRate).toBe(1);
+    expect(report.equityCurve).toHaveLength(4);
+  });
+
+  it('should report impermanent loss when the price falls through the range', async () => {
+    historicalDataService.getHistoricalData.mockResolvedValue(
+      [100, 99, 98, 97].map((binId, hour) => createPoint(hour, binId, 0))
+    );
+
+    const report = await service.run(request);
+
+    expect(report.metrics.impermanentLoss.gt(0)).toBe(true);
+    expect(report.metrics.netProfit.lt(0)).toBe(true);
+    expect(report.metrics.winRate).toBe(0);
+    expect(report.metrics.maxDrawdown).toBeGreaterThan(0);
+  });
+
+  it.each([ActionType.REBALANCE, ActionType.ADJUST_RANGE] as const)(
+    'should carry the value of a position through a %s',
+    async type => {
+      registry.registerType(createMoveStrategy(type));
+      historicalDataService.getHistoricalData.mockResolvedValue([0, 1, 2, 3].map(hour => createPoint(hour, 100, 0)));
+
+      const report = await service.run({ ...request, strategy: 'move', transactionCost: 5 });
+
+      expect(report.actionsExecuted).toEqual({ [ActionType.CREATE_POSITION]: 1, [type]: 1 });
+      expect(report.rebalances).toBe(1);
+      const [beforeMove, afterMove, ...rest] = report.equityCurve.map(point => point.value);
+      // A flat price without fees loses only the move's transaction costs, and the final exit's
+      expect(beforeMove.sub(afterMove).toFixed(6)).toBe(report.rebalancingCosts.toFixed(6));
+      expect(report.rebalancingCosts.lt(50)).toBe(true);
+      expect(rest.every(value => value.eq(afterMove))).toBe(true);
+      expect(report.finalValue.toFixed(6)).toBe(afterMove.sub(5).toFixed(6));
+    }
+  );
+
+  it('should infer the bin step from the price series', () => {
+    expect(inferBinStep([100, 100, 103].map((binId, hour) => createPoint(hour, binId)))).toBe(100);
+  });
+});
@@ -0,0 +1,66 @@
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import {
+  MAX_COMPUTE_UNITS,
+  escalatePriorityFee,
+  getComputeUnitLimit,
+  getPriorityFeeLamports,
+  getWritableAccounts,
+  selectPriorityFee
+} from '../../src/services/compute-budget';
+import { PriorityFeeConfig, PriorityFeePolicy } from '../../src/types';
+
+describe('compute budget', () => {
+  const settings: PriorityFeeConfig = {
+    policy: PriorityFeePolicy.PERCENTILE,
+    microLamports: 100,
+    percentile: 50,
+    maxMicroLamports: 3000,
+    escalation: 2
+  };
+  const recentFees = [0, 0, 1000, 4000, 8000];
+
+  describe('selectPriorityFee', () => {
+    it('should always use the configured price under the fixed policy', () => {
+      expect(selectPriorityFee(recentFees, { ...settings, policy: PriorityFeePolicy.FIXED })).toBe(100);
+    });
+
+    it('should take the percentile of recent fees', () => {
+      expect(selectPriorityFee(recentFees, settings)).toBe(1000);
+      expect(selectPriorityFee(recentFees, { ...settings, percentile: 100 })).toBe(8000);
+    });
+
+    it('should not go below the configured price', () => {
+      expect(selectPriorityFee(recentFees, { ...settings, percentile: 10 })).toBe(100);
+      expect(selectPriorityFee([], settings)).toBe(100);
+    });
+
+    it('should cap the percentile under the capped policy', () => {
+      expect(selectPriorityFee(recentFees, { ...settings, policy: PriorityFeePolicy.CAPPED, percentile: 80 })).toBe(3000);
+    });
+  });
+
+  it('should escalate the price per attempt, within the cap when capped', () => {
+    expect([1, 2, 3].map(attempt => escalatePriorityFee(1000, attempt, settings))).toEqual([1000, 2000, 4000]);
+    expect(escalatePriorityFee(1000, 3, { ...settings, policy: PriorityFeePolicy.CAPPED })).toBe(3000);
+  });
+
+  it('should add headroom to simulated units without exceeding the transaction maximum', () => {
+    expect(getComputeUnitLimit(200000, 0.1)).toBe(220000);
+    expect(getComputeUnitLimit(1300000, 0.2)).toBe(MAX_COMPUTE_UNITS);
+  });
+
+  it('should convert a compute unit price into lamports', () => {
+    expect(getPriorityFeeLamports(200000, 5000)).toBe(1000);
+    expect(getPriorityFeeLamports(1, 1)).toBe(1);
+  });
+
+  it('should list each writable account once', () => {
+    const from = Keypair.generate().publicKey;
+    const to = Keypair.generate().publicKey;
+    const transaction = new Transaction()
+      .add(SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports: 1 }))
+      .add(SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports: 2 }));
+
+    expect(getWritableAccounts(transaction.instructions)).toEqual([from, to]);
+  });
+});
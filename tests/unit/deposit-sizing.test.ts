@@ -0,0 +1,68 @@
+import Big from 'big.js';
+import { BN } from '@coral-xyz/anchor';
+import { StrategyType } from '@meteora-ag/dlmm';
+import { DepositSizingInput, sizeDeposit } from '../../src/services/deposit-sizing';
+
+// Bin 0 prices X at exactly 1 Y, so the UI and raw prices agree for equal decimals
+const input: DepositSizingInput = {
+  budget: new Big(1000),
+  price: new Big(1),
+  activeBinId: 0,
+  activeBinXAmount: new BN(0),
+  activeBinYAmount: new BN(0),
+  binStep: 100,
+  decimalsX: 6,
+  decimalsY: 6,
+  minBinId: -2,
+  maxBinId: 2,
+  strategyType: StrategyType.Spot
+};
+
+describe('sizeDeposit', () => {
+  it('should split a symmetric range across the active bin roughly evenly', () => {
+    const deposit = sizeDeposit(input);
+
+    expect(deposit.side).toBe('both');
+    expect(deposit.amountX.div(deposit.value).toNumber()).toBeCloseTo(0.5, 1);
+    expect(deposit.value.toFixed(2)).toBe('1000.00');
+    expect(deposit.totalXAmount.toString()).toBe(deposit.amountX.mul(1e6).toFixed(0));
+  });
+
+  it('should follow the active bin reserves', () => {
+    const xHeavy = sizeDeposit({ ...input, activeBinXAmount: new BN(300e6), activeBinYAmount: new BN(100e6) });
+    const yOnly = sizeDeposit({ ...input, activeBinYAmount: new BN(100e6) });
+
+    expect(xHeavy.amountX.gt(sizeDeposit(input).amountX)).toBe(true);
+    expect(yOnly.amountY.gt(sizeDeposit(input).amountY)).toBe(true);
+  });
+
+  it('should convert the budget at the active price for a range above the active bin', () => {
+    const deposit = sizeDeposit({ ...input, price: new Big(150), decimalsX: 9, minBinId: 1, maxBinId: 5 });
+
+    expect(deposit.side).toBe('x');
+    expect(deposit.amountX.toString()).toBe('6.666666666');
+    expect(deposit.totalYAmount.isZero()).toBe(true);
+  });
+
+  it('should deposit only Y below the active bin', () => {
+    const deposit = sizeDeposit({ ...input, minBinId: -9, maxBinId: -1 });
+
+    expect(deposit.side).toBe('y');
+    expect(deposit.amountX.eq(0)).toBe(true);
+    expect(deposit.amountY.toString()).toBe('1000');
+  });
+
+  it('should scale both sides down to the scarcer wallet balance', () => {
+    const full = sizeDeposit(input);
+    const deposit = sizeDeposit({ ...input, balanceX: new Big(100), balanceY: new Big(5000) });
+
+    expect(deposit.limitedByBalance).toBe(true);
+    expect(deposit.amountX.toFixed(0)).toBe('100');
+    expect(deposit.amountY.div(deposit.amountX).toFixed(4)).toBe(full.amountY.div(full.amountX).toFixed(4));
+  });
+
+  it('should reject a deposit the wallet cannot fund', () => {
+    expect(() => sizeDeposit({ ...input, minBinId: -9, maxBinId: -1, balanceY: new Big(0) }))
+      .toThrow('Insufficient token balance for deposit');
+  });
+});
@@ -0,0 +1,136 @@
+import Big from 'big.js';
+import {
+  addBins,
+  calculateDivergenceLoss,
+  getBinPriceFromStep,
+  measurePositionDivergence,
+  projectBins
+} from '../../src/services/divergence-loss';
+import { PoolData, Position } from '../../src/types';
+import { calculateImpermanentLoss } from '../../src/utils/math';
+
+// 1% bins around bin 0 priced at 100
+const BIN_STEP = 100;
+const price = (binId: number): Big => getBinPriceFromStep(binId, BIN_STEP, 0, new Big(100));
+
+describe('calculateDivergenceLoss', () => {
+  // One X in each of bins 1 and 2, above the active bin at entry
+  const entryBins = [
+    { binId: 1, amountX: new Big(1), amountY: new Big(0) },
+    { binId: 2, amountX: new Big(1), amountY: new Big(0) }
+  ];
+  // The price rose to bin 3, selling each X at its own bin price
+  const currentBins = [
+    { binId: 1, amountX: new Big(0), amountY: price(1) },
+    { binId: 2, amountX: new Big(0), amountY: price(2) }
+  ];
+  const input = {
+    binStep: BIN_STEP,
+    activeBinId: 3,
+    activePrice: price(3),
+    entryActiveBinId: 0,
+    entryBins,
+    currentBins
+  };
+
+  it('should measure the loss against holding the deposited tokens', () => {
+    const result = calculateDivergenceLoss(input);
+
+    expect(Number(result.entryPrice.toString())).toBeCloseTo(100, 10);
+    expect(result.entryValue.toFixed(4)).toBe('200.0000');
+    expect(result.holdValue.toFixed(4)).toBe('206.0602');
+    expect(result.positionValue.toFixed(4)).toBe('203.0100');
+    expect(result.impermanentLoss.toFixed(4)).toBe('3.0502');
+    expect(result.impermanentLossRatio).toBeCloseTo(3.0502 / 206.0602, 6);
+  });
+
+  it('should find far more loss than the full-range formula for a concentrated position', () => {
+    const result = calculateDivergenceLoss(input);
+    const fullRange = -Number(calculateImpermanentLoss(new Big(100), price(3)).toString());
+
+    expect(result.impermanentLossRatio).toBeGreaterThan(100 * fullRange);
+  });
+
+  it('should attribute the loss to the bins the price crossed', () => {
+    const result = calculateDivergenceLoss(input);
+
+    expect(result.bins.map(bin => [bin.binId, bin.loss.toFixed(4)])).toEqual([
+      [1, '2.0301'],
+      [2, '1.0201']
+    ]);
+  });
+
+  it('should net the fees earned against the loss', () => {
+    const result = calculateDivergenceLoss({ ...input, feesX: new Big(0.01), feesY: new Big(2) });
+
+    expect(result.feesEarned.toFixed(4)).toBe('3.0303');
+    expect(result.netPnl.toFixed(4)).toBe('-0.0199');
+  });
+
+  it('should report no loss when the price has not moved', () => {
+    const result = calculateDivergenceLoss({ ...input, activeBinId: 0, activePrice: price(0), currentBins: entryBins });
+
+    expect(result.impermanentLoss.eq(0)).toBe(true);
+    expect(result.impermanentLossRatio).toBe(0);
+  });
+
+  it('should reject a non-positive price', () => {
+    expect(() => calculateDivergenceLoss({ ...input, activePrice: new Big(0) })).toThrow('Active bin price must be positive');
+  });
+});
+
+describe('projectBins', () => {
+  it('should settle each bin on the side of the active bin at its own price', () => {
+    const bins = [
+      { binId: 1, amountX: new Big(1), amountY: new Big(0) },
+      { binId: 3, amountX: new Big(1), amountY: new Big(50) },
+      { binId: 5, amountX: new Big(0), amountY: price(5) }
+    ];
+
+    const projected = projectBins(bins, BIN_STEP, 3, price(3));
+
+    expect(projected.map(bin => [bin.binId, bin.amountX.toFixed(4), bin.amountY.toFixed(4)])).toEqual([
+      [1, '0.0000', price(1).toFixed(4)],
+      [3, '1.0000', '50.0000'],
+      [5, '1.0000', '0.0000']
+    ]);
+  });
+});
+
+describe('addBins', () => {
+  it('should add or subtract amounts bin by bin', () => {
+    const bins = [{ binId: 1, amountX: new Big(2), amountY: new Big(10) }];
+    const other = [
+      { binId: 1, amountX: new Big(1), amountY: new Big(4) },
+      { binId: 2, amountX: new Big(3), amountY: new Big(0) }
+    ];
+
+    expect(addBins(bins, other).map(bin => [bin.binId, bin.amountX.toString(), bin.amountY.toString()]))
+      .toEqual([[1, '3', '14'], [2, '3', '0']]);
+    expect(addBins(bins, other, -1).map(bin => [bin.binId, bin.amountX.toString(), bin.amountY.toString()]))
+      .toEqual([[1, '1', '6'], [2, '-3', '0']]);
+  });
+});
+
+describe('measurePositionDivergence', () => {
+  const pool = { activeBin: { binId: 3, price: price(3) }, parameters: { binStep: BIN_STEP } } as PoolData;
+  const position = {
+    entryActiveBinId: 0,
+    entryBins: [
+      { binId: 1, amountX: new Big(1), amountY: new Big(0) },
+      { binId: 2, amountX: new Big(1), amountY: new Big(0) }
+    ],
+    feesCollected: new Big(2)
+  } as Position;
+
+  it('should project the entry bins to the active bin when the current bins are not tracked', () => {
+    const result = measurePositionDivergence(position, pool);
+
+    expect(result?.impermanentLoss.toFixed(4)).toBe('3.0502');
+    expect(result?.netPnl.toFixed(4)).toBe('-1.0502');
+  });
+
+  it('should leave a position without entry bins to the full-range estimate', () => {
+    expect(measurePositionDivergence({ ...position, entryBins: undefined }, pool)).toBeNull();
+  });
+});
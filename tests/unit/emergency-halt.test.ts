@@ -0,0 +1,73 @@
+import { EmergencyHaltService } from '../../src/services/emergency-halt';
+import { ActionType, EmergencyHalt, StrategyAction } from '../../src/types';
+
+const action = (type: ActionType): StrategyAction => ({
+  type,
+  poolAddress: 'pool_1',
+  parameters: { positionId: 'position_1' },
+  priority: 50,
+  estimatedGas: 0
+});
+
+describe('EmergencyHaltService', () => {
+  let stored: EmergencyHalt[];
+  let databaseService: any;
+  let service: EmergencyHaltService;
+
+  beforeEach(() => {
+    stored = [];
+    databaseService = {
+      saveEmergencyHalt: jest.fn(async (halt: EmergencyHalt) => {
+        const saved = { ...halt, id: halt.id || `halt_${stored.length + 1}` };
+        stored = [...stored.filter(existing => existing.id !== saved.id), saved];
+        return saved;
+      }),
+      getActiveEmergencyHalt: jest.fn(async () => stored.find(halt => !halt.resetAt) || null)
+    };
+    service = new EmergencyHaltService(databaseService);
+  });
+
+  it('should allow only exits while halted', async () => {
+    expect(service.allows(action(ActionType.CREATE_POSITION))).toBe(true);
+
+    await service.halt('exploit reported');
+
+    expect(service.isHalted()).toBe(true);
+    expect(service.allows(action(ActionType.CREATE_POSITION))).toBe(false);
+    expect(service.allows(action(ActionType.REBALANCE))).toBe(false);
+    expect(service.allows(action(ActionType.COLLECT_FEES))).toBe(false);
+    expect(service.allows(action(ActionType.CLOSE_POSITION))).toBe(true);
+    expect(service.allows(action(ActionType.REMOVE_LIQUIDITY))).toBe(true);
+    expect(service.allows(action(ActionType.EMERGENCY_EXIT))).toBe(true);
+  });
+
+  it('should come back halted after a restart', async () => {
+    await service.halt('exploit reported');
+
+    const restarted = new EmergencyHaltService(databaseService);
+    await restarted.initialize();
+
+    expect(restarted.isHalted()).toBe(true);
+    expect(restarted.getHalt()?.reason).toBe('exploit reported');
+  });
+
+  it('should keep the original halt when stopped again', async () => {
+    const first = await service.halt('exploit reported');
+    const second = await service.halt('still down');
+
+    expect(second).toBe(first);
+    expect(databaseService.saveEmergencyHalt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record why the halt was reset and resume trading', async () => {
+    await service.halt('exploit reported');
+
+    const reset = await service.reset('pool patched');
+
+    expect(reset).toMatchObject({ reason: 'exploit reported', resetReason: 'pool patched' });
+    expect(reset.resetAt).toBeInstanceOf(Date);
+    expect(service.isHalted()).toBe(false);
+    expect(await databaseService.getActiveEmergencyHalt()).toBeNull();
+    await expect(service.reset('again')).rejects.toThrow('Trading is not halted');
+  });
+});
@@ -0,0 +1,236 @@
+import Big from 'big.js';
+import { ExposureLimits, ExposureService, checkExposure, estimateShareX, measureExposure } from '../../src/services/exposure';
+import { DatabaseService } from '../../src/services/database';
+import { MarketDataService } from '../../src/services/market-data';
+import { ActionType, ExecutionMode, PoolData, Position, PositionStatus, StrategyAction, TokenInfo } from '../../src/types';
+
+const limits: ExposureLimits = {
+  maxPortfolioSize: 10000,
+  maxPositionSize: 2000,
+  maxPoolExposure: 5000,
+  maxTokenExposure: 6000,
+  maxOpenPositions: 3
+};
+
+const createPosition = (id: string, poolAddress: string, liquidityX: number, liquidityY: number): Position => ({
+  id,
+  poolAddress,
+  strategy: 'deployment_1',
+  status: PositionStatus.ACTIVE,
+  lowerBinId: 90,
+  upperBinId: 110,
+  liquidityX: new Big(liquidityX),
+  liquidityY: new Big(liquidityY),
+  totalLiquidity: new Big(0),
+  entryPrice: new Big(100),
+  currentPrice: new Big(50),
+  unrealizedPnl: new Big(0),
+  realizedPnl: new Big(0),
+  feesCollected: new Big(0),
+  impermanentLoss: new Big(0),
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const createToken = (address: string): TokenInfo => ({
+  address,
+  symbol: address,
+  decimals: 9,
+  price: new Big(0),
+  supply: new Big(0),
+  metadata: { name: address, symbol: address },
+  supplyInfo: { totalSupply: new Big(0), circulatingSupply: new Big(0), lastUpdate: new Date(0) },
+  priceHistory: []
+});
+
+const createPool = (address: string, tokenX: string, tokenY: string, price: number): PoolData => ({
+  address,
+  tokenX: createToken(tokenX),
+  tokenY: createToken(tokenY),
+  parameters: { binStep: 100, baseFactor: 10000, maxVolatilityAccumulator: 350000, maxFee: 10, protocolShare: 0.05 },
+  activeBin: {
+    binId: 100,
+    price: new Big(price),
+    state: { amountX: new Big(0), amountY: new Big(0), price: new Big(price), liquiditySupply: new Big(0) }
+  },
+  binArrays: [],
+  metrics: {
+    volume24h: new Big(0),
+    fees24h: new Big(0),
+    tvl: new Big(0),
+    apr: 0,
+    volatility: 0,
+    binUtilization: 0,
+    liquidityDistribution: { concentrationIndex: 0, binCount: 0 }
+  },
+  lastUpdated: new Date(0)
+});
+
+const createAction = (poolAddress: string, liquidityAmount: number, binRange: [number, number] = [95, 105]): StrategyAction => ({
+  type: ActionType.CREATE_POSITION,
+  poolAddress,
+  parameters: { liquidityAmount: new Big(liquidityAmount), binRange },
+  priority: 50,
+  estimatedGas: 0
+});
+
+describe('measureExposure', () => {
+  it('should value positions at the pool price and attribute each side to its token', () => {
+    const pools = new Map([
+      ['sol_usdc', createPool('sol_usdc', 'SOL', 'USDC', 100)],
+      ['bonk_usdc', createPool('bonk_usdc', 'BONK', 'USDC', 2)]
+    ]);
+
+    const exposure = measureExposure([
+      createPosition('p1', 'sol_usdc', 10, 500),
+      createPosition('p2', 'bonk_usdc', 100, 300),
+      createPosition('p3', 'unknown', 2, 100)
+    ], pools);
+
+    expect(exposure.openPositions).toBe(3);
+    // The pool without data is valued at the position's recorded price
+    expect(exposure.portfolio.toString()).toBe('2200');
+    expect(exposure.pools.get('sol_usdc')?.toString()).toBe('1500');
+    expect(exposure.pools.get('unknown')?.toString()).toBe('200');
+    expect(Object.fromEntries(Array.from(exposure.tokens, ([token, value]) => [token, value.toString()]))).toEqual({
+      SOL: '1000',
+      BONK: '200',
+      USDC: '800'
+    });
+  });
+});
+
+describe('estimateShareX', () => {
+  it('should split a range around the active bin by the bins on each side', () => {
+    expect(estimateShareX([101, 110], 100)).toBe(1);
+    expect(estimateShareX([90, 99], 100)).toBe(0);
+    expect(estimateShareX([98, 102], 100)).toBe(0.5);
+    expect(estimateShareX([100, 103], 100)).toBe(3.5 / 4);
+  });
+});
+
+describe('checkExposure', () => {
+  const request = (amount: number, shareX: number = 0.5) => ({
+    poolAddress: 'sol_usdc',
+    tokenX: 'SOL',
+    tokenY: 'USDC',
+    amount: new Big(amount),
+    shareX
+  });
+  const exposureOf = (positions: Position[]) =>
+    measureExposure(positions, new Map([['sol_usdc', createPool('sol_usdc', 'SOL', 'USDC', 100)]]));
+
+  it('should allow a deposit within every limit unchanged', () => {
+    expect(checkExposure(exposureOf([]), request(1500), limits)).toEqual({ allowed: true, amount: new Big(1500) });
+  });
+
+  it('should downsize to the tightest limit', () => {
+    const result = checkExposure(exposureOf([]), request(2500), limits);
+
+    expect(result.allowed).toBe(true);
+    expect(result.amount.toString()).toBe('2000');
+    expect(result.reason).toBe('Downsized from 2500.00 to 2000.00 by the position size limit');
+  });
+
+  it('should bound only the share of the deposit held in the limited token', () => {
+    // 5500 held in SOL leaves 500, all of which an 80% SOL deposit of 625 takes up
+    const exposure = exposureOf([createPosition('p1', 'sol_usdc', 55, 0)]);
+
+    const result = checkExposure(exposure, request(1000, 0.8), { ...limits, maxPoolExposure: 10000 });
+
+    expect(result.amount.toString()).toBe('625');
+    expect(result.reason).toBe('Downsized from 1000.00 to 625.00 by the token SOL exposure limit');
+  });
+
+  it('should reject a deposit the limits would shrink below a tenth of the request', () => {
+    const exposure = exposureOf([createPosition('p1', 'sol_usdc', 0, 4950)]);
+
+    const result = checkExposure(exposure, request(1000), limits);
+
+    expect(result).toEqual({
+      allowed: false,
+      amount: new Big(0),
+      reason: 'Rejected by the pool sol_usdc exposure limit: 50.00 of headroom for a deposit of 1000.00'
+    });
+  });
+
+  it('should reject a new position at the open position limit', () => {
+    const exposure = exposureOf([1, 2, 3].map(i => createPosition(`p${i}`, 'sol_usdc', 0, 1)));
+
+    expect(checkExposure(exposure, request(10), limits).reason).toBe('Open position limit reached: 3 of 3 positions open');
+  });
+
+  it('should bound a deposit into an open position by the position value after it', () => {
+    const exposure = exposureOf([1, 2, 3].map(i => createPosition(`p${i}`, 'sol_usdc', 0, 500)));
+
+    const result = checkExposure(exposure, { ...request(1600), positionValue: new Big(500) }, limits);
+
+    expect(result.amount.toString()).toBe('1500');
+    expect(result.reason).toBe('Downsized from 1600.00 to 1500.00 by the position size limit');
+  });
+});
+
+describe('ExposureService', () => {
+  let marketDataService: jest.Mocked<Pick<MarketDataService, 'getPoolData'>>;
+  let databaseService: jest.Mocked<Pick<DatabaseService, 'getActivePositions' | 'getActivePaperPositions'>>;
+
+  const createService = (executionMode: ExecutionMode, exposureLimits: ExposureLimits = limits): ExposureService =>
+    new ExposureService(
+      marketDataService as unknown as MarketDataService,
+      databaseService as unknown as DatabaseService,
+      executionMode,
+      exposureLimits
+    );
+
+  beforeEach(() => {
+    marketDataService = {
+      getPoolData: jest.fn(async (address: string) =>
+        address === 'sol_usdc' ? createPool('sol_usdc', 'SOL', 'USDC', 100) : null)
+    };
+    databaseService = {
+      getActivePositions: jest.fn().mockResolvedValue([createPosition('p1', 'sol_usdc', 0, 9000)]),
+      getActivePaperPositions: jest.fn().mockResolvedValue([])
+    };
+  });
+
+  it('should check against the ledger of the execution mode', async () => {
+    const wide = { ...limits, maxPoolExposure: 20000, maxTokenExposure: 20000 };
+    const live = createService(ExecutionMode.LIVE, wide);
+    const paper = createService(ExecutionMode.PAPER);
+
+    expect((await live.check(createAction('sol_usdc', 1500))).reason)
+      .toBe('Downsized from 1500.00 to 1000.00 by the portfolio size limit');
+    expect(await paper.check(createAction('sol_usdc', 1500))).toEqual({ allowed: true, amount: new Big(1500) });
+  });
+
+  it('should reject a new position in a pool without market data', async () => {
+    const service = createService(ExecutionMode.PAPER);
+
+    expect(await service.check(createAction('unknown', 100))).toEqual({
+      allowed: false,
+      amount: new Big(0),
+      reason: 'Pool data unavailable to check exposure: unknown'
+    });
+  });
+
+  it('should check liquidity added to an open position against its current value', async () => {
+    databaseService.getActivePaperPositions.mockResolvedValue([
+      { ...createPosition('p1', 'sol_usdc', 0, 1000), bins: [], lastFeeAccrual: new Date() }
+    ]);
+    const service = createService(ExecutionMode.PAPER);
+
+    const result = await service.checkAddition('p1', 'sol_usdc', new Big(10000));
+
+    expect(result.reason).toBe('Downsized from 10000.00 to 1000.00 by the position size limit');
+    expect((await service.checkAddition('p2', 'sol_usdc', new Big(100))).reason).toBe('Position not open: p2');
+  });
+
+  it('should pass actions other than new positions unchecked', async () => {
+    const service = createService(ExecutionMode.LIVE);
+
+    const result = await service.check({ ...createAction('sol_usdc', 50000), type: ActionType.REBALANCE });
+
+    expect(result.allowed).toBe(true);
+    expect(databaseService.getActivePositions).not.toHaveBeenCalled();
+  });
+});
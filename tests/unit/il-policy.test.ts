@@ -0,0 +1,189 @@
+import Big from 'big.js';
+import { ILPolicyService, ILPolicySettings } from '../../src/services/il-policy';
+import { DatabaseService } from '../../src/services/database';
+import {
+  ActionType,
+  AlertLevel,
+  AlertType,
+  ILPolicyTier,
+  PoolData,
+  Position,
+  PositionStatus,
+  TokenInfo
+} from '../../src/types';
+
+const HOUR = 60 * 60 * 1000;
+
+const settings: ILPolicySettings = {
+  ilWarningThreshold: 0.02,
+  ilActionThreshold: 0.05,
+  ilCriticalThreshold: 0.1,
+  ilEmergencyThreshold: 0.2,
+  ilActionCooldown: HOUR,
+  ilWithdrawPercentage: 40
+};
+
+const createPosition = (id: string, poolAddress: string = id): Position => ({
+  id,
+  poolAddress,
+  strategy: 'deployment_1',
+  status: PositionStatus.ACTIVE,
+  lowerBinId: 90,
+  upperBinId: 110,
+  liquidityX: new Big(1),
+  liquidityY: new Big(100),
+  totalLiquidity: new Big(200),
+  entryPrice: new Big(100),
+  currentPrice: new Big(100),
+  unrealizedPnl: new Big(0),
+  realizedPnl: new Big(0),
+  feesCollected: new Big(0),
+  impermanentLoss: new Big(0),
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const createToken = (address: string): TokenInfo => ({
+  address,
+  symbol: address,
+  decimals: 9,
+  price: new Big(0),
+  supply: new Big(0),
+  metadata: { name: address, symbol: address },
+  supplyInfo: { totalSupply: new Big(0), circulatingSupply: new Big(0), lastUpdate: new Date(0) },
+  priceHistory: []
+});
+
+// Against an entry price of 100: 120 loses 0.4%, 150 2.0%, 200 5.7%, 300 13.4% and 500 25.5%
+const createPool = (address: string, price: number, binId: number = 130): PoolData => ({
+  address,
+  tokenX: createToken('TOKEN_X'),
+  tokenY: createToken('TOKEN_Y'),
+  parameters: { binStep: 100, baseFactor: 10000, maxVolatilityAccumulator: 350000, maxFee: 10, protocolShare: 0.05 },
+  activeBin: {
+    binId,
+    price: new Big(price),
+    state: { amountX: new Big(0), amountY: new Big(0), price: new Big(price), liquiditySupply: new Big(0) }
+  },
+  binArrays: [],
+  metrics: {
+    volume24h: new Big(0),
+    fees24h: new Big(0),
+    tvl: new Big(0),
+    apr: 0,
+    volatility: 0,
+    binUtilization: 0,
+    liquidityDistribution: { concentrationIndex: 0, binCount: 0 }
+  },
+  lastUpdated: new Date(0)
+});
+
+describe('ILPolicyService', () => {
+  let databaseService: jest.Mocked<Pick<DatabaseService, 'saveRiskAlert'>>;
+  let service: ILPolicyService;
+  const now = new Date('2026-01-01T00:00:00Z');
+  const later = (ms: number): Date => new Date(now.getTime() + ms);
+
+  beforeEach(() => {
+    databaseService = { saveRiskAlert: jest.fn().mockResolvedValue(undefined) };
+    service = new ILPolicyService(databaseService as unknown as DatabaseService, settings);
+  });
+
+  it('should escalate the response with each threshold crossed', async () => {
+    const pools = [
+      createPool('flat', 120),
+      createPool('warning', 150),
+      createPool('action', 200),
+      createPool('critical', 300),
+      createPool('emergency', 500)
+    ];
+
+    const decisions = await service.evaluate(pools.map(pool => createPosition(pool.address)), pools, now);
+
+    expect(decisions.map(decision => [decision.positionId, decision.tier, decision.action?.type])).toEqual([
+      ['warning', ILPolicyTier.WARNING, undefined],
+      ['action', ILPolicyTier.ACTION, ActionType.ADJUST_RANGE],
+      ['critical', ILPolicyTier.CRITICAL, ActionType.REMOVE_LIQUIDITY],
+      ['emergency', ILPolicyTier.EMERGENCY, ActionType.EMERGENCY_EXIT]
+    ]);
+    const [, action, critical] = decisions;
+    // The 20-bin range recentered on the active bin, reopened for the same deployment
+    expect(action.action?.parameters).toMatchObject({ binRange: [120, 140], deploymentId: 'deployment_1' });
+    expect(critical.action?.parameters.percentage).toBe(40);
+    expect(critical.action?.parameters.cooldownUntil).toEqual(later(HOUR));
+  });
+
+  it('should record every escalation with the values that triggered it', async () => {
+    await service.evaluate([createPosition('p1')], [createPool('p1', 300)], now);
+
+    expect(databaseService.saveRiskAlert).toHaveBeenCalledTimes(1);
+    const alert = databaseService.saveRiskAlert.mock.calls[0][0];
+    expect(alert).toMatchObject({
+      level: AlertLevel.CRITICAL,
+      type: AlertType.IMPERMANENT_LOSS,
+      positionId: 'p1',
+      poolAddress: 'p1',
+      message: 'Impermanent loss of 13.40% reached the critical threshold of 10.00%, withdrawing part of the position'
+    });
+    expect(alert.details).toMatchObject({
+      tier: ILPolicyTier.CRITICAL,
+      threshold: 0.1,
+      entryPrice: '100',
+      currentPrice: '300',
+      activeBinId: 130,
+      binRange: [90, 110],
+      action: ActionType.REMOVE_LIQUIDITY
+    });
+    expect(alert.details.impermanentLossRatio).toBeCloseTo(0.134, 3);
+  });
+
+  it('should hold a response until its cooldown passes', async () => {
+    const positions = [createPosition('p1')];
+    const pools = [createPool('p1', 200)];
+
+    expect(await service.evaluate(positions, pools, now)).toHaveLength(1);
+    expect(await service.evaluate(positions, pools, later(HOUR - 1))).toHaveLength(0);
+    // A lower tier within the cooldown is not a new escalation either
+    expect(await service.evaluate(positions, [createPool('p1', 150)], later(HOUR - 1))).toHaveLength(0);
+
+    const [repeated] = await service.evaluate(positions, pools, later(HOUR));
+    expect(repeated.tier).toBe(ILPolicyTier.ACTION);
+    expect(databaseService.saveRiskAlert).toHaveBeenCalledTimes(2);
+  });
+
+  it('should escalate to a higher tier within the cooldown', async () => {
+    const positions = [createPosition('p1')];
+
+    await service.evaluate(positions, [createPool('p1', 150)], now);
+    const [escalated] = await service.evaluate(positions, [createPool('p1', 500)], later(1000));
+
+    expect(escalated.tier).toBe(ILPolicyTier.EMERGENCY);
+    expect(escalated.cooldownUntil).toEqual(later(1000 + HOUR));
+  });
+
+  it('should decide on the per-bin loss of a position with recorded entry bins', async () => {
+    // A 5% rise is negligible over the full range but sold both bins of this position on the way up
+    const position: Position = {
+      ...createPosition('p1'),
+      entryActiveBinId: 0,
+      entryBins: [
+        { binId: 1, amountX: new Big(1), amountY: new Big(0) },
+        { binId: 2, amountX: new Big(1), amountY: new Big(0) }
+      ]
+    };
+    const pool = createPool('p1', 105.10100501, 5);
+
+    const [decision] = await service.evaluate([position], [pool], now);
+
+    expect(decision.tier).toBe(ILPolicyTier.WARNING);
+    expect(decision.impermanentLossRatio).toBeCloseTo(1 - 203.01 / 210.20201002, 4);
+    expect((await service.evaluate([createPosition('p2')], [createPool('p2', 105.10100501, 5)], now))).toEqual([]);
+  });
+
+  it('should skip positions whose pool has no market data', async () => {
+    const decisions = await service.evaluate([createPosition('p1', 'unknown')], [createPool('p1', 500)], now);
+
+    expect(decisions).toEqual([]);
+    expect(databaseService.saveRiskAlert).not.toHaveBeenCalled();
+  });
+});
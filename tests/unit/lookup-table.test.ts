@@ -0,0 +1,41 @@
+import { BN } from '@coral-xyz/anchor';
+import { deriveBinArray } from '@meteora-ag/dlmm';
+import { Keypair } from '@solana/web3.js';
+import { getPoolLookupAccounts } from '../../src/services/lookup-table';
+
+describe('getPoolLookupAccounts', () => {
+  const key = () => Keypair.generate().publicKey;
+  const programId = key();
+  const dlmm: any = {
+    pubkey: key(),
+    program: { programId },
+    lbPair: { reserveX: key(), reserveY: key(), tokenXMint: key(), tokenYMint: key(), oracle: key() },
+    binArrayBitmapExtension: null
+  };
+
+  it('should offer the pool accounts and the bin arrays covering each range', () => {
+    // Bin arrays hold 70 bins, so bins 60 to 80 span arrays 0 and 1
+    const accounts = getPoolLookupAccounts(dlmm, [[60, 80]]);
+
+    const { reserveX, reserveY, tokenXMint, tokenYMint, oracle } = dlmm.lbPair;
+    expect(accounts).toEqual([
+      dlmm.pubkey,
+      reserveX,
+      reserveY,
+      tokenXMint,
+      tokenYMint,
+      oracle,
+      deriveBinArray(dlmm.pubkey, new BN(0), programId)[0],
+      deriveBinArray(dlmm.pubkey, new BN(1), programId)[0]
+    ]);
+  });
+
+  it('should include the bitmap extension of a pool that has one', () => {
+    const extension = key();
+
+    const accounts = getPoolLookupAccounts({ ...dlmm, binArrayBitmapExtension: { publicKey: extension } });
+
+    expect(accounts).toHaveLength(7);
+    expect(accounts[6]).toEqual(extension);
+  });
+});
@@ -0,0 +1,817 @@
+import Big from 'big.js';
+import { BN } from '@coral-xyz/anchor';
+import { StrategyType } from '@meteora-ag/dlmm';
+import { Keypair, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { OrderExecutionService } from '../../src/services/order-execution';
+import { DatabaseService } from '../../src/services/database';
+import { EmergencyHaltService } from '../../src/services/emergency-halt';
+import { ExposureLimits, ExposureService } from '../../src/services/exposure';
+import {
+  ActionType,
+  AlertLevel,
+  AlertType,
+  ExecutionMode,
+  Position,
+  PositionStatus,
+  TransactionStepStatus,
+  Workflow,
+  WorkflowStatus,
+  WorkflowStepStatus
+} from '../../src/types';
+import { logger } from '../../src/utils/logger';
+
+// An empty lookup table, so v0 transactions carry every account inline
+jest.mock('../../src/services/lookup-table', () => ({
+  LookupTableService: jest.fn().mockImplementation(() => ({
+    getLookupTable: jest.fn().mockResolvedValue({ state: { addresses: [] } })
+  })),
+  getPoolLookupAccounts: jest.fn().mockReturnValue([])
+}));
+
+const POOL = 'pool_1';
+
+// Wide enough that only the exposure tests reach them
+const limits: ExposureLimits = {
+  maxPortfolioSize: 10_000_000,
+  maxPositionSize: 1_000_000,
+  maxPoolExposure: 10_000_000,
+  maxTokenExposure: 10_000_000,
+  maxOpenPositions: 20
+};
+
+describe('OrderExecutionService', () => {
+  const wallet = Keypair.generate();
+  let dlmm: any;
+  let databaseService: jest.Mocked<Pick<DatabaseService,
+    'getPosition' | 'updatePosition' | 'savePosition' | 'saveTransaction' | 'getWorkflowByKey' | 'saveWorkflow' |
+    'getIncompleteWorkflows' | 'saveRiskAlert' | 'getActivePositions' | 'getActiveEmergencyHalt'>>;
+  let solanaService: any;
+  let positions: Map<string, Position>;
+  let marketDataService: any;
+  let service: OrderExecutionService;
+
+  const createUserPosition = (feeX: number, feeY: number, totalX: number = 0, totalY: number = 0) => ({
+    publicKey: Keypair.generate().publicKey,
+    positionData: {
+      lowerBinId: 90,
+      upperBinId: 110,
+      totalXAmount: totalX.toString(),
+      totalYAmount: totalY.toString(),
+      feeXExcludeTransferFee: new BN(feeX),
+      feeYExcludeTransferFee: new BN(feeY),
+      positionBinData: [{ binId: 90 }, { binId: 110 }]
+    }
+  });
+
+  // A one-instruction stand-in for what the SDK builds
+  const sdkTransaction = (dataSize: number = 8): Transaction => new Transaction().add(new TransactionInstruction({
+    programId: Keypair.generate().publicKey,
+    keys: [{ pubkey: wallet.publicKey, isSigner: true, isWritable: true }],
+    data: Buffer.alloc(dataSize)
+  }));
+
+  const trackPosition = (id: string): void => {
+    positions.set(id, {
+      id,
+      poolAddress: POOL,
+      strategy: 'deployment_1',
+      status: PositionStatus.ACTIVE,
+      lowerBinId: 90,
+      upperBinId: 110,
+      liquidityX: new Big(0),
+      liquidityY: new Big(0),
+      totalLiquidity: new Big(1000),
+      entryPrice: new Big(100),
+      currentPrice: new Big(100),
+      unrealizedPnl: new Big(0),
+      realizedPnl: new Big(0),
+      feesCollected: new Big(5),
+      impermanentLoss: new Big(0),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  };
+
+  const createService = (exposureLimits: ExposureLimits, haltService?: EmergencyHaltService): OrderExecutionService =>
+    new OrderExecutionService(
+      solanaService,
+      marketDataService,
+      databaseService as unknown as DatabaseService,
+      ExecutionMode.LIVE,
+      true,
+      haltService,
+      new ExposureService(marketDataService, databaseService as unknown as DatabaseService, ExecutionMode.LIVE, exposureLimits)
+    );
+
+  beforeEach(() => {
+    positions = new Map();
+
+    dlmm = {
+      tokenX: { publicKey: Keypair.generate().publicKey, mint: { decimals: 9 } },
+      tokenY: { publicKey: Keypair.generate().publicKey, mint: { decimals: 6 } },
+      refetchStates: jest.fn(),
+      getActiveBin: jest.fn().mockResolvedValue({
+        binId: 100,
+        price: '0.15',
+        pricePerToken: '150',
+        xAmount: new BN(0),
+        yAmount: new BN(0)
+      }),
+      lbPair: { binStep: 100 },
+      getPositionsByUserAndLbPair: jest.fn(),
+      claimSwapFee: jest.fn().mockResolvedValue([sdkTransaction()]),
+      initializePositionAndAddLiquidityByStrategy: jest.fn().mockResolvedValue(sdkTransaction()),
+      pubkey: Keypair.generate().publicKey,
+      getBinArrayForSwap: jest.fn().mockResolvedValue([]),
+      swapQuote: jest.fn(),
+      swap: jest.fn().mockResolvedValue(sdkTransaction()),
+      addLiquidityByStrategy: jest.fn().mockResolvedValue(sdkTransaction()),
+      removeLiquidity: jest.fn().mockResolvedValue([sdkTransaction()]),
+      closePosition: jest.fn().mockResolvedValue(sdkTransaction()),
+      getPosition: jest.fn().mockResolvedValue({
+        positionData: {
+          positionBinData: [
+            { binId: 101, positionXAmount: '1000000000', positionYAmount: '0' },
+            { binId: 102, positionXAmount: '1000000000', positionYAmount: '0' }
+          ]
+        }
+      })
+    };
+
+    databaseService = {
+      getPosition: jest.fn(async (id: string) => positions.get(id) || null),
+      updatePosition: jest.fn(async (position: Position) => {
+        positions.set(position.id, position);
+      }),
+      savePosition: jest.fn(async (position: Position) => {
+        positions.set(position.id, position);
+      }),
+      saveTransaction: jest.fn(),
+      getWorkflowByKey: jest.fn().mockResolvedValue(null),
+      saveWorkflow: jest.fn(),
+      getIncompleteWorkflows: jest.fn().mockResolvedValue([]),
+      saveRiskAlert: jest.fn(),
+      getActivePositions: jest.fn(async () => Array.from(positions.values())),
+      getActiveEmergencyHalt: jest.fn().mockResolvedValue(null)
+    };
+
+    solanaService = {
+      getConnection: jest.fn(),
+      getTokenAccountAddress: jest.fn().mockResolvedValue(null),
+      simulateTransaction: jest.fn().mockResolvedValue({ err: null, logs: [], unitsConsumed: 42000 }),
+      getRecentPrioritizationFees: jest.fn().mockResolvedValue([]),
+      getTransactionFee: jest.fn().mockResolvedValue(7100),
+      sendTransactionWithRetry: jest.fn().mockResolvedValue('sig_1'),
+      getTokenBalance: jest.fn().mockResolvedValue(1000),
+      getBalance: jest.fn().mockResolvedValue(0),
+      getPublicKey: () => wallet.publicKey,
+      getWallet: () => ({ payer: wallet })
+    };
+    marketDataService = {
+      getDLMMInstance: jest.fn().mockReturnValue(dlmm),
+      getPoolData: jest.fn().mockResolvedValue({
+        address: POOL,
+        tokenX: { address: dlmm.tokenX.publicKey.toString() },
+        tokenY: { address: dlmm.tokenY.publicKey.toString() },
+        activeBin: { binId: 100, price: new Big(150) }
+      })
+    };
+
+    service = createService(limits);
+  });
+
+  describe('createPosition', () => {
+    const createAbove = (budget: number, parameters: Record<string, any> = {}) => service.executeAction({
+      type: ActionType.CREATE_POSITION,
+      poolAddress: POOL,
+      parameters: { liquidityAmount: new Big(budget), binRange: [101, 105], ...parameters },
+      priority: 50,
+      estimatedGas: 0
+    });
+
+    it('should size a one-sided deposit in token units at the active price', async () => {
+      const result = await createAbove(300);
+
+      const { totalXAmount, totalYAmount } = dlmm.initializePositionAndAddLiquidityByStrategy.mock.calls[0][0];
+      expect(totalXAmount.toString()).toBe('2000000000');
+      expect(totalYAmount.toString()).toBe('0');
+      expect(result.newPosition?.liquidityX.toString()).toBe('2');
+      expect(result.newPosition?.totalLiquidity.toString()).toBe('300');
+      expect(result.simulations).toEqual([
+        expect.objectContaining({ label: 'CREATE_POSITION', unitsConsumed: 42000 })
+      ]);
+      expect(result.gasUsed).toBe(7100);
+      expect(databaseService.saveTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'CREATE_POSITION',
+        positionId: result.newPosition?.id,
+        gasUsed: 7100
+      }));
+    });
+
+    it('should record the deposit in each bin as the impermanent loss benchmark', async () => {
+      const result = await createAbove(300);
+
+      expect(result.newPosition?.entryActiveBinId).toBe(100);
+      expect(result.newPosition?.entryBins?.map(bin => [bin.binId, bin.amountX.toString(), bin.amountY.toString()]))
+        .toEqual([[101, '1', '0'], [102, '1', '0']]);
+    });
+
+    it('should open a position without a benchmark when its bins cannot be read', async () => {
+      dlmm.getPosition.mockRejectedValue(new Error('Account not found'));
+
+      const result = await createAbove(300);
+
+      expect(result.success).toBe(true);
+      expect(result.newPosition?.entryBins).toBeUndefined();
+      expect(result.newPosition?.entryActiveBinId).toBeUndefined();
+    });
+
+    it('should record a keyed position that landed before its record was saved', async () => {
+      const idempotencyKey = 'rebalance:position_a:1:create_position';
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [] });
+      const { newPosition } = await createAbove(300, { idempotencyKey });
+      const positionId = newPosition!.id;
+
+      // The deposit landed but the process stopped before saving it
+      positions.delete(positionId);
+      dlmm.initializePositionAndAddLiquidityByStrategy.mockClear();
+      databaseService.saveTransaction.mockClear();
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({
+        userPositions: [{ ...createUserPosition(0, 0), publicKey: new PublicKey(positionId) }]
+      });
+
+      const result = await createAbove(300, { idempotencyKey });
+
+      expect(result.newPosition?.id).toBe(positionId);
+      expect(dlmm.initializePositionAndAddLiquidityByStrategy).not.toHaveBeenCalled();
+      expect(positions.has(positionId)).toBe(true);
+      expect(databaseService.saveTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'CREATE_POSITION',
+        positionId,
+        amount: '300',
+        transactionId: ''
+      }));
+    });
+
+    it('should not send a transaction whose simulation fails', async () => {
+      solanaService.simulateTransaction.mockResolvedValue({
+        err: { InstructionError: [0, { Custom: 6003 }] },
+        logs: ['Program log: AnchorError occurred. Error Code: ExceededAmountSlippageTolerance.']
+      });
+
+      const result = await createAbove(300);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Simulation of CREATE_POSITION failed: Program log: AnchorError');
+      expect(solanaService.sendTransactionWithRetry).not.toHaveBeenCalled();
+      expect(databaseService.savePosition).not.toHaveBeenCalled();
+    });
+
+    it('should report which transactions of a split deposit landed', async () => {
+      // Two SDK transactions too large to pack together
+      dlmm.initializePositionAndAddLiquidityByStrategy.mockResolvedValue([sdkTransaction(700), sdkTransaction(700)]);
+      solanaService.sendTransactionWithRetry
+        .mockResolvedValueOnce('create_sig')
+        .mockRejectedValueOnce(new Error('Transaction CREATE_POSITION 2/2 was not confirmed after 3 attempts'));
+
+      const result = await createAbove(300);
+
+      expect(result.success).toBe(false);
+      expect(result.steps?.map(step => step.status)).toEqual([TransactionStepStatus.LANDED, TransactionStepStatus.FAILED]);
+      expect(result.steps?.[0].signature).toBe('create_sig');
+    });
+
+    it('should shrink the deposit to the wallet balance', async () => {
+      const result = await createAbove(300000, { autoSwap: false });
+
+      expect(result.success).toBe(true);
+      expect(result.newPosition?.liquidityX.toString()).toBe('1000');
+      expect(result.actualReturn?.toString()).toBe('150000');
+    });
+
+    it('should swap surplus Y for the missing X before depositing', async () => {
+      // Needs 10 X (1500 Y at 150) while holding 4 X and 2000 Y
+      solanaService.getTokenBalance.mockImplementation(async (mint: any) => mint.equals(dlmm.tokenX.publicKey) ? 4 : 2000);
+      dlmm.swapQuote.mockImplementation((inAmount: BN) => ({
+        consumedInAmount: inAmount,
+        outAmount: new BN(6_000_000_000),
+        fee: new BN(2_000_000),
+        minOutAmount: new BN(5_940_000_000),
+        priceImpact: new Big(0.2),
+        binArraysPubkey: []
+      }));
+      solanaService.sendTransactionWithRetry.mockResolvedValueOnce('swap_sig').mockResolvedValueOnce('create_sig');
+
+      const result = await createAbove(1500, { maxSlippage: 0.01 });
+
+      const [inAmount, swapForY, slippageBps] = dlmm.swapQuote.mock.calls[0];
+      expect(swapForY).toBe(false);
+      expect(inAmount.toString()).toBe('909000000'); // 6 X at 150, padded by the 1% slippage
+      expect(slippageBps.toNumber()).toBe(100);
+      expect(dlmm.swap).toHaveBeenCalledWith(expect.objectContaining({ minOutAmount: new BN(5_940_000_000) }));
+      expect(databaseService.saveTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'SWAP',
+        positionId: result.newPosition?.id,
+        amount: '909',
+        amountX: '6',
+        amountY: '-909',
+        transactionId: 'swap_sig'
+      }));
+      expect(result.transactionId).toBe('create_sig');
+    });
+
+    it('should refuse to swap beyond the max slippage', async () => {
+      solanaService.getTokenBalance.mockImplementation(async (mint: any) => mint.equals(dlmm.tokenX.publicKey) ? 0 : 2000);
+      dlmm.swapQuote.mockReturnValue({ priceImpact: new Big(3) });
+
+      const result = await createAbove(1500, { maxSlippage: 0.01 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('exceeds max slippage');
+      expect(dlmm.swap).not.toHaveBeenCalled();
+      expect(dlmm.initializePositionAndAddLiquidityByStrategy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closing positions', () => {
+    // 2 X and 300 Y still deposited, with 0.1 X of fees pending
+    const trackFunded = (): string => {
+      const userPosition = createUserPosition(100_000_000, 0, 2_000_000_000, 300_000_000);
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [userPosition] });
+      const positionId = userPosition.publicKey.toString();
+      trackPosition(positionId);
+      return positionId;
+    };
+
+    it('should withdraw a funded position in full before the rebalance reopens it', async () => {
+      const positionId = trackFunded();
+      solanaService.sendTransactionWithRetry.mockResolvedValueOnce('close_sig').mockResolvedValueOnce('create_sig');
+
+      const result = await service.executeAction({
+        type: ActionType.REBALANCE,
+        poolAddress: POOL,
+        parameters: { positionId, binRange: [101, 105] },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(result.success).toBe(true);
+      expect(dlmm.closePosition).not.toHaveBeenCalled();
+      expect(dlmm.removeLiquidity).toHaveBeenCalledWith(expect.objectContaining({
+        fromBinId: 90,
+        toBinId: 110,
+        bps: new BN(10000),
+        shouldClaimAndClose: true
+      }));
+      expect(databaseService.saveTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        positionId,
+        type: 'CLOSE_POSITION',
+        amount: '600',
+        amountX: '2',
+        amountY: '300',
+        fees: '15',
+        transactionId: 'close_sig'
+      }));
+      expect(positions.get(positionId)?.status).toBe(PositionStatus.CLOSED);
+      expect(result.transactionId).toBe('create_sig');
+    });
+
+    it('should reopen a rebalanced position for its deployment from what the close returned', async () => {
+      const positionId = trackFunded();
+      positions.set(positionId, { ...positions.get(positionId)!, strategyType: StrategyType.BidAsk });
+
+      const result = await service.executeAction({
+        type: ActionType.ADJUST_RANGE,
+        poolAddress: POOL,
+        parameters: { positionId, binRange: [101, 105] },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      // 600 withdrawn and 15 of fees at 150 per X, against an entry cost of 1000
+      const { totalXAmount, strategy } = dlmm.initializePositionAndAddLiquidityByStrategy.mock.calls[0][0];
+      expect(totalXAmount.toString()).toBe('4100000000');
+      expect(strategy.strategyType).toBe(StrategyType.BidAsk);
+      expect(result.newPosition).toMatchObject({ strategy: 'deployment_1', strategyType: StrategyType.BidAsk });
+    });
+
+    it('should alert on a rebalance that closed but failed to reopen, and retry it on restart', async () => {
+      const positionId = trackFunded();
+      dlmm.initializePositionAndAddLiquidityByStrategy.mockRejectedValueOnce(new Error('RPC unavailable'));
+      const rebalance = () => service.executeAction({
+        type: ActionType.REBALANCE,
+        poolAddress: POOL,
+        parameters: { positionId, binRange: [101, 105] },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect((await rebalance()).success).toBe(false);
+      expect(positions.get(positionId)?.status).toBe(PositionStatus.CLOSED);
+      expect(databaseService.saveRiskAlert).toHaveBeenCalledWith(expect.objectContaining({
+        level: AlertLevel.CRITICAL,
+        type: AlertType.WORKFLOW,
+        positionId
+      }));
+
+      // A restart finds the failed workflow as it was persisted
+      const persisted: Workflow = JSON.parse(JSON.stringify(databaseService.saveWorkflow.mock.calls.at(-1)![0]));
+      databaseService.getIncompleteWorkflows.mockResolvedValue([persisted]);
+      service = createService(limits);
+
+      const [resumed] = await service.resumeWorkflows();
+
+      expect(resumed.status).toBe(WorkflowStatus.COMPLETED);
+      expect(dlmm.removeLiquidity).toHaveBeenCalledTimes(1);
+      expect(dlmm.initializePositionAndAddLiquidityByStrategy).toHaveBeenCalledTimes(2);
+      expect(databaseService.saveRiskAlert).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap a rebalance deposit at what the close returned', async () => {
+      const positionId = trackFunded();
+
+      await service.executeAction({
+        type: ActionType.REBALANCE,
+        poolAddress: POOL,
+        parameters: { positionId, binRange: [101, 105], liquidityAmount: new Big(1_000_000) },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      // The 615 returned, not the million requested, which the exposure check never saw
+      const { totalXAmount } = dlmm.initializePositionAndAddLiquidityByStrategy.mock.calls[0][0];
+      expect(totalXAmount.toString()).toBe('4100000000');
+    });
+
+    it('should record a partial withdrawal at its value in the ledger', async () => {
+      const positionId = trackFunded();
+
+      const result = await service.executeAction({
+        type: ActionType.REMOVE_LIQUIDITY,
+        poolAddress: POOL,
+        parameters: { positionId, percentage: 50 },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(result.success).toBe(true);
+      expect(dlmm.removeLiquidity).toHaveBeenCalledWith(expect.objectContaining({ bps: new BN(5000), shouldClaimAndClose: false }));
+      expect(databaseService.saveTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        positionId,
+        type: 'REMOVE_LIQUIDITY',
+        amount: '300',
+        amountX: '1',
+        amountY: '150'
+      }));
+      expect(positions.get(positionId)?.totalLiquidity.toString()).toBe('500');
+    });
+
+    it('should close an emptied position without withdrawing', async () => {
+      const userPosition = createUserPosition(0, 0);
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [userPosition] });
+      const positionId = userPosition.publicKey.toString();
+      trackPosition(positionId);
+
+      const result = await service.executeAction({
+        type: ActionType.CLOSE_POSITION,
+        poolAddress: POOL,
+        parameters: { positionId },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(result.success).toBe(true);
+      expect(dlmm.removeLiquidity).not.toHaveBeenCalled();
+      expect(dlmm.closePosition).toHaveBeenCalledWith(expect.objectContaining({ position: userPosition }));
+    });
+  });
+
+  describe('collectFees', () => {
+    it('should value claimed fees at the claim-time price and record each claim', async () => {
+      // 0.1 X and 2.5 Y pending
+      const userPosition = createUserPosition(100_000_000, 2_500_000);
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [userPosition] });
+      const positionId = userPosition.publicKey.toString();
+      trackPosition(positionId);
+
+      const result = await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { positionId },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.transactionId).toBe('sig_1');
+      expect(result.actualReturn?.toString()).toBe('17.5');
+      expect(databaseService.saveTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        positionId,
+        type: 'COLLECT_FEES',
+        amount: '17.5',
+        amountX: '0.1',
+        amountY: '2.5',
+        price: '150',
+        transactionId: 'sig_1'
+      }));
+      expect(positions.get(positionId)?.feesCollected.toString()).toBe('22.5');
+    });
+
+    it('should skip positions without pending fees when claiming a whole pool', async () => {
+      const withFees = createUserPosition(0, 1_000_000);
+      const withoutFees = createUserPosition(0, 0);
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [withFees, withoutFees] });
+
+      const result = await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: {},
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(result.actualReturn?.toString()).toBe('1');
+      expect(dlmm.claimSwapFee).toHaveBeenCalledTimes(1);
+      expect(databaseService.saveTransaction).toHaveBeenCalledTimes(1);
+      // Untracked wallet positions are claimed without touching the position table
+      expect(databaseService.updatePosition).not.toHaveBeenCalled();
+    });
+
+    it('should reinvest the claimed token amounts and link the deposit to the claim', async () => {
+      const userPosition = createUserPosition(100_000_000, 2_500_000);
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [userPosition] });
+      const positionId = userPosition.publicKey.toString();
+      trackPosition(positionId);
+      solanaService.sendTransactionWithRetry.mockResolvedValueOnce('claim_sig').mockResolvedValueOnce('compound_sig');
+
+      await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { positionId, autoCompound: true, minCompoundAmount: new Big(10), strategyType: 1 },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      const deposit = dlmm.addLiquidityByStrategy.mock.calls[0][0];
+      expect(deposit.totalXAmount.toString()).toBe('100000000');
+      expect(deposit.totalYAmount.toString()).toBe('2500000');
+      expect(deposit.strategy).toEqual({ minBinId: 90, maxBinId: 110, strategyType: 1 });
+      expect(databaseService.saveTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'COMPOUND',
+        transactionId: 'compound_sig',
+        relatedTransactionId: 'claim_sig'
+      }));
+      expect(positions.get(positionId)?.totalLiquidity.toString()).toBe('1017.5');
+    });
+
+    it('should leave claims below the compounding minimum in the wallet', async () => {
+      const userPosition = createUserPosition(0, 2_500_000);
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [userPosition] });
+      trackPosition(userPosition.publicKey.toString());
+
+      await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { autoCompound: true, minCompoundAmount: new Big(10) },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(dlmm.addLiquidityByStrategy).not.toHaveBeenCalled();
+      expect(databaseService.saveTransaction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('exposure limits', () => {
+    const create = (budget: number) => service.executeAction({
+      type: ActionType.CREATE_POSITION,
+      poolAddress: POOL,
+      parameters: { liquidityAmount: new Big(budget), binRange: [101, 105] },
+      priority: 50,
+      estimatedGas: 0
+    });
+
+    const holdInPool = (id: string, liquidityY: number): void => {
+      trackPosition(id);
+      positions.set(id, { ...positions.get(id)!, liquidityY: new Big(liquidityY) });
+    };
+
+    it('should reject a new position once the open position limit is reached', async () => {
+      for (let i = 0; i < 20; i++) {
+        trackPosition(`position_${i}`);
+      }
+
+      const result = await create(300);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Open position limit reached: 20 of 20 positions open',
+        limitReason: 'Open position limit reached: 20 of 20 positions open'
+      });
+      expect(dlmm.initializePositionAndAddLiquidityByStrategy).not.toHaveBeenCalled();
+    });
+
+    it('should downsize a deposit to the pool exposure left and report why', async () => {
+      service = createService({ ...limits, maxPoolExposure: 150_000 });
+      holdInPool('position_a', 149_850);
+
+      const result = await create(300);
+
+      expect(result.success).toBe(true);
+      expect(result.limitReason).toBe(`Downsized from 300.00 to 150.00 by the pool ${POOL} exposure limit`);
+      // 150 quote at 150 per X, in 9-decimal token units
+      const { totalXAmount } = dlmm.initializePositionAndAddLiquidityByStrategy.mock.calls[0][0];
+      expect(totalXAmount.toString()).toBe('1000000000');
+    });
+
+    it('should reject a deposit when a token limit leaves too little of it', async () => {
+      service = createService({ ...limits, maxTokenExposure: 100_000 });
+      // The range lies above the active bin, so the deposit is all X
+      const tokenX = dlmm.tokenX.publicKey.toString();
+      trackPosition('position_a');
+      positions.set('position_a', { ...positions.get('position_a')!, liquidityX: new Big(666.6) });
+
+      const result = await create(300);
+
+      expect(result.success).toBe(false);
+      expect(result.limitReason).toBe(`Rejected by the token ${tokenX} exposure limit: 10.00 of headroom for a deposit of 300.00`);
+    });
+
+    describe('compounded fees', () => {
+      const compound = (positionId: string) => service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { positionId, autoCompound: true },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      // Claims 0.1 X and 2.5 Y, worth 17.5 at 150 per X
+      const claimInto = (liquidityY: number): string => {
+        const userPosition = createUserPosition(100_000_000, 2_500_000);
+        dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [userPosition] });
+        const positionId = userPosition.publicKey.toString();
+        holdInPool(positionId, liquidityY);
+        return positionId;
+      };
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it('should compound only the share of a claim the limits leave room for', async () => {
+        service = createService({ ...limits, maxPoolExposure: 150_000 });
+        const positionId = claimInto(149_991.25);
+
+        const info = jest.spyOn(logger, 'info');
+
+        await compound(positionId);
+
+        const deposit = dlmm.addLiquidityByStrategy.mock.calls[0][0];
+        expect(deposit.totalXAmount.toString()).toBe('50000000');
+        expect(deposit.totalYAmount.toString()).toBe('1250000');
+        expect(databaseService.saveTransaction).toHaveBeenCalledWith(expect.objectContaining({
+          type: 'COMPOUND',
+          amount: '8.75',
+          amountX: '0.05',
+          amountY: '1.25'
+        }));
+        expect(info).toHaveBeenCalledWith('Trade executed', expect.objectContaining({
+          action: 'COLLECT_FEES',
+          feesCollected: '17.5',
+          compounded: '8.75'
+        }));
+      });
+
+      it('should bound the position size by its value after the deposit, not the open position count', async () => {
+        service = createService({ ...limits, maxPositionSize: 1_000, maxOpenPositions: 1 });
+        const positionId = claimInto(991.25);
+
+        await compound(positionId);
+
+        expect(dlmm.addLiquidityByStrategy.mock.calls[0][0].totalYAmount.toString()).toBe('1250000');
+      });
+
+      it('should leave a claim the limits reject in the wallet', async () => {
+        service = createService({ ...limits, maxPositionSize: 1_000 });
+        const positionId = claimInto(999);
+
+        await compound(positionId);
+
+        expect(dlmm.addLiquidityByStrategy).not.toHaveBeenCalled();
+        // The claim itself is still recorded
+        expect(databaseService.saveTransaction).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should not check actions that move or reduce existing exposure', async () => {
+      service = createService({ ...limits, maxPoolExposure: 150_000 });
+      holdInPool('position_a', 150_000);
+      const userPosition = createUserPosition(0, 0);
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions: [userPosition] });
+
+      await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: {},
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(marketDataService.getPoolData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('emergency halt', () => {
+    beforeEach(async () => {
+      databaseService.getActiveEmergencyHalt.mockResolvedValue({ reason: 'incident', haltedAt: new Date() });
+      const haltService = new EmergencyHaltService(databaseService as unknown as DatabaseService);
+      await haltService.initialize();
+      service = createService(limits, haltService);
+    });
+
+    it('should refuse to open positions while trading is halted', async () => {
+      const result = await service.executeAction({
+        type: ActionType.CREATE_POSITION,
+        poolAddress: POOL,
+        parameters: { liquidityAmount: new Big(100), binRange: [101, 105] },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(result).toEqual({ success: false, error: 'Trading halted by emergency stop: incident' });
+      expect(dlmm.initializePositionAndAddLiquidityByStrategy).not.toHaveBeenCalled();
+    });
+
+    it('should leave a resumed rebalance closed and alert instead of reopening it', async () => {
+      trackPosition('position_a');
+      positions.set('position_a', { ...positions.get('position_a')!, status: PositionStatus.CLOSED });
+      const workflow: Workflow = {
+        id: 'wf_1',
+        type: 'rebalance',
+        idempotencyKey: 'rebalance:position_a',
+        status: WorkflowStatus.RUNNING,
+        input: { poolAddress: POOL, positionId: 'position_a', parameters: { binRange: [101, 105] }, priority: 50, estimatedGas: 0 },
+        steps: [
+          { name: 'close_position', idempotencyKey: 'rebalance:position_a:0:close_position', status: WorkflowStepStatus.COMPLETED, attempts: 1, result: { actualReturn: '600' } },
+          { name: 'create_position', idempotencyKey: 'rebalance:position_a:1:create_position', status: WorkflowStepStatus.PENDING, attempts: 0 }
+        ],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      databaseService.getIncompleteWorkflows.mockResolvedValue([workflow]);
+
+      const [resumed] = await service.resumeWorkflows();
+
+      expect(resumed.status).toBe(WorkflowStatus.FAILED);
+      expect(resumed.error).toBe('Step create_position failed: Trading halted by emergency stop: incident');
+      expect(dlmm.initializePositionAndAddLiquidityByStrategy).not.toHaveBeenCalled();
+      expect(databaseService.saveRiskAlert).toHaveBeenCalledWith(expect.objectContaining({
+        level: AlertLevel.CRITICAL,
+        type: AlertType.WORKFLOW,
+        positionId: 'position_a',
+        details: expect.objectContaining({ workflowId: 'wf_1' })
+      }));
+    });
+
+    it('should withdraw the liquidity of every open position on exit', async () => {
+      const userPositions = [
+        createUserPosition(0, 0, 1_000_000_000, 0),
+        createUserPosition(0, 0, 0, 150_000_000)
+      ];
+      dlmm.getPositionsByUserAndLbPair.mockResolvedValue({ userPositions });
+      const positionIds = userPositions.map(userPosition => userPosition.publicKey.toString());
+      positionIds.forEach(trackPosition);
+      databaseService.getActivePositions.mockResolvedValue(Array.from(positions.values()));
+
+      const outcomes = await service.exitAllPositions();
+
+      expect(outcomes.map(outcome => outcome.success)).toEqual([true, true]);
+      expect(dlmm.closePosition).not.toHaveBeenCalled();
+      expect(dlmm.removeLiquidity.mock.calls.map(([call]: any[]) => [call.position.toString(), call.bps.toNumber(), call.shouldClaimAndClose]))
+        .toEqual(positionIds.map(positionId => [positionId, 10000, true]));
+      expect(positionIds.map(positionId => positions.get(positionId)?.status)).toEqual([PositionStatus.CLOSED, PositionStatus.CLOSED]);
+      expect(databaseService.saveTransaction.mock.calls.map(([transaction]) => transaction.amount)).toEqual(['150', '150']);
+    });
+
+    it('should exit every open position and report each outcome', async () => {
+      trackPosition('position_a');
+      trackPosition('position_b');
+      databaseService.getActivePositions.mockResolvedValue(Array.from(positions.values()));
+      const executeAction = jest.spyOn(service, 'executeAction')
+        .mockResolvedValueOnce({ success: true, transactionId: 'exit_sig' })
+        .mockResolvedValueOnce({ success: false, error: 'rpc down' });
+
+      const outcomes = await service.exitAllPositions();
+
+      expect(executeAction).toHaveBeenCalledWith(expect.objectContaining({
+        type: ActionType.EMERGENCY_EXIT,
+        parameters: { positionId: 'position_a' }
+      }));
+      expect(outcomes).toEqual([
+        { positionId: 'position_a', poolAddress: POOL, success: true, transactionId: 'exit_sig', error: undefined },
+        { positionId: 'position_b', poolAddress: POOL, success: false, transactionId: undefined, error: 'rpc down' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import Big from 'big.js';
+import { BN } from '@coral-xyz/anchor';
+import {
+  PaperExecutionService,
+  PoolSnapshot,
+  distributeLiquidity,
+  settleHoldings,
+  valueHoldings
+} from '../../src/services/paper-execution';
+import { ActionType, BinLiquidity, DbPaperTransaction, PaperPosition, PositionStatus } from '../../src/types';
+
+const POOL = 'pool_1';
+
+const createBin = (binId: number, price: number, isActive = false): BinLiquidity => ({
+  binId,
+  priceX: new Big(price),
+  supplyX: new Big(10),
+  supplyY: new Big(10 * price),
+  liquidity: new Big(20 * price),
+  isActive
+});
+
+// Bins 98..102 around an active bin priced at 100, one unit apart
+const createBins = (activeBinId: number): BinLiquidity[] =>
+  [98, 99, 100, 101, 102].map(binId => createBin(binId, binId, binId === activeBinId));
+
+const createSnapshot = (activeBinId: number): PoolSnapshot => ({
+  activeBinId,
+  activePrice: new Big(activeBinId),
+  binStep: 100,
+  bins: new Map(createBins(activeBinId).map(bin => [bin.binId, bin]))
+});
+
+describe('Paper execution', () => {
+  describe('simulation helpers', () => {
+    it('should place X above and Y below the active bin', () => {
+      const holdings = distributeLiquidity(new Big(500), 99, 101, createSnapshot(100));
+
+      expect(holdings.map(h => [h.binId, h.amountX.toFixed(2), h.amountY.toFixed(2)])).toEqual([
+        [99, '0.00', '166.67'],
+        [100, '0.83', '83.33'],
+        [101, '1.65', '0.00']
+      ]);
+      expect(valueHoldings([holdings[0]], new Big(100)).toFixed(2)).toBe('166.67');
+    });
+
+    it('should convert bins the price has crossed', () => {
+      const holdings = distributeLiquidity(new Big(500), 99, 101, createSnapshot(100));
+      const settled = settleHoldings(holdings, createSnapshot(102));
+
+      // Every bin is now below the active bin, so the position is fully in Y
+      expect(settled.every(h => h.amountX.eq(0))).toBe(true);
+      expect(settled[2].amountY.toFixed(2)).toBe('166.67');
+    });
+  });
+
+  describe('PaperExecutionService', () => {
+    let marketDataService: any;
+    let databaseService: any;
+    let ledger: Map<string, PaperPosition>;
+    let service: PaperExecutionService;
+
+    beforeEach(() => {
+      ledger = new Map();
+      marketDataService = {
+        getDLMMInstance: jest.fn().mockReturnValue({ lbPair: { binStep: 100 } }),
+        getBinLiquidityData: jest.fn().mockResolvedValue(createBins(100)),
+        getPoolData: jest.fn().mockResolvedValue({ metrics: { fees24h: new Big(2400) } })
+      };
+      databaseService = {
+        savePaperPosition: jest.fn().mockImplementation(async (position: PaperPosition) => {
+          ledger.set(position.id, { ...position });
+        }),
+        getPaperPosition: jest.fn().mockImplementation(async (id: string) => {
+          const position = ledger.get(id);
+          return position ? { ...position } : null;
+        }),
+        getPaperPositionsByPool: jest.fn().mockImplementation(async () => Array.from(ledger.values())),
+        savePaperTransaction: jest.fn().mockResolvedValue(undefined),
+        savePosition: jest.fn()
+      };
+      service = new PaperExecutionService(marketDataService, databaseService, false);
+    });
+
+    const createPosition = () => service.executeAction({
+      type: ActionType.CREATE_POSITION,
+      poolAddress: POOL,
+      parameters: { liquidityAmount: new Big(500), binRange: [99, 101], deploymentId: 'balanced:pool_1' },
+      priority: 50,
+      estimatedGas: 0
+    });
+
+    it('should record virtual positions in the paper ledger only', async () => {
+      const result = await createPosition();
+
+      expect(result.success).toBe(true);
+      expect(result.transactionId).toMatch(/^paper_/);
+      expect(result.newPosition?.strategy).toBe('balanced:pool_1');
+      expect(databaseService.savePaperPosition).toHaveBeenCalled();
+      expect(databaseService.savePosition).not.toHaveBeenCalled();
+      expect(databaseService.savePaperTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'CREATE_POSITION', amount: '500' })
+      );
+    });
+
+    it('should buy the X side through the pool when swapping is enabled', async () => {
+      // 1% of the swapped value is lost to the pool fee
+      const dlmm = {
+        lbPair: { binStep: 100 },
+        tokenX: { mint: { decimals: 9 } },
+        tokenY: { mint: { decimals: 6 } },
+        getBinArrayForSwap: jest.fn().mockResolvedValue([]),
+        swapQuote: jest.fn((inAmount: BN) => ({
+          outAmount: inAmount.muln(99).divn(100).muln(1000).divn(100),
+          priceImpact: new Big(0.1)
+        }))
+      };
+      marketDataService.getDLMMInstance.mockReturnValue(dlmm);
+      service = new PaperExecutionService(marketDataService, databaseService, true);
+
+      const { newPosition } = await createPosition();
+
+      const swap = databaseService.savePaperTransaction.mock.calls[0][0];
+      expect(swap).toMatchObject({ type: 'SWAP', positionId: newPosition!.id });
+      expect(Number(swap.fees)).toBeCloseTo(Number(swap.amount) * 0.01, 4);
+      expect(newPosition!.totalLiquidity.toString()).toBe('500');
+      // The deposit is what remains after the swap cost
+      const expected = distributeLiquidity(new Big(500).sub(swap.fees), 99, 101, createSnapshot(100));
+      expect(valueHoldings(ledger.get(newPosition!.id)!.bins, new Big(100)).toFixed(6))
+        .toBe(valueHoldings(expected, new Big(100)).toFixed(6));
+    });
+
+    it('should reject a swap whose price impact exceeds the max slippage', async () => {
+      marketDataService.getDLMMInstance.mockReturnValue({
+        lbPair: { binStep: 100 },
+        tokenX: { mint: { decimals: 9 } },
+        tokenY: { mint: { decimals: 6 } },
+        getBinArrayForSwap: jest.fn().mockResolvedValue([]),
+        swapQuote: jest.fn().mockReturnValue({ outAmount: new BN(0), priceImpact: new Big(5) })
+      });
+      service = new PaperExecutionService(marketDataService, databaseService, true);
+
+      await expect(createPosition()).rejects.toThrow('exceeds max slippage');
+      expect(databaseService.savePaperPosition).not.toHaveBeenCalled();
+    });
+
+    it('should close at the simulated exit value', async () => {
+      const { newPosition } = await createPosition();
+      marketDataService.getBinLiquidityData.mockResolvedValue(createBins(102));
+
+      const result = await service.executeAction({
+        type: ActionType.CLOSE_POSITION,
+        poolAddress: POOL,
+        parameters: { positionId: newPosition!.id },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      const closed = ledger.get(newPosition!.id)!;
+      expect(result.success).toBe(true);
+      expect(closed.status).toBe(PositionStatus.CLOSED);
+      // Price moved up through the whole range, so every bin was converted to Y at its own price
+      expect(closed.liquidityX.eq(0)).toBe(true);
+      expect(result.actualReturn?.toFixed(0)).toBe('500');
+      // Held instead, the deposit would be worth more at 102 than the converted bins are
+      const deposited = distributeLiquidity(new Big(500), 99, 101, createSnapshot(100));
+      expect(closed.impermanentLoss.toFixed(4))
+        .toBe(valueHoldings(deposited, new Big(102)).sub(result.actualReturn!).toFixed(4));
+      expect(closed.impermanentLoss.gt(3)).toBe(true);
+    });
+
+    it('should accrue fees only while the active bin is in range', async () => {
+      const { newPosition } = await createPosition();
+      const stored = ledger.get(newPosition!.id)!;
+      stored.lastFeeAccrual = new Date(Date.now() - 60 * 60 * 1000);
+
+      const inRange = await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { positionId: newPosition!.id },
+        priority: 50,
+        estimatedGas: 0
+      });
+      expect(inRange.actualReturn?.gt(0)).toBe(true);
+
+      ledger.get(newPosition!.id)!.lastFeeAccrual = new Date(Date.now() - 60 * 60 * 1000);
+      marketDataService.getBinLiquidityData.mockResolvedValue(createBins(102));
+
+      const outOfRange = await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { positionId: newPosition!.id },
+        priority: 50,
+        estimatedGas: 0
+      });
+      expect(outOfRange.actualReturn?.eq(0)).toBe(true);
+    });
+
+    it('should pay out the fees the whole position earned before a partial withdrawal', async () => {
+      const { newPosition: withdrawn } = await createPosition();
+      const { newPosition: held } = await createPosition();
+      const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+      ledger.get(withdrawn!.id)!.lastFeeAccrual = hourAgo;
+      ledger.get(held!.id)!.lastFeeAccrual = hourAgo;
+
+      const removed = await service.removeLiquidity(withdrawn!.id, 50);
+      const collected = await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { positionId: held!.id },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      // Both positions were the same size for the hour, so they earned the same fees
+      const fees = ledger.get(withdrawn!.id)!.feesCollected;
+      expect(fees.gt(0)).toBe(true);
+      expect(fees.toNumber()).toBeCloseTo(collected.actualReturn!.toNumber(), 4);
+      const [fill] = databaseService.savePaperTransaction.mock.calls
+        .find(([transaction]: [DbPaperTransaction]) => transaction.type === 'REMOVE_LIQUIDITY');
+      expect(fill.fees).toBe(fees.toString());
+      expect(removed.actualReturn?.toString()).toBe(new Big(fill.amount).add(fees).toString());
+    });
+
+    it('should compound claimed fees into the position when requested', async () => {
+      const { newPosition } = await createPosition();
+      ledger.get(newPosition!.id)!.lastFeeAccrual = new Date(Date.now() - 60 * 60 * 1000);
+
+      const result = await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { positionId: newPosition!.id, autoCompound: true },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      const fees = result.actualReturn!;
+      const claim = databaseService.savePaperTransaction.mock.calls
+        .map((call: any[]) => call[0])
+        .find((fill: any) => fill.type === 'COLLECT_FEES');
+
+      expect(ledger.get(newPosition!.id)!.totalLiquidity.eq(new Big(500).add(fees))).toBe(true);
+      expect(databaseService.savePaperTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'COMPOUND',
+        amount: fees.toString(),
+        relatedTransactionId: claim.transactionId
+      }));
+    });
+
+    it('should compound only what the exposure limits allow', async () => {
+      const exposureService = {
+        checkAddition: jest.fn().mockResolvedValue({ allowed: true, amount: new Big(0.001), reason: 'Downsized' })
+      };
+      service = new PaperExecutionService(marketDataService, databaseService, false, exposureService as any);
+      const { newPosition } = await createPosition();
+      ledger.get(newPosition!.id)!.lastFeeAccrual = new Date(Date.now() - 60 * 60 * 1000);
+
+      await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { positionId: newPosition!.id, autoCompound: true },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(exposureService.checkAddition).toHaveBeenCalledWith(newPosition!.id, POOL, expect.any(Big));
+      expect(ledger.get(newPosition!.id)!.totalLiquidity.toString()).toBe('500.001');
+      expect(databaseService.savePaperTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'COMPOUND',
+        amount: '0.001'
+      }));
+    });
+
+    it('should not compound claims below the minimum', async () => {
+      const { newPosition } = await createPosition();
+      ledger.get(newPosition!.id)!.lastFeeAccrual = new Date(Date.now() - 60 * 60 * 1000);
+
+      await service.executeAction({
+        type: ActionType.COLLECT_FEES,
+        poolAddress: POOL,
+        parameters: { positionId: newPosition!.id, autoCompound: true, minCompoundAmount: 1e9 },
+        priority: 50,
+        estimatedGas: 0
+      });
+
+      expect(ledger.get(newPosition!.id)!.totalLiquidity.toString()).toBe('500');
+      expect(databaseService.savePaperTransaction).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'COMPOUND' }));
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import Big from 'big.js';
+import { Keypair } from '@solana/web3.js';
+import { PositionAdoptionService, UNMANAGED_DEPLOYMENT } from '../../src/services/position-adoption';
+import { PositionStatus } from '../../src/types';
+
+const POOL = 'pool_1';
+const OTHER_POOL = 'pool_2';
+
+describe('PositionAdoptionService', () => {
+  const wallet = Keypair.generate();
+  let dlmm: any;
+  let databaseService: any;
+  let marketDataService: any;
+  let registry: any;
+  let service: PositionAdoptionService;
+
+  // Amounts are raw: X has 9 decimals, Y has 6
+  const bin = (binId: number, pricePerToken: string, amountX: string, amountY: string) => ({
+    binId,
+    pricePerToken,
+    positionXAmount: amountX,
+    positionYAmount: amountY
+  });
+
+  const recorded = Keypair.generate().publicKey;
+  const unrecorded = Keypair.generate().publicKey;
+
+  beforeEach(() => {
+    dlmm = {
+      tokenX: { mint: { decimals: 9 } },
+      tokenY: { mint: { decimals: 6 } },
+      refetchStates: jest.fn(),
+      getPositionsByUserAndLbPair: jest.fn().mockResolvedValue({
+        activeBin: { binId: 100, pricePerToken: '100' },
+        userPositions: [
+          { publicKey: recorded, positionData: { positionBinData: [] } },
+          {
+            publicKey: unrecorded,
+            positionData: {
+              lowerBinId: 99,
+              upperBinId: 101,
+              totalXAmount: '1000000000',
+              totalYAmount: '50000000',
+              positionBinData: [
+                bin(99, '90', '0', '50000000'),
+                bin(100, '100', '0', '0'),
+                bin(101, '110', '1000000000', '0')
+              ]
+            }
+          }
+        ]
+      })
+    };
+    marketDataService = {
+      getDLMMInstance: jest.fn().mockReturnValue(dlmm),
+      addPool: jest.fn()
+    };
+    databaseService = {
+      getPosition: jest.fn().mockImplementation(async (id: string) => (id === recorded.toString() ? { id } : null)),
+      savePosition: jest.fn().mockResolvedValue(undefined)
+    };
+    registry = {
+      getByPool: jest.fn().mockReturnValue([{ id: 'balanced_liquidity:pool_1', poolAddress: POOL }]),
+      has: jest.fn().mockImplementation((id: string) => id !== 'missing'),
+      getDeployment: jest.fn().mockImplementation((id: string) => ({
+        id,
+        poolAddress: id.endsWith(OTHER_POOL) ? OTHER_POOL : POOL
+      }))
+    };
+
+    service = new PositionAdoptionService(
+      { getPublicKey: () => wallet.publicKey } as any,
+      marketDataService,
+      databaseService,
+      registry,
+      [POOL]
+    );
+  });
+
+  it('should reconstruct unrecorded wallet positions from on-chain data', async () => {
+    const candidates = await service.discover();
+
+    expect(candidates).toHaveLength(1);
+    const [candidate] = candidates;
+    expect(candidate.positionId).toBe(unrecorded.toString());
+    expect([candidate.lowerBinId, candidate.upperBinId]).toEqual([99, 101]);
+    expect(candidate.amountX.toString()).toBe('1');
+    expect(candidate.amountY.toString()).toBe('50');
+    expect(candidate.value.toString()).toBe('150');
+    // 50 Y at 90 and 1 X, worth 110, at 110
+    expect(candidate.estimatedEntryPrice.toFixed(4)).toBe('103.7500');
+    expect(candidate.suggestedDeploymentId).toBe('balanced_liquidity:pool_1');
+    expect(databaseService.savePosition).not.toHaveBeenCalled();
+  });
+
+  it('should load a target pool the market data service is not tracking', async () => {
+    marketDataService.getDLMMInstance.mockReturnValueOnce(null);
+
+    await service.discover();
+
+    expect(marketDataService.addPool).toHaveBeenCalledWith(POOL);
+  });
+
+  it('should record an adopted position as unmanaged by default', async () => {
+    const [candidate] = await service.discover();
+
+    const position = await service.adopt(candidate);
+
+    expect(position.strategy).toBe(UNMANAGED_DEPLOYMENT);
+    expect(position.status).toBe(PositionStatus.ACTIVE);
+    expect(position.entryPrice).toEqual(candidate.estimatedEntryPrice);
+    expect(position.totalLiquidity).toEqual(new Big(150));
+    expect(databaseService.savePosition).toHaveBeenCalledWith(position);
+  });
+
+  it('should refuse a deployment that does not trade the position pool', async () => {
+    const [candidate] = await service.discover();
+
+    await expect(service.adopt(candidate, 'balanced_liquidity:pool_2')).rejects.toThrow(
+      'Deployment balanced_liquidity:pool_2 does not trade pool pool_1'
+    );
+    await expect(service.adopt(candidate, 'missing')).rejects.toThrow('Strategy deployment not found: missing');
+    expect(databaseService.savePosition).not.toHaveBeenCalled();
+  });
+});
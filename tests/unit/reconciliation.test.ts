@@ -0,0 +1,168 @@
+import Big from 'big.js';
+import { Keypair } from '@solana/web3.js';
+import { ReconciliationService } from '../../src/services/reconciliation';
+import { AlertType, DiscrepancyType, Position, PositionStatus } from '../../src/types';
+
+const POOL = 'pool_1';
+const HOUR = 60 * 60 * 1000;
+
+describe('ReconciliationService', () => {
+  const wallet = Keypair.generate();
+  let dlmm: any;
+  let userPositions: any[];
+  let recorded: Position[];
+  let databaseService: any;
+  let marketDataService: any;
+  let service: ReconciliationService;
+
+  const createPosition = (overrides: Partial<Position> = {}): Position => ({
+    id: Keypair.generate().publicKey.toString(),
+    poolAddress: POOL,
+    strategy: 'deployment_1',
+    status: PositionStatus.ACTIVE,
+    lowerBinId: 90,
+    upperBinId: 110,
+    liquidityX: new Big(1),
+    liquidityY: new Big(100),
+    totalLiquidity: new Big(200),
+    entryPrice: new Big(100),
+    currentPrice: new Big(100),
+    unrealizedPnl: new Big(0),
+    realizedPnl: new Big(0),
+    feesCollected: new Big(0),
+    impermanentLoss: new Big(0),
+    createdAt: new Date(Date.now() - HOUR),
+    updatedAt: new Date(Date.now() - HOUR),
+    ...overrides
+  });
+
+  // On-chain amounts are raw: X has 9 decimals, Y has 6
+  const onChain = (id: string, amountX: string, amountY: string, lowerBinId = 90, upperBinId = 110) => ({
+    publicKey: { toString: () => id },
+    positionData: { lowerBinId, upperBinId, totalXAmount: amountX, totalYAmount: amountY }
+  });
+
+  beforeEach(() => {
+    userPositions = [];
+    recorded = [];
+
+    dlmm = {
+      tokenX: { mint: { decimals: 9 } },
+      tokenY: { mint: { decimals: 6 } },
+      refetchStates: jest.fn(),
+      getPositionsByUserAndLbPair: jest.fn().mockImplementation(async () => ({
+        activeBin: { binId: 100, pricePerToken: '100' },
+        userPositions
+      }))
+    };
+    marketDataService = {
+      getTrackedPools: jest.fn().mockReturnValue([POOL]),
+      getDLMMInstance: jest.fn().mockReturnValue(dlmm)
+    };
+    databaseService = {
+      getActivePositions: jest.fn().mockImplementation(async () => recorded.filter(p => p.status === PositionStatus.ACTIVE)),
+      getPositionsByPool: jest.fn().mockImplementation(async () => recorded),
+      updatePosition: jest.fn().mockResolvedValue(undefined),
+      saveRiskAlert: jest.fn().mockResolvedValue(undefined)
+    };
+
+    service = new ReconciliationService(
+      { getPublicKey: () => wallet.publicKey } as any,
+      marketDataService,
+      databaseService,
+      60000,
+      0.02
+    );
+  });
+
+  it('should report no discrepancies when records match the chain', async () => {
+    const position = createPosition();
+    recorded.push(position);
+    userPositions.push(onChain(position.id, '1000000000', '100000000'));
+
+    const report = await service.reconcile();
+
+    expect(report?.positionsChecked).toBe(1);
+    expect(report?.discrepancies).toEqual([]);
+    expect(databaseService.updatePosition).not.toHaveBeenCalled();
+    expect(service.getLastReport()).toBe(report);
+  });
+
+  it('should mark a position gone from the chain as closed, unless it was just created', async () => {
+    const ghost = createPosition();
+    const fresh = createPosition({ createdAt: new Date() });
+    recorded.push(ghost, fresh);
+
+    const report = await service.reconcile();
+
+    expect(report?.discrepancies).toEqual([
+      expect.objectContaining({ type: DiscrepancyType.GHOST, positionId: ghost.id, repaired: true })
+    ]);
+    expect(databaseService.updatePosition).toHaveBeenCalledTimes(1);
+    expect(databaseService.updatePosition).toHaveBeenCalledWith(
+      expect.objectContaining({ id: ghost.id, status: PositionStatus.CLOSED })
+    );
+    expect(databaseService.saveRiskAlert).not.toHaveBeenCalled();
+  });
+
+  it('should alert once on a position opened outside the bot', async () => {
+    const closed = createPosition({ status: PositionStatus.CLOSED });
+    recorded.push(closed);
+    userPositions.push(onChain('orphan_1', '0', '5000000'), onChain(closed.id, '0', '0'));
+
+    const first = await service.reconcile();
+    await service.reconcile();
+
+    expect(first?.discrepancies).toEqual([
+      expect.objectContaining({ type: DiscrepancyType.ORPHAN, positionId: 'orphan_1', repaired: false })
+    ]);
+    expect(databaseService.saveRiskAlert).toHaveBeenCalledTimes(1);
+    expect(databaseService.saveRiskAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ type: AlertType.RECONCILIATION, positionId: 'orphan_1', poolAddress: POOL })
+    );
+  });
+
+  it('should copy the bin range and token mix from the chain', async () => {
+    const position = createPosition();
+    recorded.push(position);
+    // The pool swapped through the range: less X, more Y, worth less than holding
+    userPositions.push(onChain(position.id, '500000000', '140000000', 95, 115));
+
+    const report = await service.reconcile();
+
+    expect(report?.discrepancies.map(d => [d.type, d.repaired])).toEqual([
+      [DiscrepancyType.BIN_RANGE, true],
+      [DiscrepancyType.LIQUIDITY, true]
+    ]);
+    const updated: Position = databaseService.updatePosition.mock.calls[0][0];
+    expect([updated.lowerBinId, updated.upperBinId]).toEqual([95, 115]);
+    expect(updated.liquidityX.toString()).toBe('0.5');
+    expect(updated.liquidityY.toString()).toBe('140');
+    expect(databaseService.saveRiskAlert).not.toHaveBeenCalled();
+  });
+
+  it('should alert rather than repair liquidity added outside the bot', async () => {
+    const position = createPosition();
+    recorded.push(position);
+    userPositions.push(onChain(position.id, '2000000000', '200000000'));
+
+    const report = await service.reconcile();
+
+    expect(report?.discrepancies).toEqual([
+      expect.objectContaining({ type: DiscrepancyType.LIQUIDITY, repaired: false })
+    ]);
+    expect(databaseService.updatePosition).not.toHaveBeenCalled();
+    expect(databaseService.saveRiskAlert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave a pool untouched when its on-chain positions cannot be read', async () => {
+    recorded.push(createPosition());
+    dlmm.getPositionsByUserAndLbPair.mockRejectedValue(new Error('429 Too Many Requests'));
+
+    const report = await service.reconcile();
+
+    expect(report?.poolsChecked).toBe(0);
+    expect(report?.failedPools).toEqual([{ poolAddress: POOL, error: '429 Too Many Requests' }]);
+    expect(databaseService.updatePosition).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,297 @@
+import Big from 'big.js';
+import { RiskService, RiskSettings, assessRisk } from '../../src/services/risk';
+import { DatabaseService } from '../../src/services/database';
+import { MarketDataService } from '../../src/services/market-data';
+import {
+  DbPerformance,
+  DbTransaction,
+  ExecutionMode,
+  PoolData,
+  Position,
+  PositionStatus,
+  RiskLevel,
+  TokenInfo
+} from '../../src/types';
+
+const settings: RiskSettings = {
+  ilWarningThreshold: 0.02,
+  ilActionThreshold: 0.05,
+  ilCriticalThreshold: 0.1,
+  ilEmergencyThreshold: 0.2,
+  maxVolatilityThreshold: 0.5,
+  maxDrawdownThreshold: 0.2,
+  minLiquidityUsd: 10000
+};
+
+const createPosition = (id: string, poolAddress: string, overrides: Partial<Position> = {}): Position => ({
+  id,
+  poolAddress,
+  strategy: 'deployment_1',
+  status: PositionStatus.ACTIVE,
+  lowerBinId: 90,
+  upperBinId: 110,
+  liquidityX: new Big(1),
+  liquidityY: new Big(100),
+  totalLiquidity: new Big(200),
+  entryPrice: new Big(100),
+  currentPrice: new Big(100),
+  unrealizedPnl: new Big(0),
+  realizedPnl: new Big(0),
+  feesCollected: new Big(0),
+  impermanentLoss: new Big(0),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const createToken = (address: string): TokenInfo => ({
+  address,
+  symbol: address,
+  decimals: 9,
+  price: new Big(0),
+  supply: new Big(0),
+  metadata: { name: address, symbol: address },
+  supplyInfo: { totalSupply: new Big(0), circulatingSupply: new Big(0), lastUpdate: new Date(0) },
+  priceHistory: []
+});
+
+const createPool = (address: string, price: number, binId: number, tvl: number, volatility: number): PoolData => ({
+  address,
+  tokenX: createToken('TOKEN_X'),
+  tokenY: createToken('TOKEN_Y'),
+  parameters: { binStep: 100, baseFactor: 10000, maxVolatilityAccumulator: 350000, maxFee: 10, protocolShare: 0.05 },
+  activeBin: {
+    binId,
+    price: new Big(price),
+    state: { amountX: new Big(0), amountY: new Big(0), price: new Big(price), liquiditySupply: new Big(0) }
+  },
+  binArrays: [],
+  metrics: {
+    volume24h: new Big(0),
+    fees24h: new Big(0),
+    tvl: new Big(tvl),
+    apr: 0,
+    volatility,
+    binUtilization: 0,
+    liquidityDistribution: { concentrationIndex: 0, binCount: 0 }
+  },
+  lastUpdated: new Date(0)
+});
+
+const snapshot = (portfolioValue: number, dailyReturn: number, daysAgo: number): DbPerformance => ({
+  id: `perf_${daysAgo}`,
+  date: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+  portfolioValue: portfolioValue.toString(),
+  totalPnl: '0',
+  feesEarned: '0',
+  impermanentLoss: '0',
+  activePositions: 1,
+  dailyReturn: dailyReturn.toString()
+});
+
+describe('assessRisk', () => {
+  it('should report an empty portfolio as riskless', () => {
+    const report = assessRisk({ positions: [], pools: new Map(), history: [], flows: [] }, settings);
+
+    expect(report.metrics.portfolioValue.toString()).toBe('0');
+    expect(report.metrics.riskScore).toBe(0);
+    expect(report.level).toBe(RiskLevel.LOW);
+  });
+
+  it('should value positions at the pool price and break risk down by position and pool', () => {
+    const pools = new Map([
+      ['pool_a', createPool('pool_a', 400, 120, 1_000_000, 0.25)],
+      ['pool_b', createPool('pool_b', 100, 100, 1_000_000, 0.25)]
+    ]);
+    const report = assessRisk({
+      positions: [createPosition('p1', 'pool_a'), createPosition('p2', 'pool_b')],
+      pools,
+      history: [],
+      flows: []
+    }, settings);
+
+    const [moved, flat] = report.positions;
+    // A 4x price move loses 20% of the 500 the deposited tokens would be worth held
+    expect(Number(moved.value.toString())).toBeCloseTo(400, 6);
+    expect(moved.impermanentLossRatio).toBeCloseTo(0.2, 6);
+    expect(Number(moved.impermanentLoss.toString())).toBeCloseTo(100, 6);
+    expect(moved.inRange).toBe(false);
+    expect(moved.riskLevel).toBe(RiskLevel.EXTREME);
+    expect(flat.impermanentLossRatio).toBe(0);
+    expect(flat.riskLevel).toBe(RiskLevel.LOW);
+
+    const [heavy, light] = report.pools;
+    expect([heavy.poolAddress, light.poolAddress]).toEqual(['pool_a', 'pool_b']);
+    expect(heavy.share).toBeCloseTo(400 / 600, 6);
+    expect(light.share).toBeCloseTo(200 / 600, 6);
+    expect(Number(report.metrics.portfolioValue.toString())).toBeCloseTo(600, 6);
+    expect(Number(report.metrics.totalPnl.toString())).toBeCloseTo(200, 6);
+    expect(report.metrics.volatility).toBeCloseTo(0.25, 10);
+    expect(report.metrics.concentrationRisk).toBeCloseTo((400 / 600) ** 2 + (200 / 600) ** 2, 6);
+    expect(report.factors.volatility).toBeCloseTo(50, 10);
+  });
+
+  it('should measure loss per bin for a position with recorded entry bins', () => {
+    // One X in each of the two bins above the entry price, which has since risen three 1% bins
+    const position = createPosition('p1', 'pool_a', {
+      liquidityX: new Big(2),
+      liquidityY: new Big(0),
+      feesCollected: new Big(2),
+      entryActiveBinId: 0,
+      entryBins: [
+        { binId: 1, amountX: new Big(1), amountY: new Big(0) },
+        { binId: 2, amountX: new Big(1), amountY: new Big(0) }
+      ]
+    });
+    const pool = createPool('pool_a', 103.0301, 3, 1_000_000, 0);
+
+    const [risk] = assessRisk({ positions: [position], pools: new Map([['pool_a', pool]]), history: [], flows: [] }, settings).positions;
+
+    // Both bins were sold on the way up, far more than the full-range formula's 0.01%
+    expect(risk.impermanentLoss.toFixed(4)).toBe('3.0502');
+    expect(risk.impermanentLossRatio).toBeCloseTo(3.0502 / 206.0602, 6);
+    expect(risk.feesEarned.toString()).toBe('2');
+    expect(risk.netPnl.toFixed(4)).toBe('-1.0502');
+  });
+
+  it('should treat a pool without known depth as illiquid', () => {
+    const report = assessRisk({
+      positions: [createPosition('p1', 'pool_a')],
+      pools: new Map([['pool_a', createPool('pool_a', 100, 100, 5000, 0)]]),
+      history: [],
+      flows: []
+    }, settings);
+
+    expect(report.pools[0].liquidityRisk).toBe(1);
+    expect(report.metrics.liquidityRisk).toBe(1);
+  });
+
+  it('should measure drawdown from returns net of deposits and withdrawals', () => {
+    const report = assessRisk({
+      positions: [createPosition('p1', 'pool_a')],
+      pools: new Map([['pool_a', createPool('pool_a', 100, 100, 1_000_000, 0)]]),
+      // A 10% loss, then a deposit of 225 that doubled the value without earning anything
+      history: [snapshot(250, 0, 3), snapshot(225, -0.1, 2), snapshot(450, 0, 1)],
+      flows: [{ amount: new Big(-225), timestamp: new Date(Date.now() - 60 * 60 * 1000) }]
+    }, settings);
+
+    // Withdrawing 225 leaves 200 of the remaining 225, another 1/9 lost: 1 - 0.9 * 8/9
+    expect(report.metrics.maxDrawdown).toBeCloseTo(0.2, 10);
+    expect(report.factors.drawdown).toBeCloseTo(100, 10);
+  });
+
+  it('should leave capital flows before the last snapshot to the recorded returns', () => {
+    const report = assessRisk({
+      positions: [createPosition('p1', 'pool_a')],
+      pools: new Map([['pool_a', createPool('pool_a', 100, 100, 1_000_000, 0)]]),
+      history: [snapshot(200, 0, 1)],
+      flows: [{ amount: new Big(-500), timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) }]
+    }, settings);
+
+    expect(report.metrics.maxDrawdown).toBe(0);
+  });
+});
+
+describe('RiskService', () => {
+  let marketDataService: jest.Mocked<Pick<MarketDataService, 'onUpdate' | 'getPoolData'>>;
+  let databaseService: jest.Mocked<Pick<DatabaseService,
+    'getActivePositions' | 'getActivePaperPositions' | 'getPerformanceHistory' |
+    'getTransactionsSince' | 'getPaperTransactionsSince' | 'savePerformance'>>;
+  let service: RiskService;
+
+  const createService = (executionMode: ExecutionMode): RiskService => new RiskService(
+    marketDataService as unknown as MarketDataService,
+    databaseService as unknown as DatabaseService,
+    settings,
+    executionMode
+  );
+
+  const transaction = (type: string, amount: number, timestamp: Date): DbTransaction => ({
+    positionId: 'p1',
+    type,
+    amount: amount.toString(),
+    price: '100',
+    fees: '0',
+    gasUsed: 0,
+    transactionId: `sig_${type}`,
+    timestamp
+  });
+
+  beforeEach(() => {
+    marketDataService = {
+      onUpdate: jest.fn(),
+      getPoolData: jest.fn().mockResolvedValue(createPool('pool_a', 100, 100, 1_000_000, 0.1))
+    };
+    databaseService = {
+      getActivePositions: jest.fn().mockResolvedValue([createPosition('p1', 'pool_a')]),
+      getActivePaperPositions: jest.fn().mockResolvedValue([]),
+      getPerformanceHistory: jest.fn().mockResolvedValue([snapshot(180, 0, 1)]),
+      getTransactionsSince: jest.fn().mockResolvedValue([]),
+      getPaperTransactionsSince: jest.fn().mockResolvedValue([]),
+      savePerformance: jest.fn().mockResolvedValue(undefined)
+    };
+    service = createService(ExecutionMode.LIVE);
+  });
+
+  it('should re-evaluate after every market data update', async () => {
+    const evaluate = jest.spyOn(service, 'evaluate');
+    service.initialize();
+    const listener = marketDataService.onUpdate.mock.calls[0][0];
+
+    listener();
+    await evaluate.mock.results[0].value;
+    listener();
+    await evaluate.mock.results[1].value;
+
+    expect(databaseService.getActivePositions).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share an evaluation already in progress', async () => {
+    const [first, second] = await Promise.all([service.evaluate(), service.evaluate()]);
+
+    expect(first).toBe(second);
+    expect(databaseService.getActivePositions).toHaveBeenCalledTimes(1);
+    expect(await service.getReport()).toBe(first);
+  });
+
+  it('should record one performance snapshot a day', async () => {
+    await service.evaluate();
+
+    expect(databaseService.savePerformance).toHaveBeenCalledWith(expect.objectContaining({
+      portfolioValue: '200',
+      activePositions: 1,
+      dailyReturn: new Big(20).div(180).toString()
+    }));
+
+    databaseService.getPerformanceHistory.mockResolvedValue([snapshot(200, 0, 0)]);
+    await service.evaluate();
+
+    expect(databaseService.savePerformance).toHaveBeenCalledTimes(1);
+  });
+
+  it('should net the deposits and withdrawals in the ledger out of the daily return', async () => {
+    const recent = new Date(Date.now() - 60 * 60 * 1000);
+    databaseService.getTransactionsSince.mockResolvedValue([
+      transaction('CREATE_POSITION', 150, recent),
+      transaction('COLLECT_FEES', 5, recent),
+      transaction('CLOSE_POSITION', 140, recent)
+    ]);
+
+    await service.evaluate();
+
+    // 180 grew to 200 with 10 more deposited than withdrawn, over 190 invested
+    expect(databaseService.getTransactionsSince).toHaveBeenCalledWith(expect.any(Date));
+    expect(databaseService.savePerformance).toHaveBeenCalledWith(expect.objectContaining({
+      dailyReturn: new Big(10).div(190).toString()
+    }));
+  });
+
+  it('should assess paper positions in paper mode', async () => {
+    service = createService(ExecutionMode.PAPER);
+
+    const report = await service.evaluate();
+
+    expect(databaseService.getActivePaperPositions).toHaveBeenCalled();
+    expect(report.positions).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+import bs58 from 'bs58';
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import { SolanaService } from '../../src/services/solana';
+
+// The test environment's placeholder key is not valid base58
+jest.mock('../../src/config', () => {
+  const actual = jest.requireActual('../../src/config');
+  const { Keypair: TestKeypair } = jest.requireActual('@solana/web3.js');
+  const { encode } = jest.requireActual('bs58');
+  return {
+    config: {
+      ...actual.config,
+      solana: { ...actual.config.solana, privateKey: encode(TestKeypair.generate().secretKey) }
+    }
+  };
+});
+
+describe('SolanaService.sendTransactionWithRetry', () => {
+  let connection: any;
+  let service: SolanaService;
+  let blockHeight: number;
+  let statuses: Map<string, any>;
+
+  const createTransaction = (): Transaction => new Transaction().add(SystemProgram.transfer({
+    fromPubkey: service.getPublicKey(),
+    toPubkey: Keypair.generate().publicKey,
+    lamports: 1
+  }));
+
+  beforeEach(() => {
+    blockHeight = 100;
+    statuses = new Map();
+    let blockhashes = 0;
+
+    connection = {
+      getLatestBlockhash: jest.fn(async () => ({
+        blockhash: Keypair.generate().publicKey.toString(),
+        lastValidBlockHeight: 100 + 150 * blockhashes++
+      })),
+      sendRawTransaction: jest.fn(),
+      getSignatureStatus: jest.fn(async (signature: string) => ({ value: statuses.get(signature) || null })),
+      getSignatureStatuses: jest.fn(async (signatures: string[]) => ({
+        value: signatures.map(signature => statuses.get(signature) || null)
+      })),
+      // Each poll advances the chain so unconfirmed blockhashes expire
+      getBlockHeight: jest.fn(async () => (blockHeight += 50))
+    };
+
+    service = new SolanaService();
+    Object.assign(service, { connection, confirmationPollInterval: 0 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should rebroadcast until the transaction confirms', async () => {
+    connection.getBlockHeight.mockResolvedValue(0);
+    connection.getSignatureStatus.mockImplementation(async () => ({
+      value: connection.sendRawTransaction.mock.calls.length >= 2 ? { confirmationStatus: 'confirmed', err: null } : null
+    }));
+    const transaction = createTransaction();
+
+    const signature = await service.sendTransactionWithRetry(transaction, [service.getWallet().payer], {
+      label: 'TEST',
+      maxAttempts: 3
+    });
+
+    expect(signature).toBe(bs58.encode(transaction.signature!));
+    expect(connection.getLatestBlockhash).toHaveBeenCalledTimes(1);
+    expect(connection.sendRawTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should re-sign with a fresh blockhash after expiry', async () => {
+    const attempts: number[] = [];
+    connection.getSignatureStatus.mockImplementation(async () => ({
+      value: attempts.length === 2 ? { confirmationStatus: 'confirmed', err: null } : null
+    }));
+    const transaction = createTransaction();
+
+    const signature = await service.sendTransactionWithRetry(transaction, [service.getWallet().payer], {
+      label: 'TEST',
+      maxAttempts: 3,
+      beforeAttempt: attempt => attempts.push(attempt)
+    });
+
+    expect(attempts).toEqual([1, 2]);
+    expect(connection.getLatestBlockhash).toHaveBeenCalledTimes(2);
+    expect(signature).toBe(bs58.encode(transaction.signature!));
+  });
+
+  it('should not resubmit when an expired attempt turns out to have landed', async () => {
+    const transaction = createTransaction();
+    let firstSignature = '';
+    connection.sendRawTransaction.mockImplementation(async () => {
+      firstSignature = firstSignature || bs58.encode(transaction.signature!);
+    });
+    // Confirmation only becomes visible after the first blockhash expired
+    connection.getSignatureStatuses.mockImplementation(async (signatures: string[]) => ({
+      value: signatures.map(signature => signature === firstSignature ? { confirmationStatus: 'confirmed', err: null } : null)
+    }));
+
+    const signature = await service.sendTransactionWithRetry(transaction, [service.getWallet().payer], {
+      label: 'TEST',
+      maxAttempts: 3
+    });
+
+    expect(signature).toBe(firstSignature);
+    expect(connection.getLatestBlockhash).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep sending after a transient broadcast error', async () => {
+    connection.getBlockHeight.mockResolvedValue(0);
+    connection.sendRawTransaction.mockRejectedValueOnce(new Error('fetch failed'));
+    connection.getSignatureStatus.mockImplementation(async () => ({
+      value: connection.sendRawTransaction.mock.calls.length >= 2 ? { confirmationStatus: 'confirmed', err: null } : null
+    }));
+    const transaction = createTransaction();
+
+    const signature = await service.sendTransactionWithRetry(transaction, [service.getWallet().payer], {
+      label: 'TEST',
+      maxAttempts: 3
+    });
+
+    expect(signature).toBe(bs58.encode(transaction.signature!));
+    expect(connection.getLatestBlockhash).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-sign after the confirmation wait times out', async () => {
+    const attempts: number[] = [];
+    connection.getBlockHeight.mockResolvedValue(0);
+    connection.getSignatureStatus.mockImplementation(async () => ({
+      value: attempts.length === 2 ? { confirmationStatus: 'confirmed', err: null } : null
+    }));
+    // Every clock read during the first attempt is a minute later
+    let now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => (attempts.length === 1 ? (now += 60000) : now));
+    const transaction = createTransaction();
+
+    const signature = await service.sendTransactionWithRetry(transaction, [service.getWallet().payer], {
+      label: 'TEST',
+      maxAttempts: 3,
+      beforeAttempt: attempt => attempts.push(attempt)
+    });
+
+    expect(attempts).toEqual([1, 2]);
+    expect(connection.getLatestBlockhash).toHaveBeenCalledTimes(2);
+    expect(signature).toBe(bs58.encode(transaction.signature!));
+  });
+
+  it('should give up after the maximum attempts', async () => {
+    await expect(service.sendTransactionWithRetry(createTransaction(), [service.getWallet().payer], {
+      label: 'TEST',
+      maxAttempts: 2
+    })).rejects.toThrow('Transaction TEST was not confirmed after 2 attempts');
+
+    expect(connection.getLatestBlockhash).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop when a sent transaction fails on-chain', async () => {
+    connection.getSignatureStatus.mockResolvedValue({ value: { err: { InstructionError: [0, 'Custom'] } } });
+
+    await expect(service.sendTransactionWithRetry(createTransaction(), [service.getWallet().payer], {
+      label: 'TEST',
+      maxAttempts: 3
+    })).rejects.toThrow('Transaction failed');
+
+    expect(connection.getLatestBlockhash).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,6 +1,23 @@
 import { BalancedLiquidityStrategy } from '../../src/strategies/balanced-liquidity';
+import { DCAStrategy } from '../../src/strategies/dca';
+import { MarketMakingStrategy } from '../../src/strategies/market-making';
+import { registerStrategyTypes } from '../../src/strategies';
 import { StrategyRegistry } from '../../src/strategies/registry';
-import { RiskLevel } from '../../src/types';
+import { config } from '../../src/config';
+import { StrategyType } from '@meteora-ag/dlmm';
+import { ActionType, DeploymentStatus, PositionStatus, RiskLevel, StrategyConfig, TimeFrame } from '../../src/types';
+import Big from 'big.js';
+
+const createConfig = (): StrategyConfig => ({
+  poolAddress: 'pool_1',
+  maxPositionSize: new Big(10000),
+  riskParameters: {
+    maxPositionSize: new Big(10000),
+    maxSlippage: 0.01,
+    volatilityThreshold: 0.5,
+    concentrationLimit: 0.25
+  }
+});
 
 describe('Strategy System', () => {
   describe('BalancedLiquidityStrategy', () => {
@@ -25,6 +42,451 @@ describe('Strategy System', () => {
       expect(typeof strategy.initialize).toBe('function');
       expect(typeof strategy.cleanup).toBe('function');
     });
+
+    it('should submit actions through the execution port', async () => {
+      const newPosition = { id: 'position_1' } as any;
+      const executor = {
+        executeAction: jest.fn().mockResolvedValue({ success: true, transactionId: 'sig', newPosition })
+      };
+      await strategy.initialize(createConfig(), executor);
+
+      const action = {
+        type: ActionType.CREATE_POSITION,
+        poolAddress: 'pool_1',
+        parameters: { binRange: [1, 10] as [number, number] },
+        priority: 50,
+        estimatedGas: 0
+      };
+      const result = await strategy.execute(action);
+
+      expect(executor.executeAction).toHaveBeenCalledWith(action);
+      expect(result.transactionId).toBe('sig');
+      expect(result.newPosition).toBe(newPosition);
+    });
+
+    it('should only advance rebalance state when execution succeeds', async () => {
+      const executor = {
+        executeAction: jest.fn().mockResolvedValue({ success: false, error: 'simulation failed' })
+      };
+      await strategy.initialize(createConfig(), executor);
+
+      const marketData = { pools: [{ address: 'pool_1', metrics: { volatility: 0 } }] } as any;
+      const rebalance = {
+        type: ActionType.REBALANCE,
+        poolAddress: 'pool_1',
+        parameters: { positionId: 'position_1' },
+        priority: 50,
+        estimatedGas: 0
+      };
+
+      await strategy.execute(rebalance);
+      expect(await (strategy as any).isStrategySpecificActionSafe(rebalance, marketData)).toBe(true);
+
+      executor.executeAction.mockResolvedValue({ success: true });
+      await strategy.execute(rebalance);
+      expect(await (strategy as any).isStrategySpecificActionSafe(rebalance, marketData)).toBe(false);
+    });
+  });
+
+  describe('BalancedLiquidityStrategy range width', () => {
+    let strategy: BalancedLiquidityStrategy;
+
+    const createMarketData = (binStep: number, volatility: number, price = 100, hours = 0) => ({
+      pools: [{
+        address: 'pool_1',
+        parameters: { binStep },
+        activeBin: { binId: 1000, price: new Big(price) },
+        metrics: { volatility, apr: 0.2, tvl: new Big(100000), fees24h: new Big(0) }
+      }],
+      trends: [],
+      opportunities: [],
+      timestamp: new Date(Date.UTC(2024, 0, 1) + hours * 60 * 60 * 1000)
+    }) as any;
+
+    const analyzeCreate = async (marketData: any) => {
+      const actions = await strategy.analyze(marketData);
+      return actions.find(action => action.type === ActionType.CREATE_POSITION)!;
+    };
+
+    beforeEach(async () => {
+      strategy = new BalancedLiquidityStrategy();
+      await strategy.initialize(createConfig(), { executeAction: jest.fn() });
+    });
+
+    it('should cover the target probability of moves over the rebalance horizon', async () => {
+      const action = await analyzeCreate(createMarketData(10, 0.3));
+
+      // 0.3 annualized over 24h is 1.57%; the 90% band is +/-1.645 sigma, and a 10bp bin is ~0.1%
+      expect(action.parameters.binRange).toEqual([974, 1026]);
+      expect(action.parameters.rangeWidth).toEqual(expect.objectContaining({
+        binsPerSide: 26,
+        source: 'pool',
+        binStep: 10,
+        horizonHours: 24,
+        targetProbability: 0.9,
+        capped: null
+      }));
+    });
+
+    it('should clamp the width to the configured caps', async () => {
+      const wide = await analyzeCreate(createMarketData(1, 0.3));
+      expect(wide.parameters.rangeWidth).toEqual(expect.objectContaining({ binsPerSide: 60, capped: 'max' }));
+
+      const narrow = await analyzeCreate(createMarketData(100, 0.01));
+      expect(narrow.parameters.rangeWidth).toEqual(expect.objectContaining({ binsPerSide: 3, capped: 'min' }));
+    });
+
+    it('should switch to realized volatility once hourly samples exist', async () => {
+      await strategy.analyze(createMarketData(10, 0.3, 100, 0));
+      await strategy.analyze(createMarketData(10, 0.3, 101, 1));
+      const action = await analyzeCreate(createMarketData(10, 0.3, 100, 2));
+
+      expect(action.parameters.rangeWidth.source).toBe('realized');
+      expect(action.parameters.rangeWidth.volatility).toBeGreaterThan(0.3);
+    });
+
+    it('should read realized volatility from the stored hourly series', async () => {
+      const historicalDataService = {
+        getHistoricalData: jest.fn().mockResolvedValue([100, 101, 100, 101].map((price, hour) => ({
+          timestamp: new Date(Date.UTC(2023, 11, 31, 20 + hour)),
+          price: new Big(price)
+        })))
+      };
+      strategy = new BalancedLiquidityStrategy(historicalDataService as any);
+      await strategy.initialize(createConfig(), { executeAction: jest.fn() });
+
+      const action = await analyzeCreate(createMarketData(10, 0.3, 100, 0));
+
+      expect(historicalDataService.getHistoricalData).toHaveBeenCalledWith(
+        'pool_1',
+        TimeFrame.HOURLY,
+        expect.any(Date),
+        new Date(Date.UTC(2024, 0, 1))
+      );
+      expect(action.parameters.rangeWidth.source).toBe('realized');
+      expect(action.parameters.rangeWidth.volatility).toBeGreaterThan(0.3);
+    });
+
+    it('should fall back to in-memory samples while the stored series is short', async () => {
+      const historicalDataService = { getHistoricalData: jest.fn().mockResolvedValue([]) };
+      strategy = new BalancedLiquidityStrategy(historicalDataService as any);
+      await strategy.initialize(createConfig(), { executeAction: jest.fn() });
+
+      const first = await analyzeCreate(createMarketData(10, 0.3, 100, 0));
+      await strategy.analyze(createMarketData(10, 0.3, 101, 1));
+      const third = await analyzeCreate(createMarketData(10, 0.3, 100, 2));
+
+      expect(first.parameters.rangeWidth.source).toBe('pool');
+      expect(third.parameters.rangeWidth.source).toBe('realized');
+    });
+  });
+
+  describe('BalancedLiquidityStrategy rebalancing', () => {
+    let strategy: BalancedLiquidityStrategy;
+
+    const createPosition = (id: string, lowerBinId: number, upperBinId: number, strategyId = 'balanced:pool_1') => ({
+      id,
+      poolAddress: 'pool_1',
+      strategy: strategyId,
+      status: PositionStatus.ACTIVE,
+      lowerBinId,
+      upperBinId
+    });
+
+    const createMarketData = (positions?: any[]) => ({
+      pools: [{
+        address: 'pool_1',
+        activeBin: { binId: 100, price: new Big(1) },
+        metrics: { volatility: 0, apr: 0.2, tvl: new Big(100000), fees24h: new Big(0) }
+      }],
+      trends: [],
+      opportunities: [],
+      positions,
+      timestamp: new Date()
+    }) as any;
+
+    beforeEach(async () => {
+      strategy = new BalancedLiquidityStrategy();
+      await strategy.initialize({
+        ...createConfig(),
+        deploymentId: 'balanced:pool_1',
+        rebalanceThreshold: 0.1
+      }, { executeAction: jest.fn() });
+    });
+
+    it('should rebalance each out-of-range or edge position by id', async () => {
+      const actions = await strategy.analyze(createMarketData([
+        createPosition('out_of_range', 80, 99),
+        createPosition('near_edge', 99, 118),
+        createPosition('centered', 90, 110),
+        createPosition('other_deployment', 80, 99, 'balanced:other')
+      ]));
+
+      const rebalances = actions.filter(action => action.type === ActionType.REBALANCE);
+      expect(rebalances.map(action => [action.parameters.positionId, action.parameters.reason])).toEqual([
+        ['out_of_range', 'Out of range'],
+        ['near_edge', 'Near range edge']
+      ]);
+      expect(rebalances[0].parameters.binRange).toEqual([90, 110]);
+      expect(actions.some(action => action.type === ActionType.CREATE_POSITION)).toBe(false);
+    });
+
+    it('should open a position only when the deployment has none', async () => {
+      const actions = await strategy.analyze(createMarketData([]));
+
+      expect(actions.map(action => action.type)).toEqual([ActionType.CREATE_POSITION]);
+    });
+
+    it('should not rebalance without position data', async () => {
+      const actions = await strategy.analyze(createMarketData());
+
+      expect(actions.some(action => action.type === ActionType.REBALANCE)).toBe(false);
+    });
+  });
+
+  describe('DCAStrategy', () => {
+    const HOUR_MS = 60 * 60 * 1000;
+    const start = Date.UTC(2024, 0, 1);
+    let strategy: DCAStrategy;
+    let executor: { executeAction: jest.Mock };
+
+    const createMarketData = (binId: number, price: number, hours = 0, positions?: any[]) => ({
+      pools: [{
+        address: 'pool_1',
+        activeBin: { binId, price: new Big(price) },
+        metrics: { volatility: 0, apr: 0 }
+      }],
+      trends: [],
+      opportunities: [],
+      positions,
+      timestamp: new Date(start + hours * HOUR_MS)
+    }) as any;
+
+    const runCycle = async (binId: number, price: number, hours: number, positions?: any[]) => {
+      const actions = await strategy.analyze(createMarketData(binId, price, hours, positions));
+      for (const action of actions) {
+        await strategy.execute(action);
+      }
+      return actions;
+    };
+
+    beforeEach(async () => {
+      let nextId = 1;
+      executor = {
+        executeAction: jest.fn().mockImplementation(async () => ({
+          success: true,
+          newPosition: { id: `order_${nextId++}` },
+          actualReturn: new Big(100),
+          amountX: new Big(0.95),
+          amountY: new Big(0)
+        }))
+      };
+      strategy = new DCAStrategy();
+      await strategy.initialize({
+        ...createConfig(),
+        deploymentId: 'dca:pool_1',
+        orderAmount: 100,
+        totalBudget: 200,
+        intervalMs: HOUR_MS,
+        orderTimeoutMs: 4 * HOUR_MS,
+        maxPrice: 120
+      }, executor);
+    });
+
+    it('should place one-sided orders below the active bin on its cadence', async () => {
+      const [order] = await runCycle(100, 100, 0);
+
+      expect(order.type).toBe(ActionType.CREATE_POSITION);
+      expect(order.parameters.binRange).toEqual([99, 99]);
+      expect(order.parameters.liquidityAmount?.toString()).toBe('100');
+
+      // Too early for the next order
+      expect(await runCycle(100, 100, 0.5)).toHaveLength(0);
+      expect(await runCycle(100, 100, 1)).toHaveLength(1);
+
+      // Budget of 200 is fully committed after two orders
+      expect(await runCycle(100, 100, 2)).toHaveLength(0);
+      expect(strategy.getState().remainingBudget).toBe('0');
+    });
+
+    it('should skip orders while the price is outside its band', async () => {
+      expect(await runCycle(100, 130, 0)).toHaveLength(0);
+    });
+
+    it('should withdraw filled orders and cancel expired ones', async () => {
+      await runCycle(100, 100, 0);
+      await runCycle(110, 110, 1);
+
+      // Price dropped through the second order only
+      const actions = await runCycle(105, 105, 1.5);
+      expect(actions.map(a => [a.type, a.parameters.positionId, a.parameters.percentage, a.parameters.dcaOutcome])).toEqual([
+        [ActionType.REMOVE_LIQUIDITY, 'order_2', 100, 'filled']
+      ]);
+
+      // The order at bin 99 is never reached and expires, returning its amount to the budget
+      const expired = await runCycle(105, 105, 6);
+      expect(expired.find(a => a.type === ActionType.REMOVE_LIQUIDITY)?.parameters.dcaOutcome).toBe('expired');
+
+      const state = strategy.getState();
+      expect(state.filledOrders).toBe(1);
+      // The X the filled order returned, not its deposit value
+      expect(state.accumulated).toBe('0.95');
+    });
+
+    it('should hold back new orders but still withdraw filled ones in a volatile pool', async () => {
+      await runCycle(100, 100, 0);
+
+      // The first order filled and the next one is due, but volatility is above the 0.5 threshold
+      const marketData = createMarketData(98, 98, 1);
+      marketData.pools[0].metrics.volatility = 0.8;
+      const actions = await strategy.analyze(marketData);
+
+      expect(actions.map(a => [a.type, a.parameters.positionId, a.parameters.dcaOutcome])).toEqual([
+        [ActionType.REMOVE_LIQUIDITY, 'order_1', 'filled']
+      ]);
+    });
+
+    it('should rebuild open orders from the deployment positions after a restart', async () => {
+      const positions = [
+        { id: 'order_a', poolAddress: 'pool_1', strategy: 'dca:pool_1', lowerBinId: 99, upperBinId: 99, totalLiquidity: new Big(100), createdAt: new Date(start) },
+        { id: 'order_b', poolAddress: 'pool_1', strategy: 'dca:pool_1', lowerBinId: 94, upperBinId: 94, totalLiquidity: new Big(100), createdAt: new Date(start + HOUR_MS) },
+        { id: 'other', poolAddress: 'pool_1', strategy: 'balanced:pool_1', lowerBinId: 90, upperBinId: 110, totalLiquidity: new Big(500), createdAt: new Date(start) }
+      ];
+
+      // The two open orders already commit the whole budget of 200
+      const actions = await runCycle(97, 97, 3, positions);
+
+      expect(actions.map(a => [a.type, a.parameters.positionId, a.parameters.dcaOutcome])).toEqual([
+        [ActionType.REMOVE_LIQUIDITY, 'order_a', 'filled']
+      ]);
+      expect(executor.executeAction).toHaveBeenCalledTimes(1);
+      const state = strategy.getState();
+      expect(state.openOrders.map((order: any) => order.positionId)).toEqual(['order_b']);
+      expect(state.committed).toBe('200');
+      expect(state.remainingBudget).toBe('0');
+    });
+
+    it('should keep counting orders filled before a restart against the budget', async () => {
+      const positions = [
+        { id: 'order_b', poolAddress: 'pool_1', strategy: 'dca:pool_1', lowerBinId: 94, upperBinId: 94, totalLiquidity: new Big(100), createdAt: new Date(start + HOUR_MS) }
+      ];
+      const execution = (actionType: ActionType, positionId: string, parameters: Record<string, any>, deploymentId = 'dca:pool_1') => ({
+        deploymentId,
+        actionType,
+        poolAddress: 'pool_1',
+        positionId,
+        priority: 0,
+        parameters: JSON.stringify(parameters),
+        success: true,
+        executedAt: new Date(start)
+      });
+      const marketData = createMarketData(100, 100, 3, positions);
+      marketData.executions = [
+        execution(ActionType.CREATE_POSITION, 'order_a', { liquidityAmount: new Big(100) }),
+        execution(ActionType.REMOVE_LIQUIDITY, 'order_a', { percentage: 100, dcaOutcome: 'filled' }),
+        execution(ActionType.CREATE_POSITION, 'order_b', { liquidityAmount: new Big(100) }),
+        execution(ActionType.REMOVE_LIQUIDITY, 'order_c', { percentage: 100, dcaOutcome: 'filled' }, 'dca:pool_2')
+      ];
+
+      // Order a was filled and withdrawn, order b is still open: the budget of 200 is used up
+      expect(await strategy.analyze(marketData)).toHaveLength(0);
+
+      const state = strategy.getState();
+      expect(state.filledOrders).toBe(1);
+      expect(state.committed).toBe('200');
+      expect(state.remainingBudget).toBe('0');
+    });
+
+    it('should only be registered when DCA_STRATEGY_ENABLED is on', () => {
+      const enabled = config.strategies.dcaStrategyEnabled;
+      try {
+        config.strategies.dcaStrategyEnabled = false;
+        const disabled = new StrategyRegistry();
+        registerStrategyTypes(disabled);
+        expect(disabled.hasType('dca')).toBe(false);
+
+        config.strategies.dcaStrategyEnabled = true;
+        const registry = new StrategyRegistry();
+        registerStrategyTypes(registry);
+        expect(registry.hasType('dca')).toBe(true);
+      } finally {
+        config.strategies.dcaStrategyEnabled = enabled;
+      }
+    });
+  });
+
+  describe('MarketMakingStrategy', () => {
+    let strategy: MarketMakingStrategy;
+    let executor: { executeAction: jest.Mock };
+
+    const createMarketData = (metrics: Record<string, number>, positions?: any[]) => ({
+      pools: [{
+        address: 'pool_1',
+        activeBin: { binId: 100, price: new Big(2) },
+        metrics: { volatility: 0, apr: 0, ...metrics }
+      }],
+      trends: [],
+      opportunities: [],
+      positions,
+      timestamp: new Date()
+    }) as any;
+
+    const createQuote = (id: string, lowerBinId: number, upperBinId: number, liquidityX: number, liquidityY: number) => ({
+      id,
+      poolAddress: 'pool_1',
+      strategy: 'market_making:pool_1',
+      lowerBinId,
+      upperBinId,
+      liquidityX: new Big(liquidityX),
+      liquidityY: new Big(liquidityY)
+    });
+
+    beforeEach(async () => {
+      executor = { executeAction: jest.fn().mockResolvedValue({ success: true }) };
+      strategy = new MarketMakingStrategy();
+      await strategy.initialize({
+        ...createConfig(),
+        deploymentId: 'market_making:pool_1',
+        minRequoteInterval: 0
+      }, executor);
+    });
+
+    it('should quote a Curve around the active bin in calm markets', async () => {
+      const [action] = await strategy.analyze(createMarketData({ volatility: 0.05, dynamicFee: 0.2 }, []));
+
+      expect(action.type).toBe(ActionType.CREATE_POSITION);
+      expect(action.parameters.binRange).toEqual([92, 108]);
+      expect(action.parameters.strategyType).toBe(StrategyType.Curve);
+    });
+
+    it('should widen into a BidAsk quote when volatility or the dynamic fee rises', async () => {
+      const [byVolatility] = await strategy.analyze(createMarketData({ volatility: 0.2 }, []));
+      expect(byVolatility.parameters.binRange).toEqual([84, 116]);
+      expect(byVolatility.parameters.strategyType).toBe(StrategyType.BidAsk);
+
+      const [byFee] = await strategy.analyze(createMarketData({ volatility: 0.05, dynamicFee: 1 }, []));
+      expect(byFee.parameters.binRange).toEqual([68, 132]);
+      expect(byFee.parameters.quote.dynamicFee).toBe(1);
+    });
+
+    it('should skew the requote away from surplus inventory', async () => {
+      // Holding 300 of value in X against 100 in Y, and the quote needs widening
+      const positions = [createQuote('quote_1', 97, 103, 150, 100)];
+      const [action] = await strategy.analyze(createMarketData({ volatility: 0.05 }, positions));
+
+      expect(action.type).toBe(ActionType.REBALANCE);
+      expect(action.parameters.positionId).toBe('quote_1');
+      expect(action.parameters.quote.inventoryImbalance).toBe(0.5);
+      // Center moves up by 0.5 * 0.5 * 8 bins, so more of the range sells X
+      expect(action.parameters.binRange).toEqual([94, 110]);
+    });
+
+    it('should leave quotes alone while they fit the market', async () => {
+      const positions = [createQuote('quote_1', 92, 108, 0, 100)];
+      const actions = await strategy.analyze(createMarketData({ volatility: 0.05 }, positions));
+
+      expect(actions).toHaveLength(0);
+    });
   });
 
   describe('StrategyRegistry', () => {
@@ -38,20 +500,53 @@ describe('Strategy System', () => {
       expect(registry).toBeDefined();
     });
 
-    it('should register strategies', () => {
-      const strategy = new BalancedLiquidityStrategy();
-      registry.register(strategy);
-      
-      const retrieved = registry.get('balanced_liquidity');
-      expect(retrieved).toBe(strategy);
+    const deployOn = (id: string, poolAddress: string, parameters: Record<string, any> = {}) =>
+      registry.deploy({ id, strategy: 'balanced_liquidity', poolAddress, parameters });
+
+    beforeEach(() => {
+      registry.registerType(() => new BalancedLiquidityStrategy());
+      registry.setExecutionPort({ executeAction: jest.fn().mockResolvedValue({ success: true }) });
+    });
+
+    it('should register strategy types', () => {
+      expect(registry.hasType('balanced_liquidity')).toBe(true);
+      expect(registry.listTypes().map(type => type.name)).toContain('balanced_liquidity');
+    });
+
+    it('should deploy one strategy instance per deployment', async () => {
+      await deployOn('balanced:pool_1', 'pool_1');
+      await deployOn('balanced:pool_2', 'pool_2', { rebalanceThreshold: 0.2 });
+
+      expect(registry.list()).toEqual(['balanced:pool_1', 'balanced:pool_2']);
+      expect(registry.get('balanced:pool_1')).not.toBe(registry.get('balanced:pool_2'));
+      expect(registry.getByPool('pool_2')[0].parameters.rebalanceThreshold).toBe(0.2);
+      expect(registry.getRunning()).toHaveLength(2);
+    });
+
+    it('should reject duplicate deployment ids and unknown types', async () => {
+      await deployOn('balanced:pool_1', 'pool_1');
+
+      await expect(deployOn('balanced:pool_1', 'pool_2')).rejects.toThrow('already exists');
+      await expect(
+        registry.deploy({ id: 'dca:pool_1', strategy: 'dca', poolAddress: 'pool_1' })
+      ).rejects.toThrow('Strategy not found: dca');
     });
 
-    it('should list registered strategies', () => {
-      const strategy = new BalancedLiquidityStrategy();
-      registry.register(strategy);
-      
-      const strategies = registry.list();
-      expect(strategies).toContain('balanced_liquidity');
+    it('should stop and reconfigure deployments independently', async () => {
+      await deployOn('balanced:pool_1', 'pool_1');
+      await deployOn('balanced:pool_2', 'pool_2');
+
+      await registry.stop('balanced:pool_1');
+      expect(registry.getDeployment('balanced:pool_1').status).toBe(DeploymentStatus.STOPPED);
+      expect(registry.getRunning().map(d => d.id)).toEqual(['balanced:pool_2']);
+
+      await registry.reconfigure('balanced:pool_2', { rebalanceThreshold: 0.3 });
+      const reconfigured = registry.getDeployment('balanced:pool_2');
+      expect(reconfigured.status).toBe(DeploymentStatus.RUNNING);
+      expect(reconfigured.strategy.getState().rebalanceThreshold).toBe(0.3);
+
+      await registry.start('balanced:pool_1');
+      expect(registry.getRunning()).toHaveLength(2);
     });
 
     it('should throw error for unknown strategy', () => {
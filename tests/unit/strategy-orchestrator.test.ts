@@ -0,0 +1,280 @@
+import Big from 'big.js';
+import { StrategyOrchestrator } from '../../src/services/strategy-orchestrator';
+import { ILPolicyService } from '../../src/services/il-policy';
+import { EmergencyHaltService } from '../../src/services/emergency-halt';
+import { StrategyRegistry } from '../../src/strategies/registry';
+import {
+  ActionType,
+  DeploymentStatus,
+  ExecutionMode,
+  PositionStatus,
+  RiskLevel,
+  Strategy,
+  StrategyAction,
+  StrategyDeployment
+} from '../../src/types';
+
+const POOL = 'pool_1';
+
+const createAction = (type: ActionType, priority: number, parameters: any = {}): StrategyAction => ({
+  type,
+  poolAddress: POOL,
+  parameters,
+  priority,
+  estimatedGas: 0
+});
+
+const createStrategy = (
+  name: string,
+  analyze: jest.Mock,
+  execute: jest.Mock = jest.fn().mockResolvedValue({ success: true, transactionId: 'sig' })
+): Strategy => ({
+  name,
+  description: name,
+  riskLevel: RiskLevel.MEDIUM,
+  isActive: true,
+  initialize: jest.fn(),
+  analyze,
+  execute,
+  cleanup: jest.fn(),
+  getState: jest.fn().mockReturnValue({})
+});
+
+const createDeployment = (id: string, strategy: Strategy): StrategyDeployment => ({
+  id,
+  strategyType: strategy.name,
+  poolAddress: POOL,
+  parameters: {},
+  status: DeploymentStatus.RUNNING,
+  strategy,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('StrategyOrchestrator', () => {
+  let registry: StrategyRegistry;
+  let marketDataService: any;
+  let databaseService: any;
+  let orchestrator: StrategyOrchestrator;
+
+  beforeEach(() => {
+    registry = new StrategyRegistry();
+    marketDataService = {
+      getMarketData: jest.fn().mockResolvedValue({ pools: [], trends: [], opportunities: [], timestamp: new Date() })
+    };
+    databaseService = {
+      saveActionExecution: jest.fn().mockResolvedValue(undefined),
+      getPositionsByPool: jest.fn().mockResolvedValue([]),
+      getActionExecutionsByDeployment: jest.fn().mockResolvedValue([])
+    };
+    registry.setExecutionPort({ executeAction: jest.fn() });
+    orchestrator = new StrategyOrchestrator(
+      marketDataService,
+      databaseService,
+      registry,
+      60000
+    );
+  });
+
+  const deploy = async (strategy: Strategy): Promise<void> => {
+    registry.registerType(() => strategy);
+    await registry.deploy({ id: `${strategy.name}:${POOL}`, strategy: strategy.name, poolAddress: POOL });
+  };
+
+  it('should execute actions from every strategy in priority order', async () => {
+    const executed: ActionType[] = [];
+    const execute = jest.fn().mockImplementation(async (action: StrategyAction) => {
+      executed.push(action.type);
+      return { success: true };
+    });
+
+    await deploy(createStrategy('low', jest.fn().mockResolvedValue([
+      createAction(ActionType.CREATE_POSITION, 40, { binRange: [1, 10] })
+    ]), execute));
+    await deploy(createStrategy('high', jest.fn().mockResolvedValue([
+      createAction(ActionType.COLLECT_FEES, 80)
+    ]), execute));
+
+    const result = await orchestrator.runCycle();
+
+    expect(result?.actionsExecuted).toBe(2);
+    expect(executed).toEqual([ActionType.COLLECT_FEES, ActionType.CREATE_POSITION]);
+    expect(databaseService.saveActionExecution).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep running other strategies when one throws', async () => {
+    await deploy(createStrategy('broken', jest.fn().mockRejectedValue(new Error('boom'))));
+    await deploy(createStrategy('healthy', jest.fn().mockResolvedValue([
+      createAction(ActionType.COLLECT_FEES, 50)
+    ])));
+
+    const result = await orchestrator.runCycle();
+
+    expect(result?.strategiesFailed).toEqual([`broken:${POOL}`]);
+    expect(result?.actionsSucceeded).toBe(1);
+  });
+
+  it('should de-duplicate equivalent actions and keep the highest priority', () => {
+    const a = createDeployment('a', createStrategy('a', jest.fn()));
+    const b = createDeployment('b', createStrategy('b', jest.fn()));
+
+    const merged = orchestrator.mergeActions([
+      { action: createAction(ActionType.COLLECT_FEES, 30), deployment: a, sources: ['a'] },
+      { action: createAction(ActionType.COLLECT_FEES, 70), deployment: b, sources: ['b'] }
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].deployment).toBe(b);
+    expect(merged[0].sources).toEqual(['a', 'b']);
+  });
+
+  it('should drop other actions for a pool that is being exited', () => {
+    const a = createDeployment('a', createStrategy('a', jest.fn()));
+
+    const merged = orchestrator.mergeActions([
+      { action: createAction(ActionType.CREATE_POSITION, 90, { liquidityAmount: new Big(100) }), deployment: a, sources: ['a'] },
+      { action: createAction(ActionType.EMERGENCY_EXIT, 100), deployment: a, sources: ['a'] }
+    ]);
+
+    expect(merged.map(p => p.action.type)).toEqual([ActionType.EMERGENCY_EXIT]);
+  });
+
+  it('should record failed executions without throwing', async () => {
+    await deploy(createStrategy('a', jest.fn().mockResolvedValue([
+      createAction(ActionType.COLLECT_FEES, 50)
+    ]), jest.fn().mockRejectedValue(new Error('rpc down'))));
+
+    const result = await orchestrator.runCycle();
+
+    expect(result?.actionsSucceeded).toBe(0);
+    expect(databaseService.saveActionExecution).toHaveBeenCalledWith(
+      expect.objectContaining({ success: false, error: 'rpc down' })
+    );
+  });
+
+  it('should attach open positions of deployed pools to the market data', async () => {
+    const analyze = jest.fn().mockResolvedValue([]);
+    databaseService.getPositionsByPool.mockResolvedValue([
+      { id: 'open', status: PositionStatus.ACTIVE },
+      { id: 'closed', status: PositionStatus.CLOSED }
+    ]);
+    await deploy(createStrategy('a', analyze));
+
+    await orchestrator.runCycle();
+
+    expect(databaseService.getPositionsByPool).toHaveBeenCalledWith(POOL);
+    expect(analyze.mock.calls[0][0].positions.map((p: any) => p.id)).toEqual(['open']);
+  });
+
+  it('should execute IL policy responses through the deployment managing the position', async () => {
+    const execute = jest.fn().mockResolvedValue({ success: true });
+    databaseService.saveRiskAlert = jest.fn().mockResolvedValue(undefined);
+    databaseService.getPositionsByPool.mockResolvedValue([{
+      id: 'losing',
+      poolAddress: POOL,
+      strategy: `a:${POOL}`,
+      status: PositionStatus.ACTIVE,
+      lowerBinId: 90,
+      upperBinId: 110,
+      entryPrice: new Big(100)
+    }]);
+    marketDataService.getMarketData.mockResolvedValue({
+      pools: [{ address: POOL, activeBin: { binId: 200, price: new Big(500) } }],
+      trends: [],
+      opportunities: [],
+      timestamp: new Date()
+    });
+    await deploy(createStrategy('a', jest.fn().mockResolvedValue([]), execute));
+
+    await orchestrator.runCycle();
+
+    expect(execute).toHaveBeenCalledWith(expect.objectContaining({
+      type: ActionType.EMERGENCY_EXIT,
+      parameters: expect.objectContaining({ positionId: 'losing' })
+    }));
+    expect(databaseService.saveActionExecution).toHaveBeenCalledWith(
+      expect.objectContaining({ deploymentId: `a:${POOL}`, actionType: ActionType.EMERGENCY_EXIT })
+    );
+  });
+
+  it('should leave limit-order positions to their deployment instead of the IL policy', async () => {
+    const execute = jest.fn().mockResolvedValue({ success: true });
+    databaseService.saveRiskAlert = jest.fn().mockResolvedValue(undefined);
+    databaseService.getPositionsByPool.mockResolvedValue([{
+      id: 'order',
+      poolAddress: POOL,
+      strategy: `dca:${POOL}`,
+      status: PositionStatus.ACTIVE,
+      lowerBinId: 90,
+      upperBinId: 110,
+      entryPrice: new Big(100)
+    }]);
+    // Far enough through the order for the policy to withdraw part of a position it managed
+    marketDataService.getMarketData.mockResolvedValue({
+      pools: [{ address: POOL, activeBin: { binId: 200, price: new Big(300) } }],
+      trends: [],
+      opportunities: [],
+      timestamp: new Date()
+    });
+    const fill = createAction(ActionType.REMOVE_LIQUIDITY, 50, { positionId: 'order', percentage: 100, dcaOutcome: 'filled' });
+    await deploy({ ...createStrategy('dca', jest.fn().mockResolvedValue([fill]), execute), placesLimitOrders: true });
+
+    await orchestrator.runCycle();
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledWith(fill);
+    expect(databaseService.saveRiskAlert).not.toHaveBeenCalled();
+  });
+
+  it('should keep withdrawals of different shares of a position apart', () => {
+    const a = createDeployment('a', createStrategy('a', jest.fn()));
+
+    const merged = orchestrator.mergeActions([
+      { action: createAction(ActionType.REMOVE_LIQUIDITY, 50, { positionId: 'p1', percentage: 100 }), deployment: a, sources: ['a'] },
+      { action: createAction(ActionType.REMOVE_LIQUIDITY, 90, { positionId: 'p1', percentage: 40 }), deployment: a, sources: ['il_policy'] }
+    ]);
+
+    expect(merged.map(p => p.action.parameters.percentage)).toEqual([40, 100]);
+  });
+
+  it('should run only exits while trading is halted', async () => {
+    const executed: ActionType[] = [];
+    const execute = jest.fn().mockImplementation(async (action: StrategyAction) => {
+      executed.push(action.type);
+      return { success: true };
+    });
+    databaseService.getActiveEmergencyHalt = jest.fn().mockResolvedValue({ reason: 'incident', haltedAt: new Date() });
+    const haltService = new EmergencyHaltService(databaseService);
+    await haltService.initialize();
+    orchestrator = new StrategyOrchestrator(
+      marketDataService,
+      databaseService,
+      registry,
+      60000,
+      ExecutionMode.LIVE,
+      new ILPolicyService(databaseService),
+      haltService
+    );
+    await deploy(createStrategy('a', jest.fn().mockResolvedValue([
+      createAction(ActionType.CREATE_POSITION, 40, { binRange: [1, 10] }),
+      createAction(ActionType.CLOSE_POSITION, 60, { positionId: 'open' })
+    ]), execute));
+
+    const result = await orchestrator.runCycle();
+
+    expect(executed).toEqual([ActionType.CLOSE_POSITION]);
+    expect(result?.actionsProposed).toBe(2);
+    expect(result?.actionsExecuted).toBe(1);
+  });
+
+  it('should skip stopped deployments', async () => {
+    const analyze = jest.fn().mockResolvedValue([]);
+    await deploy(createStrategy('paused', analyze));
+    await registry.stop(`paused:${POOL}`);
+
+    const result = await orchestrator.runCycle();
+
+    expect(analyze).not.toHaveBeenCalled();
+    expect(result?.strategiesAnalyzed).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { ComputeBudgetProgram, Keypair, PACKET_DATA_SIZE, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { getLookupCandidates, getV0TransactionSize, packTransactions } from '../../src/services/transaction-packing';
+
+describe('transaction packing', () => {
+  const payer = Keypair.generate();
+  const ataProgram = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+  const instruction = (dataSize: number, programId: PublicKey = Keypair.generate().publicKey): TransactionInstruction =>
+    new TransactionInstruction({
+      programId,
+      keys: [
+        { pubkey: payer.publicKey, isSigner: true, isWritable: true },
+        { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true }
+      ],
+      data: Buffer.alloc(dataSize)
+    });
+
+  it('should merge small transactions and drop their compute budget instructions', () => {
+    const transactions = [
+      new Transaction().add(ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 }), instruction(16)),
+      new Transaction().add(ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 }), instruction(16))
+    ];
+
+    const groups = packTransactions(transactions, payer.publicKey, []);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toHaveLength(2);
+    expect(getV0TransactionSize(payer.publicKey, groups[0], [])).toBeLessThanOrEqual(PACKET_DATA_SIZE);
+  });
+
+  it('should start a new transaction when merging would exceed the packet size', () => {
+    const groups = packTransactions(
+      [new Transaction().add(instruction(700)), new Transaction().add(instruction(700))],
+      payer.publicKey,
+      []
+    );
+
+    expect(groups).toHaveLength(2);
+  });
+
+  it('should start a new transaction when merging would exceed the compute limit', () => {
+    const groups = packTransactions(
+      [
+        new Transaction().add(ComputeBudgetProgram.setComputeUnitLimit({ units: 1_000_000 }), instruction(8)),
+        new Transaction().add(ComputeBudgetProgram.setComputeUnitLimit({ units: 1_000_000 }), instruction(8))
+      ],
+      payer.publicKey,
+      []
+    );
+
+    expect(groups).toHaveLength(2);
+  });
+
+  it('should keep the instructions of one SDK transaction together', () => {
+    const transaction = new Transaction().add(instruction(8), instruction(8), instruction(8));
+
+    const groups = packTransactions([transaction], payer.publicKey, []);
+
+    expect(groups).toEqual([transaction.instructions]);
+  });
+
+  it('should create a token account once when merged transactions both create it', () => {
+    const createAccount = instruction(1, ataProgram);
+
+    const groups = packTransactions(
+      [new Transaction().add(createAccount, instruction(8)), new Transaction().add(createAccount, instruction(8))],
+      payer.publicKey,
+      []
+    );
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].filter(i => i.programId.equals(ataProgram))).toHaveLength(1);
+  });
+
+  it('should offer only allowed non-signer, non-program accounts for the lookup table', () => {
+    const program = Keypair.generate().publicKey;
+    const first = instruction(8, program);
+    const second = new TransactionInstruction({
+      programId: Keypair.generate().publicKey,
+      keys: [{ pubkey: program, isSigner: false, isWritable: false }],
+      data: Buffer.alloc(0)
+    });
+
+    // A per-operation account, such as a position, is left in the message rather than filling the table
+    const third = instruction(8);
+
+    const candidates = getLookupCandidates(
+      [new Transaction().add(first, second, third)],
+      [payer],
+      [payer.publicKey, program, first.keys[1].pubkey]
+    );
+
+    expect(candidates.map(key => key.toString())).toEqual([first.keys[1].pubkey.toString()]);
+  });
+});
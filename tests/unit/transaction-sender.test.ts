@@ -0,0 +1,248 @@
+import Big from 'big.js';
+import { ComputeBudgetProgram, Keypair, Transaction, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
+import { TransactionSender, decodeTokenAmount, getSimulationError } from '../../src/services/transaction-sender';
+import { TransactionSequenceError } from '../../src/utils/error';
+import { PriorityFeePolicy, TransactionStepStatus } from '../../src/types';
+
+// Base64 SPL token account data holding a raw amount
+const tokenAccountData = (amount: bigint): string[] => {
+  const data = Buffer.alloc(165);
+  data.writeBigUInt64LE(amount, 64);
+  return [data.toString('base64'), 'base64'];
+};
+
+describe('TransactionSender', () => {
+  const mint = Keypair.generate().publicKey;
+  const tokenAccount = Keypair.generate().publicKey;
+  const payer = Keypair.generate();
+  let solanaService: any;
+  let sender: TransactionSender;
+
+  beforeEach(() => {
+    solanaService = {
+      getConnection: () => ({
+        getTokenAccountBalance: jest.fn().mockResolvedValue({ value: { amount: '5000000' } })
+      }),
+      getTokenAccountAddress: jest.fn().mockResolvedValue(tokenAccount),
+      getPublicKey: () => payer.publicKey,
+      simulateTransaction: jest.fn().mockResolvedValue({
+        err: null,
+        logs: ['Program log: Instruction: AddLiquidityByStrategy'],
+        unitsConsumed: 85000,
+        accounts: [{ data: tokenAccountData(BigInt(3000000)) }]
+      }),
+      getRecentPrioritizationFees: jest.fn().mockResolvedValue([0, 2000, 5000, 9000]),
+      getTransactionFee: jest.fn().mockResolvedValue(5425),
+      estimateTransactionFee: jest.fn().mockResolvedValue(5000),
+      sendTransactionWithRetry: jest.fn(async (_tx, _signers, options) => {
+        options.beforeAttempt(1);
+        return 'sig_1';
+      })
+    };
+    sender = new TransactionSender(
+      solanaService,
+      null,
+      { policy: PriorityFeePolicy.CAPPED, microLamports: 1000, percentile: 75, maxMicroLamports: 4000, escalation: 2 },
+      0.1,
+      3
+    );
+  });
+
+  it('should send after a successful simulation and return the predicted balance changes', async () => {
+    const { signature, simulation } = await sender.send(new Transaction(), [payer], {
+      label: 'ADD_LIQUIDITY',
+      guards: [{ mint, decimals: 6, maxSpend: new Big(2.02) }]
+    });
+
+    expect(signature).toBe('sig_1');
+    expect(solanaService.simulateTransaction).toHaveBeenCalledWith(expect.any(Transaction), [tokenAccount]);
+    expect(simulation.unitsConsumed).toBe(85000);
+    expect(simulation.logs).toEqual(['Program log: Instruction: AddLiquidityByStrategy']);
+    expect(simulation.balanceChanges[0].change.toString()).toBe('-2');
+  });
+
+  it('should size the compute budget from the simulation and the priority fee policy', async () => {
+    const transaction = new Transaction().add(ComputeBudgetProgram.setComputeUnitLimit({ units: 600000 }));
+
+    const sent = await sender.send(transaction, [payer], { label: 'CLOSE_POSITION' });
+
+    expect(sent.computeUnitLimit).toBe(93500); // 85k simulated plus the 10% margin
+    expect(sent.computeUnitPrice).toBe(4000); // 75th percentile of 5000, capped
+    expect(sent.fee).toBe(5425);
+    // The SDK's own limit is replaced, not duplicated
+    expect(transaction.instructions).toEqual([
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 93500 }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 4000 })
+    ]);
+  });
+
+  it('should raise the priority fee on each resubmission', async () => {
+    sender = new TransactionSender(
+      solanaService,
+      null,
+      { policy: PriorityFeePolicy.PERCENTILE, microLamports: 1000, percentile: 50, maxMicroLamports: 4000, escalation: 2 },
+      0.1,
+      3
+    );
+    const prices: number[] = [];
+    solanaService.sendTransactionWithRetry.mockImplementation(async (transaction: Transaction, _signers: any, options: any) => {
+      for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+        options.beforeAttempt(attempt);
+        // SetComputeUnitPrice data is a one-byte tag followed by the u64 price
+        prices.push(Number(transaction.instructions[1].data.readBigUInt64LE(1)));
+      }
+      return 'sig_3';
+    });
+
+    const sent = await sender.send(new Transaction(), [payer], { label: 'CLOSE_POSITION' });
+
+    expect(prices).toEqual([2000, 4000, 8000]);
+    expect(sent.computeUnitPrice).toBe(8000);
+  });
+
+  it('should estimate the fee when the landed transaction is not yet indexed', async () => {
+    solanaService.getTransactionFee.mockResolvedValue(null);
+
+    const sent = await sender.send(new Transaction(), [payer], { label: 'CLOSE_POSITION' });
+
+    expect(sent.fee).toBe(5000 + 374); // Base fee plus 93,500 CU at 4,000 micro-lamports
+  });
+
+  it('should reject a transaction predicted to spend more than its guard allows', async () => {
+    await expect(sender.send(new Transaction(), [payer], {
+      label: 'ADD_LIQUIDITY',
+      guards: [{ mint, decimals: 6, maxSpend: new Big(1.5) }]
+    })).rejects.toThrow(`Simulation of ADD_LIQUIDITY spends 2 of ${mint.toString()}, above the limit of 1.5`);
+
+    expect(solanaService.sendTransactionWithRetry).not.toHaveBeenCalled();
+  });
+
+  it('should reject a transaction predicted to receive less than its guard requires', async () => {
+    solanaService.simulateTransaction.mockResolvedValue({
+      err: null,
+      logs: [],
+      accounts: [{ data: tokenAccountData(BigInt(5500000)) }]
+    });
+
+    await expect(sender.simulate(new Transaction(), {
+      label: 'SWAP',
+      guards: [{ mint, decimals: 6, minReceive: new Big(0.9) }]
+    })).rejects.toThrow('receives 0.5');
+  });
+
+  it('should skip guards for tokens the wallet holds no account for', async () => {
+    solanaService.getTokenAccountAddress.mockResolvedValue(null);
+
+    const simulation = await sender.simulate(new Transaction(), {
+      label: 'CLOSE_POSITION',
+      guards: [{ mint, decimals: 6, maxSpend: new Big(0) }]
+    });
+
+    expect(solanaService.simulateTransaction).toHaveBeenCalledWith(expect.any(Transaction), []);
+    expect(simulation.balanceChanges).toEqual([]);
+  });
+});
+
+describe('TransactionSender.sendSequence', () => {
+  const payer = Keypair.generate();
+  const programId = Keypair.generate().publicKey;
+  let solanaService: any;
+  let sender: TransactionSender;
+
+  // An SDK-style transaction with one instruction carrying dataSize bytes
+  const sdkTransaction = (dataSize: number): Transaction => new Transaction().add(new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: payer.publicKey, isSigner: true, isWritable: true },
+      { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true }
+    ],
+    data: Buffer.alloc(dataSize)
+  }));
+
+  beforeEach(() => {
+    solanaService = {
+      getPublicKey: () => payer.publicKey,
+      simulateTransaction: jest.fn().mockResolvedValue({ err: null, logs: [], unitsConsumed: 50000 }),
+      getTransactionFee: jest.fn().mockResolvedValue(5000),
+      sendTransactionWithRetry: jest.fn(async (_tx, _signers, options) => {
+        options.beforeAttempt(1);
+        return `sig_${solanaService.sendTransactionWithRetry.mock.calls.length}`;
+      })
+    };
+    sender = new TransactionSender(
+      solanaService,
+      null,
+      { policy: PriorityFeePolicy.FIXED, microLamports: 1000, percentile: 50, maxMicroLamports: 1000, escalation: 1 },
+      0.1,
+      3
+    );
+  });
+
+  it('should merge small transactions into one versioned transaction', async () => {
+    const sent = await sender.sendSequence([sdkTransaction(100), sdkTransaction(100)], [payer], {
+      label: 'CLAIM',
+      poolAddress: 'pool_1'
+    });
+
+    expect(sent).toHaveLength(1);
+    const [transaction] = solanaService.sendTransactionWithRetry.mock.calls[0];
+    expect(transaction).toBeInstanceOf(VersionedTransaction);
+    // Compute limit, compute price and both SDK instructions
+    expect(transaction.message.compiledInstructions).toHaveLength(4);
+  });
+
+  it('should report which steps landed when a later step fails', async () => {
+    solanaService.sendTransactionWithRetry
+      .mockResolvedValueOnce('sig_1')
+      .mockRejectedValueOnce(new Error('Transaction failed: {"InstructionError":[2,{"Custom":1}]}'));
+
+    const error = await sender.sendSequence([sdkTransaction(700), sdkTransaction(700), sdkTransaction(700)], [payer], {
+      label: 'ADD_LIQUIDITY',
+      poolAddress: 'pool_1'
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TransactionSequenceError);
+    expect(error.message).toContain('ADD_LIQUIDITY stopped at step 2 of 3 with 1 landed');
+    expect(error.steps).toEqual([
+      { label: 'ADD_LIQUIDITY 1/3', status: TransactionStepStatus.LANDED, signature: 'sig_1' },
+      expect.objectContaining({ label: 'ADD_LIQUIDITY 2/3', status: TransactionStepStatus.FAILED }),
+      { label: 'ADD_LIQUIDITY 3/3', status: TransactionStepStatus.NOT_SENT }
+    ]);
+  });
+
+  it('should load the pool lookup table with the stable pool accounts the transactions touch', async () => {
+    const lookupTableService: any = {
+      getLookupTable: jest.fn().mockResolvedValue({ key: Keypair.generate().publicKey, state: { addresses: [] } })
+    };
+    sender = new TransactionSender(solanaService, lookupTableService);
+    const transaction = sdkTransaction(10);
+    const [signer, account] = transaction.instructions[0].keys.map(key => key.pubkey);
+    const lookupAccounts = [signer, account, Keypair.generate().publicKey];
+
+    await sender.sendSequence([transaction], [payer], { label: 'CLOSE', poolAddress: 'pool_1', lookupAccounts });
+    await sender.sendSequence([transaction], [payer], { label: 'CLOSE', poolAddress: 'pool_1' });
+
+    // Neither the signer nor the invoked program can be looked up, and without pool accounts no table is used
+    expect(lookupTableService.getLookupTable).toHaveBeenCalledTimes(1);
+    expect(lookupTableService.getLookupTable).toHaveBeenCalledWith('pool_1', [account]);
+  });
+});
+
+describe('simulation parsing', () => {
+  it('should read the amount of a token account and treat a closed account as empty', () => {
+    expect(decodeTokenAmount(tokenAccountData(BigInt(123456789))).toString()).toBe('123456789');
+    expect(decodeTokenAmount(null).toString()).toBe('0');
+  });
+
+  it('should prefer the program error log over the runtime error', () => {
+    const logs = [
+      'Program LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo invoke [1]',
+      'Program log: AnchorError occurred. Error Code: ExceededBinSlippageTolerance.',
+      'Program LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo failed: custom program error: 0x1774'
+    ];
+
+    expect(getSimulationError({ err: { InstructionError: [0, { Custom: 6004 }] }, logs }))
+      .toBe('Program log: AnchorError occurred. Error Code: ExceededBinSlippageTolerance.');
+    expect(getSimulationError({ err: 'BlockhashNotFound', logs: [] })).toBe('"BlockhashNotFound"');
+  });
+});
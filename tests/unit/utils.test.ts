@@ -1,4 +1,4 @@
-import { percentageChange, calculateVolatility, formatCurrency, formatPercentage } from '../../src/utils/math';
+import { percentageChange, calculateVolatility, formatCurrency, formatPercentage, normalQuantile } from '../../src/utils/math';
 import { getErrorMessage } from '../../src/utils/error';
 import Big from 'big.js';
 
@@ -34,6 +34,18 @@ describe('Math Utilities', () => {
     });
   });
 
+  describe('normalQuantile', () => {
+    it('should invert the standard normal distribution', () => {
+      expect(normalQuantile(0.5)).toBeCloseTo(0, 3);
+      expect(normalQuantile(0.975)).toBeCloseTo(1.96, 2);
+      expect(normalQuantile(0.025)).toBeCloseTo(-1.96, 2);
+    });
+
+    it('should reject probabilities outside (0, 1)', () => {
+      expect(() => normalQuantile(1)).toThrow('Probability must be between 0 and 1');
+    });
+  });
+
   describe('formatCurrency', () => {
     it('should format currency with default decimals', () => {
       const result = formatCurrency(new Big(1234.5678));
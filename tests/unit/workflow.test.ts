@@ -0,0 +1,140 @@
+import { WorkflowService, getStepResult } from '../../src/services/workflow';
+import {
+  Workflow,
+  WorkflowDefinition,
+  WorkflowStatus,
+  WorkflowStepStatus
+} from '../../src/types';
+
+// Stores deep copies so tests observe only what was persisted
+const createDatabase = () => {
+  const workflows = new Map<string, Workflow>();
+  const copy = (workflow: Workflow): Workflow => JSON.parse(JSON.stringify(workflow));
+
+  return {
+    workflows,
+    saveWorkflow: jest.fn(async (workflow: Workflow) => {
+      workflows.set(workflow.id, copy(workflow));
+    }),
+    getWorkflowByKey: jest.fn(async (key: string) => {
+      const workflow = Array.from(workflows.values()).find(w => w.idempotencyKey === key);
+      return workflow ? copy(workflow) : null;
+    }),
+    getIncompleteWorkflows: jest.fn(async () =>
+      Array.from(workflows.values()).filter(w => w.status !== WorkflowStatus.COMPLETED).map(copy)
+    )
+  };
+};
+
+describe('WorkflowService', () => {
+  let database: ReturnType<typeof createDatabase>;
+  let service: WorkflowService;
+  let runStep: jest.Mock;
+
+  beforeEach(() => {
+    database = createDatabase();
+    service = new WorkflowService(database as any);
+    runStep = jest.fn(async (_workflow, step) => ({ step: step.name, key: step.idempotencyKey }));
+
+    const definition: WorkflowDefinition = {
+      plan: () => ['close_position', 'create_position'],
+      runStep
+    };
+    service.register('rebalance', definition);
+  });
+
+  it('should run every step in order and persist the result', async () => {
+    const workflow = await service.run('rebalance', 'rebalance:pos_1', { positionId: 'pos_1' });
+
+    expect(workflow.status).toBe(WorkflowStatus.COMPLETED);
+    expect(runStep.mock.calls.map(call => call[1].name)).toEqual(['close_position', 'create_position']);
+    expect(getStepResult(workflow, 'create_position')).toEqual({
+      step: 'create_position',
+      key: 'rebalance:pos_1:1:create_position'
+    });
+    expect(database.workflows.get(workflow.id)?.status).toBe(WorkflowStatus.COMPLETED);
+  });
+
+  it('should not run a completed workflow again', async () => {
+    await service.run('rebalance', 'rebalance:pos_1', { positionId: 'pos_1' });
+    runStep.mockClear();
+
+    const workflow = await service.run('rebalance', 'rebalance:pos_1', { positionId: 'pos_1' });
+
+    expect(workflow.status).toBe(WorkflowStatus.COMPLETED);
+    expect(runStep).not.toHaveBeenCalled();
+  });
+
+  it('should resume an interrupted workflow at the step that was in flight', async () => {
+    // Persisted state of a process that died while creating the new position
+    database.workflows.set('wf_1', {
+      id: 'wf_1',
+      type: 'rebalance',
+      idempotencyKey: 'rebalance:pos_1',
+      status: WorkflowStatus.RUNNING,
+      input: { positionId: 'pos_1' },
+      steps: [
+        { name: 'close_position', idempotencyKey: 'rebalance:pos_1:0:close_position', status: WorkflowStepStatus.COMPLETED, attempts: 1, result: { closed: true } },
+        { name: 'create_position', idempotencyKey: 'rebalance:pos_1:1:create_position', status: WorkflowStepStatus.RUNNING, attempts: 1 }
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    const [workflow] = await service.resumeIncomplete();
+
+    expect(runStep).toHaveBeenCalledTimes(1);
+    expect(runStep.mock.calls[0][1]).toMatchObject({ name: 'create_position', attempts: 2 });
+    expect(workflow.status).toBe(WorkflowStatus.COMPLETED);
+    expect(getStepResult(workflow, 'close_position')).toEqual({ closed: true });
+  });
+
+  it('should mark a failed step and retry it on the next run', async () => {
+    runStep.mockImplementation(async (_workflow, step) => {
+      if (step.name === 'create_position' && step.attempts === 1) {
+        throw new Error('Blockhash expired');
+      }
+      return { step: step.name };
+    });
+
+    const failed = await service.run('rebalance', 'rebalance:pos_1', { positionId: 'pos_1' });
+
+    expect(failed.status).toBe(WorkflowStatus.FAILED);
+    expect(failed.error).toBe('Step create_position failed: Blockhash expired');
+    expect(failed.steps[0].status).toBe(WorkflowStepStatus.COMPLETED);
+    expect(failed.steps[1].status).toBe(WorkflowStepStatus.FAILED);
+
+    const retried = await service.run('rebalance', 'rebalance:pos_1', { positionId: 'pos_1' });
+
+    expect(retried.status).toBe(WorkflowStatus.COMPLETED);
+    expect(runStep.mock.calls.map(call => call[1].name)).toEqual(['close_position', 'create_position', 'create_position']);
+  });
+
+  it('should retry on resume a failed workflow whose earlier steps landed', async () => {
+    runStep.mockImplementation(async (_workflow, step) => {
+      if (step.name === 'create_position' && step.attempts === 1) {
+        throw new Error('Blockhash expired');
+      }
+      return { step: step.name };
+    });
+    await service.run('rebalance', 'rebalance:pos_1', { positionId: 'pos_1' });
+
+    const [retried] = await service.resumeIncomplete();
+
+    expect(retried.status).toBe(WorkflowStatus.COMPLETED);
+    expect(retried.error).toBeUndefined();
+    expect(runStep.mock.calls.map(call => call[1].name)).toEqual(['close_position', 'create_position', 'create_position']);
+  });
+
+  it('should leave a failed workflow that completed no step to its caller', async () => {
+    runStep.mockRejectedValueOnce(new Error('Position not found'));
+    await service.run('rebalance', 'rebalance:pos_1', { positionId: 'pos_1' });
+
+    expect(await service.resumeIncomplete()).toEqual([]);
+    expect(runStep).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject unregistered workflow types', async () => {
+    await expect(service.run('unknown', 'key', {})).rejects.toThrow('Workflow type not registered: unknown');
+  });
+});